@@ -2,8 +2,11 @@ import React from 'react';
 import { render, screen } from '@testing-library/react';
 import App from './App';
 
-test('renders learn react link', () => {
+// jsdom has no Worker, and jest cannot parse the worker's import.meta URL
+jest.mock('./workers/createRecipeSearchWorker', () => ({ createRecipeSearchWorker: jest.fn() }));
+
+test('renders the landing page', () => {
   render(<App />);
-  const linkElement = screen.getByText(/learn react/i);
-  expect(linkElement).toBeInTheDocument();
+  const heading = screen.getByRole('heading', { name: /paint match lab/i });
+  expect(heading).toBeInTheDocument();
 });
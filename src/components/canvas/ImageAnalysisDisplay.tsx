@@ -3,6 +3,10 @@ import { ImageAnalysis } from '../../utils/imageAnalysis';
 import { useTheme } from '../../context/ThemeContext';
 import { Paint } from '../../context/PaintContext';
 import { paintDatabase } from '../../data/paintDatabase';
+import { renderPaint } from '../../utils/spectral';
+import { IlluminantId } from '../../data/illuminants';
+import { hexToRgb, rgbToLab } from '../../utils/colorConversion';
+import { colorDifference, DEFAULT_DELTA_E_OPTIONS, DeltaEOptions } from '../../utils/colorDifference';
 
 interface ImageAnalysisDisplayProps {
   analysis: ImageAnalysis | null;
@@ -50,33 +54,26 @@ const PaintRecommendation: React.FC<{ paint: Paint }> = ({ paint }) => {
 };
 
 // Function to find matching paints for a color
-const findMatchingPaints = (hexColor: string, count: number = 3): Paint[] => {
+const findMatchingPaints = (
+  hexColor: string,
+  count: number = 3,
+  illuminant: IlluminantId = 'D65',
+  deltaEOptions: DeltaEOptions = DEFAULT_DELTA_E_OPTIONS
+): Paint[] => {
   // Collect all paints from the database
   const allPaints: Paint[] = [];
   
   Object.values(paintDatabase.brands).forEach(brand => {
-    allPaints.push(...brand.colors);
+    allPaints.push(...brand.colors.map(paint => renderPaint(paint, illuminant)));
   });
   
-  // Sort by how close they are to the target color (simple RGB distance)
-  // In a real app, you would use a proper color distance algorithm
-  const targetR = parseInt(hexColor.substring(1, 3), 16);
-  const targetG = parseInt(hexColor.substring(3, 5), 16);
-  const targetB = parseInt(hexColor.substring(5, 7), 16);
+  // Sort by how close they are to the target color
+  const targetLab = rgbToLab(hexToRgb(hexColor), illuminant);
   
   return allPaints
     .map(paint => {
-      // Calculate a simple RGB distance
-      // Extract RGB from swatch
-      const r = parseInt(paint.swatch.substring(1, 3), 16);
-      const g = parseInt(paint.swatch.substring(3, 5), 16);
-      const b = parseInt(paint.swatch.substring(5, 7), 16);
-      
-      const distance = Math.sqrt(
-        Math.pow(r - targetR, 2) + 
-        Math.pow(g - targetG, 2) + 
-        Math.pow(b - targetB, 2)
-      );
+      const paintLab = paint.lab || rgbToLab(hexToRgb(paint.swatch), illuminant);
+      const distance = colorDifference(targetLab, paintLab, deltaEOptions);
       
       return { paint, distance };
     })
@@ -1,12 +1,17 @@
 import React, { useState, useRef, useEffect, useCallback, memo } from 'react';
 import { analyzeImage, ImageAnalysis } from '../../utils/imageAnalysis';
 import ImageAnalysisDisplay from './ImageAnalysisDisplay';
+import PaintQuantityPlanner from './PaintQuantityPlanner';
 import { useTheme } from '../../context/ThemeContext';
+import { useSettings } from '../../context/SettingsContext';
+import { usePaint } from '../../context/PaintContext';
+import { ImageColorSource, readImageColorSource } from '../../utils/iccProfile';
 import { useDropzone } from 'react-dropzone';
 import { Loader2, AlertCircle, UploadCloud, CheckCircle } from 'lucide-react';
 
 interface ImageAnalyzerProps {
   preloadedImage?: HTMLImageElement;
+  preloadedColorSource?: ImageColorSource | null;
 }
 
 const MAX_FILE_SIZE = 5 * 1024 * 1024; // 5MB
@@ -17,9 +22,11 @@ const ImagePreview = memo(({ src, alt }: { src: string; alt: string }) => (
   <img src={src} alt={alt} className="max-w-full max-h-[600px] object-contain rounded-lg shadow-md" />
 ));
 
-const ImageAnalyzer: React.FC<ImageAnalyzerProps> = ({ preloadedImage }) => {
+const ImageAnalyzer: React.FC<ImageAnalyzerProps> = ({ preloadedImage, preloadedColorSource = null }) => {
   const { theme } = useTheme();
   const isDark = theme === 'dark';
+  const { illuminant, deltaE } = useSettings();
+  const { getAllPaints } = usePaint();
 
   // State variables
   const [imagePreviewUrl, setImagePreviewUrl] = useState<string | null>(null);
@@ -33,6 +40,14 @@ const ImageAnalyzer: React.FC<ImageAnalyzerProps> = ({ preloadedImage }) => {
   const analysisTimeoutRef = useRef<NodeJS.Timeout | null>(null);
   // Keep fileInputRef if direct click-to-upload is still desired alongside dropzone
   const fileInputRef = useRef<HTMLInputElement>(null);
+  // Latest viewing settings, read by the memoized analysis handler
+  const illuminantRef = useRef(illuminant);
+  const deltaERef = useRef(deltaE);
+  // Paints the recommendations may use (owned tubes or selected brands)
+  const paintsRef = useRef(getAllPaints);
+  paintsRef.current = getAllPaints;
+  // Embedded color profile and unmanaged pixels of the current image
+  const colorSourceRef = useRef<ImageColorSource | null>(null);
 
   console.log(`[ImageAnalyzer Render] Prop: ${preloadedImage?.src}, State Preview URL: ${!!imagePreviewUrl}, Ref: ${imageRef.current?.src}`);
 
@@ -54,6 +69,7 @@ const ImageAnalyzer: React.FC<ImageAnalyzerProps> = ({ preloadedImage }) => {
     setUploadError(null);
     setImagePreviewUrl(null);
     imageRef.current = null;
+    colorSourceRef.current = null;
     if (fileInputRef.current) {
       fileInputRef.current.value = ''; // Reset file input
     }
@@ -67,6 +83,7 @@ const ImageAnalyzer: React.FC<ImageAnalyzerProps> = ({ preloadedImage }) => {
         console.log("[ImageAnalyzer Prop Effect] Valid preloadedImage received. Updating ref and generating data URL.");
         cleanup(); // Clean up previous state first
         imageRef.current = preloadedImage;
+        colorSourceRef.current = preloadedColorSource;
         try {
           // Generate data URL from the preloaded image for consistent preview
           const canvas = document.createElement('canvas');
@@ -93,7 +110,7 @@ const ImageAnalyzer: React.FC<ImageAnalyzerProps> = ({ preloadedImage }) => {
         cleanup();
       }
     }
-  }, [preloadedImage, cleanup, imagePreviewUrl]); // Added cleanup and imagePreviewUrl dependency
+  }, [preloadedImage, preloadedColorSource, cleanup, imagePreviewUrl]); // Added cleanup and imagePreviewUrl dependency
 
   // --- Image Processing Logic (Unified for Drop and File Change) ---
   const processImageFile = useCallback((file: File) => {
@@ -140,8 +157,13 @@ const ImageAnalyzer: React.FC<ImageAnalyzerProps> = ({ preloadedImage }) => {
         setImagePreviewUrl(dataUrl); // Set preview URL
         setIsImageLoading(false);
 
-        // Automatically trigger analysis after successful load
-        handleAnalyze(); // Analyze using the image in imageRef
+        // Read the embedded color profile, then automatically trigger analysis
+        readImageColorSource(file)
+          .catch(() => null)
+          .then(source => {
+            colorSourceRef.current = source;
+            handleAnalyze(); // Analyze using the image in imageRef
+          });
       };
       img.onerror = () => {
         console.error("Error loading image from data URL");
@@ -237,7 +259,12 @@ const ImageAnalyzer: React.FC<ImageAnalyzerProps> = ({ preloadedImage }) => {
 
     try {
       // Pass the HTMLImageElement directly to analyzeImage
-      const analysisResult = await analyzeImage(currentImage);
+      const analysisResult = await analyzeImage(currentImage, {
+        illuminant: illuminantRef.current,
+        deltaE: deltaERef.current,
+        colorSource: colorSourceRef.current,
+        paints: paintsRef.current()
+      });
       console.log("Analysis complete:", analysisResult);
 
       if (analysisTimeoutRef.current) { // Clear timeout if analysis completes in time
@@ -263,6 +290,16 @@ const ImageAnalyzer: React.FC<ImageAnalyzerProps> = ({ preloadedImage }) => {
     }
   }, []);
 
+  // Re-analyze the current image when the viewing illuminant or color-difference metric changes
+  useEffect(() => {
+    if (illuminantRef.current === illuminant && deltaERef.current === deltaE) return;
+    illuminantRef.current = illuminant;
+    deltaERef.current = deltaE;
+    if (imageRef.current) {
+      handleAnalyze();
+    }
+  }, [illuminant, deltaE, handleAnalyze]);
+
   // --- Dropzone Setup ---
   const { getRootProps, getInputProps, isDragAccept, isDragReject } = useDropzone({
     onDrop,
@@ -404,7 +441,10 @@ const ImageAnalyzer: React.FC<ImageAnalyzerProps> = ({ preloadedImage }) => {
           {/* Right Column: Analysis Display */}
            <div className="w-full">
              {imageAnalysis ? (
-               <ImageAnalysisDisplay analysis={imageAnalysis} />
+               <>
+                 <ImageAnalysisDisplay analysis={imageAnalysis} />
+                 <PaintQuantityPlanner analysis={imageAnalysis} />
+               </>
              ) : (
                // Placeholder or message if no analysis yet
                <div className={`p-4 rounded-lg text-center ${isDark ? 'bg-gray-800' : 'bg-gray-100'}`}>
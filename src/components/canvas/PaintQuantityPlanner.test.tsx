@@ -0,0 +1,93 @@
+import React from 'react';
+import { render, screen } from '@testing-library/react';
+import { ThemeProvider } from '../../context/ThemeContext';
+import { SettingsProvider } from '../../context/SettingsContext';
+import { ColorProvider } from '../../context/ColorContext';
+import { PaintProvider } from '../../context/PaintContext';
+import { ImageAnalysis } from '../../utils/imageAnalysis';
+import { installMockSearchWorker, MockSearchWorker } from '../../testing/searchWorker';
+import PaintQuantityPlanner from './PaintQuantityPlanner';
+
+jest.mock('../../workers/createRecipeSearchWorker', () => require('../../testing/searchWorker'));
+
+const WN = "Winsor & Newton Artists' Oil Colour";
+
+const analysis: ImageAnalysis = {
+  dominantColors: [
+    { color: '#8fa3c8', percentage: 60, lab: [66, 0, -22] },
+    { color: '#a0583a', percentage: 40, lab: [45, 25, 30] }
+  ],
+  temperatureAnalysis: { overall: 'cool', warmPercentage: 40, coolPercentage: 60, neutralPercentage: 0 },
+  chromaAnalysis: { overall: 'medium', highChromaPercentage: 0, mediumChromaPercentage: 100, lowChromaPercentage: 0 },
+  valueRange: {
+    overall: 'medium contrast',
+    darkPercentage: 0,
+    midtonePercentage: 100,
+    lightPercentage: 0,
+    min: 45,
+    max: 66,
+    darkest: '#a0583a',
+    average: '#98806f',
+    lightest: '#8fa3c8',
+    contrast: 'medium'
+  },
+  recommendedPalette: {
+    primary: ['#ffffff', '#1f3a93', '#a0522d'],
+    secondary: [],
+    accents: [],
+    primaryBrand: WN,
+    paints: [
+      { name: 'Titanium White', brand: WN, hex: '#ffffff' },
+      { name: 'French Ultramarine', brand: WN, hex: '#1f3a93' },
+      { name: 'Burnt Sienna', brand: WN, hex: '#a0522d' }
+    ]
+  },
+  distantHues: [],
+  recommendedApproach: '',
+  mixingStrategy: ''
+};
+
+const renderPlanner = () => render(
+  <ThemeProvider>
+    <SettingsProvider>
+      <ColorProvider>
+        <PaintProvider>
+          <PaintQuantityPlanner analysis={analysis} />
+        </PaintProvider>
+      </ColorProvider>
+    </SettingsProvider>
+  </ThemeProvider>
+);
+
+describe('PaintQuantityPlanner', () => {
+  installMockSearchWorker();
+
+  it('shows a pending state while the worker mixes the dominant colors', async () => {
+    renderPlanner();
+    expect(screen.getByText('Mixing the dominant colors from your paints…')).toBeInTheDocument();
+
+    expect(await screen.findByText('Shopping List')).toBeInTheDocument();
+    expect(screen.queryByText('Mixing the dominant colors from your paints…')).not.toBeInTheDocument();
+  });
+
+  it('mixes every dominant color from the recommended paints in the worker', async () => {
+    renderPlanner();
+    await screen.findByText(/^Mixed Colors/);
+
+    const searches = MockSearchWorker.searches.flatMap(search => (search.type === 'search' ? [search.request] : []));
+    expect(searches.map(request => request.target)).toEqual([
+      { L: 66, a: 0, b: -22 },
+      { L: 45, a: 25, b: 30 }
+    ]);
+    searches.forEach(request => {
+      expect(request.paints.map(paint => paint.name).sort()).toEqual(['Burnt Sienna', 'French Ultramarine', 'Titanium White']);
+    });
+
+    // Mixed colors are the rows that show their share of the canvas
+    const mixed = screen.getAllByRole('listitem').filter(item => /\d+%/.test(item.textContent || ''));
+    expect(mixed).toHaveLength(2);
+    mixed.forEach(item => expect(item).not.toHaveTextContent('No recipe found'));
+    expect(mixed[0]).toHaveTextContent('60%');
+    expect(mixed[1]).toHaveTextContent('40%');
+  });
+});
@@ -0,0 +1,267 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { ShoppingCart } from 'lucide-react';
+import { useTheme } from '../../context/ThemeContext';
+import { usePaint, Paint, MixingRecipe } from '../../context/PaintContext';
+import { useSettings } from '../../context/SettingsContext';
+import { ImageAnalysis } from '../../utils/imageAnalysis';
+import { DEFAULT_MIXING_CONSTRAINTS, toMixingConstraints } from '../../utils/mixingEngine';
+import {
+  CanvasSpec,
+  DEFAULT_TUBE_SIZE_ML,
+  PAINT_FILMS,
+  PaintFilmId,
+  PALETTE_WASTE,
+  planPaintQuantities
+} from '../../utils/paintQuantity';
+import { findSubstitute, PaintEquivalent } from '../../utils/paintEquivalents';
+import { createRecipeSearchClient } from '../../workers/recipeSearchClient';
+
+interface PaintQuantityPlannerProps {
+  analysis: ImageAnalysis;
+}
+
+// Tubes assumed on hand when there is no inventory and the user has not said otherwise
+const DEFAULT_TUBES_ON_HAND = 1;
+
+type MixedColor = { color: string; coverage: number; recipe: MixingRecipe | null };
+
+const PaintQuantityPlanner: React.FC<PaintQuantityPlannerProps> = ({ analysis }) => {
+  const { theme } = useTheme();
+  const isDark = theme === 'dark';
+  const { getAllPaints, getCatalogPaints, inventory, isUsingInventory } = usePaint();
+  const { illuminant, deltaE, mixingEngine, recipeConstraints } = useSettings();
+  const [canvas, setCanvas] = useState<CanvasSpec>({ widthCm: 40, heightCm: 50, film: 'alla-prima', layers: 2 });
+  const [tubesOnHand, setTubesOnHand] = useState<Record<string, number>>({});
+
+  // The planner's own search client, so its searches don't cancel the recipe panel's
+  const searchClient = useMemo(() => createRecipeSearchClient(), []);
+  useEffect(() => () => searchClient.dispose(), [searchClient]);
+
+  // Null while the dominant colors are being mixed
+  const [mixedColors, setMixedColors] = useState<MixedColor[] | null>(null);
+
+  // Mix each dominant color from the recommended palette, or from all paints on hand
+  // when too few recommended paints are known. The searches run one after another
+  // in the recipe search worker; a change of inputs cancels the ones in flight.
+  useEffect(() => {
+    const recommended = (analysis.recommendedPalette.paints || [])
+      .map(rec => getCatalogPaints().find(paint => paint.name === rec.name && paint.brand === rec.brand))
+      .filter((paint): paint is Paint => !!paint);
+    const paints = recommended.length >= 2 ? recommended : getAllPaints();
+    let cancelled = false;
+
+    const mixAll = async (): Promise<MixedColor[]> => {
+      const mixed: MixedColor[] = [];
+      for (const dominant of analysis.dominantColors) {
+        const [L, a, b] = dominant.lab;
+        const result = paints.length > 0
+          ? await searchClient.search(mixingEngine, {
+            target: { L, a, b },
+            paints,
+            constraints: toMixingConstraints(recipeConstraints, { ...DEFAULT_MIXING_CONSTRAINTS, maxRecipes: 1 }),
+            illuminant,
+            deltaE
+          })
+          : null;
+        if (cancelled) break;
+        mixed.push({ color: dominant.color, coverage: dominant.percentage / 100, recipe: result?.recipes[0] || null });
+      }
+      return mixed;
+    };
+
+    setMixedColors(null);
+    mixAll()
+      .then(mixed => {
+        if (!cancelled) setMixedColors(mixed);
+      })
+      .catch(error => {
+        console.error('Error mixing dominant colors:', error);
+        if (!cancelled) setMixedColors(analysis.dominantColors.map(dominant => ({
+          color: dominant.color,
+          coverage: dominant.percentage / 100,
+          recipe: null
+        })));
+      });
+
+    return () => {
+      cancelled = true;
+      searchClient.cancel();
+    };
+  }, [searchClient, analysis, getAllPaints, getCatalogPaints, mixingEngine, recipeConstraints, illuminant, deltaE]);
+
+  // Tubes on hand come from the inventory unless overridden here
+  const getTubesOnHand = useCallback((paintId: string): number =>
+    tubesOnHand[paintId] ?? (isUsingInventory ? inventory[paintId] || 0 : DEFAULT_TUBES_ON_HAND),
+    [tubesOnHand, inventory, isUsingInventory]
+  );
+  
+  const plan = useMemo(() => {
+    if (!mixedColors) return null;
+    const onHand: Record<string, number> = {};
+    mixedColors.forEach(({ recipe }) => recipe?.paints.forEach(({ paint }) => {
+      onHand[paint.id] = getTubesOnHand(paint.id);
+    }));
+    return planPaintQuantities(mixedColors, canvas, onHand);
+  }, [mixedColors, canvas, getTubesOnHand]);
+
+  // An owned tube that can stand in for each paint still to buy
+  const substitutes = useMemo(() => {
+    if (!plan || !isUsingInventory) return {};
+    const owned = getCatalogPaints().filter(paint => (inventory[paint.id] || 0) > 0);
+    const found: Record<string, PaintEquivalent | null> = {};
+    Object.values(plan.shoppingList).flat().forEach(planned => {
+      found[planned.paint.id] = findSubstitute(planned.paint, owned.filter(paint => paint.id !== planned.paint.id), deltaE);
+    });
+    return found;
+  }, [plan, isUsingInventory, inventory, getCatalogPaints, deltaE]);
+
+  const updateCanvas = (changes: Partial<CanvasSpec>) => setCanvas(prev => ({ ...prev, ...changes }));
+
+  const inputClass = `w-full rounded px-2 py-1 text-sm border ${isDark ? 'bg-gray-700 border-gray-600 text-white' : 'bg-white border-gray-300 text-gray-800'}`;
+  const labelClass = `block text-xs mb-1 ${isDark ? 'text-gray-400' : 'text-gray-500'}`;
+  const mutedClass = isDark ? 'text-gray-400' : 'text-gray-500';
+
+  return (
+    <div className={`mt-6 p-4 rounded-lg shadow-md ${isDark ? 'bg-gray-800 text-gray-200' : 'bg-white text-gray-800'}`}>
+      <h3 className="text-lg font-serif mb-1">Paint Quantity Planner</h3>
+      <p className={`text-xs mb-3 ${mutedClass}`}>
+        Estimates paint use from each dominant color's share of the canvas, including {Math.round(PALETTE_WASTE * 100)}% palette waste.
+      </p>
+
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 mb-4">
+        <label>
+          <span className={labelClass}>Width (cm)</span>
+          <input
+            type="number"
+            min={1}
+            value={canvas.widthCm}
+            onChange={(e) => updateCanvas({ widthCm: Math.max(0, Number(e.target.value) || 0) })}
+            className={inputClass}
+          />
+        </label>
+        <label>
+          <span className={labelClass}>Height (cm)</span>
+          <input
+            type="number"
+            min={1}
+            value={canvas.heightCm}
+            onChange={(e) => updateCanvas({ heightCm: Math.max(0, Number(e.target.value) || 0) })}
+            className={inputClass}
+          />
+        </label>
+        <label>
+          <span className={labelClass}>Film</span>
+          <select
+            value={canvas.film}
+            onChange={(e) => updateCanvas({ film: e.target.value as PaintFilmId })}
+            className={inputClass}
+          >
+            {Object.values(PAINT_FILMS).map(film => (
+              <option key={film.id} value={film.id}>{film.name} ({film.thicknessMm} mm)</option>
+            ))}
+          </select>
+        </label>
+        <label>
+          <span className={labelClass}>Layers</span>
+          <input
+            type="number"
+            min={1}
+            value={canvas.layers}
+            onChange={(e) => updateCanvas({ layers: Math.max(1, Math.round(Number(e.target.value)) || 1) })}
+            className={inputClass}
+          />
+        </label>
+      </div>
+
+      {!plan ? (
+        <p className={`text-sm ${mutedClass}`}>Mixing the dominant colors from your paints…</p>
+      ) : (
+        <>
+          {/* Mixed colors */}
+          <h4 className="text-sm font-medium mb-2">Mixed Colors · {plan.totalMillilitres.toFixed(1)} ml in total</h4>
+          <ul className="space-y-1 mb-4">
+            {plan.colors.map((color, index) => (
+              <li key={index} className="flex items-center text-sm">
+                <div className="w-5 h-5 rounded mr-2 border border-gray-300 flex-shrink-0" style={{ backgroundColor: color.color }} />
+                <span className="flex-1 min-w-0 truncate">
+                  {color.recipe
+                    ? color.recipe.paints.map(({ paint }) => paint.name).join(' + ')
+                    : 'No recipe found'}
+                </span>
+                <span className={`ml-2 text-xs ${mutedClass}`}>{Math.round(color.coverage * 100)}%</span>
+                <span className="ml-3 w-16 text-right">{color.millilitres.toFixed(1)} ml</span>
+              </li>
+            ))}
+          </ul>
+
+          {/* Tube paints */}
+          <h4 className="text-sm font-medium mb-2">Tube Paints</h4>
+          <ul className="space-y-1 mb-4">
+            {plan.paints.map(planned => (
+              <li key={planned.paint.id} className="flex items-center text-sm">
+                <div className="w-5 h-5 rounded mr-2 border border-gray-300 flex-shrink-0" style={{ backgroundColor: planned.paint.swatch }} />
+                <span className="flex-1 min-w-0 truncate" title={planned.paint.brand}>{planned.paint.name}</span>
+                <span className="ml-2 w-16 text-right">{planned.millilitres.toFixed(1)} ml</span>
+                <label className={`ml-3 flex items-center text-xs ${mutedClass}`}>
+                  <input
+                    type="number"
+                    min={0}
+                    value={getTubesOnHand(planned.paint.id)}
+                    onChange={(e) => setTubesOnHand(prev => ({
+                      ...prev,
+                      [planned.paint.id]: Math.max(0, Math.round(Number(e.target.value)) || 0)
+                    }))}
+                    className={`w-12 mr-1 rounded px-1 py-0.5 border ${isDark ? 'bg-gray-700 border-gray-600 text-white' : 'bg-white border-gray-300 text-gray-800'}`}
+                  />
+                  tubes
+                </label>
+                <span className={`ml-3 w-20 text-right text-xs ${planned.sufficient
+                  ? (isDark ? 'text-green-300' : 'text-green-700')
+                  : (isDark ? 'text-amber-300' : 'text-amber-700')}`}
+                >
+                  {planned.sufficient ? 'Enough' : `Short ${(planned.millilitres - planned.onHandMillilitres).toFixed(1)} ml`}
+                </span>
+              </li>
+            ))}
+          </ul>
+
+          {/* Shopping list */}
+          <h4 className="text-sm font-medium mb-2 flex items-center">
+            <ShoppingCart className="w-4 h-4 mr-1" />
+            Shopping List
+          </h4>
+          {Object.keys(plan.shoppingList).length === 0 ? (
+            <p className={`text-sm ${mutedClass}`}>Your tubes on hand cover this painting.</p>
+          ) : (
+            <div className="space-y-2">
+              {Object.entries(plan.shoppingList).map(([brand, paints]) => (
+                <div key={brand}>
+                  <p className={`text-xs font-medium ${mutedClass}`}>{brand}</p>
+                  <ul className="text-sm list-disc pl-5">
+                    {paints.map(planned => {
+                      const substitute = substitutes[planned.paint.id];
+                      return (
+                        <li key={planned.paint.id}>
+                          {planned.tubesToBuy} × {planned.paint.name} ({DEFAULT_TUBE_SIZE_ML} ml)
+                          {substitute && (
+                            <span className={`block text-xs ${mutedClass}`}>
+                              Or use your {substitute.paint.name} ({substitute.paint.brand}
+                              {substitute.sharedPigments.length > 0 ? `, same ${substitute.sharedPigments.join(', ')}` : ''}
+                              {substitute.deltaE !== null ? `, ΔE ${substitute.deltaE.toFixed(1)}` : ''})
+                            </span>
+                          )}
+                        </li>
+                      );
+                    })}
+                  </ul>
+                </div>
+              ))}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default PaintQuantityPlanner;
@@ -1,69 +1,47 @@
-import React, { useRef, useState, useEffect } from 'react';
+import React, { useRef, useState, useEffect, useCallback } from 'react';
 import { useTheme } from '../../context/ThemeContext';
-import { useColor } from '../../context/ColorContext';
+import { useColor, RGBColor, LABColor, SelectedColor } from '../../context/ColorContext';
 import { usePaint } from '../../context/PaintContext';
-import { rgbToHex, rgbToLab } from '../../utils/colorConversion';
+import { useSettings } from '../../context/SettingsContext';
+import { adaptLab, labToRgb, rgbToHex } from '../../utils/colorConversion';
+import {
+  ImageColorSource,
+  describeColorSource,
+  getSourcePixels,
+  sourceRgbToLab,
+  sourceRgbToSrgb
+} from '../../utils/iccProfile';
+import { checkPaletteGamut } from '../../utils/paletteGamut';
+import { formatMunsell, labToMunsell, munsellToLab, parseMunsell } from '../../utils/munsell';
 import BrandSelector from '../paint/BrandSelector';
 import PaintMixingDisplay from '../paint/PaintMixingDisplay';
+import GlazingPanel from '../paint/GlazingPanel';
 
 interface ColorPickerProps {
   image: HTMLImageElement;
+  colorSource?: ImageColorSource | null;
 }
 
-const ColorPicker: React.FC<ColorPickerProps> = ({ image }) => {
+const ColorPicker: React.FC<ColorPickerProps> = ({ image, colorSource = null }) => {
   const { theme } = useTheme();
   const isDark = theme === 'dark';
   const { selectedColor, setSelectedColor } = useColor();
-  const { selectedBrands, findPaintMixtures, recipes, setRecipes } = usePaint();
+  const { getAllPaints, findPaintMixtures, cancelPaintMixtures, recipes, setRecipes, paletteGamut } = usePaint();
+  // Paints from the inventory, or from the selected brands when there is none
+  const hasPaints = getAllPaints().length > 0;
+  const { illuminant, deltaE } = useSettings();
   
   const canvasRef = useRef<HTMLCanvasElement>(null);
+  // Pixels in the image's own color space, when it carries a supported profile
+  const sourcePixelsRef = useRef<Uint8ClampedArray | null>(null);
   const [hoveredColor, setHoveredColor] = useState<string | null>(null);
   const [isCanvasReady, setIsCanvasReady] = useState<boolean>(false);
   const [magnifierPosition, setMagnifierPosition] = useState({ x: 0, y: 0 });
   const [showMagnifier, setShowMagnifier] = useState(false);
   const [pixelData, setPixelData] = useState<Uint8ClampedArray | null>(null);
   const [magnificationFactor] = useState(3); // Magnification factor for zooming
-  
-  // DEBUG: Create a test recipe to verify display
-  const testRecipe = {
-    paints: [
-      {
-        paint: {
-          id: "test-paint-1",
-          brand: "Debug Brand",
-          name: "Test Titanium White",
-          pigmentCodes: ["PW6"],
-          opacity: "O" as const,
-          binder: "Oil",
-          lightfastness: "I",
-          series: "1",
-          tintingStrength: "High" as const,
-          lab: { L: 95, a: 0, b: 2 },
-          swatch: "#FFFFFF"
-        },
-        proportion: 0.7
-      },
-      {
-        paint: {
-          id: "test-paint-2",
-          brand: "Debug Brand",
-          name: "Test Ultramarine Blue",
-          pigmentCodes: ["PB29"],
-          opacity: "SO" as const,
-          binder: "Oil",
-          lightfastness: "I",
-          series: "2",
-          tintingStrength: "Medium" as const,
-          lab: { L: 40, a: 15, b: -48 },
-          swatch: "#1A237E"
-        },
-        proportion: 0.3
-      }
-    ],
-    matchPercentage: 85.5,
-    estimatedLabColor: { L: 80, a: 5, b: -20 },
-    estimatedHexColor: "#AABBDD"
-  };
+  const [munsellInput, setMunsellInput] = useState('');
+  const [munsellError, setMunsellError] = useState<string | null>(null);
   
   // Initialize canvas with image when component mounts
   useEffect(() => {
@@ -92,30 +70,79 @@ const ColorPicker: React.FC<ColorPickerProps> = ({ image }) => {
     
     // Draw the image on the canvas
     ctx.drawImage(image, 0, 0, width, height);
+    sourcePixelsRef.current = getSourcePixels(colorSource, canvas.width, canvas.height);
     setIsCanvasReady(true);
-  }, [image]);
+  }, [image, colorSource]);
+  
+  // Reads a pixel in the image's own color space, falling back to the displayed sRGB pixel
+  const readSourcePixel = useCallback((x: number, y: number, displayed: RGBColor): RGBColor => {
+    const pixels = sourcePixelsRef.current;
+    const canvas = canvasRef.current;
+    if (!pixels || !canvas) return displayed;
+    
+    const index = (y * canvas.width + x) * 4;
+    return { r: pixels[index], g: pixels[index + 1], b: pixels[index + 2] };
+  }, []);
+  
+  // Flags colors the selected paints cannot mix and finds the closest one they can
+  const mapToPaletteGamut = useCallback((lab: LABColor): Pick<SelectedColor, 'isOutOfGamut' | 'gamutMapped'> => {
+    if (!paletteGamut) return { isOutOfGamut: false, gamutMapped: undefined };
+    
+    const check = checkPaletteGamut(lab, paletteGamut, deltaE);
+    if (!check.isOutOfGamut) return { isOutOfGamut: false, gamutMapped: undefined };
+    
+    return {
+      isOutOfGamut: true,
+      gamutMapped: {
+        lab: check.nearest.lab,
+        hex: rgbToHex(labToRgb(check.nearest.lab, illuminant)),
+        deltaE: check.deltaE
+      }
+    };
+  }, [paletteGamut, deltaE, illuminant]);
+  
+  // Re-express the selected color relative to the viewing illuminant and the
+  // current palette gamut when either changes
+  useEffect(() => {
+    if (!selectedColor) return;
+    
+    const coords = selectedColor.pixelCoords;
+    const munsellLab = selectedColor.munsellTarget && munsellToLab(selectedColor.munsellTarget);
+    const sourceRgb = coords ? readSourcePixel(coords.x, coords.y, selectedColor.rgb) : selectedColor.rgb;
+    const lab = munsellLab
+      ? adaptLab(munsellLab, 'D65', illuminant)
+      : sourceRgbToLab(sourceRgb, coords ? colorSource : null, illuminant);
+    const gamut = mapToPaletteGamut(lab);
+    const current = selectedColor.lab;
+    const labChanged = !current || current.L !== lab.L || current.a !== lab.a || current.b !== lab.b;
+    const gamutChanged = !!selectedColor.isOutOfGamut !== gamut.isOutOfGamut
+      || selectedColor.gamutMapped?.hex !== gamut.gamutMapped?.hex
+      || selectedColor.gamutMapped?.deltaE !== gamut.gamutMapped?.deltaE;
+    if (labChanged || gamutChanged) {
+      setSelectedColor({ ...selectedColor, lab, ...gamut });
+    }
+  }, [illuminant, selectedColor, setSelectedColor, colorSource, readSourcePixel, mapToPaletteGamut]);
   
-  // Clear recipes when selected brands change
+  // Clear recipes when the available paints change
   useEffect(() => {
-    if (selectedColor && selectedBrands.length > 0) {
-      // Re-calculate recipes when brands change
-      const newRecipes = findPaintMixtures(selectedColor.lab!);
-      setRecipes(newRecipes);
-    } else if (selectedBrands.length === 0) {
-      // Clear recipes if no brands are selected
+    if (selectedColor && hasPaints) {
+      // Re-calculate recipes when the paints change
+      findPaintMixtures(selectedColor.gamutMapped?.lab ?? selectedColor.lab!);
+    } else if (!hasPaints) {
+      // Clear recipes if there are no paints to mix
+      cancelPaintMixtures();
       setRecipes([]);
     }
-  }, [selectedBrands, selectedColor, findPaintMixtures, setRecipes]);
+  }, [hasPaints, getAllPaints, selectedColor, findPaintMixtures, cancelPaintMixtures, setRecipes]);
   
-  // Generate recipes whenever selectedColor changes
+  // Generate recipes whenever selectedColor changes; a search already running
+  // for the same target is reused rather than restarted
   useEffect(() => {
-    if (selectedColor && selectedColor.lab && selectedBrands.length > 0) {
+    if (selectedColor && selectedColor.lab && hasPaints) {
       console.log('Auto-generating recipes based on selected color change');
-      const autoRecipes = findPaintMixtures(selectedColor.lab);
-      console.log(`Auto-generated ${autoRecipes.length} recipes`);
-      setRecipes(autoRecipes);
+      findPaintMixtures(selectedColor.gamutMapped?.lab ?? selectedColor.lab);
     }
-  }, [selectedColor, selectedBrands, findPaintMixtures, setRecipes]);
+  }, [selectedColor, hasPaints, findPaintMixtures]);
   
   // Handle mouse move to show color under cursor
   const handleMouseMove = (e: React.MouseEvent<HTMLCanvasElement>) => {
@@ -152,55 +179,67 @@ const ColorPicker: React.FC<ColorPickerProps> = ({ image }) => {
     
     console.log('DEBUG: Click handler triggered, pixelData available');
     
-    // Create RGB color from pixel data
-    const rgb = { r: pixelData[0], g: pixelData[1], b: pixelData[2] };
+    // Read the pixel in the image's own color space; the displayed RGB is sRGB
+    const pixelCoords = { x: magnifierPosition.x, y: magnifierPosition.y };
+    const sourceRgb = readSourcePixel(pixelCoords.x, pixelCoords.y, { r: pixelData[0], g: pixelData[1], b: pixelData[2] });
+    const rgb = sourceRgbToSrgb(sourceRgb, colorSource);
     
-    // Convert to LAB for better color analysis
-    const lab = rgbToLab(rgb);
+    // Convert to LAB under the viewing illuminant for better color analysis
+    const lab = sourceRgbToLab(sourceRgb, colorSource, illuminant);
     console.log('Selected color in LAB:', lab);
     
+    // Out-of-gamut colors are matched against the closest color the palette can mix
+    const gamut = mapToPaletteGamut(lab);
+    const recipeTarget = gamut.gamutMapped?.lab ?? lab;
+    
     // Set the selected color in context
     const newColor = {
       rgb,
       lab,
-      hex: rgbToHex(rgb)
+      hex: rgbToHex(rgb),
+      pixelCoords,
+      ...gamut
     };
     
     setSelectedColor(newColor);
     console.log('Setting new selected color:', newColor);
     
-    // Find paint mixtures based on the selected color if brands are selected
-    if (selectedBrands.length > 0) {
-      console.log('Finding recipes for selected color, brands:', selectedBrands);
+    // Find paint mixtures based on the selected color if there are paints to mix
+    if (hasPaints) {
+      console.log('Finding recipes for selected color');
       
-      try {
-        // Explicitly request fresh recipes based on the selected color
-        const newRecipes = findPaintMixtures(lab);
-        console.log('Generated recipes count:', newRecipes.length);
-        
-        if (newRecipes.length > 0) {
-          console.log('First recipe:', {
-            paints: newRecipes[0].paints.map(p => p.paint.name),
-            match: newRecipes[0].matchPercentage.toFixed(1) + '%'
-          });
-        } else {
-          console.warn('No recipes were generated');
-        }
-        
-        // Set the recipes in the paint context
-        setRecipes(newRecipes);
-        
-        // Verify the recipes were set correctly
-        console.log('Recipe state after update should match the generated recipes');
-      } catch (error) {
-        console.error('Error generating recipes:', error);
-      }
+      // Searches in the background; any search for a previous pixel is cancelled
+      findPaintMixtures(recipeTarget);
     } else {
-      console.log('No brands selected, skipping recipe generation');
-      setRecipes([]); // Clear recipes if no brands selected
+      console.log('No paints available, skipping recipe generation');
+      cancelPaintMixtures();
+      setRecipes([]); // Clear recipes if there are no paints
     }
   };
   
+  // Use a typed Munsell notation as the target, read as its daylight appearance
+  const handleMunsellSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    
+    const munsell = parseMunsell(munsellInput);
+    const munsellLab = munsell && munsellToLab(munsell);
+    if (!munsell || !munsellLab) {
+      setMunsellError('Enter Munsell notation such as 5R 4/14 or N 5/');
+      return;
+    }
+    
+    setMunsellError(null);
+    const rgb = labToRgb(munsellLab);
+    const lab = adaptLab(munsellLab, 'D65', illuminant);
+    setSelectedColor({
+      rgb,
+      lab,
+      hex: rgbToHex(rgb),
+      munsellTarget: munsell,
+      ...mapToPaletteGamut(lab)
+    });
+  };
+  
   // Helper to determine if a section should be shown
   const showColorInfo = hoveredColor !== null;
   const showSelectedColor = selectedColor !== null;
@@ -220,6 +259,31 @@ const ColorPicker: React.FC<ColorPickerProps> = ({ image }) => {
               Click on any point in the image to select a color for analysis.
               Try to select mid-tones rather than highlights or shadows for best results.
             </p>
+            <p className={`mb-4 text-sm ${isDark ? 'text-gray-400' : 'text-gray-500'}`}>
+              Color profile: {describeColorSource(colorSource)}
+            </p>
+            <form onSubmit={handleMunsellSubmit} className="mb-4">
+              <div className="flex gap-2">
+                <input
+                  type="text"
+                  value={munsellInput}
+                  onChange={(e) => setMunsellInput(e.target.value)}
+                  placeholder="Or type a Munsell target, e.g. 5R 4/14"
+                  className={`flex-1 p-2 rounded-md border text-sm font-mono ${
+                    isDark ? 'bg-gray-700 border-gray-600 text-gray-100' : 'bg-white border-gray-300 text-gray-800'
+                  }`}
+                />
+                <button
+                  type="submit"
+                  className="bg-pigment-600 hover:bg-pigment-700 text-white py-1 px-3 rounded-md text-sm"
+                >
+                  Set target
+                </button>
+              </div>
+              {munsellError && (
+                <p className={`mt-1 text-xs ${isDark ? 'text-red-300' : 'text-red-600'}`}>{munsellError}</p>
+              )}
+            </form>
           </div>
           
           <div className="relative inline-block">
@@ -322,9 +386,41 @@ const ColorPicker: React.FC<ColorPickerProps> = ({ image }) => {
                       LAB: {selectedColor.lab.L.toFixed(1)}, {selectedColor.lab.a.toFixed(1)}, {selectedColor.lab.b.toFixed(1)}
                     </p>
                   )}
+                  {selectedColor.lab && (
+                    <p className={`text-sm font-mono ${isDark ? 'text-gray-400' : 'text-gray-500'}`}>
+                      Munsell: {formatMunsell(labToMunsell(selectedColor.lab))}
+                    </p>
+                  )}
                 </div>
               </div>
               
+              {/* Palette gamut warning */}
+              {selectedColor.isOutOfGamut && selectedColor.gamutMapped && (
+                <div className={`mt-4 p-3 rounded-md text-sm ${
+                  isDark ? 'bg-amber-900 bg-opacity-30 text-amber-200' : 'bg-amber-50 text-amber-800'
+                }`}>
+                  <p className="mb-2">Out of palette gamut — recipe targets the closest achievable color</p>
+                  <div className="flex items-center gap-4">
+                    <div className="flex items-center">
+                      <div
+                        className="w-8 h-8 rounded-md mr-2 border border-gray-300"
+                        style={{ backgroundColor: selectedColor.hex }}
+                      />
+                      <span className="text-xs">Picked<br /><span className="font-mono">{selectedColor.hex}</span></span>
+                    </div>
+                    <span>→</span>
+                    <div className="flex items-center">
+                      <div
+                        className="w-8 h-8 rounded-md mr-2 border border-gray-300"
+                        style={{ backgroundColor: selectedColor.gamutMapped.hex }}
+                      />
+                      <span className="text-xs">Closest achievable<br /><span className="font-mono">{selectedColor.gamutMapped.hex}</span></span>
+                    </div>
+                    <span className="text-xs font-mono">ΔE {selectedColor.gamutMapped.deltaE.toFixed(1)}</span>
+                  </div>
+                </div>
+              )}
+              
               {/* Color Variation Guide */}
               <div className="mt-5 pt-4 border-t border-gray-200 dark:border-gray-700">
                 <h4 className={`text-md font-medium mb-3 ${isDark ? 'text-white' : 'text-gray-800'}`}>
@@ -367,10 +463,12 @@ const ColorPicker: React.FC<ColorPickerProps> = ({ image }) => {
           
           {showSelectedColor && (
             <PaintMixingDisplay 
-              recipes={recipes.length > 0 ? recipes : [testRecipe]} 
+              recipes={recipes}
               targetColor={selectedColor ? selectedColor.hex : "#555555"} 
             />
           )}
+          
+          <GlazingPanel />
         </div>
       </div>
     </div>
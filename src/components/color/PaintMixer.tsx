@@ -1,10 +1,39 @@
 import React, { useState, useMemo, useCallback, useRef, useEffect } from 'react';
+import { X } from 'lucide-react';
 import { useTheme } from '../../context/ThemeContext';
-import { hexToRgb, rgbToHex, rgb2lab, deltaE, rgbToHsl } from '../../utils/colorUtils';
+import { useSettings } from '../../context/SettingsContext';
+import { useColor } from '../../context/ColorContext';
+import { Paint, usePaint } from '../../context/PaintContext';
+import { hexToRgb, rgbToHex, rgbToHsl } from '../../utils/colorUtils';
+import { rgbToLab } from '../../utils/colorConversion';
+import { colorDifference, deltaEToMatchPercentage, DELTA_E_METRICS } from '../../utils/colorDifference';
+import { HUE_PATHS, HuePath } from '../../utils/blendModels';
+import { formatMunsell, labToMunsell } from '../../utils/munsell';
+import { renderPaint } from '../../utils/spectral';
+import {
+  DEFAULT_WORKBENCH_MODEL,
+  mixGradient,
+  PaletteEntry,
+  predictMix,
+  toProportions,
+  WORKBENCH_MODELS,
+  WorkbenchModel
+} from '../../utils/recipeWorkbench';
+import NeutralScalePanel from '../paint/NeutralScalePanel';
+import ValueLadderPanel from '../paint/ValueLadderPanel';
 
 // Basic Hex Color Validation Regex
 const HEX_COLOR_REGEX = /^#[0-9A-F]{6}$/i;
 
+// Number of swatches in each blend model's gradient strip
+const GRADIENT_STEPS = 21;
+
+// Paint list entries shown at once; searching narrows the rest
+const MAX_LISTED_PAINTS = 60;
+
+// Largest amount a palette slider reaches, in parts
+const MAX_PARTS = 10;
+
 interface PaintMixerProps {
   selectedImage: HTMLImageElement | null;
 }
@@ -12,10 +41,17 @@ interface PaintMixerProps {
 const PaintMixer: React.FC<PaintMixerProps> = ({ selectedImage }) => {
   const { theme } = useTheme();
   const isDark = theme === 'dark';
+  const { illuminant, deltaE: deltaEOptions } = useSettings();
+  const { selectedColor } = useColor();
+  const { getCatalogPaints } = usePaint();
 
-  const [colorA, setColorA] = useState<string>('#FF0000'); // Default Red
-  const [colorB, setColorB] = useState<string>('#FFFF00'); // Default Yellow
+  const [palette, setPalette] = useState<PaletteEntry[]>([]);
+  const [paintSearch, setPaintSearch] = useState('');
+  const [isDragOver, setIsDragOver] = useState(false);
+  const [compareToTarget, setCompareToTarget] = useState(true);
   const [targetColor, setTargetColor] = useState<string>('#FF8000'); // Default Orange
+  const [mixModel, setMixModel] = useState<WorkbenchModel>(DEFAULT_WORKBENCH_MODEL);
+  const [huePath, setHuePath] = useState<HuePath>('shorter');
 
   const canvasRef = useRef<HTMLCanvasElement>(null);
 
@@ -35,7 +71,7 @@ const PaintMixer: React.FC<PaintMixerProps> = ({ selectedImage }) => {
         ctx.drawImage(selectedImage, 0, 0, canvas.width, canvas.height);
       }
     }
-  }, [selectedImage]);
+  }, [selectedImage, compareToTarget]); // The canvas is remounted when the target is turned back on
 
   // --- Input Handlers with Validation ---
   const handleColorChange = useCallback((setter: React.Dispatch<React.SetStateAction<string>>, value: string) => {
@@ -64,51 +100,74 @@ const PaintMixer: React.FC<PaintMixerProps> = ({ selectedImage }) => {
     return { hsl, rgb };
   };
 
-  const colorAInfo = useMemo(() => getColorInfo(colorA), [colorA]);
-  const colorBInfo = useMemo(() => getColorInfo(colorB), [colorB]);
   const targetColorInfo = useMemo(() => getColorInfo(targetColor), [targetColor]);
 
-  // --- Mixing Calculation ---
-  const { bestMixHex, bestRatio, bestMixHsl } = useMemo(() => {
-    const rgbA = colorAInfo.rgb;
-    const rgbB = colorBInfo.rgb;
-    const rgbTarget = targetColorInfo.rgb;
+  // --- Palette ---
+  const catalog = useMemo(() => getCatalogPaints(), [getCatalogPaints]);
 
-    if (!rgbA || !rgbB || !rgbTarget) {
-      return { bestMixHex: '#808080', bestRatio: 0.5, bestMixHsl: null }; // Defaults on error
-    }
+  const listedPaints = useMemo(() => {
+    const query = paintSearch.trim().toLowerCase();
+    return catalog
+      .filter(paint => !query
+        || paint.name.toLowerCase().includes(query)
+        || paint.brand.toLowerCase().includes(query)
+        || paint.pigmentCodes.some(code => code.toLowerCase().includes(query)))
+      .slice(0, MAX_LISTED_PAINTS);
+  }, [catalog, paintSearch]);
 
-    const labTarget = rgb2lab([rgbTarget.r, rgbTarget.g, rgbTarget.b]);
-    
-    let minDeltaE = Infinity;
-    let currentBestRatio = 0.5;
-    let currentBestMixRgb = { r: 128, g: 128, b: 128 };
-
-    for (let ratio = 0; ratio <= 1; ratio += 0.01) {
-      const mixedR = rgbA.r * (1 - ratio) + rgbB.r * ratio;
-      const mixedG = rgbA.g * (1 - ratio) + rgbB.g * ratio;
-      const mixedB = rgbA.b * (1 - ratio) + rgbB.b * ratio;
-      const currentMixRgb = { r: mixedR, g: mixedG, b: mixedB };
-      
-      const labMix = rgb2lab([currentMixRgb.r, currentMixRgb.g, currentMixRgb.b]);
-      const dE = deltaE(labTarget, labMix);
+  // Adding a paint already on the palette adds another part of it
+  const addPaint = (paint: Paint) => {
+    setPalette(prev => prev.some(entry => entry.paint.id === paint.id)
+      ? prev.map(entry => (entry.paint.id === paint.id ? { ...entry, parts: Math.min(MAX_PARTS, entry.parts + 1) } : entry))
+      : [...prev, { paint, parts: 1 }]
+    );
+  };
 
-      if (dE < minDeltaE) {
-        minDeltaE = dE;
-        currentBestRatio = ratio;
-        currentBestMixRgb = currentMixRgb;
-      }
-    }
+  const setParts = (paintId: string, parts: number) => {
+    const clamped = Math.max(0, Math.min(MAX_PARTS, Number.isFinite(parts) ? parts : 0));
+    setPalette(prev => prev.map(entry => (entry.paint.id === paintId ? { ...entry, parts: clamped } : entry)));
+  };
+
+  const removePaint = (paintId: string) => {
+    setPalette(prev => prev.filter(entry => entry.paint.id !== paintId));
+  };
+
+  const handleDrop = (event: React.DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    setIsDragOver(false);
+    const paint = catalog.find(candidate => candidate.id === event.dataTransfer.getData('text/plain'));
+    if (paint) addPaint(paint);
+  };
+
+  // --- Mixing Calculation ---
+  const proportions = useMemo(() => toProportions(palette), [palette]);
+
+  const prediction = useMemo(
+    () => predictMix(palette, mixModel, { illuminant, huePath }),
+    [palette, mixModel, illuminant, huePath]
+  );
 
-    const finalBestMixHex = rgbToHex(currentBestMixRgb.r, currentBestMixRgb.g, currentBestMixRgb.b);
-    const finalBestMixHsl = rgbToHsl(currentBestMixRgb.r, currentBestMixRgb.g, currentBestMixRgb.b);
+  const targetLab = useMemo(
+    () => (compareToTarget && targetColorInfo.rgb ? rgbToLab(targetColorInfo.rgb, illuminant) : null),
+    [compareToTarget, targetColorInfo, illuminant]
+  );
+    
+  const mixDeltaE = prediction && targetLab ? colorDifference(targetLab, prediction.lab, deltaEOptions) : null;
+  const mixHsl = useMemo(() => (prediction ? getColorInfo(prediction.hex).hsl : null), [prediction]);
 
-    return {
-      bestMixHex: finalBestMixHex,
-      bestRatio: currentBestRatio,
-      bestMixHsl: finalBestMixHsl,
-    };
-  }, [colorAInfo, colorBInfo, targetColorInfo]);
+  // Gradient between the first two palette paints under every model, for side-by-side comparison
+  const [paintA, paintB] = palette.map(entry => entry.paint);
+  const pairShare = palette.length >= 2 && palette[0].parts + palette[1].parts > 0
+    ? palette[1].parts / (palette[0].parts + palette[1].parts)
+    : 0.5;
+  const gradients = useMemo(() => {
+    if (!paintA || !paintB) return null;
+      
+    return (Object.keys(WORKBENCH_MODELS) as WorkbenchModel[]).map(model => ({
+      model,
+      swatches: mixGradient(paintA, paintB, model, GRADIENT_STEPS, { illuminant, huePath })
+    }));
+  }, [paintA, paintB, illuminant, huePath]);
 
   // --- Canvas Click Handler ---
   const handleImageClick = (event: React.MouseEvent<HTMLCanvasElement>) => {
@@ -125,6 +184,7 @@ const PaintMixer: React.FC<PaintMixerProps> = ({ selectedImage }) => {
           const pixelData = ctx.getImageData(x, y, 1, 1).data;
           const hex = rgbToHex(pixelData[0], pixelData[1], pixelData[2]);
           setTargetColor(hex);
+          setCompareToTarget(true);
       } catch (e) {
          // Ignore security errors if image is cross-origin and not configured correctly
          console.warn("Could not get pixel data (cross-origin issue?)", e);
@@ -174,32 +234,29 @@ const PaintMixer: React.FC<PaintMixerProps> = ({ selectedImage }) => {
     </div>
   );
 
-  // Ratio visualization component
-  const RatioVisualization = () => (
+  // Proportion visualization component
+  const ProportionVisualization = () => (
     <div className="w-full mt-4">
-      <div className="relative h-12 rounded-full overflow-hidden shadow-inner">
-        <div 
-          className="absolute inset-y-0 left-0 border-r border-white dark:border-gray-700"
-          style={{ 
-            width: `${Math.round((1 - bestRatio) * 100)}%`, 
-            backgroundColor: colorA 
-          }}
-        />
-        <div 
-          className="absolute inset-y-0 right-0"
-          style={{ 
-            width: `${Math.round(bestRatio * 100)}%`, 
-            backgroundColor: colorB 
-          }}
-        />
+      <div className="flex h-12 rounded-full overflow-hidden shadow-inner">
+        {proportions.map(({ paint, proportion }) => (
+          <div
+            key={paint.id}
+            className="border-r border-white dark:border-gray-700 last:border-r-0"
+            style={{ width: `${proportion * 100}%`, backgroundColor: renderPaint(paint, illuminant).swatch }}
+            title={`${Math.round(proportion * 100)}% ${paint.name}`}
+          />
+        ))}
       </div>
-      <div className="flex justify-between mt-2">
-        <span className="text-sm text-gray-500 dark:text-gray-400">{`${Math.round((1 - bestRatio) * 100)}% ${colorA}`}</span>
-        <span className="text-sm text-gray-500 dark:text-gray-400">{`${Math.round(bestRatio * 100)}% ${colorB}`}</span>
+      <div className="flex flex-wrap justify-between gap-x-4 mt-2">
+        {proportions.map(({ paint, proportion }) => (
+          <span key={paint.id} className="text-sm text-gray-500 dark:text-gray-400">{`${Math.round(proportion * 100)}% ${paint.name}`}</span>
+        ))}
       </div>
     </div>
   );
 
+  const selectClass = `px-3 py-2 border rounded text-base ${isDark ? 'bg-gray-700 border-gray-600 text-gray-200' : 'bg-white border-gray-300 text-gray-700'}`;
+
   return (
     <div className={`flex-1 p-8 ${isDark ? 'bg-gray-900 text-gray-100' : 'bg-gray-50 text-gray-900'}`}>
       <div className="max-w-7xl mx-auto">
@@ -207,111 +264,292 @@ const PaintMixer: React.FC<PaintMixerProps> = ({ selectedImage }) => {
         
         <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg p-8 mb-10">
           <div className="grid grid-cols-1 lg:grid-cols-2 gap-12">
-            {/* Left Column: Target Color & Preview */}
+            {/* Left Column: Target Color & Paints */}
             <div className="space-y-8">
               <div>
                 <h3 className="text-2xl font-semibold mb-6 pb-3 border-b border-gray-200 dark:border-gray-700">Target Color</h3>
-                {selectedImage ? (
+                <label className="flex items-center gap-2 mb-6 text-base">
+                  <input
+                    type="checkbox"
+                    checked={compareToTarget}
+                    onChange={(e) => setCompareToTarget(e.target.checked)}
+                  />
+                  Compare the mix with a target color
+                </label>
+                {compareToTarget && (
                   <div className="space-y-6">
-                    <p className="text-lg text-gray-600 dark:text-gray-300">Click on the image to select your target color:</p>
-                    <div className="rounded-lg overflow-hidden border border-gray-300 dark:border-gray-600 shadow-md">
-                      <canvas 
-                        ref={canvasRef}
-                        onClick={handleImageClick}
-                        className="cursor-crosshair max-w-full"
-                        style={{ maxHeight: '500px', width: '100%', objectFit: 'contain' }}
-                      />
-                    </div>
-                    <div className="flex items-center gap-6 mt-6">
+                    {selectedImage ? (
+                      <>
+                        <p className="text-lg text-gray-600 dark:text-gray-300">Click on the image to select your target color:</p>
+                        <div className="rounded-lg overflow-hidden border border-gray-300 dark:border-gray-600 shadow-md">
+                          <canvas
+                            ref={canvasRef}
+                            onClick={handleImageClick}
+                            className="cursor-crosshair max-w-full"
+                            style={{ maxHeight: '500px', width: '100%', objectFit: 'contain' }}
+                          />
+                        </div>
+                      </>
+                    ) : (
+                      <p className="text-base text-gray-500 dark:text-gray-400">
+                        Upload an image on the Canvas tab to pick the target from it, or enter a color.
+                      </p>
+                    )}
+                    <div className="flex flex-wrap items-end gap-6">
                       <ColorInput 
                         id="targetColor" 
-                        label="Selected Color" 
+                        label="Target"
                         value={targetColor} 
                         onChange={(v) => handleColorChange(setTargetColor, v)} 
                         hsl={targetColorInfo.hsl} 
                       />
+                      {selectedColor && (
+                        <button
+                          type="button"
+                          onClick={() => setTargetColor(selectedColor.hex.toUpperCase())}
+                          className={`px-3 py-2 text-sm rounded-md transition-colors ${isDark ? 'bg-gray-700 hover:bg-gray-600 text-gray-200' : 'bg-gray-100 hover:bg-gray-200 text-gray-700'}`}
+                        >
+                          Use the picked color
+                        </button>
+                      )}
                     </div>
                   </div>
-                ) : (
-                  <div className="p-12 text-center border-2 rounded-lg border-dashed border-gray-300 dark:border-gray-600">
-                    <p className="text-lg text-gray-500 dark:text-gray-400">Upload an image on the Canvas tab first to enable color picking</p>
-                  </div>
+                )}
+              </div>
+
+              {/* Paint List */}
+              <div>
+                <h3 className="text-2xl font-semibold mb-6 pb-3 border-b border-gray-200 dark:border-gray-700">Paints</h3>
+                <input
+                  type="text"
+                  value={paintSearch}
+                  onChange={(e) => setPaintSearch(e.target.value)}
+                  placeholder="Search by name, brand or pigment code"
+                  className={`w-full mb-4 ${selectClass}`}
+                />
+                <ul className="max-h-96 overflow-y-auto space-y-1">
+                  {listedPaints.map(paint => (
+                    <li
+                      key={paint.id}
+                      draggable
+                      onDragStart={(e) => e.dataTransfer.setData('text/plain', paint.id)}
+                      onClick={() => addPaint(paint)}
+                      className={`flex items-center px-2 py-1.5 rounded cursor-grab ${isDark ? 'hover:bg-gray-700' : 'hover:bg-gray-100'}`}
+                      title="Drag onto the palette, or click to add"
+                    >
+                      <div
+                        className="w-6 h-6 rounded mr-3 border border-gray-300 dark:border-gray-600 flex-shrink-0"
+                        style={{ backgroundColor: renderPaint(paint, illuminant).swatch }}
+                      />
+                      <span className="flex-1 min-w-0 truncate">{paint.name}</span>
+                      <span className="text-sm text-gray-500 dark:text-gray-400 ml-2">{paint.brand}</span>
+                    </li>
+                  ))}
+                </ul>
+                {listedPaints.length === MAX_LISTED_PAINTS && (
+                  <p className="text-sm text-gray-500 dark:text-gray-400 mt-2">Showing the first {MAX_LISTED_PAINTS} paints; search to narrow the list.</p>
                 )}
               </div>
             </div>
             
-            {/* Right Column: Mixing & Results */}
+            {/* Right Column: Palette & Results */}
             <div className="space-y-8">
-              {/* Ingredients Section */}
+              {/* Palette Section */}
               <div>
-                <h3 className="text-2xl font-semibold mb-6 pb-3 border-b border-gray-200 dark:border-gray-700">Paint Ingredients</h3>
-                <div className="grid grid-cols-1 sm:grid-cols-2 gap-8">
-                  <ColorInput 
-                    id="colorA" 
-                    label="Color A" 
-                    value={colorA} 
-                    onChange={(v) => handleColorChange(setColorA, v)} 
-                    hsl={colorAInfo.hsl} 
-                  />
-                  <ColorInput 
-                    id="colorB" 
-                    label="Color B" 
-                    value={colorB} 
-                    onChange={(v) => handleColorChange(setColorB, v)} 
-                    hsl={colorBInfo.hsl} 
-                  />
+                <h3 className="text-2xl font-semibold mb-6 pb-3 border-b border-gray-200 dark:border-gray-700">Palette</h3>
+                <div
+                  onDragOver={(e) => { e.preventDefault(); setIsDragOver(true); }}
+                  onDragLeave={() => setIsDragOver(false)}
+                  onDrop={handleDrop}
+                  className={`min-h-[8rem] p-4 rounded-lg border-2 border-dashed transition-colors ${
+                    isDragOver ? 'border-pigment-600' : 'border-gray-300 dark:border-gray-600'
+                  }`}
+                >
+                  {palette.length === 0 ? (
+                    <p className="text-lg text-center text-gray-500 dark:text-gray-400 py-6">Drag paints here to mix them</p>
+                  ) : (
+                    <ul className="space-y-4">
+                      {palette.map(({ paint, parts }) => (
+                        <li key={paint.id} className="flex items-center gap-3">
+                          <div
+                            className="w-10 h-10 rounded-md shadow-sm border border-gray-300 dark:border-gray-600 flex-shrink-0"
+                            style={{ backgroundColor: renderPaint(paint, illuminant).swatch }}
+                          />
+                          <div className="flex-1 min-w-0">
+                            <p className="truncate">{paint.name} <span className="text-sm text-gray-500 dark:text-gray-400">({paint.brand})</span></p>
+                            <input
+                              type="range"
+                              min={0}
+                              max={MAX_PARTS}
+                              step={0.25}
+                              value={parts}
+                              onChange={(e) => setParts(paint.id, Number(e.target.value))}
+                              className="w-full"
+                            />
+                          </div>
+                          <input
+                            type="number"
+                            min={0}
+                            max={MAX_PARTS}
+                            step={0.25}
+                            value={parts}
+                            onChange={(e) => setParts(paint.id, Number(e.target.value))}
+                            className={`w-20 px-2 py-1 border rounded text-base ${isDark ? 'bg-gray-700 border-gray-600 text-gray-200' : 'bg-white border-gray-300 text-gray-700'}`}
+                            title="Parts"
+                          />
+                          <span className="w-12 text-right text-sm text-gray-500 dark:text-gray-400">
+                            {Math.round((proportions.find(component => component.paint.id === paint.id)?.proportion || 0) * 100)}%
+                          </span>
+                          <button
+                            type="button"
+                            onClick={() => removePaint(paint.id)}
+                            className="p-1 rounded text-gray-500 hover:text-gray-800 dark:hover:text-gray-200"
+                            title="Remove from the palette"
+                          >
+                            <X className="w-4 h-4" />
+                          </button>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
                 </div>
               </div>
               
+              {/* Mixing Model Section */}
+              <div>
+                <h3 className="text-2xl font-semibold mb-6 pb-3 border-b border-gray-200 dark:border-gray-700">Mixing Model</h3>
+                <div className="flex flex-wrap gap-4 mb-4">
+                  <select
+                    value={mixModel}
+                    onChange={(e) => setMixModel(e.target.value as WorkbenchModel)}
+                    className={selectClass}
+                  >
+                    {(Object.keys(WORKBENCH_MODELS) as WorkbenchModel[]).map(model => (
+                      <option key={model} value={model}>{WORKBENCH_MODELS[model].name}</option>
+                    ))}
+                  </select>
+                  <select
+                    value={huePath}
+                    onChange={(e) => setHuePath(e.target.value as HuePath)}
+                    title="Hue path for OKLCH interpolation"
+                    className={selectClass}
+                  >
+                    {(Object.keys(HUE_PATHS) as HuePath[]).map(path => (
+                      <option key={path} value={path}>OKLCH hue: {HUE_PATHS[path]}</option>
+                    ))}
+                  </select>
+                </div>
+                <p className="text-sm text-gray-600 dark:text-gray-300 mb-4">{WORKBENCH_MODELS[mixModel].description}</p>
+
+                {gradients && paintA && paintB && (
+                  <div className="space-y-3">
+                    <p className="text-sm text-gray-500 dark:text-gray-400">{paintA.name} to {paintB.name}</p>
+                    {gradients.map(({ model, swatches }) => (
+                      <button
+                        key={model}
+                        type="button"
+                        onClick={() => setMixModel(model)}
+                        className="w-full text-left"
+                      >
+                        <span className={`text-sm ${model === mixModel ? 'font-semibold' : 'text-gray-500 dark:text-gray-400'}`}>
+                          {WORKBENCH_MODELS[model].name}
+                        </span>
+                        <div
+                          className={`relative flex h-8 mt-1 rounded overflow-hidden ${
+                            model === mixModel ? 'ring-2 ring-offset-1 ring-pigment-600' : ''
+                          }`}
+                        >
+                          {swatches.map((hex, index) => (
+                            <div key={index} className="flex-1" style={{ backgroundColor: hex }} />
+                          ))}
+                          {model === mixModel && (
+                            <div
+                              className="absolute inset-y-0 w-0.5 bg-white"
+                              style={{ left: `${pairShare * 100}%`, boxShadow: '0 0 2px #000' }}
+                              title={`${Math.round(pairShare * 100)}% ${paintB.name} on the palette`}
+                            />
+                          )}
+                        </div>
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
+
               {/* Results Section */}
               <div>
-                <h3 className="text-2xl font-semibold mb-6 pb-3 border-b border-gray-200 dark:border-gray-700">Mixing Result</h3>
+                <h3 className="text-2xl font-semibold mb-6 pb-3 border-b border-gray-200 dark:border-gray-700">Predicted Mix</h3>
                 <div className="space-y-6">
                   {/* Swatches Comparison */}
                   <div className="flex items-center justify-center gap-6">
-                    {/* Target Swatch */}
-                    <div className="text-center">
-                      <div 
-                        className="w-40 h-40 rounded-lg shadow-inner border border-gray-300 dark:border-gray-600"
-                        style={{ backgroundColor: targetColor }}
-                      ></div>
-                      <p className="mt-3 text-base font-medium">Target</p>
-                    </div>
-                    
-                    {/* Arrow */}
-                    <div className="flex flex-col items-center">
-                      <svg 
-                        className="w-12 h-12 text-gray-400 dark:text-gray-500" 
-                        fill="none" 
-                        stroke="currentColor" 
-                        viewBox="0 0 24 24"
-                      >
-                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M17 8l4 4m0 0l-4 4m4-4H3" />
-                      </svg>
-                    </div>
-                    
                     {/* Achieved Mix Swatch */}
                     <div className="text-center">
                       <div 
                         className="w-40 h-40 rounded-lg shadow-inner border border-gray-300 dark:border-gray-600"
-                        style={{ backgroundColor: bestMixHex }}
+                        style={{ backgroundColor: prediction ? prediction.hex : 'transparent' }}
                       ></div>
-                      <p className="mt-3 text-base font-medium">Best Mix</p>
+                      <p className="mt-3 text-base font-medium">Mix</p>
                     </div>
+
+                    {targetLab && (
+                      <>
+                        {/* Arrow */}
+                        <div className="flex flex-col items-center">
+                          <svg
+                            className="w-12 h-12 text-gray-400 dark:text-gray-500"
+                            fill="none"
+                            stroke="currentColor"
+                            viewBox="0 0 24 24"
+                          >
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M17 8l4 4m0 0l-4 4m4-4H3" />
+                          </svg>
+                        </div>
+
+                        {/* Target Swatch */}
+                        <div className="text-center">
+                          <div
+                            className="w-40 h-40 rounded-lg shadow-inner border border-gray-300 dark:border-gray-600"
+                            style={{ backgroundColor: targetColor }}
+                          ></div>
+                          <p className="mt-3 text-base font-medium">Target</p>
+                        </div>
+                      </>
+                    )}
                   </div>
                   
                   {/* Mix Information */}
                   <div className={`p-6 rounded-lg ${isDark ? 'bg-gray-700' : 'bg-gray-100'}`}>
                     <p className="text-lg font-medium mb-3">Mixing Formula:</p>
-                    <RatioVisualization />
-                    <div className="mt-4 text-base text-gray-600 dark:text-gray-300">
-                      {bestMixHsl ? (
-                        <div className="flex flex-col gap-2">
-                          <p>Mix HSL: H:{bestMixHsl.h}° S:{bestMixHsl.s}% L:{bestMixHsl.l}%</p>
-                          <p>Color code: {bestMixHex}</p>
+                    {prediction ? (
+                      <>
+                        <ProportionVisualization />
+                        <div className="mt-4 flex flex-col gap-2 text-base text-gray-600 dark:text-gray-300">
+                          {mixHsl && <p>Mix HSL: H:{mixHsl.h}° S:{mixHsl.s}% L:{mixHsl.l}%</p>}
+                          <p>Color code: {prediction.hex}</p>
+                          <p>
+                            LAB: {prediction.lab.L.toFixed(1)}, {prediction.lab.a.toFixed(1)}, {prediction.lab.b.toFixed(1)}
+                            {' '}· Munsell {formatMunsell(labToMunsell(prediction.lab))}
+                          </p>
+                          <p>
+                            Mixing model: {WORKBENCH_MODELS[mixModel].name}
+                            {prediction.basis === 'spectral' && ' on 31 spectral bands'}
+                            {prediction.estimated.length > 0 && (
+                              <> · {prediction.estimated.map(paint => paint.name).join(', ')} mixed from curves estimated from their color</>
+                            )}
+                          </p>
+                          {mixDeltaE !== null && (
+                            <p>
+                              Match: {deltaEToMatchPercentage(mixDeltaE).toFixed(1)}%
+                              {' '}(ΔE {mixDeltaE.toFixed(2)}, {DELTA_E_METRICS[deltaEOptions.metric].name})
+                            </p>
+                          )}
                         </div>
-                      ) : '-'}
-                    </div>
+                      </>
+                    ) : (
+                      <p className="text-base text-gray-500 dark:text-gray-400">
+                        {palette.length === 0 ? 'Add paints to the palette to see the mix.' : 'Give at least one paint an amount.'}
+                      </p>
+                    )}
                   </div>
                 </div>
               </div>
@@ -319,6 +557,16 @@ const PaintMixer: React.FC<PaintMixerProps> = ({ selectedImage }) => {
           </div>
         </div>
         
+        {/* Value strings for premixing */}
+        <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg p-8 mb-10">
+          <ValueLadderPanel />
+        </div>
+        
+        {/* Greys mixed from complements */}
+        <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg p-8 mb-10">
+          <NeutralScalePanel />
+        </div>
+        
         {/* Educational Section */}
         <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg p-8">
           <div className="grid grid-cols-1 lg:grid-cols-3 gap-10">
@@ -342,7 +590,7 @@ const PaintMixer: React.FC<PaintMixerProps> = ({ selectedImage }) => {
               <h3 className="text-2xl font-semibold mb-6">Understanding Color Mixing</h3>
               <div className="prose dark:prose-invert prose-lg max-w-none">
                 <p className="text-lg">
-                  This tool simulates mixing using RGB interpolation. Real paint mixing (subtractive) is more complex and pigment-dependent. Use this as a digital guide.
+                  Digital blending and paint mixing disagree. sRGB, linear RGB, OKLab and OKLCH all interpolate light, while paint mixes subtractively: each pigment absorbs part of the spectrum, so blue and yellow make green rather than grey. Compare the gradient strips above, and remember real mixtures are pigment-dependent too.
                 </p>
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mt-6">
                   <div className="bg-gray-50 dark:bg-gray-700 p-5 rounded-lg">
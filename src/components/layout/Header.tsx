@@ -2,7 +2,11 @@ import React from 'react';
 import { Sun, Moon, Save, Settings, Info } from 'lucide-react';
 import { useTheme } from '../../context/ThemeContext';
 
-const Header: React.FC = () => {
+interface HeaderProps {
+  onSettingsClick?: () => void;
+}
+
+const Header: React.FC<HeaderProps> = ({ onSettingsClick }) => {
   const { theme, toggleTheme } = useTheme();
   const isDark = theme === 'dark';
   
@@ -46,6 +50,7 @@ const Header: React.FC = () => {
         </button>
         
         <button 
+          onClick={onSettingsClick}
           className={`p-2 rounded-full transition-colors ${
             isDark 
               ? 'bg-gray-700 hover:bg-gray-600 text-gray-200' 
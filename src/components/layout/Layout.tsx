@@ -2,6 +2,7 @@ import React, { useState, ReactNode } from 'react';
 import Header from './Header';
 import Sidebar from './Sidebar';
 import InfoPanel from './InfoPanel';
+import SettingsPanel from './SettingsPanel';
 
 interface LayoutProps {
   children: ReactNode;
@@ -11,6 +12,7 @@ interface LayoutProps {
 
 const Layout: React.FC<LayoutProps> = ({ children, activeTab, onTabChange }) => {
   const [showInfoPanel, setShowInfoPanel] = useState(true);
+  const [showSettingsPanel, setShowSettingsPanel] = useState(false);
   const [infoPanelContent, setInfoPanelContent] = useState<'chiaroscuro' | 'pigments' | 'mixing'>('chiaroscuro');
   
   // Function to update both the selected tab and appropriate info panel content
@@ -22,7 +24,7 @@ const Layout: React.FC<LayoutProps> = ({ children, activeTab, onTabChange }) =>
       setInfoPanelContent('chiaroscuro');
     } else if (tab === 'mixer') {
       setInfoPanelContent('mixing');
-    } else if (tab === 'canvas') {
+    } else if (tab === 'canvas' || tab === 'inventory') {
       setInfoPanelContent('pigments');
     } else if (tab === 'analyze') {
       setInfoPanelContent('chiaroscuro'); // Use chiaroscuro info for analyze tab too
@@ -32,7 +34,7 @@ const Layout: React.FC<LayoutProps> = ({ children, activeTab, onTabChange }) =>
   return (
     <div className="h-screen w-full flex flex-col bg-canvas-50 dark:bg-gray-900 text-gray-800 dark:text-gray-100 overflow-hidden">
       {/* App Header */}
-      <Header />
+      <Header onSettingsClick={() => setShowSettingsPanel(!showSettingsPanel)} />
       
       {/* Main Content */}
       <div className="flex-1 flex overflow-hidden">
@@ -55,6 +57,12 @@ const Layout: React.FC<LayoutProps> = ({ children, activeTab, onTabChange }) =>
           onClose={() => setShowInfoPanel(false)}
           content={infoPanelContent}
         />
+        
+        {/* Settings Panel */}
+        <SettingsPanel 
+          show={showSettingsPanel}
+          onClose={() => setShowSettingsPanel(false)}
+        />
       </div>
     </div>
   );
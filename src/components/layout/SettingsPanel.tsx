@@ -0,0 +1,363 @@
+import React from 'react';
+import { X } from 'lucide-react';
+import { useTheme } from '../../context/ThemeContext';
+import { useSettings } from '../../context/SettingsContext';
+import { usePaint, Paint } from '../../context/PaintContext';
+import { ILLUMINANTS, IlluminantId } from '../../data/illuminants';
+import { DELTA_E_METRICS, DeltaEMetric, DeltaEOptions } from '../../utils/colorDifference';
+import { parsePigmentCodes } from '../../utils/customPaints';
+import { DEFAULT_MIXING_CONSTRAINTS, MIXING_ENGINES, MixingEngineId } from '../../utils/mixingEngine';
+import {
+  DEFAULT_RECIPE_CONSTRAINTS,
+  LIGHTFASTNESS_RATINGS,
+  LightfastnessRating,
+  PIGMENT_FAMILIES,
+  PigmentFamily,
+  RecipeConstraints
+} from '../../utils/recipeConstraints';
+
+// Choices for the distinct-pigment limit; convenience mixes make higher counts easy to reach
+const MAX_PIGMENT_OPTIONS = [2, 3, 4, 5, 6];
+
+const OPACITY_OPTIONS: [Paint['opacity'], string][] = [
+  ['O', 'Opaque'],
+  ['SO', 'Semi-opaque'],
+  ['ST', 'Semi-transparent'],
+  ['T', 'Transparent']
+];
+
+interface SettingsPanelProps {
+  show: boolean;
+  onClose: () => void;
+}
+
+const SettingsPanel: React.FC<SettingsPanelProps> = ({ show, onClose }) => {
+  const { theme } = useTheme();
+  const isDark = theme === 'dark';
+  const {
+    illuminant,
+    setIlluminant,
+    deltaE,
+    setDeltaE,
+    mixingEngine,
+    setMixingEngine,
+    recipeConstraints,
+    setRecipeConstraints
+  } = useSettings();
+  const { getCatalogPaints } = usePaint();
+
+  if (!show) return null;
+
+  const updateConstraints = (changes: Partial<RecipeConstraints>) => setRecipeConstraints({ ...recipeConstraints, ...changes });
+
+  const isFamilyExcluded = (family: PigmentFamily) =>
+    family.codes.every(code => recipeConstraints.excludedPigments.includes(code));
+
+  const toggleFamily = (family: PigmentFamily) => {
+    const others = recipeConstraints.excludedPigments.filter(code => !family.codes.includes(code));
+    updateConstraints({ excludedPigments: isFamilyExcluded(family) ? others : [...others, ...family.codes] });
+  };
+
+  // Excluded codes not covered by a family toggle
+  const familyCodes = Object.values(PIGMENT_FAMILIES).filter(isFamilyExcluded).flatMap(family => family.codes);
+  const otherPigments = recipeConstraints.excludedPigments.filter(code => !familyCodes.includes(code));
+
+  const toggleOpacity = (opacity: Paint['opacity']) => updateConstraints({
+    opacities: recipeConstraints.opacities.includes(opacity)
+      ? recipeConstraints.opacities.filter(value => value !== opacity)
+      : [...recipeConstraints.opacities, opacity]
+  });
+
+  const bannedPaints = recipeConstraints.bannedPaintIds.map(id => ({
+    id,
+    paint: getCatalogPaints().find(paint => paint.id === id)
+  }));
+
+  return (
+    <div
+      className={`w-96 overflow-auto border-l transition-colors ${
+        isDark ? 'bg-gray-800 border-gray-700 text-gray-100' : 'bg-white border-gray-200 text-gray-800'
+      }`}
+    >
+      <div className="p-4">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="font-serif text-xl font-medium">Settings</h2>
+          <button
+            onClick={onClose}
+            className={`p-1.5 rounded-full transition-colors ${
+              isDark ? 'hover:bg-gray-700 text-gray-400 hover:text-gray-200' : 'hover:bg-gray-200 text-gray-500 hover:text-gray-700'
+            }`}
+            aria-label="Close settings"
+          >
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="space-y-6">
+          <div>
+            <h3 className="font-medium mb-1">Viewing Illuminant</h3>
+            <p className={`text-sm mb-3 ${isDark ? 'text-gray-400' : 'text-gray-600'}`}>
+              The light you paint under. Paint colors and recipes are rendered for this light,
+              and picked colors are chromatically adapted from the image's daylight white.
+            </p>
+
+            <div className="space-y-2">
+              {(Object.keys(ILLUMINANTS) as IlluminantId[]).map(id => (
+                <label
+                  key={id}
+                  className={`flex items-start p-2 rounded-md cursor-pointer transition-colors ${
+                    illuminant === id
+                      ? isDark ? 'bg-gray-700' : 'bg-gray-100'
+                      : isDark ? 'hover:bg-gray-700' : 'hover:bg-gray-50'
+                  }`}
+                >
+                  <input
+                    type="radio"
+                    name="illuminant"
+                    value={id}
+                    checked={illuminant === id}
+                    onChange={() => setIlluminant(id)}
+                    className="mt-1 mr-3"
+                  />
+                  <div>
+                    <div className="text-sm font-medium">{ILLUMINANTS[id].name}</div>
+                    <div className={`text-xs ${isDark ? 'text-gray-400' : 'text-gray-500'}`}>
+                      {ILLUMINANTS[id].description}
+                    </div>
+                  </div>
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <h3 className="font-medium mb-1">Color Difference</h3>
+            <p className={`text-sm mb-3 ${isDark ? 'text-gray-400' : 'text-gray-600'}`}>
+              The ΔE formula behind every match percentage, in recipes, image analysis and the mixer.
+            </p>
+
+            <select
+              value={deltaE.metric}
+              onChange={(e) => setDeltaE({ ...deltaE, metric: e.target.value as DeltaEMetric })}
+              className={`w-full p-2 rounded-md border text-sm ${
+                isDark ? 'bg-gray-700 border-gray-600 text-gray-100' : 'bg-white border-gray-300 text-gray-800'
+              }`}
+            >
+              {(Object.keys(DELTA_E_METRICS) as DeltaEMetric[]).map(metric => (
+                <option key={metric} value={metric}>{DELTA_E_METRICS[metric].name}</option>
+              ))}
+            </select>
+            <p className={`text-xs mt-2 ${isDark ? 'text-gray-400' : 'text-gray-500'}`}>
+              {DELTA_E_METRICS[deltaE.metric].description}
+            </p>
+
+            {deltaE.metric !== 'cie76' && (
+              <div className="grid grid-cols-3 gap-2 mt-3">
+                {([
+                  ['kL', 'Lightness'],
+                  ['kC', 'Chroma'],
+                  ['kH', 'Hue']
+                ] as [keyof Omit<DeltaEOptions, 'metric'>, string][]).map(([weight, label]) => (
+                  <label key={weight} className="text-xs">
+                    <span className={isDark ? 'text-gray-400' : 'text-gray-600'}>{label} ({weight})</span>
+                    <input
+                      type="number"
+                      min={0.1}
+                      max={5}
+                      step={0.1}
+                      value={deltaE[weight]}
+                      onChange={(e) => {
+                        const value = parseFloat(e.target.value);
+                        if (value > 0) setDeltaE({ ...deltaE, [weight]: value });
+                      }}
+                      className={`w-full mt-1 p-1.5 rounded-md border text-sm ${
+                        isDark ? 'bg-gray-700 border-gray-600 text-gray-100' : 'bg-white border-gray-300 text-gray-800'
+                      }`}
+                    />
+                  </label>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div>
+            <h3 className="font-medium mb-1">Mixing Engine</h3>
+            <p className={`text-sm mb-3 ${isDark ? 'text-gray-400' : 'text-gray-600'}`}>
+              The search strategy that turns a target color into mixing recipes.
+            </p>
+
+            <select
+              value={mixingEngine}
+              onChange={(e) => setMixingEngine(e.target.value as MixingEngineId)}
+              className={`w-full p-2 rounded-md border text-sm ${
+                isDark ? 'bg-gray-700 border-gray-600 text-gray-100' : 'bg-white border-gray-300 text-gray-800'
+              }`}
+            >
+              {(Object.keys(MIXING_ENGINES) as MixingEngineId[]).map(engine => (
+                <option key={engine} value={engine}>{MIXING_ENGINES[engine].name}</option>
+              ))}
+            </select>
+            <p className={`text-xs mt-2 ${isDark ? 'text-gray-400' : 'text-gray-500'}`}>
+              {MIXING_ENGINES[mixingEngine].description}
+            </p>
+          </div>
+
+          <div>
+            <div className="flex justify-between items-baseline mb-1">
+              <h3 className="font-medium">Recipe Constraints</h3>
+              <button
+                onClick={() => setRecipeConstraints(DEFAULT_RECIPE_CONSTRAINTS)}
+                className={`text-xs ${isDark ? 'text-gray-400 hover:text-gray-200' : 'text-gray-500 hover:text-gray-700'}`}
+              >
+                Reset
+              </button>
+            </div>
+            <p className={`text-sm mb-3 ${isDark ? 'text-gray-400' : 'text-gray-600'}`}>
+              Paints recipes may use, for example cadmium-free teaching palettes or ASTM I/II archival work.
+            </p>
+
+            <div className="space-y-3 text-sm">
+              <div>
+                <span className={`block text-xs mb-1 ${isDark ? 'text-gray-400' : 'text-gray-600'}`}>Exclude pigment families</span>
+                <div className="flex flex-wrap gap-x-4 gap-y-1">
+                  {Object.values(PIGMENT_FAMILIES).map(family => (
+                    <label key={family.id} className="flex items-center" title={family.codes.join(', ')}>
+                      <input
+                        type="checkbox"
+                        checked={isFamilyExcluded(family)}
+                        onChange={() => toggleFamily(family)}
+                        className="mr-2"
+                      />
+                      {family.name}-free
+                    </label>
+                  ))}
+                </div>
+              </div>
+
+              <label className="block">
+                <span className={`block text-xs mb-1 ${isDark ? 'text-gray-400' : 'text-gray-600'}`}>Other excluded pigments (CI codes)</span>
+                <input
+                  key={otherPigments.join(',')}
+                  type="text"
+                  defaultValue={otherPigments.join(', ')}
+                  onBlur={(e) => updateConstraints({ excludedPigments: [...familyCodes, ...parsePigmentCodes(e.target.value)] })}
+                  placeholder="e.g. PY65, PR83"
+                  className={`w-full p-1.5 rounded-md border text-sm ${
+                    isDark ? 'bg-gray-700 border-gray-600 text-gray-100' : 'bg-white border-gray-300 text-gray-800'
+                  }`}
+                />
+              </label>
+
+              <div className="grid grid-cols-2 gap-2">
+                <label className="block">
+                  <span className={`block text-xs mb-1 ${isDark ? 'text-gray-400' : 'text-gray-600'}`}>Lightfastness</span>
+                  <select
+                    value={recipeConstraints.minLightfastness || ''}
+                    onChange={(e) => updateConstraints({ minLightfastness: (e.target.value || null) as LightfastnessRating | null })}
+                    className={`w-full p-1.5 rounded-md border text-sm ${
+                      isDark ? 'bg-gray-700 border-gray-600 text-gray-100' : 'bg-white border-gray-300 text-gray-800'
+                    }`}
+                  >
+                    <option value="">Any</option>
+                    {LIGHTFASTNESS_RATINGS.slice(0, 3).map((rating, index) => (
+                      <option key={rating} value={rating}>
+                        {index === 0 ? 'ASTM I only' : `ASTM I–${rating}`}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+                <label className="block">
+                  <span className={`block text-xs mb-1 ${isDark ? 'text-gray-400' : 'text-gray-600'}`}>Most paints per recipe</span>
+                  <select
+                    value={recipeConstraints.maxPaints}
+                    onChange={(e) => updateConstraints({ maxPaints: Number(e.target.value) })}
+                    className={`w-full p-1.5 rounded-md border text-sm ${
+                      isDark ? 'bg-gray-700 border-gray-600 text-gray-100' : 'bg-white border-gray-300 text-gray-800'
+                    }`}
+                  >
+                    {Array.from({ length: DEFAULT_MIXING_CONSTRAINTS.maxComponents }, (_, i) => i + 1).map(count => (
+                      <option key={count} value={count}>{count}</option>
+                    ))}
+                  </select>
+                </label>
+                <label className="block">
+                  <span className={`block text-xs mb-1 ${isDark ? 'text-gray-400' : 'text-gray-600'}`}>Most pigments per recipe</span>
+                  <select
+                    value={recipeConstraints.maxPigments ?? ''}
+                    onChange={(e) => updateConstraints({ maxPigments: e.target.value ? Number(e.target.value) : null })}
+                    className={`w-full p-1.5 rounded-md border text-sm ${
+                      isDark ? 'bg-gray-700 border-gray-600 text-gray-100' : 'bg-white border-gray-300 text-gray-800'
+                    }`}
+                  >
+                    <option value="">Any</option>
+                    {MAX_PIGMENT_OPTIONS.map(count => (
+                      <option key={count} value={count}>{count}</option>
+                    ))}
+                  </select>
+                </label>
+              </div>
+
+              <div>
+                <span className={`block text-xs mb-1 ${isDark ? 'text-gray-400' : 'text-gray-600'}`}>
+                  Allowed opacity {recipeConstraints.opacities.length === 0 && '(any)'}
+                </span>
+                <div className="grid grid-cols-2 gap-1">
+                  {OPACITY_OPTIONS.map(([opacity, label]) => (
+                    <label key={opacity} className="flex items-center">
+                      <input
+                        type="checkbox"
+                        checked={recipeConstraints.opacities.includes(opacity)}
+                        onChange={() => toggleOpacity(opacity)}
+                        className="mr-2"
+                      />
+                      {label}
+                    </label>
+                  ))}
+                </div>
+              </div>
+
+              <label className="flex items-center">
+                <input
+                  type="checkbox"
+                  checked={recipeConstraints.noBlack}
+                  onChange={(e) => updateConstraints({ noBlack: e.target.checked })}
+                  className="mr-2"
+                />
+                No black pigments (PBk)
+              </label>
+
+              <div>
+                <span className={`block text-xs mb-1 ${isDark ? 'text-gray-400' : 'text-gray-600'}`}>Banned tubes</span>
+                {bannedPaints.length === 0 ? (
+                  <p className={`text-xs ${isDark ? 'text-gray-500' : 'text-gray-400'}`}>
+                    None. Ban a tube from a recipe's paint list.
+                  </p>
+                ) : (
+                  <ul className="space-y-1">
+                    {bannedPaints.map(({ id, paint }) => (
+                      <li key={id} className="flex items-center text-xs">
+                        {paint && (
+                          <div className="w-3 h-3 rounded-sm mr-2 flex-shrink-0" style={{ backgroundColor: paint.swatch }} />
+                        )}
+                        <span className="flex-1 truncate">{paint ? `${paint.name} (${paint.brand})` : id}</span>
+                        <button
+                          onClick={() => updateConstraints({ bannedPaintIds: recipeConstraints.bannedPaintIds.filter(value => value !== id) })}
+                          className={`ml-2 p-0.5 rounded ${isDark ? 'hover:bg-gray-700' : 'hover:bg-gray-100'}`}
+                          aria-label={`Allow ${paint ? paint.name : id} again`}
+                        >
+                          <X size={12} />
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SettingsPanel;
@@ -1,5 +1,5 @@
 import React, { useState } from 'react';
-import { Upload, Eye, Palette, Book, Info, BarChart2, Home } from 'lucide-react';
+import { Upload, Eye, Palette, Book, Info, BarChart2, Home, Package } from 'lucide-react';
 import { useTheme } from '../../context/ThemeContext';
 
 interface SidebarProps {
@@ -25,6 +25,7 @@ const Sidebar: React.FC<SidebarProps> = ({
     { id: 'picker', icon: <Eye size={24} />, title: 'Pick Color' },
     { id: 'analyze', icon: <BarChart2 size={24} />, title: 'Analyze Image' },
     { id: 'mixer', icon: <Palette size={24} />, title: 'Paint Mixer' },
+    { id: 'inventory', icon: <Package size={24} />, title: 'My Paints' },
     { id: 'education', icon: <Book size={24} />, title: 'Learn' },
   ];
   
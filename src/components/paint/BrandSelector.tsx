@@ -9,7 +9,8 @@ const BrandSelector: React.FC = () => {
     toggleBrandSelection,
     selectAllBrands,
     clearBrandSelection,
-    getAllPaints
+    getAllPaints,
+    isUsingInventory
   } = usePaint();
   
   const { theme } = useTheme();
@@ -41,6 +42,12 @@ const BrandSelector: React.FC = () => {
         Color matching is performed using these established paint brands:
       </p>
       
+      {isUsingInventory && (
+        <p className={`text-sm mb-4 p-2 rounded border ${isDark ? 'bg-amber-900 bg-opacity-30 border-amber-700 text-amber-200' : 'bg-amber-50 border-amber-200 text-amber-800'}`}>
+          Your paint inventory is in use, so recipes only suggest tubes you own. Clear it under My Paints to use these brands.
+        </p>
+      )}
+      
       <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
         {availableBrands.filter(brand => selectedBrands.includes(brand.id)).map((brand) => (
           <div 
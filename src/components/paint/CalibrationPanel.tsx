@@ -0,0 +1,287 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Crosshair, Trash2, Upload } from 'lucide-react';
+import { usePaint } from '../../context/PaintContext';
+import { useTheme } from '../../context/ThemeContext';
+import { useSettings } from '../../context/SettingsContext';
+import { labToRgb, linearRgbToLab, rgbToHex } from '../../utils/colorConversion';
+import {
+  CALIBRATION_PATCHES,
+  CalibrationFit,
+  CalibrationPatchId,
+  correctWithGreyCard,
+  fitPaintCalibration,
+  GREY_CARD_REFLECTANCE,
+  samplePatch
+} from '../../utils/paintCalibration';
+
+// Widest the photo is drawn, in pixels
+const MAX_PHOTO_WIDTH = 800;
+
+type Triplet = [number, number, number];
+
+interface MeasuredPatch {
+  x: number;
+  y: number;
+  linearRgb: Triplet;
+}
+
+const PATCH_IDS = Object.keys(CALIBRATION_PATCHES) as CalibrationPatchId[];
+
+const CalibrationPanel: React.FC = () => {
+  const { theme } = useTheme();
+  const isDark = theme === 'dark';
+  const { deltaE } = useSettings();
+  const { getCatalogPaints, paintCalibrations, setPaintCalibration, removePaintCalibration } = usePaint();
+
+  const [paintId, setPaintId] = useState('');
+  const [whiteId, setWhiteId] = useState('');
+  const [photo, setPhoto] = useState<HTMLImageElement | null>(null);
+  const [activePatch, setActivePatch] = useState<CalibrationPatchId>('grey');
+  const [patches, setPatches] = useState<Partial<Record<CalibrationPatchId, MeasuredPatch>>>({});
+  const [greyReflectance, setGreyReflectance] = useState(GREY_CARD_REFLECTANCE);
+
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const imageDataRef = useRef<ImageData | null>(null);
+
+  const catalog = useMemo(() => getCatalogPaints(), [getCatalogPaints]);
+  const whites = useMemo(() => catalog.filter(paint => paint.pigmentCodes.some(code => /^PW/i.test(code))), [catalog]);
+  const paint = catalog.find(candidate => candidate.id === paintId);
+  const white = whites.find(candidate => candidate.id === whiteId) || whites.find(candidate => candidate.pigmentCodes.includes('PW6')) || whites[0];
+
+  // Draw the photo with a marker on every measured patch
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d', { willReadFrequently: true });
+    if (!canvas || !ctx || !photo) return;
+
+    const scale = Math.min(1, MAX_PHOTO_WIDTH / photo.naturalWidth);
+    canvas.width = photo.naturalWidth * scale;
+    canvas.height = photo.naturalHeight * scale;
+    ctx.drawImage(photo, 0, 0, canvas.width, canvas.height);
+    imageDataRef.current = ctx.getImageData(0, 0, canvas.width, canvas.height);
+
+    ctx.font = '12px sans-serif';
+    PATCH_IDS.forEach(id => {
+      const patch = patches[id];
+      if (!patch) return;
+      ctx.strokeStyle = '#FFFFFF';
+      ctx.lineWidth = 2;
+      ctx.strokeRect(patch.x - 6, patch.y - 6, 12, 12);
+      ctx.fillStyle = '#FFFFFF';
+      ctx.fillText(CALIBRATION_PATCHES[id].name, patch.x + 9, patch.y + 4);
+    });
+  }, [photo, patches]);
+
+  const handlePhoto = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    const imageUrl = URL.createObjectURL(file);
+    const img = new window.Image();
+    img.onload = () => {
+      setPhoto(img);
+      setPatches({});
+      setActivePatch('grey');
+      URL.revokeObjectURL(imageUrl);
+    };
+    img.onerror = () => URL.revokeObjectURL(imageUrl);
+    img.src = imageUrl;
+  };
+
+  const handleCanvasClick = (event: React.MouseEvent<HTMLCanvasElement>) => {
+    const canvas = canvasRef.current;
+    const imageData = imageDataRef.current;
+    if (!canvas || !imageData) return;
+
+    // The canvas is scaled to fit its column
+    const rect = canvas.getBoundingClientRect();
+    const x = (event.clientX - rect.left) * canvas.width / rect.width;
+    const y = (event.clientY - rect.top) * canvas.height / rect.height;
+    const linearRgb = samplePatch(imageData, x, y);
+    if (!linearRgb) return;
+
+    const next = { ...patches, [activePatch]: { x, y, linearRgb } };
+    setPatches(next);
+    const unmeasured = PATCH_IDS.find(id => !next[id]);
+    if (unmeasured) setActivePatch(unmeasured);
+  };
+
+  // Patches corrected against the grey card
+  const corrected = useMemo(() => {
+    const grey = patches.grey;
+    if (!grey) return null;
+    return PATCH_IDS
+      .filter(id => id !== 'grey' && patches[id])
+      .map(id => ({
+        id,
+        paintFraction: CALIBRATION_PATCHES[id].paintFraction!,
+        linearRgb: correctWithGreyCard(patches[id]!.linearRgb, grey.linearRgb, greyReflectance)
+      }));
+  }, [patches, greyReflectance]);
+
+  const fit: CalibrationFit | null = useMemo(
+    () => (paint && white && corrected ? fitPaintCalibration(paint, white, corrected, deltaE) : null),
+    [paint, white, corrected, deltaE]
+  );
+
+  const canFit = !!patches.grey && !!patches.masstone && PATCH_IDS.some(id => id.startsWith('tint') && patches[id]);
+
+  const labHex = (lab: { L: number; a: number; b: number }) => rgbToHex(labToRgb(lab));
+
+  // Patch color after grey-card correction, for the patch buttons
+  const correctedHex = (linearRgb: Triplet) => labHex(linearRgbToLab(
+    patches.grey ? correctWithGreyCard(linearRgb, patches.grey.linearRgb, greyReflectance) : linearRgb
+  ));
+
+  const selectClass = `rounded px-2 py-1 text-sm border ${isDark ? 'bg-gray-700 border-gray-600 text-white' : 'bg-white border-gray-300 text-gray-800'}`;
+  const labelClass = `block text-xs mb-1 ${isDark ? 'text-gray-400' : 'text-gray-500'}`;
+  const mutedClass = isDark ? 'text-gray-400' : 'text-gray-500';
+
+  const calibrated = Object.values(paintCalibrations);
+
+  return (
+    <div className={`p-4 rounded-lg shadow-md ${isDark ? 'bg-gray-800 text-gray-200' : 'bg-white text-gray-800'}`}>
+      <h3 className="text-lg font-serif mb-1">Calibrate a Paint</h3>
+      <p className={`text-sm mb-4 ${mutedClass}`}>
+        Paint a masstone of the tube and tints with 25%, 50% and 75% white, photograph them in even light next to a
+        grey card, then click each patch. The fitted coefficients replace the database values for that paint.
+      </p>
+
+      <div className="flex flex-wrap items-end gap-3 mb-4">
+        <label>
+          <span className={labelClass}>Paint</span>
+          <select value={paintId} onChange={(e) => setPaintId(e.target.value)} className={`${selectClass} max-w-[16rem]`}>
+            <option value="">Choose a paint…</option>
+            {Array.from(new Set(catalog.map(candidate => candidate.brand))).map(brand => (
+              <optgroup key={brand} label={brand}>
+                {catalog.filter(candidate => candidate.brand === brand).map(candidate => (
+                  <option key={candidate.id} value={candidate.id}>{candidate.name}</option>
+                ))}
+              </optgroup>
+            ))}
+          </select>
+        </label>
+        <label>
+          <span className={labelClass}>Tinted with</span>
+          <select value={white?.id || ''} onChange={(e) => setWhiteId(e.target.value)} className={`${selectClass} max-w-[16rem]`}>
+            {whites.map(candidate => (
+              <option key={candidate.id} value={candidate.id}>{candidate.name} · {candidate.brand}</option>
+            ))}
+          </select>
+        </label>
+        <label>
+          <span className={labelClass}>Grey card reflectance</span>
+          <select value={greyReflectance} onChange={(e) => setGreyReflectance(Number(e.target.value))} className={selectClass}>
+            <option value={0.18}>18% (photographic)</option>
+            <option value={0.2}>20% (L* 52)</option>
+            <option value={0.12}>12% (L* 41)</option>
+          </select>
+        </label>
+        <label className="flex items-center px-3 py-1.5 text-sm bg-pigment-600 text-white rounded-md hover:bg-pigment-700 transition-colors cursor-pointer">
+          <Upload className="w-4 h-4 mr-1" />
+          Upload photo
+          <input type="file" accept="image/*" onChange={handlePhoto} className="hidden" />
+        </label>
+      </div>
+
+      {photo && (
+        <>
+          <div className="flex flex-wrap gap-2 mb-3">
+            {PATCH_IDS.map(id => (
+              <button
+                key={id}
+                onClick={() => setActivePatch(id)}
+                className={`flex items-center px-2 py-1 text-xs rounded-md border ${
+                  activePatch === id
+                    ? 'border-pigment-600 bg-pigment-600 text-white'
+                    : isDark ? 'border-gray-600 text-gray-300' : 'border-gray-300 text-gray-700'
+                }`}
+              >
+                {patches[id] ? (
+                  <span
+                    className="w-3 h-3 rounded-sm mr-1 border border-gray-300"
+                    style={{ backgroundColor: correctedHex(patches[id]!.linearRgb) }}
+                  />
+                ) : (
+                  <Crosshair className="w-3 h-3 mr-1" />
+                )}
+                {CALIBRATION_PATCHES[id].name}
+              </button>
+            ))}
+          </div>
+          <p className={`text-xs mb-2 ${mutedClass}`}>Click the {CALIBRATION_PATCHES[activePatch].name.toLowerCase()} patch in the photo.</p>
+          <div className="rounded-lg overflow-hidden border border-gray-300 dark:border-gray-600 mb-4">
+            <canvas ref={canvasRef} onClick={handleCanvasClick} className="cursor-crosshair w-full" />
+          </div>
+        </>
+      )}
+
+      {photo && canFit && (
+        !paint || !white ? (
+          <p className={`text-sm ${mutedClass}`}>Choose the paint and the white it was tinted with.</p>
+        ) : !fit ? (
+          <p className={`text-sm ${isDark ? 'text-amber-300' : 'text-amber-700'}`}>
+            These patches cannot be fitted: the tints should get lighter with more white. Check the patch order and the white.
+          </p>
+        ) : (
+          <div className={`p-3 rounded-md mb-4 ${isDark ? 'bg-gray-700' : 'bg-gray-100'}`}>
+            <div className="flex flex-wrap gap-4 mb-3">
+              {fit.tints.map(tint => (
+                <div key={tint.paintFraction} className="text-center">
+                  <div className="flex">
+                    <div className="w-8 h-10 rounded-l border border-gray-300" style={{ backgroundColor: labHex(tint.measured) }} title="Measured" />
+                    <div className="w-8 h-10 rounded-r border border-gray-300" style={{ backgroundColor: labHex(tint.predicted) }} title="Fitted" />
+                  </div>
+                  <p className={`text-xs mt-1 ${mutedClass}`}>{Math.round((1 - tint.paintFraction) * 100)}% white</p>
+                  <p className="text-xs">ΔE {tint.deltaE.toFixed(1)}</p>
+                </div>
+              ))}
+            </div>
+            <p className="text-sm mb-3">
+              Tinting strength ×{fit.calibration.strengthRatio.toFixed(2)} of the database value
+              {' '}· mean tint ΔE {fit.calibration.fitDeltaE.toFixed(1)}
+            </p>
+            <button
+              onClick={() => setPaintCalibration(fit.calibration)}
+              className="px-3 py-1.5 text-sm bg-pigment-600 text-white rounded-md hover:bg-pigment-700 transition-colors"
+            >
+              {paintCalibrations[fit.calibration.paintId] ? 'Replace calibration' : 'Save calibration'}
+            </button>
+          </div>
+        )
+      )}
+
+      {calibrated.length > 0 && (
+        <>
+          <h4 className="text-sm font-medium mb-2">Calibrated paints</h4>
+          <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+            {calibrated.map(calibration => {
+              const calibratedPaint = catalog.find(candidate => candidate.id === calibration.paintId);
+              return (
+                <li key={calibration.paintId} className="flex items-center py-2 text-sm">
+                  <div className="w-5 h-5 rounded mr-3 border border-gray-300" style={{ backgroundColor: labHex(calibration.lab) }} />
+                  <span className="flex-1 min-w-0">
+                    {calibratedPaint ? `${calibratedPaint.name} · ${calibratedPaint.brand}` : calibration.paintId}
+                    <span className={`block text-xs ${mutedClass}`}>
+                      Strength ×{calibration.strengthRatio.toFixed(2)} · tint ΔE {calibration.fitDeltaE.toFixed(1)}
+                      {' '}· {new Date(calibration.calibratedAt).toLocaleDateString()}
+                    </span>
+                  </span>
+                  <button
+                    onClick={() => removePaintCalibration(calibration.paintId)}
+                    className={`p-1 rounded ${mutedClass} hover:text-red-500`}
+                    title="Remove calibration and use the database values"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+        </>
+      )}
+    </div>
+  );
+
+};
+
+export default CalibrationPanel;
@@ -0,0 +1,230 @@
+import React, { useMemo, useState } from 'react';
+import { Layers } from 'lucide-react';
+import { useTheme } from '../../context/ThemeContext';
+import { useColor } from '../../context/ColorContext';
+import { usePaint } from '../../context/PaintContext';
+import { useSettings } from '../../context/SettingsContext';
+import { hexToRgb, rgbToLab } from '../../utils/colorConversion';
+import { colorDifference } from '../../utils/colorDifference';
+import { DEFAULT_GLAZE_THICKNESS, findGlazes, GlazeRecipe, predictGlaze, Underlayer } from '../../utils/glazing';
+import { applyPaintConstraints } from '../../utils/recipeConstraints';
+
+interface UnderlayerChoice {
+  label: string;
+  hex: string;
+  underlayer: Underlayer;
+}
+
+const GlazingPanel: React.FC = () => {
+  const { theme } = useTheme();
+  const isDark = theme === 'dark';
+  const { selectedColor } = useColor();
+  const { recipes, getAllPaints } = usePaint();
+  const { illuminant, deltaE, recipeConstraints } = useSettings();
+
+  const [underlayer, setUnderlayer] = useState<UnderlayerChoice | null>(null);
+  const [glazePaintIds, setGlazePaintIds] = useState<[string, string]>(['', '']);
+  const [glazeRatio, setGlazeRatio] = useState(0.5); // Share of the first paint
+  const [thicknessMm, setThicknessMm] = useState(DEFAULT_GLAZE_THICKNESS);
+  const [suggestions, setSuggestions] = useState<GlazeRecipe[] | null>(null);
+
+  // Glazes respect the same constraints as recipes
+  const paints = useMemo(
+    () => applyPaintConstraints(getAllPaints(), recipeConstraints).paints,
+    [getAllPaints, recipeConstraints]
+  );
+
+  const glazePaints = useMemo(
+    () => glazePaintIds
+      .map(id => paints.find(paint => paint.id === id))
+      .filter((paint): paint is NonNullable<typeof paint> => !!paint),
+    [glazePaintIds, paints]
+  );
+
+  const prediction = useMemo(() => {
+    if (!underlayer || glazePaints.length === 0) return null;
+    const components = glazePaints.length === 2
+      ? [{ paint: glazePaints[0], proportion: glazeRatio }, { paint: glazePaints[1], proportion: 1 - glazeRatio }]
+      : [{ paint: glazePaints[0], proportion: 1 }];
+    return predictGlaze(underlayer.underlayer, { paints: components, thicknessMm }, illuminant);
+  }, [underlayer, glazePaints, glazeRatio, thicknessMm, illuminant]);
+
+  const targetLab = selectedColor?.lab;
+  const predictionDeltaE = prediction && targetLab ? colorDifference(targetLab, prediction.lab, deltaE) : null;
+
+  const chooseSelectedColor = () => {
+    if (!selectedColor?.lab) return;
+    setUnderlayer({ label: 'Picked color', hex: selectedColor.hex, underlayer: { kind: 'color', lab: selectedColor.lab } });
+    setSuggestions(null);
+  };
+
+  const chooseRecipe = (index: number) => {
+    const recipe = recipes[index];
+    if (!recipe) return;
+    setUnderlayer({
+      label: `Recipe #${index + 1}`,
+      hex: recipe.estimatedHexColor || '#CCCCCC',
+      underlayer: { kind: 'recipe', paints: recipe.paints }
+    });
+    setSuggestions(null);
+  };
+
+  const chooseCustomColor = (hex: string) => {
+    setUnderlayer({ label: 'Custom color', hex, underlayer: { kind: 'color', lab: rgbToLab(hexToRgb(hex), illuminant) } });
+    setSuggestions(null);
+  };
+
+  const applySuggestion = (glaze: GlazeRecipe) => {
+    setGlazePaintIds([glaze.paints[0].paint.id, glaze.paints[1]?.paint.id || '']);
+    setGlazeRatio(glaze.paints[0].proportion);
+    setThicknessMm(glaze.thicknessMm);
+  };
+
+  const selectClass = `rounded px-1 py-0.5 border text-sm ${isDark ? 'bg-gray-700 border-gray-600 text-white' : 'bg-white border-gray-300 text-gray-800'}`;
+  const mutedClass = isDark ? 'text-gray-400' : 'text-gray-500';
+  const buttonClass = `px-2 py-1 text-xs rounded-md transition-colors ${isDark ? 'bg-gray-700 hover:bg-gray-600 text-gray-200' : 'bg-gray-100 hover:bg-gray-200 text-gray-700'}`;
+
+  const Swatch = ({ hex, label }: { hex: string; label: string }) => (
+    <div className="text-center">
+      <div className="w-12 h-12 rounded-md shadow-sm border border-gray-300 mx-auto" style={{ backgroundColor: hex }} />
+      <p className={`text-xs mt-1 ${mutedClass}`}>{label}</p>
+    </div>
+  );
+
+  return (
+    <div className={`p-4 rounded-lg shadow-md ${isDark ? 'bg-gray-800 text-gray-200' : 'bg-white text-gray-800'}`}>
+      <h3 className="text-lg font-serif mb-1 flex items-center">
+        <Layers className="w-5 h-5 mr-2" />
+        Glazing &amp; Scumbling
+      </h3>
+      <p className={`text-xs mb-3 ${mutedClass}`}>
+        Predicts a thin film of paint over a dry underlayer. Transparent paints tint what is beneath; opaque paints veil it.
+      </p>
+
+      {/* Underlayer */}
+      <div className="flex flex-wrap items-center gap-2 mb-3 text-sm">
+        <span className="font-medium">Underlayer</span>
+        <button onClick={chooseSelectedColor} disabled={!selectedColor?.lab} className={`${buttonClass} disabled:opacity-50`}>
+          Picked color
+        </button>
+        {recipes.length > 0 && (
+          <select value="" onChange={(e) => chooseRecipe(Number(e.target.value))} className={selectClass}>
+            <option value="" disabled>From recipe…</option>
+            {recipes.map((recipe, index) => (
+              <option key={index} value={index}>Recipe #{index + 1}</option>
+            ))}
+          </select>
+        )}
+        <label className={`flex items-center gap-1 text-xs ${mutedClass}`}>
+          or
+          <input
+            type="color"
+            value={underlayer?.hex.length === 7 ? underlayer.hex : '#808080'}
+            onChange={(e) => chooseCustomColor(e.target.value.toUpperCase())}
+            className="w-8 h-6 p-0 border-0 cursor-pointer"
+          />
+        </label>
+      </div>
+
+      {underlayer ? (
+        <>
+          {/* Glaze */}
+          <div className="flex flex-wrap items-center gap-2 mb-3 text-sm">
+            <span className="font-medium">Glaze</span>
+            {[0, 1].map(slot => (
+              <select
+                key={slot}
+                value={glazePaintIds[slot]}
+                onChange={(e) => setGlazePaintIds(prev => (slot === 0 ? [e.target.value, prev[1]] : [prev[0], e.target.value]))}
+                className={`${selectClass} max-w-[12rem]`}
+              >
+                <option value="">{slot === 0 ? 'Choose a paint' : 'Second paint (optional)'}</option>
+                {paints.map(paint => (
+                  <option key={paint.id} value={paint.id}>{paint.name} ({paint.opacity}) · {paint.brand}</option>
+                ))}
+              </select>
+            ))}
+            {glazePaints.length === 2 && (
+              <label className={`flex items-center gap-1 text-xs ${mutedClass}`}>
+                {Math.round(glazeRatio * 100)}:{Math.round((1 - glazeRatio) * 100)}
+                <input
+                  type="range"
+                  min={0.05}
+                  max={0.95}
+                  step={0.05}
+                  value={glazeRatio}
+                  onChange={(e) => setGlazeRatio(Number(e.target.value))}
+                />
+              </label>
+            )}
+          </div>
+          <label className={`flex items-center gap-2 mb-4 text-xs ${mutedClass}`}>
+            Film thickness
+            <input
+              type="range"
+              min={0.002}
+              max={0.15}
+              step={0.001}
+              value={thicknessMm}
+              onChange={(e) => setThicknessMm(Number(e.target.value))}
+              className="flex-1"
+            />
+            <span className="w-14 text-right">{Math.round(thicknessMm * 1000)} µm</span>
+          </label>
+
+          {/* Prediction */}
+          <div className="flex items-end gap-4 mb-2">
+            <Swatch hex={underlayer.hex} label={underlayer.label} />
+            <span className={`pb-6 ${mutedClass}`}>→</span>
+            <Swatch hex={prediction ? prediction.hex : underlayer.hex} label="Glazed" />
+            {selectedColor && <Swatch hex={selectedColor.hex} label="Target" />}
+          </div>
+          {prediction && (
+            <p className={`text-xs mb-4 ${mutedClass}`}>
+              Hides {Math.round(prediction.hiding * 100)}% of the underlayer
+              {predictionDeltaE !== null && <> · ΔE {predictionDeltaE.toFixed(2)} from the target</>}
+              {prediction.estimated.length > 0 && ` · ${prediction.estimated.map(paint => paint.name).join(', ')} mixed from curves estimated from their color`}
+            </p>
+          )}
+
+          {/* Reverse: which glaze reaches the target */}
+          <button
+            onClick={() => targetLab && setSuggestions(findGlazes(underlayer.underlayer, targetLab, paints, { illuminant, deltaE }))}
+            disabled={!targetLab || paints.length === 0}
+            className="px-3 py-1.5 text-sm bg-pigment-600 text-white rounded-md hover:bg-pigment-700 transition-colors disabled:opacity-50"
+          >
+            Find glazes for the target
+          </button>
+          {suggestions && (
+            suggestions.length === 0 ? (
+              <p className={`text-sm mt-2 ${mutedClass}`}>No glaze found over this underlayer.</p>
+            ) : (
+              <ul className="mt-3 space-y-2">
+                {suggestions.map((glaze, index) => (
+                  <li key={index} className="flex items-center text-sm">
+                    <div className="w-6 h-6 rounded mr-2 border border-gray-300 flex-shrink-0" style={{ backgroundColor: glaze.prediction.hex }} />
+                    <span className="flex-1 min-w-0">
+                      {glaze.paints.map(({ paint, proportion }) =>
+                        glaze.paints.length > 1 ? `${paint.name} ${Math.round(proportion * 100)}%` : paint.name
+                      ).join(' + ')}
+                      <span className={`block text-xs ${mutedClass}`}>
+                        {Math.round(glaze.thicknessMm * 1000)} µm · ΔE {glaze.deltaE.toFixed(2)} · hides {Math.round(glaze.prediction.hiding * 100)}%
+                      </span>
+                    </span>
+                    <button onClick={() => applySuggestion(glaze)} className={`ml-2 ${buttonClass}`}>Use</button>
+                  </li>
+                ))}
+              </ul>
+            )
+          )}
+        </>
+      ) : (
+        <p className={`text-sm ${mutedClass}`}>
+          Choose an underlayer: pick your grisaille tone and use it here, take a recipe, or set a color.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default GlazingPanel;
@@ -0,0 +1,284 @@
+import React, { useMemo, useState } from 'react';
+import { Plus, Search, Trash2 } from 'lucide-react';
+import { usePaint, Paint } from '../../context/PaintContext';
+import { useTheme } from '../../context/ThemeContext';
+import CalibrationPanel from './CalibrationPanel';
+import PaintDetailPanel from './PaintDetailPanel';
+import { createCustomPaint, CUSTOM_PAINT_BRAND, CustomPaintInput, parsePigmentCodes } from '../../utils/customPaints';
+
+const OPACITY_LABELS: Record<Paint['opacity'], string> = {
+  O: 'Opaque',
+  SO: 'Semi-opaque',
+  ST: 'Semi-transparent',
+  T: 'Transparent'
+};
+
+const EMPTY_CUSTOM_PAINT: CustomPaintInput = {
+  name: '',
+  hex: '#8A5A3C',
+  pigmentCodes: [],
+  opacity: 'SO',
+  tintingStrength: 'Medium'
+};
+
+const InventoryManager: React.FC = () => {
+  const { theme } = useTheme();
+  const isDark = theme === 'dark';
+  const {
+    getCatalogPaints,
+    inventory,
+    isUsingInventory,
+    setTubeCount,
+    addCustomPaint,
+    removeCustomPaint,
+    clearInventory
+  } = usePaint();
+
+  const [query, setQuery] = useState('');
+  const [brandFilter, setBrandFilter] = useState('all');
+  const [opacityFilter, setOpacityFilter] = useState<'all' | Paint['opacity']>('all');
+  const [ownedOnly, setOwnedOnly] = useState(false);
+  const [customPaint, setCustomPaint] = useState<CustomPaintInput>(EMPTY_CUSTOM_PAINT);
+  const [pigmentText, setPigmentText] = useState('');
+  const [detailPaint, setDetailPaint] = useState<Paint | null>(null);
+
+  const catalog = useMemo(() => getCatalogPaints(), [getCatalogPaints]);
+  const brands = useMemo(() => Array.from(new Set(catalog.map(paint => paint.brand))), [catalog]);
+
+  // Matches name or pigment codes, e.g. "ultramarine" or "PB29"
+  const filteredPaints = useMemo(() => {
+    const terms = query.trim().toLowerCase().split(/\s+/).filter(Boolean);
+    return catalog.filter(paint => {
+      if (brandFilter !== 'all' && paint.brand !== brandFilter) return false;
+      if (opacityFilter !== 'all' && paint.opacity !== opacityFilter) return false;
+      if (ownedOnly && !inventory[paint.id]) return false;
+      const text = `${paint.name} ${paint.pigmentCodes.join(' ')}`.toLowerCase();
+      return terms.every(term => text.includes(term));
+    });
+  }, [catalog, query, brandFilter, opacityFilter, ownedOnly, inventory]);
+
+  const ownedCount = Object.keys(inventory).length;
+  const tubeCount = Object.values(inventory).reduce((sum, tubes) => sum + tubes, 0);
+
+  const handleAddCustomPaint = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!customPaint.name.trim()) return;
+    addCustomPaint(createCustomPaint({ ...customPaint, pigmentCodes: parsePigmentCodes(pigmentText) }));
+    setCustomPaint(EMPTY_CUSTOM_PAINT);
+    setPigmentText('');
+  };
+
+  const inputClass = `rounded px-2 py-1 text-sm border ${isDark ? 'bg-gray-700 border-gray-600 text-white' : 'bg-white border-gray-300 text-gray-800'}`;
+  const labelClass = `block text-xs mb-1 ${isDark ? 'text-gray-400' : 'text-gray-500'}`;
+  const mutedClass = isDark ? 'text-gray-400' : 'text-gray-500';
+
+  return (
+    <div className="flex-1 overflow-auto p-6">
+      <div className="max-w-5xl mx-auto space-y-6">
+        <div className={`p-4 rounded-lg shadow-md ${isDark ? 'bg-gray-800 text-gray-200' : 'bg-white text-gray-800'}`}>
+          <div className="flex items-start justify-between">
+            <div>
+              <h2 className="text-xl font-serif mb-1">My Paints</h2>
+              <p className={`text-sm ${mutedClass}`}>
+                {isUsingInventory
+                  ? `Recipes, palette recommendations and gamut checks use your ${ownedCount} owned paints (${tubeCount} tubes).`
+                  : 'Tick the tubes you own to limit recipes to them. Until then, every paint from the selected brands is used.'}
+              </p>
+            </div>
+            {isUsingInventory && (
+              <button
+                onClick={clearInventory}
+                className={`ml-4 px-3 py-1 text-sm rounded-md transition-colors ${isDark ? 'bg-gray-700 hover:bg-gray-600 text-gray-200' : 'bg-gray-100 hover:bg-gray-200 text-gray-700'}`}
+              >
+                Clear inventory
+              </button>
+            )}
+          </div>
+
+          {/* Filters */}
+          <div className="mt-4 flex flex-wrap items-end gap-3">
+            <label className="flex-1 min-w-[12rem]">
+              <span className={labelClass}>Search name or pigment</span>
+              <span className="relative block">
+                <Search className={`absolute left-2 top-1/2 -translate-y-1/2 w-4 h-4 ${mutedClass}`} />
+                <input
+                  type="text"
+                  value={query}
+                  onChange={(e) => setQuery(e.target.value)}
+                  placeholder="e.g. ultramarine or PB29"
+                  className={`${inputClass} w-full pl-8`}
+                />
+              </span>
+            </label>
+            <label>
+              <span className={labelClass}>Brand</span>
+              <select value={brandFilter} onChange={(e) => setBrandFilter(e.target.value)} className={inputClass}>
+                <option value="all">All brands</option>
+                {brands.map(brand => <option key={brand} value={brand}>{brand}</option>)}
+              </select>
+            </label>
+            <label>
+              <span className={labelClass}>Opacity</span>
+              <select
+                value={opacityFilter}
+                onChange={(e) => setOpacityFilter(e.target.value as 'all' | Paint['opacity'])}
+                className={inputClass}
+              >
+                <option value="all">Any opacity</option>
+                {(Object.keys(OPACITY_LABELS) as Paint['opacity'][]).map(opacity => (
+                  <option key={opacity} value={opacity}>{OPACITY_LABELS[opacity]}</option>
+                ))}
+              </select>
+            </label>
+            <label className="flex items-center text-sm pb-1">
+              <input type="checkbox" checked={ownedOnly} onChange={(e) => setOwnedOnly(e.target.checked)} className="mr-2" />
+              Owned only
+            </label>
+          </div>
+        </div>
+
+        {detailPaint && (
+          <PaintDetailPanel paint={detailPaint} onSelectPaint={setDetailPaint} onClose={() => setDetailPaint(null)} />
+        )}
+
+        {/* Paint list */}
+        <div className={`p-4 rounded-lg shadow-md ${isDark ? 'bg-gray-800 text-gray-200' : 'bg-white text-gray-800'}`}>
+          <p className={`text-xs mb-2 ${mutedClass}`}>{filteredPaints.length} of {catalog.length} paints</p>
+          {filteredPaints.length === 0 ? (
+            <p className={`text-sm ${mutedClass}`}>No paints match these filters.</p>
+          ) : (
+            <ul className={`divide-y ${isDark ? 'divide-gray-700' : 'divide-gray-100'}`}>
+              {filteredPaints.map(paint => {
+                const tubes = inventory[paint.id] || 0;
+                return (
+                  <li key={paint.id} className="flex items-center py-2 text-sm">
+                    <input
+                      type="checkbox"
+                      checked={tubes > 0}
+                      onChange={(e) => setTubeCount(paint.id, e.target.checked ? 1 : 0)}
+                      className="mr-3"
+                      aria-label={`Own ${paint.name}`}
+                    />
+                    <div className="w-6 h-6 rounded mr-3 border border-gray-300 flex-shrink-0" style={{ backgroundColor: paint.swatch }} />
+                    <div className="flex-1 min-w-0">
+                      <button
+                        onClick={() => setDetailPaint(paint)}
+                        className="block max-w-full truncate text-left hover:underline"
+                        title="Show details and equivalents in other brands"
+                      >
+                        {paint.name}
+                      </button>
+                      <p className={`text-xs truncate ${mutedClass}`}>
+                        {paint.brand} · {paint.pigmentCodes.join(', ') || 'Unknown pigments'} · {OPACITY_LABELS[paint.opacity]}
+                      </p>
+                    </div>
+                    {tubes > 0 && (
+                      <label className={`ml-3 flex items-center text-xs ${mutedClass}`}>
+                        <input
+                          type="number"
+                          min={0}
+                          value={tubes}
+                          onChange={(e) => setTubeCount(paint.id, Math.max(0, Math.round(Number(e.target.value)) || 0))}
+                          className={`${inputClass} w-14 mr-1`}
+                        />
+                        tubes
+                      </label>
+                    )}
+                    {paint.brand === CUSTOM_PAINT_BRAND && (
+                      <button
+                        onClick={() => removeCustomPaint(paint.id)}
+                        className={`ml-3 p-1 rounded ${isDark ? 'hover:bg-gray-700' : 'hover:bg-gray-100'}`}
+                        title="Remove custom paint"
+                        aria-label={`Remove ${paint.name}`}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+
+        {/* Custom paint */}
+        <form
+          onSubmit={handleAddCustomPaint}
+          className={`p-4 rounded-lg shadow-md ${isDark ? 'bg-gray-800 text-gray-200' : 'bg-white text-gray-800'}`}
+        >
+          <h3 className="text-lg font-serif mb-1">Add a Custom Paint</h3>
+          <p className={`text-xs mb-3 ${mutedClass}`}>
+            For tubes not in the database. Match the swatch to a dried drawdown; mixing is estimated from its color, opacity and strength.
+          </p>
+          <div className="flex flex-wrap items-end gap-3">
+            <label className="flex-1 min-w-[10rem]">
+              <span className={labelClass}>Name</span>
+              <input
+                type="text"
+                value={customPaint.name}
+                onChange={(e) => setCustomPaint(prev => ({ ...prev, name: e.target.value }))}
+                placeholder="e.g. Raw Umber Greenish"
+                className={`${inputClass} w-full`}
+              />
+            </label>
+            <label>
+              <span className={labelClass}>Color</span>
+              <input
+                type="color"
+                value={customPaint.hex}
+                onChange={(e) => setCustomPaint(prev => ({ ...prev, hex: e.target.value }))}
+                className="w-12 h-8 p-0 border-0 cursor-pointer"
+              />
+            </label>
+            <label>
+              <span className={labelClass}>Pigments</span>
+              <input
+                type="text"
+                value={pigmentText}
+                onChange={(e) => setPigmentText(e.target.value)}
+                placeholder="PBr7, PBk9"
+                className={`${inputClass} w-28`}
+              />
+            </label>
+            <label>
+              <span className={labelClass}>Opacity</span>
+              <select
+                value={customPaint.opacity}
+                onChange={(e) => setCustomPaint(prev => ({ ...prev, opacity: e.target.value as Paint['opacity'] }))}
+                className={inputClass}
+              >
+                {(Object.keys(OPACITY_LABELS) as Paint['opacity'][]).map(opacity => (
+                  <option key={opacity} value={opacity}>{OPACITY_LABELS[opacity]}</option>
+                ))}
+              </select>
+            </label>
+            <label>
+              <span className={labelClass}>Tinting strength</span>
+              <select
+                value={customPaint.tintingStrength}
+                onChange={(e) => setCustomPaint(prev => ({ ...prev, tintingStrength: e.target.value as CustomPaintInput['tintingStrength'] }))}
+                className={inputClass}
+              >
+                <option value="High">High</option>
+                <option value="Medium">Medium</option>
+                <option value="Low">Low</option>
+              </select>
+            </label>
+            <button
+              type="submit"
+              disabled={!customPaint.name.trim()}
+              className="flex items-center px-3 py-1.5 text-sm bg-pigment-600 text-white rounded-md hover:bg-pigment-700 transition-colors disabled:opacity-50"
+            >
+              <Plus className="w-4 h-4 mr-1" />
+              Add and own
+            </button>
+          </div>
+        </form>
+
+        <CalibrationPanel />
+      </div>
+    </div>
+  );
+};
+
+export default InventoryManager;
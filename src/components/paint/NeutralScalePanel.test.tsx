@@ -0,0 +1,48 @@
+import React from 'react';
+import { fireEvent, render, screen } from '@testing-library/react';
+import { ThemeProvider } from '../../context/ThemeContext';
+import { SettingsProvider } from '../../context/SettingsContext';
+import { ColorProvider } from '../../context/ColorContext';
+import { PaintProvider } from '../../context/PaintContext';
+import { installMockSearchWorker, MockSearchWorker } from '../../testing/searchWorker';
+import NeutralScalePanel from './NeutralScalePanel';
+
+jest.mock('../../workers/createRecipeSearchWorker', () => require('../../testing/searchWorker'));
+
+const renderPanel = () => render(
+  <ThemeProvider>
+    <SettingsProvider>
+      <ColorProvider>
+        <PaintProvider>
+          <NeutralScalePanel />
+        </PaintProvider>
+      </ColorProvider>
+    </SettingsProvider>
+  </ThemeProvider>
+);
+
+describe('NeutralScalePanel', () => {
+  installMockSearchWorker();
+
+  it('balances greys and builds the scale in the worker, showing each as pending', async () => {
+    renderPanel();
+    expect(screen.getByText('Balancing greys from your paints…')).toBeInTheDocument();
+
+    expect(await screen.findByText('Mixing the grey scale…')).toBeInTheDocument();
+    expect(await screen.findAllByText(/^V \d/)).toHaveLength(9);
+    expect(MockSearchWorker.searches.map(search => search.type)).toEqual(['neutrals', 'grey-scale']);
+  });
+
+  it('searches again off the page when the value changes', async () => {
+    renderPanel();
+    await screen.findAllByText(/^V \d/);
+
+    fireEvent.change(screen.getByDisplayValue('Balance at value 5'), { target: { value: '7' } });
+
+    // The panel waits on the worker rather than searching while it renders
+    expect(screen.getByText('Balancing greys from your paints…')).toBeInTheDocument();
+    await screen.findAllByText(/^V \d/);
+    const neutrals = MockSearchWorker.searches.flatMap(search => (search.type === 'neutrals' ? [search.request.value] : []));
+    expect(neutrals).toEqual([5, 7]);
+  });
+});
@@ -0,0 +1,220 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { useTheme } from '../../context/ThemeContext';
+import { usePaint } from '../../context/PaintContext';
+import { useSettings } from '../../context/SettingsContext';
+import { formatMunsell } from '../../utils/munsell';
+import { GreyScale, NEUTRAL_BIASES, NeutralBias, NeutralMix } from '../../utils/neutralMixing';
+import { applyPaintConstraints } from '../../utils/recipeConstraints';
+import { LADDER_STEP_COUNTS, LadderStepCount } from '../../utils/valueLadder';
+import { GreyScaleRequest, NeutralSearchRequest } from '../../workers/recipeSearch';
+import { createRecipeSearchClient } from '../../workers/recipeSearchClient';
+
+// Munsell values the search can balance a grey at
+const SEARCH_VALUES = [2, 3, 4, 5, 6, 7, 8];
+
+// Residual above this is flagged on the scale
+const RESIDUAL_WARNING = 3;
+
+const NeutralScalePanel: React.FC = () => {
+  const { theme } = useTheme();
+  const isDark = theme === 'dark';
+  const { getAllPaints } = usePaint();
+  const { illuminant, deltaE, recipeConstraints } = useSettings();
+
+  const [bias, setBias] = useState<NeutralBias>('neutral');
+  const [value, setValue] = useState(5);
+  const [stepCount, setStepCount] = useState<LadderStepCount>(9);
+  const [selectedMix, setSelectedMix] = useState(0);
+  const [selectedStep, setSelectedStep] = useState<number | null>(null);
+
+  // Cancelling sets and whites come from the paints on hand
+  const paints = useMemo(
+    () => applyPaintConstraints(getAllPaints(), recipeConstraints).paints,
+    [getAllPaints, recipeConstraints]
+  );
+
+  // The panel's own search client, so its searches don't cancel the recipe panel's
+  const searchClient = useMemo(() => createRecipeSearchClient(), []);
+  useEffect(() => () => searchClient.dispose(), [searchClient]);
+
+  // Searches run in the worker; each result is kept with the request it answers,
+  // so a stale one is never shown against newer settings
+  const [neutralResult, setNeutralResult] = useState<{ request: NeutralSearchRequest; mixes: NeutralMix[] } | null>(null);
+  const [scaleResult, setScaleResult] = useState<{ request: GreyScaleRequest; scale: GreyScale } | null>(null);
+
+  const neutralRequest = useMemo<NeutralSearchRequest>(
+    () => ({ paints, bias, value, illuminant, deltaE }),
+    [paints, bias, value, illuminant, deltaE]
+  );
+
+  useEffect(() => {
+    searchClient.findNeutralMixes(neutralRequest)
+      .then(found => {
+        if (found) setNeutralResult({ request: neutralRequest, mixes: found });
+      })
+      .catch(error => {
+        console.error('Error finding neutral mixes:', error);
+        setNeutralResult({ request: neutralRequest, mixes: [] });
+      });
+  }, [searchClient, neutralRequest]);
+
+  // Null while the search is pending
+  const mixes = neutralResult?.request === neutralRequest ? neutralResult.mixes : null;
+  const mix = mixes ? mixes[selectedMix] || mixes[0] || null : null;
+
+  const scaleRequest = useMemo<GreyScaleRequest | null>(
+    () => (mix ? { set: mix.paints, paints, bias, steps: stepCount, illuminant, deltaE } : null),
+    [mix, paints, bias, stepCount, illuminant, deltaE]
+  );
+
+  useEffect(() => {
+    if (!scaleRequest) return;
+    searchClient.buildGreyScale(scaleRequest)
+      .then(built => {
+        if (built) setScaleResult({ request: scaleRequest, scale: built });
+      })
+      .catch(error => console.error('Error building grey scale:', error));
+  }, [searchClient, scaleRequest]);
+
+  const scale = scaleResult?.request === scaleRequest ? scaleResult.scale : null;
+
+  // Steps out of reach have no recipe to show
+  const step = scale && selectedStep !== null && scale.steps[selectedStep]?.reached ? scale.steps[selectedStep] : null;
+
+  const selectClass = `px-3 py-2 border rounded text-base ${isDark ? 'bg-gray-700 border-gray-600 text-gray-200' : 'bg-white border-gray-300 text-gray-700'}`;
+  const mutedClass = isDark ? 'text-gray-400' : 'text-gray-500';
+  const warningClass = isDark ? 'text-amber-300' : 'text-amber-700';
+
+  return (
+    <div>
+      <h3 className="text-2xl font-semibold mb-6 pb-3 border-b border-gray-200 dark:border-gray-700">Neutral Greys</h3>
+      <p className="text-sm text-gray-600 dark:text-gray-300 mb-4">
+        Mix greys from color instead of tube black: pairs and triads of your paints whose hues cancel, balanced
+        to lean warm, cool or neither. Residual is the ΔE from the ideal grey at each value.
+      </p>
+
+      <div className="flex flex-wrap gap-4 mb-6">
+        <select
+          value={bias}
+          onChange={(e) => { setBias(e.target.value as NeutralBias); setSelectedMix(0); setSelectedStep(null); }}
+          className={selectClass}
+        >
+          {(Object.keys(NEUTRAL_BIASES) as NeutralBias[]).map(id => (
+            <option key={id} value={id}>{NEUTRAL_BIASES[id].name}</option>
+          ))}
+        </select>
+        <select
+          value={value}
+          onChange={(e) => { setValue(Number(e.target.value)); setSelectedMix(0); }}
+          className={selectClass}
+        >
+          {SEARCH_VALUES.map(searchValue => (
+            <option key={searchValue} value={searchValue}>Balance at value {searchValue}</option>
+          ))}
+        </select>
+        <select value={stepCount} onChange={(e) => { setStepCount(Number(e.target.value) as LadderStepCount); setSelectedStep(null); }} className={selectClass}>
+          {LADDER_STEP_COUNTS.map(count => (
+            <option key={count} value={count}>{count} steps</option>
+          ))}
+        </select>
+      </div>
+      <p className={`text-sm mb-4 ${mutedClass}`}>{NEUTRAL_BIASES[bias].description}</p>
+
+      {!mixes ? (
+        <p className={`text-base ${mutedClass}`}>Balancing greys from your paints…</p>
+      ) : mixes.length === 0 ? (
+        <p className={`text-base ${warningClass}`}>
+          No two or three of your paints are far enough apart in hue to cancel to a grey.
+        </p>
+      ) : (
+        <>
+          {/* Cancelling sets, best balanced first */}
+          <ul className="space-y-1 mb-6">
+            {mixes.map((candidate, index) => (
+              <li key={candidate.paints.map(paint => paint.id).join('+')}>
+                <button
+                  type="button"
+                  onClick={() => { setSelectedMix(index); setSelectedStep(null); }}
+                  className={`w-full flex items-center text-left text-sm rounded-md p-2 transition-colors ${
+                    candidate === mix
+                      ? (isDark ? 'bg-gray-700' : 'bg-gray-100')
+                      : (isDark ? 'hover:bg-gray-700' : 'hover:bg-gray-50')
+                  }`}
+                >
+                  <div className="w-6 h-6 rounded mr-3 border border-gray-300 flex-shrink-0" style={{ backgroundColor: candidate.hex }} />
+                  <span className="flex-1 min-w-0">
+                    {candidate.paints.map(paint => paint.name).join(' + ')}
+                    <span className={mutedClass}> ({Array.from(new Set(candidate.paints.map(paint => paint.brand))).join(', ')})</span>
+                  </span>
+                  <span className={`ml-3 text-xs ${candidate.residualDeltaE > RESIDUAL_WARNING || !candidate.reached ? warningClass : mutedClass}`}>
+                    {formatMunsell(candidate.munsell)} · ΔE {candidate.residualDeltaE.toFixed(1)}
+                    {!candidate.reached && ' · out of reach'}
+                  </span>
+                </button>
+              </li>
+            ))}
+          </ul>
+
+          {/* Grey scale, lightest first */}
+          {!scale && <p className={`text-sm ${mutedClass}`}>Mixing the grey scale…</p>}
+          {scale && (
+            <>
+              <div className="flex gap-1">
+                {scale.steps.map((scaleStep, index) => (scaleStep.reached ? (
+                  <button
+                    key={index}
+                    type="button"
+                    onClick={() => setSelectedStep(selectedStep === index ? null : index)}
+                    className={`flex-1 min-w-0 text-center rounded-md p-1 transition-colors ${
+                      selectedStep === index ? (isDark ? 'bg-gray-700' : 'bg-gray-100') : ''
+                    }`}
+                  >
+                    <div className="h-16 rounded border border-gray-300 dark:border-gray-600" style={{ backgroundColor: scaleStep.hex }} />
+                    <p className="text-sm font-medium mt-1">V {scaleStep.value.toFixed(1)}</p>
+                    <p className={`text-xs truncate ${mutedClass}`}>{formatMunsell(scaleStep.munsell)}</p>
+                    <p className={`text-xs ${scaleStep.residualDeltaE > RESIDUAL_WARNING ? warningClass : mutedClass}`}>
+                      ΔE {scaleStep.residualDeltaE.toFixed(1)}
+                    </p>
+                  </button>
+                ) : (
+                  // Out of reach: no swatch, rather than the nearest mix the paints can make
+                  <div key={index} className="flex-1 min-w-0 text-center p-1" title="These paints cannot reach this value">
+                    <div className="h-16 rounded border border-dashed border-gray-300 dark:border-gray-600" />
+                    <p className="text-sm font-medium mt-1">V {scaleStep.value.toFixed(1)}</p>
+                    <p className={`text-xs ${warningClass}`}>Out of reach</p>
+                  </div>
+                )))}
+              </div>
+
+              <p className={`text-sm mt-3 ${mutedClass}`}>
+                {scale.paints.map(paint => paint.name).join(' + ')} rebalanced at every step
+                {scale.white ? `, lightened with ${scale.white.name}.` : '; no white on hand, so only the darkest steps can be mixed.'}
+                {scale.steps.some(scaleStep => !scaleStep.reached) && ' Steps out of reach are beyond what these paints can mix.'}
+              </p>
+            </>
+          )}
+
+          {/* Selected step's recipe */}
+          {step && (
+            <div className={`mt-4 p-4 rounded-lg ${isDark ? 'bg-gray-700' : 'bg-gray-100'}`}>
+              <p className="font-medium mb-2">
+                Step at value {step.value.toFixed(1)} · {formatMunsell(step.munsell)}
+              </p>
+              <ul className="space-y-1">
+                {step.recipe.map(({ paint, proportion }) => (
+                  <li key={paint.id} className="flex items-center text-sm">
+                    <div className="w-4 h-4 rounded mr-2 border border-gray-300" style={{ backgroundColor: paint.swatch }} />
+                    <span className="flex-1">{paint.name} <span className={mutedClass}>({paint.brand})</span></span>
+                    <span>{Math.round(proportion * 100)}%</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default NeutralScalePanel;
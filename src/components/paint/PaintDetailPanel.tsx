@@ -0,0 +1,99 @@
+import React, { useMemo } from 'react';
+import { X } from 'lucide-react';
+import { Paint, usePaint } from '../../context/PaintContext';
+import { useTheme } from '../../context/ThemeContext';
+import { useSettings } from '../../context/SettingsContext';
+import { formatMunsell, getPaintMunsell } from '../../utils/munsell';
+import { findEquivalents } from '../../utils/paintEquivalents';
+
+interface PaintDetailPanelProps {
+  paint: Paint;
+  onSelectPaint: (paint: Paint) => void;
+  onClose: () => void;
+}
+
+const OPACITY_NAMES: Record<Paint['opacity'], string> = {
+  O: 'Opaque',
+  SO: 'Semi-opaque',
+  ST: 'Semi-transparent',
+  T: 'Transparent'
+};
+
+const PaintDetailPanel: React.FC<PaintDetailPanelProps> = ({ paint, onSelectPaint, onClose }) => {
+  const { theme } = useTheme();
+  const isDark = theme === 'dark';
+  const { deltaE } = useSettings();
+  const { getCatalogPaints, inventory } = usePaint();
+
+  const equivalents = useMemo(
+    () => findEquivalents(paint, getCatalogPaints(), { deltaE, maxResults: 8 }),
+    [paint, getCatalogPaints, deltaE]
+  );
+
+  const munsell = getPaintMunsell(paint);
+  const mutedClass = isDark ? 'text-gray-400' : 'text-gray-500';
+
+  return (
+    <div className={`p-4 rounded-lg shadow-md ${isDark ? 'bg-gray-800 text-gray-200' : 'bg-white text-gray-800'}`}>
+      <div className="flex items-start">
+        <div className="w-14 h-14 rounded-md mr-4 border border-gray-300 flex-shrink-0" style={{ backgroundColor: paint.swatch }} />
+        <div className="flex-1 min-w-0">
+          <h3 className="text-lg font-serif">{paint.name}</h3>
+          <p className={`text-sm ${mutedClass}`}>{paint.brand}</p>
+          <p className={`text-xs mt-1 ${mutedClass}`}>
+            {paint.pigmentCodes.join(', ') || 'Unknown pigments'}
+            {' · '}{OPACITY_NAMES[paint.opacity]}
+            {paint.tintingStrength && ` · ${paint.tintingStrength} tinting strength`}
+            {' · '}Lightfastness {paint.lightfastness}
+            {munsell && ` · Munsell ${formatMunsell(munsell)}`}
+          </p>
+        </div>
+        <button
+          onClick={onClose}
+          className={`p-1 rounded ${isDark ? 'hover:bg-gray-700' : 'hover:bg-gray-100'}`}
+          aria-label="Close paint details"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <h4 className="text-sm font-medium mt-4 mb-2">Equivalents in Other Brands</h4>
+      {equivalents.length === 0 ? (
+        <p className={`text-sm ${mutedClass}`}>No other brand has a paint with the same pigments or a close color.</p>
+      ) : (
+        <ul className={`divide-y ${isDark ? 'divide-gray-700' : 'divide-gray-100'}`}>
+          {equivalents.map(equivalent => (
+            <li key={equivalent.paint.id} className="flex items-start py-2 text-sm">
+              <div
+                className="w-6 h-6 rounded mr-3 mt-0.5 border border-gray-300 flex-shrink-0"
+                style={{ backgroundColor: equivalent.paint.swatch }}
+              />
+              <div className="flex-1 min-w-0">
+                <button onClick={() => onSelectPaint(equivalent.paint)} className="text-left hover:underline">
+                  {equivalent.paint.name}
+                </button>
+                {(inventory[equivalent.paint.id] || 0) > 0 && (
+                  <span className={`ml-2 text-xs rounded px-1.5 py-0.5 ${isDark ? 'bg-green-900 text-green-200' : 'bg-green-100 text-green-800'}`}>
+                    Owned
+                  </span>
+                )}
+                <p className={`text-xs ${mutedClass}`}>
+                  {equivalent.paint.brand} · {equivalent.paint.pigmentCodes.join(', ') || 'Unknown pigments'}
+                  {equivalent.deltaE !== null && ` · ΔE ${equivalent.deltaE.toFixed(1)}`}
+                </p>
+                {equivalent.flags.length > 0 && (
+                  <p className={`text-xs ${isDark ? 'text-amber-300' : 'text-amber-700'}`}>{equivalent.flags.join(' · ')}</p>
+                )}
+              </div>
+              <span className="ml-3 text-xs font-medium" title="Combined pigment, color, opacity and strength similarity">
+                {Math.round(equivalent.score * 100)}%
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default PaintDetailPanel;
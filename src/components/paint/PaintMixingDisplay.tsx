@@ -1,7 +1,27 @@
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import { useTheme } from '../../context/ThemeContext';
+import { useColor } from '../../context/ColorContext';
 import { usePaint } from '../../context/PaintContext';
-import { MixingRecipe } from '../../context/PaintContext';
+import { MixingRecipe, Paint } from '../../context/PaintContext';
+import { useSettings } from '../../context/SettingsContext';
+import { ILLUMINANTS, IlluminantId } from '../../data/illuminants';
+import { labToRgb, rgbToHex } from '../../utils/colorConversion';
+import { DELTA_E_METRICS } from '../../utils/colorDifference';
+import { hasEstimatedSpectrum } from '../../utils/kubelkaMunk';
+import { formatMunsell, getPaintMunsell, labToMunsell } from '../../utils/munsell';
+import { METAMERISM_WARNING_THRESHOLD, WARM_ILLUMINANTS } from '../../utils/metamerism';
+import { MIXING_ENGINES } from '../../utils/mixingEngine';
+import { generateMixingInstructions } from '../../utils/mixingInstructions';
+import { getRecipePigments } from '../../utils/pigmentBreakdown';
+import { MEASURING_ERROR } from '../../utils/recipeRobustness';
+import { groupExclusions, PAINT_CONSTRAINT_LABELS, PaintConstraintId } from '../../utils/recipeConstraints';
+import {
+  BatchUnit,
+  DEFAULT_PARTS_TOLERANCE,
+  PARTS_TOLERANCES,
+  toBatchQuantities,
+  toRecipeParts
+} from '../../utils/recipeParts';
 
 interface PaintMixingDisplayProps {
   recipes: Array<MixingRecipe & { description?: string }>;
@@ -11,9 +31,71 @@ interface PaintMixingDisplayProps {
 const PaintMixingDisplay: React.FC<PaintMixingDisplayProps> = ({ recipes, targetColor }) => {
   const { theme } = useTheme();
   const isDark = theme === 'dark';
+  const { illuminant, deltaE, recipeConstraints, setRecipeConstraints } = useSettings();
+  const { mixingDiagnostics, mixingProgress, isLoading } = usePaint();
   const [hasError, setHasError] = useState(false);
   const [errorInfo, setErrorInfo] = useState<string>('');
   const [expandedRecipe, setExpandedRecipe] = useState<number | null>(null);
+  const [partsTolerance, setPartsTolerance] = useState<number>(DEFAULT_PARTS_TOLERANCE);
+  const [batchSize, setBatchSize] = useState<number>(50);
+  const [batchUnit, setBatchUnit] = useState<BatchUnit>('g');
+  const { selectedColor } = useColor();
+  const targetLab = selectedColor ? selectedColor.gamutMapped?.lab ?? selectedColor.lab : undefined;
+  
+  // Measurable parts for each recipe and what rounding costs in color accuracy
+  const recipeParts = useMemo(
+    () => (recipes || []).map(recipe => toRecipeParts(recipe, partsTolerance, illuminant, deltaE, targetLab)),
+    [recipes, partsTolerance, illuminant, deltaE, targetLab]
+  );
+  
+  // Ordered studio steps with a predicted swatch after each
+  const recipeInstructions = useMemo(
+    () => (recipes || []).map(recipe => generateMixingInstructions(recipe, illuminant)),
+    [recipes, illuminant]
+  );
+  
+  // Distinct pigments in each recipe, largest share first
+  const recipePigments = useMemo(
+    () => (recipes || []).map(recipe => getRecipePigments(recipe.paints)),
+    [recipes]
+  );
+  
+  // Paints the recipe constraints kept out of the last search, by constraint
+  const exclusionGroups = useMemo(
+    () => groupExclusions(mixingDiagnostics?.excluded || []),
+    [mixingDiagnostics]
+  );
+  
+  const banPaint = (paint: Paint) => setRecipeConstraints({
+    ...recipeConstraints,
+    bannedPaintIds: Array.from(new Set([...recipeConstraints.bannedPaintIds, paint.id]))
+  });
+  
+  // Which constraints removed which candidate paints
+  const constraintSummary = mixingDiagnostics && mixingDiagnostics.excluded.length > 0 && (
+    <details className={`mb-3 text-xs ${isDark ? 'text-gray-400' : 'text-gray-500'}`}>
+      <summary className="cursor-pointer">
+        Recipe constraints removed {mixingDiagnostics.excluded.length} paint{mixingDiagnostics.excluded.length === 1 ? '' : 's'}
+      </summary>
+      <ul className="mt-2 space-y-1">
+        {(Object.keys(exclusionGroups) as PaintConstraintId[]).map(constraint => (
+          <li key={constraint}>
+            <span className={`font-medium ${isDark ? 'text-gray-300' : 'text-gray-600'}`}>
+              {PAINT_CONSTRAINT_LABELS[constraint]} ({exclusionGroups[constraint]!.length}):
+            </span>{' '}
+            {exclusionGroups[constraint]!.map((exclusion, index) => (
+              <span
+                key={exclusion.paintId}
+                title={`${exclusion.brand} · ${exclusion.reasons.filter(reason => reason.constraint === constraint).map(reason => reason.detail).join('; ')}`}
+              >
+                {index > 0 && ', '}{exclusion.name}
+              </span>
+            ))}
+          </li>
+        ))}
+      </ul>
+    </details>
+  );
   
   // Debug: Log recipes received by the component
   useEffect(() => {
@@ -67,10 +149,23 @@ const PaintMixingDisplay: React.FC<PaintMixingDisplayProps> = ({ recipes, target
         <h3 className={`text-lg font-serif mb-2 ${isDark ? 'text-white' : 'text-gray-800'}`}>
           Paint Mixing Suggestions
         </h3>
-        <p className={`${isDark ? 'text-gray-300' : 'text-gray-600'}`}>
-          No paint mixing recipes available. Please select a color from the image and make sure
-          you have at least one paint brand selected.
-        </p>
+        {isLoading ? (
+          // A search is running and has not found anything to show yet
+          <p className={`${isDark ? 'text-gray-300' : 'text-gray-600'}`}>
+            Searching for mixing recipes…{mixingProgress !== null && ` ${Math.round(mixingProgress * 100)}%`}
+          </p>
+        ) : (
+          <>
+            <p className={`${isDark ? 'text-gray-300' : 'text-gray-600'}`}>
+              No paint mixing recipes available. Please select a color from the image and make sure
+              you have at least one paint brand selected.
+            </p>
+            {mixingDiagnostics?.notes.map((note, index) => (
+              <p key={index} className={`mt-2 text-sm ${isDark ? 'text-amber-300' : 'text-amber-700'}`}>{note}</p>
+            ))}
+            <div className="mt-3">{constraintSummary}</div>
+          </>
+        )}
       </div>
     );
   }
@@ -90,49 +185,13 @@ const PaintMixingDisplay: React.FC<PaintMixingDisplayProps> = ({ recipes, target
     return proportion === 1 ? 'Pure' : Math.round(proportion * 100) + '%';
   };
 
-  // Generate detailed mixing instructions based on recipe
-  const getMixingInstructions = (recipe: MixingRecipe): string => {
-    const paints = recipe.paints;
-    
-    if (paints.length === 1) {
-      return `Use this paint directly without mixing. For subtle adjustments, consider adding a small amount of white for highlights or a complementary color to reduce intensity.`;
-    }
-    
-    if (paints.length === 2) {
-      const [paint1, paint2] = paints;
-      const ratio = `${Math.round(paint1.proportion * 100)}:${Math.round(paint2.proportion * 100)}`;
-      
-      // Check for specific mixing cases
-      if (paint1.paint.name.toLowerCase().includes('white') || paint2.paint.name.toLowerCase().includes('white')) {
-        const whitePaint = paint1.paint.name.toLowerCase().includes('white') ? paint1 : paint2;
-        const colorPaint = paint1.paint.name.toLowerCase().includes('white') ? paint2 : paint1;
-        return `Start with ${colorPaint.paint.name} and gradually add small amounts of ${whitePaint.paint.name} until you reach the desired lightness. Final ratio should be approximately ${ratio}.`;
-      }
-      
-      // Check for complementary colors (creates more neutral tones)
-      const isComplementary = paint1.paint.pigmentCodes.some(code => {
-        return code.startsWith('PR') || code.startsWith('PO') || code.startsWith('PY');
-      }) && paint2.paint.pigmentCodes.some(code => {
-        return code.startsWith('PB') || code.startsWith('PG');
-      });
-      
-      if (isComplementary) {
-        return `These are complementary colors which will neutralize each other. Start with the more dominant color (${paint1.proportion > paint2.proportion ? paint1.paint.name : paint2.paint.name}) and add the other in very small increments to avoid overmixing. Aim for a ratio of ${ratio}.`;
-      }
-      
-      return `Mix approximately ${ratio} ratio of ${paint1.paint.name} and ${paint2.paint.name}. Start with the color of higher proportion and gradually add the second.`;
-    }
-    
-    if (paints.length >= 3) {
-      // Sort paints by proportion for logical mixing order
-      const sortedPaints = [...paints].sort((a, b) => b.proportion - a.proportion);
-      
-      return `For this complex mix:\n1. Start with ${sortedPaints[0].paint.name} (${Math.round(sortedPaints[0].proportion * 100)}%)\n2. Add ${sortedPaints[1].paint.name} (${Math.round(sortedPaints[1].proportion * 100)}%)\n3. Finally add small amounts of ${sortedPaints.slice(2).map(p => `${p.paint.name} (${Math.round(p.proportion * 100)}%)`).join(', ')} to fine-tune the color.`;
-    }
-    
-    return "Mix the paints in the proportions indicated, starting with the paint of highest proportion.";
+  // Munsell notation of a paint, listed or computed from its color
+  const formatPaintMunsell = (paint: Paint): string => {
+    const munsell = getPaintMunsell(paint);
+    return munsell ? ` · Munsell ${formatMunsell(munsell)}` : '';
   };
-  
+
+  // Generate detailed mixing instructions based on recipe
   // Visual representation of the mix
   const MixingVisualization = ({ recipe }: { recipe: MixingRecipe }) => {
     return (
@@ -167,6 +226,30 @@ const PaintMixingDisplay: React.FC<PaintMixingDisplayProps> = ({ recipes, target
       <h3 className={`text-lg font-serif mb-2 ${isDark ? 'text-white' : 'text-gray-800'}`}>
         Mixing Recipes
       </h3>
+      <p className={`text-xs mb-3 ${isDark ? 'text-gray-400' : 'text-gray-500'}`}>
+        Colors rendered under {ILLUMINANTS[illuminant].name} · matched with {DELTA_E_METRICS[deltaE.metric].name}
+        {mixingDiagnostics && (
+          <> · {MIXING_ENGINES[mixingDiagnostics.engine].name}, {mixingDiagnostics.candidatesEvaluated} mixes
+          tried in {Math.round(mixingDiagnostics.durationMs)} ms</>
+        )}
+      </p>
+      
+      {constraintSummary}
+      
+      {/* Search progress; the recipes below are the best found so far */}
+      {mixingProgress !== null && (
+        <div className="mb-3">
+          <div className={`h-1.5 rounded-full overflow-hidden ${isDark ? 'bg-gray-700' : 'bg-gray-200'}`}>
+            <div
+              className="h-full bg-pigment-500 transition-all duration-200"
+              style={{ width: `${Math.round(mixingProgress * 100)}%` }}
+            />
+          </div>
+          <p className={`text-xs mt-1 ${isDark ? 'text-gray-400' : 'text-gray-500'}`}>
+            Searching… {Math.round(mixingProgress * 100)}% · showing the best recipes so far
+          </p>
+        </div>
+      )}
       
       <div className="flex items-center mb-4">
         <div className="w-full max-w-xs flex items-center">
@@ -185,11 +268,47 @@ const PaintMixingDisplay: React.FC<PaintMixingDisplayProps> = ({ recipes, target
         </div>
       </div>
       
+      {/* Rounding and batch size for measuring at the easel */}
+      <div className={`flex flex-wrap items-center gap-3 mb-2 text-xs ${isDark ? 'text-gray-300' : 'text-gray-600'}`}>
+        <label className="flex items-center gap-1">
+          Round parts within
+          <select
+            value={partsTolerance}
+            onChange={(e) => setPartsTolerance(Number(e.target.value))}
+            className={`rounded px-1 py-0.5 border ${isDark ? 'bg-gray-700 border-gray-600 text-white' : 'bg-white border-gray-300 text-gray-800'}`}
+          >
+            {PARTS_TOLERANCES.map(tolerance => (
+              <option key={tolerance} value={tolerance}>±{Math.round(tolerance * 100)}%</option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center gap-1">
+          Batch
+          <input
+            type="number"
+            min={1}
+            value={batchSize}
+            onChange={(e) => setBatchSize(Math.max(0, Number(e.target.value) || 0))}
+            className={`w-16 rounded px-1 py-0.5 border ${isDark ? 'bg-gray-700 border-gray-600 text-white' : 'bg-white border-gray-300 text-gray-800'}`}
+          />
+          <select
+            value={batchUnit}
+            onChange={(e) => setBatchUnit(e.target.value as BatchUnit)}
+            className={`rounded px-1 py-0.5 border ${isDark ? 'bg-gray-700 border-gray-600 text-white' : 'bg-white border-gray-300 text-gray-800'}`}
+          >
+            <option value="g">g</option>
+            <option value="ml">ml</option>
+          </select>
+        </label>
+      </div>
+      
       {/* Recipe area with scroll capability */}
       <div className="space-y-4 mt-4 pr-1">
         {recipes.map((recipe, index) => {
           console.log(`Rendering recipe #${index+1}:`, recipe);
           const isExpanded = expandedRecipe === index;
+          const parts = recipeParts[index];
+          const batch = toBatchQuantities(recipe.paints, batchSize, batchUnit);
           
           return (
           <div 
@@ -230,7 +349,65 @@ const PaintMixingDisplay: React.FC<PaintMixingDisplayProps> = ({ recipes, target
                   >
                     Match: {formatPercentage(recipe.matchPercentage)}
                   </span>
+                  <span
+                    className={`text-xs rounded-md px-2 py-0.5 ${isDark ? 'bg-gray-700 text-gray-300' : 'bg-gray-100 text-gray-600'}`}
+                    title="Distinct pigments across the recipe's tubes"
+                  >
+                    {recipePigments[index].length} pigment{recipePigments[index].length === 1 ? '' : 's'}
+                  </span>
+                  {recipe.metamerism?.warmLightWarning && (
+                    <span
+                      className={`text-xs rounded-md px-2 py-0.5 ${isDark ? 'bg-amber-900 text-amber-200' : 'bg-amber-100 text-amber-800'}`}
+                      title={`Metamerism index ${Math.max(...WARM_ILLUMINANTS.map(id => recipe.metamerism!.indices[id])).toFixed(1)} under ${WARM_ILLUMINANTS.map(id => ILLUMINANTS[id].name).join(', ')}`}
+                    >
+                      Shifts under warm light
+                    </span>
+                  )}
+                  {recipe.robustness && recipe.paints.length > 1 && (
+                    <span
+                      className={`text-xs rounded-md px-2 py-0.5 ${recipe.robustness.rating === 'sensitive'
+                        ? (isDark ? 'bg-amber-900 text-amber-200' : 'bg-amber-100 text-amber-800')
+                        : (isDark ? 'bg-gray-700 text-gray-300' : 'bg-gray-100 text-gray-600')}`}
+                      title={`±${Math.round(MEASURING_ERROR * 100)}% on the paints shifts the mix by up to ΔE ${recipe.robustness.worstDeltaE.toFixed(1)}`}
+                    >
+                      {recipe.robustness.rating === 'sensitive' ? 'Sensitive' : 'Forgiving'}
+                      {recipe.robustness.mostSensitive && ` · watch ${recipe.robustness.mostSensitive.name}`}
+                    </span>
+                  )}
                 </div>
+                {recipe.estimatedLabColor && (
+                  <p className={`text-xs font-mono mt-1 ${isDark ? 'text-gray-400' : 'text-gray-500'}`}>
+                    Munsell {formatMunsell(labToMunsell(recipe.estimatedLabColor))}
+                  </p>
+                )}
+                {parts && recipe.paints.length > 1 && (
+                  <p className={`text-xs mt-1 ${isDark ? 'text-gray-300' : 'text-gray-600'}`}>
+                    <span className="font-medium">Parts {parts.formatted}</span>
+                    {' · '}rounding shifts the mix by ΔE {parts.roundingDeltaE.toFixed(2)}
+                    {parts.deltaE !== undefined && parts.exactDeltaE !== undefined && (
+                      <> (match ΔE {parts.exactDeltaE.toFixed(2)} → {parts.deltaE.toFixed(2)})</>
+                    )}
+                  </p>
+                )}
+                {recipe.robustness && recipe.paints.length > 1 && (
+                  <p className={`text-xs mt-1 ${isDark ? 'text-gray-400' : 'text-gray-500'}`}>
+                    Measuring the paints {Math.round(MEASURING_ERROR * 100)}% off moves the mix by up to ΔE {recipe.robustness.worstDeltaE.toFixed(1)}
+                    {' '}(about {recipe.robustness.expectedDeltaE.toFixed(1)} on average)
+                    {recipe.robustness.mostSensitive && <>; most sensitive to {recipe.robustness.mostSensitive.name}</>}
+                  </p>
+                )}
+                {recipe.paints.some(({ paint }) => hasEstimatedSpectrum(paint)) && (
+                  <p className={`text-xs mt-1 ${isDark ? 'text-gray-400' : 'text-gray-500'}`}>
+                    {recipe.paints.filter(({ paint }) => hasEstimatedSpectrum(paint)).map(({ paint }) => paint.name).join(', ')}
+                    {' '}mixed from curves estimated from their color, not measured spectra
+                  </p>
+                )}
+                {recipe.optimization && (
+                  <p className={`text-xs mt-1 ${isDark ? 'text-gray-400' : 'text-gray-500'}`}>
+                    Proportions optimised to ΔE {recipe.optimization.deltaE.toFixed(2)} after {recipe.optimization.iterations} iterations
+                    {!recipe.optimization.converged && ' (iteration limit reached)'}
+                  </p>
+                )}
                 {recipe.description && (
                   <p className={`text-xs italic mt-1 ${isDark ? 'text-gray-400' : 'text-gray-500'}`}>
                     {recipe.description}
@@ -245,7 +422,7 @@ const PaintMixingDisplay: React.FC<PaintMixingDisplayProps> = ({ recipes, target
             )}
             
             {/* Expanded detailed view */}
-            <div className={`overflow-hidden transition-all duration-300 ease-in-out ${isExpanded ? 'max-h-[800px] opacity-100' : 'max-h-0 opacity-0'}`}>
+            <div className={`overflow-hidden transition-all duration-300 ease-in-out ${isExpanded ? 'max-h-[1200px] opacity-100' : 'max-h-0 opacity-0'}`}>
               <div className="p-3">
                 {/* More prominent visualization for expanded view */}
                 {recipe.paints.length > 1 && (
@@ -272,22 +449,111 @@ const PaintMixingDisplay: React.FC<PaintMixingDisplayProps> = ({ recipes, target
                           </p>
                           <span className={`text-sm ${isDark ? 'text-gray-400' : 'text-gray-500'}`}>
                             {formatProportion(paintItem.proportion)}
+                            {parts && recipe.paints.length > 1 && ` · ${parts.formatted.split(' : ')[paintIndex]} part${parts.parts[paintIndex] > 1 ? 's' : ''}`}
+                            {batch[paintIndex] && ` · ${batchUnit === 'g'
+                              ? `${batch[paintIndex].grams.toFixed(1)} g`
+                              : `${batch[paintIndex].millilitres.toFixed(1)} ml`}`}
                           </span>
                         </div>
                         <p className={`text-xs ${isDark ? 'text-gray-400' : 'text-gray-500'}`}>
                           {paintItem.paint.brand} · {paintItem.paint.pigmentCodes.join(', ')}
                           {paintItem.paint.opacity && ` · ${paintItem.paint.opacity} opacity`}
                           {paintItem.paint.lightfastness && ` · Lightfastness: ${paintItem.paint.lightfastness}`}
+                          {formatPaintMunsell(paintItem.paint)}
+                          {' · '}
+                          <button
+                            onClick={() => banPaint(paintItem.paint)}
+                            className={`underline ${isDark ? 'hover:text-gray-200' : 'hover:text-gray-700'}`}
+                            title="Leave this tube out of future recipes"
+                          >
+                            Ban tube
+                          </button>
                         </p>
                       </div>
                     </li>
                   ))}
                 </ul>
                 
+                {/* Pigments behind the tubes, since convenience mixes carry several */}
+                <div className="mt-4">
+                  <h4 className={`text-sm font-medium mb-2 ${isDark ? 'text-gray-200' : 'text-gray-700'}`}>
+                    Pigment Breakdown
+                  </h4>
+                  <ul className="space-y-1 text-xs">
+                    {recipePigments[index].map(pigment => (
+                      <li key={pigment.code} className="flex items-baseline">
+                        <span className={`font-mono w-16 flex-shrink-0 ${isDark ? 'text-gray-300' : 'text-gray-700'}`}>
+                          {pigment.known ? pigment.code : '—'}
+                        </span>
+                        <span className={`flex-1 min-w-0 ${isDark ? 'text-gray-400' : 'text-gray-500'}`}>
+                          {pigment.name}
+                          {recipe.paints.length > 1 && ` · from ${pigment.paints.map(paint => paint.name).join(', ')}`}
+                        </span>
+                        <span className={`ml-2 ${isDark ? 'text-gray-300' : 'text-gray-700'}`}>
+                          ~{Math.round(pigment.share * 100)}%
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                  <p className={`text-xs mt-2 ${isDark ? 'text-gray-400' : 'text-gray-500'}`}>
+                    Shares assume each tube's pigments are in equal parts; makers do not publish formulations.
+                  </p>
+                </div>
+                
+                {/* Predicted color under each illuminant */}
+                {recipe.metamerism && (
+                  <div className="mt-4">
+                    <h4 className={`text-sm font-medium mb-2 ${isDark ? 'text-gray-200' : 'text-gray-700'}`}>
+                      Under Other Lights
+                    </h4>
+                    <div className="grid grid-cols-3 gap-2">
+                      {(Object.keys(recipe.metamerism.colors) as IlluminantId[]).map(id => {
+                        const index = recipe.metamerism!.indices[id];
+                        return (
+                          <div key={id} className="flex items-center text-xs" title={ILLUMINANTS[id].name}>
+                            <div
+                              className="w-5 h-5 rounded mr-2 border border-gray-300 flex-shrink-0"
+                              style={{ backgroundColor: rgbToHex(labToRgb(recipe.metamerism!.colors[id], id)) }}
+                            />
+                            <span className={isDark ? 'text-gray-400' : 'text-gray-500'}>
+                              {id} · MI{' '}
+                              <span className={index > METAMERISM_WARNING_THRESHOLD ? (isDark ? 'text-amber-300' : 'text-amber-700') : ''}>
+                                {index.toFixed(1)}
+                              </span>
+                            </span>
+                          </div>
+                        );
+                      })}
+                    </div>
+                    <p className={`text-xs mt-2 ${isDark ? 'text-gray-400' : 'text-gray-500'}`}>
+                      Metamerism index: how far the recipe drifts from the target compared with daylight. Above {METAMERISM_WARNING_THRESHOLD.toFixed(0)} the difference is visible.
+                    </p>
+                  </div>
+                )}
+                
                 {/* Detailed mixing instructions */}
                 <div className={`mt-4 p-3 rounded text-sm ${isDark ? 'bg-gray-700 text-gray-300' : 'bg-gray-100 text-gray-700'}`}>
-                  <h4 className="font-medium mb-1">Mixing Instructions</h4>
-                  <p className="whitespace-pre-line">{getMixingInstructions(recipe)}</p>
+                  <h4 className="font-medium mb-2">Mixing Instructions</h4>
+                  <ol className="space-y-2">
+                    {(recipeInstructions[index] || []).map((step, stepIndex) => (
+                      <li key={stepIndex} className="flex items-start">
+                        <span className={`w-5 flex-shrink-0 text-xs mt-0.5 ${isDark ? 'text-gray-400' : 'text-gray-500'}`}>{stepIndex + 1}.</span>
+                        <div
+                          className={`w-5 h-5 rounded mr-2 flex-shrink-0 border ${step.checkpoint ? 'border-2 border-pigment-600' : 'border-gray-300'}`}
+                          style={{ backgroundColor: step.hex }}
+                          title="Predicted mix after this step"
+                        />
+                        <span className="flex-1">
+                          {step.text}
+                          {step.checkpoint && (
+                            <span className={`block text-xs font-medium ${isDark ? 'text-pigment-300' : 'text-pigment-700'}`}>
+                              Checkpoint: {step.checkpoint}
+                            </span>
+                          )}
+                        </span>
+                      </li>
+                    ))}
+                  </ol>
                   
                   {/* Additional mixing tips based on recipe properties */}
                   {recipe.paints.some(p => p.paint.opacity === 'ST' || p.paint.opacity === 'T') && (
@@ -341,7 +607,7 @@ const PaintMixingDisplay: React.FC<PaintMixingDisplayProps> = ({ recipes, target
         <h4 className={`font-semibold mb-2 ${isDark ? 'text-white' : 'text-gray-800'}`}>Palette Mixing Tips</h4>
         <ul className={`list-disc pl-5 space-y-2 ${isDark ? 'text-gray-200' : 'text-gray-700'}`}>
           <li>Mix on a clean surface, starting with the paint in the highest proportion.</li>
-          <li>For better accuracy, measure paints by volume using a palette knife or mixing tool.</li>
+          <li>For better accuracy, measure paints in the parts shown with a palette knife, or weigh out the batch amounts on a scale.</li>
           <li>Mix slightly more than you need to avoid color matching issues if you run out.</li>
           <li>Test your mix by applying a small amount to a scrap surface and allowing it to dry, as oil paints often dry darker.</li>
           <li>Record your successful mixes with notes on proportions for future reference.</li>
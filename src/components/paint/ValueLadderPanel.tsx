@@ -0,0 +1,170 @@
+import React, { useMemo, useState } from 'react';
+import { useTheme } from '../../context/ThemeContext';
+import { usePaint } from '../../context/PaintContext';
+import { useSettings } from '../../context/SettingsContext';
+import { formatMunsell } from '../../utils/munsell';
+import { applyPaintConstraints } from '../../utils/recipeConstraints';
+import {
+  buildValueLadder,
+  LADDER_MODES,
+  LADDER_STEP_COUNTS,
+  LadderMode,
+  LadderStepCount
+} from '../../utils/valueLadder';
+
+// Drift above this is flagged on the ladder
+const DRIFT_WARNING = 3;
+
+const ValueLadderPanel: React.FC = () => {
+  const { theme } = useTheme();
+  const isDark = theme === 'dark';
+  const { recipes, getAllPaints, getCatalogPaints } = usePaint();
+  const { illuminant, deltaE, recipeConstraints } = useSettings();
+
+  // "recipe:<index>" or "paint:<id>"
+  const [source, setSource] = useState('');
+  const [mode, setMode] = useState<LadderMode>('complement');
+  const [stepCount, setStepCount] = useState<LadderStepCount>(9);
+  const [selectedStep, setSelectedStep] = useState<number | null>(null);
+
+  const catalog = useMemo(() => getCatalogPaints(), [getCatalogPaints]);
+
+  const base = useMemo(() => {
+    const separator = source.indexOf(':');
+    const kind = source.slice(0, separator);
+    const key = source.slice(separator + 1);
+    if (kind === 'recipe') return recipes[Number(key)]?.paints || null;
+    const paint = catalog.find(candidate => candidate.id === key);
+    return paint ? [{ paint, proportion: 1 }] : null;
+  }, [source, recipes, catalog]);
+
+  // Whites, darkening agents and correctors come from the paints on hand
+  const ladder = useMemo(() => {
+    if (!base) return null;
+    const paints = applyPaintConstraints(getAllPaints(), recipeConstraints).paints;
+    return buildValueLadder(base, paints, { mode, steps: stepCount, illuminant, deltaE });
+  }, [base, getAllPaints, recipeConstraints, mode, stepCount, illuminant, deltaE]);
+
+  const step = ladder && selectedStep !== null ? ladder.steps[selectedStep] : null;
+
+  const selectClass = `px-3 py-2 border rounded text-base ${isDark ? 'bg-gray-700 border-gray-600 text-gray-200' : 'bg-white border-gray-300 text-gray-700'}`;
+  const mutedClass = isDark ? 'text-gray-400' : 'text-gray-500';
+
+  return (
+    <div>
+      <h3 className="text-2xl font-semibold mb-6 pb-3 border-b border-gray-200 dark:border-gray-700">Value Ladder</h3>
+      <p className="text-sm text-gray-600 dark:text-gray-300 mb-4">
+        Premix a color string: one mix per Munsell value step, each kept on the base color's hue. Drift is the ΔE
+        between a step and its ideal, the step's value at the base hue.
+      </p>
+
+      <div className="flex flex-wrap gap-4 mb-6">
+        <select
+          value={source}
+          onChange={(e) => { setSource(e.target.value); setSelectedStep(null); }}
+          className={selectClass}
+        >
+          <option value="">Choose a paint or recipe…</option>
+          {recipes.length > 0 && (
+            <optgroup label="Recipes">
+              {recipes.map((recipe, index) => (
+                <option key={index} value={`recipe:${index}`}>
+                  Recipe #{index + 1}: {recipe.paints.map(({ paint }) => paint.name).join(' + ')}
+                </option>
+              ))}
+            </optgroup>
+          )}
+          {Array.from(new Set(catalog.map(paint => paint.brand))).map(brand => (
+            <optgroup key={brand} label={brand}>
+              {catalog.filter(paint => paint.brand === brand).map(paint => (
+                <option key={paint.id} value={`paint:${paint.id}`}>{paint.name}</option>
+              ))}
+            </optgroup>
+          ))}
+        </select>
+        <select value={mode} onChange={(e) => setMode(e.target.value as LadderMode)} className={selectClass}>
+          {(Object.keys(LADDER_MODES) as LadderMode[]).map(id => (
+            <option key={id} value={id}>{LADDER_MODES[id].name}</option>
+          ))}
+        </select>
+        <select value={stepCount} onChange={(e) => setStepCount(Number(e.target.value) as LadderStepCount)} className={selectClass}>
+          {LADDER_STEP_COUNTS.map(count => (
+            <option key={count} value={count}>{count} steps</option>
+          ))}
+        </select>
+      </div>
+      <p className={`text-sm mb-4 ${mutedClass}`}>{LADDER_MODES[mode].description}</p>
+
+      {!base ? (
+        <p className={`text-base ${mutedClass}`}>Choose a paint or a recipe to build its value string.</p>
+      ) : !ladder ? (
+        <p className={`text-base ${isDark ? 'text-amber-300' : 'text-amber-700'}`}>
+          {mode === 'chromatic-black'
+            ? 'No two paints on hand make a chromatic black.'
+            : mode === 'white'
+              ? 'A white is needed among your paints to mix tints.'
+              : 'A white and a complementary paint are needed among your paints.'}
+        </p>
+      ) : (
+        <>
+          {/* Swatch ladder, lightest first */}
+          <div className="flex gap-1">
+            {ladder.steps.map((ladderStep, index) => (
+              <button
+                key={index}
+                type="button"
+                onClick={() => setSelectedStep(selectedStep === index ? null : index)}
+                className={`flex-1 min-w-0 text-center rounded-md p-1 transition-colors ${
+                  selectedStep === index ? (isDark ? 'bg-gray-700' : 'bg-gray-100') : ''
+                }`}
+              >
+                <div
+                  className={`h-16 rounded border ${ladderStep.isBase ? 'border-2 border-pigment-600' : 'border-gray-300 dark:border-gray-600'}`}
+                  style={{ backgroundColor: ladderStep.hex }}
+                />
+                <p className="text-sm font-medium mt-1">V {ladderStep.munsell.value.toFixed(1)}</p>
+                <p className={`text-xs truncate ${mutedClass}`}>{formatMunsell(ladderStep.munsell)}</p>
+                <p
+                  className={`text-xs ${ladderStep.driftDeltaE > DRIFT_WARNING || !ladderStep.reachable
+                    ? (isDark ? 'text-amber-300' : 'text-amber-700')
+                    : mutedClass}`}
+                  title={ladderStep.reachable ? `Hue shift ${ladderStep.hueShift.toFixed(0)}°` : 'The darkening or lightening paint cannot reach this value'}
+                >
+                  {ladderStep.isBase ? 'Base' : `ΔE ${ladderStep.driftDeltaE.toFixed(1)}`}
+                  {!ladderStep.reachable && ' !'}
+                </p>
+              </button>
+            ))}
+          </div>
+
+          <p className={`text-sm mt-3 ${mutedClass}`}>
+            {ladder.agents.lighten.length > 0 && <>Lightened with {ladder.agents.lighten.map(paint => paint.name).join(' + ')}. </>}
+            {ladder.agents.darken.length > 0 && <>Darkened with {ladder.agents.darken.map(paint => paint.name).join(' + ')}. </>}
+            {ladder.correctors.length > 0 && <>Hue held with {ladder.correctors.map(paint => paint.name).join(' or ')} where needed.</>}
+          </p>
+
+          {/* Selected step's recipe */}
+          {step && (
+            <div className={`mt-4 p-4 rounded-lg ${isDark ? 'bg-gray-700' : 'bg-gray-100'}`}>
+              <p className="font-medium mb-2">
+                Step at value {step.value.toFixed(1)} · {formatMunsell(step.munsell)}
+                {!step.isBase && ` · hue shift ${step.hueShift.toFixed(0)}°`}
+              </p>
+              <ul className="space-y-1">
+                {step.paints.map(({ paint, proportion }) => (
+                  <li key={paint.id} className="flex items-center text-sm">
+                    <div className="w-4 h-4 rounded mr-2 border border-gray-300" style={{ backgroundColor: paint.swatch }} />
+                    <span className="flex-1">{paint.name} <span className={mutedClass}>({paint.brand})</span></span>
+                    <span>{Math.round(proportion * 100)}%</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ValueLadderPanel;
@@ -19,6 +19,8 @@ export interface SelectedColor {
   lab?: LABColor;
   pixelCoords?: { x: number, y: number };
   isOutOfGamut?: boolean;
+  gamutMapped?: { lab: LABColor; hex: string; deltaE: number }; // Closest color the palette can mix
+  munsellTarget?: { hue: string; value: number; chroma: number }; // Set when the target was typed as Munsell notation
 }
 
 interface ColorContextType {
@@ -0,0 +1,102 @@
+import React, { createContext, useContext, useEffect, useState } from 'react';
+import { ILLUMINANTS, IlluminantId, DEFAULT_ILLUMINANT } from '../data/illuminants';
+import { DEFAULT_DELTA_E_OPTIONS, DELTA_E_METRICS, DeltaEOptions } from '../utils/colorDifference';
+import { DEFAULT_MIXING_ENGINE, MIXING_ENGINES, MixingEngineId } from '../utils/mixingEngine';
+import { DEFAULT_RECIPE_CONSTRAINTS, RecipeConstraints } from '../utils/recipeConstraints';
+
+interface SettingsContextType {
+  illuminant: IlluminantId;
+  setIlluminant: (illuminant: IlluminantId) => void;
+  deltaE: DeltaEOptions;
+  setDeltaE: (options: DeltaEOptions) => void;
+  mixingEngine: MixingEngineId;
+  setMixingEngine: (engine: MixingEngineId) => void;
+  recipeConstraints: RecipeConstraints;
+  setRecipeConstraints: (constraints: RecipeConstraints) => void;
+}
+
+const SettingsContext = createContext<SettingsContextType | undefined>(undefined);
+
+export const SettingsProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  // Viewing illuminant that paint colors and recipes are rendered under
+  const [illuminant, setIlluminant] = useState<IlluminantId>(() => {
+    const savedIlluminant = localStorage.getItem('chiaroscuro-illuminant');
+    return savedIlluminant && Object.prototype.hasOwnProperty.call(ILLUMINANTS, savedIlluminant)
+      ? (savedIlluminant as IlluminantId)
+      : DEFAULT_ILLUMINANT;
+  });
+
+  // Color-difference metric and weights used for every match score
+  const [deltaE, setDeltaE] = useState<DeltaEOptions>(() => {
+    try {
+      const saved = JSON.parse(localStorage.getItem('chiaroscuro-delta-e') || 'null');
+      return saved && Object.prototype.hasOwnProperty.call(DELTA_E_METRICS, saved.metric)
+        ? { ...DEFAULT_DELTA_E_OPTIONS, ...saved }
+        : DEFAULT_DELTA_E_OPTIONS;
+    } catch {
+      return DEFAULT_DELTA_E_OPTIONS;
+    }
+  });
+
+  // Strategy used to search for mixing recipes
+  const [mixingEngine, setMixingEngine] = useState<MixingEngineId>(() => {
+    const savedEngine = localStorage.getItem('chiaroscuro-mixing-engine');
+    return savedEngine && Object.prototype.hasOwnProperty.call(MIXING_ENGINES, savedEngine)
+      ? (savedEngine as MixingEngineId)
+      : DEFAULT_MIXING_ENGINE;
+  });
+
+  // Which paints recipes may use: pigment exclusions, lightfastness, opacity and banned tubes
+  const [recipeConstraints, setRecipeConstraints] = useState<RecipeConstraints>(() => {
+    try {
+      const saved = JSON.parse(localStorage.getItem('chiaroscuro-recipe-constraints') || 'null');
+      return saved ? { ...DEFAULT_RECIPE_CONSTRAINTS, ...saved } : DEFAULT_RECIPE_CONSTRAINTS;
+    } catch {
+      return DEFAULT_RECIPE_CONSTRAINTS;
+    }
+  });
+
+  useEffect(() => {
+    // Save preference to localStorage
+    localStorage.setItem('chiaroscuro-illuminant', illuminant);
+  }, [illuminant]);
+
+  useEffect(() => {
+    localStorage.setItem('chiaroscuro-delta-e', JSON.stringify(deltaE));
+  }, [deltaE]);
+
+  useEffect(() => {
+    localStorage.setItem('chiaroscuro-mixing-engine', mixingEngine);
+  }, [mixingEngine]);
+
+  useEffect(() => {
+    localStorage.setItem('chiaroscuro-recipe-constraints', JSON.stringify(recipeConstraints));
+  }, [recipeConstraints]);
+
+  return (
+    <SettingsContext.Provider
+      value={{
+        illuminant,
+        setIlluminant,
+        deltaE,
+        setDeltaE,
+        mixingEngine,
+        setMixingEngine,
+        recipeConstraints,
+        setRecipeConstraints
+      }}
+    >
+      {children}
+    </SettingsContext.Provider>
+  );
+};
+
+export const useSettings = (): SettingsContextType => {
+  const context = useContext(SettingsContext);
+
+  if (context === undefined) {
+    throw new Error('useSettings must be used within a SettingsProvider');
+  }
+
+  return context;
+};
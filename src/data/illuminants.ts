@@ -0,0 +1,82 @@
+import { CIE_1931_2DEG, D65_SPD, SPECTRAL_BANDS, WAVELENGTHS } from './cieTables';
+
+export type IlluminantId = 'D65' | 'D50' | 'A' | 'F2' | 'F11' | 'LED';
+
+export interface Illuminant {
+  id: IlluminantId;
+  name: string;
+  description: string;
+  spd: number[]; // Relative spectral power at 10 nm steps from 400-700 nm
+  whitePoint: { X: number; Y: number; Z: number }; // Y normalised to 1
+}
+
+// CIE standard illuminant D50 relative spectral power distribution
+const D50_SPD: number[] = [
+  49.3082, 56.5132, 60.0341, 57.8183, 74.8249, 87.247, 90.6121, 91.368,
+  95.1088, 91.9633, 95.7237, 96.6134, 97.1285, 102.099, 100.755, 102.317,
+  100.0, 97.735, 98.918, 93.4998, 97.6878, 99.2691, 99.0422, 95.7218,
+  98.857, 95.6671, 98.1907, 103.003, 99.1331, 87.3805, 91.6038
+];
+
+// CIE F2 (cool white fluorescent) and F11 (narrow tri-band fluorescent),
+// band-averaged from the CIE 5 nm tables so the mercury lines are kept
+const F2_SPD: number[] = [
+  6.18, 6.78, 4.19, 12.43, 16.22, 6.62, 7.18, 7.53, 7.64, 7.58, 7.29,
+  7.07, 7.21, 8.11, 13.45, 18.19, 16.12, 19.07, 21.59, 18.59, 16.51,
+  13.79, 10.98, 8.44, 6.34, 4.7, 3.47, 2.56, 1.9, 1.49, 1.16
+];
+
+const F11_SPD: number[] = [
+  3.91, 4.41, 2.51, 11.56, 16.29, 7.11, 6.67, 5.46, 7.6, 13.29, 5.19,
+  1.59, 0.93, 2.02, 39.23, 36.4, 3.79, 2.43, 10.44, 12.49, 8.53,
+  40.71, 20.52, 10.7, 2.9, 3.13, 2.53, 1.64, 1.55, 1.78, 1.3
+];
+
+// CIE illuminant A: Planckian radiator at 2856 K, normalised to 100 at 560 nm
+const A_SPD: number[] = WAVELENGTHS.map(wavelength => {
+  const c2 = 1.435e7;
+  return 100 * Math.pow(560 / wavelength, 5) *
+    (Math.exp(c2 / (2848 * 560)) - 1) / (Math.exp(c2 / (2848 * wavelength)) - 1);
+});
+
+// Phosphor-converted white LED studio lamp at about 4000 K: a narrow blue
+// emitter at 450 nm plus a broad phosphor band peaking near 595 nm
+const LED_SPD: number[] = WAVELENGTHS.map(wavelength =>
+  100 * (0.55 * Math.exp(-0.5 * Math.pow((wavelength - 450) / 10, 2)) +
+    Math.exp(-0.5 * Math.pow((wavelength - 595) / 95, 2)))
+);
+
+/**
+ * Integrates an illuminant against the CIE 1931 observer to find its white point
+ */
+const whitePointOf = (spd: number[]): { X: number; Y: number; Z: number } => {
+  let X = 0;
+  let Y = 0;
+  let Z = 0;
+
+  for (let i = 0; i < SPECTRAL_BANDS; i++) {
+    X += spd[i] * CIE_1931_2DEG.x[i];
+    Y += spd[i] * CIE_1931_2DEG.y[i];
+    Z += spd[i] * CIE_1931_2DEG.z[i];
+  }
+
+  return { X: X / Y, Y: 1, Z: Z / Y };
+};
+
+const createIlluminant = (
+  id: IlluminantId,
+  name: string,
+  description: string,
+  spd: number[]
+): Illuminant => ({ id, name, description, spd, whitePoint: whitePointOf(spd) });
+
+export const ILLUMINANTS: Record<IlluminantId, Illuminant> = {
+  D65: createIlluminant('D65', 'D65 Daylight', 'Average daylight, the sRGB reference white', D65_SPD),
+  D50: createIlluminant('D50', 'D50 North Light', 'Horizon daylight, used for print and studio viewing booths', D50_SPD),
+  A: createIlluminant('A', 'A Incandescent', 'Warm tungsten lighting at 2856 K', A_SPD),
+  F2: createIlluminant('F2', 'F2 Cool White Fluorescent', 'Standard cool white fluorescent tube', F2_SPD),
+  F11: createIlluminant('F11', 'F11 Tri-band Fluorescent', 'Narrow tri-band fluorescent, common in galleries and shops', F11_SPD),
+  LED: createIlluminant('LED', 'LED Studio Lamp', 'Phosphor-converted white LED at about 4000 K', LED_SPD)
+};
+
+export const DEFAULT_ILLUMINANT: IlluminantId = 'D65';
@@ -8,6 +8,7 @@ interface PigmentInfo {
     transparency: 'Opaque' | 'Semi-Opaque' | 'Semi-Transparent' | 'Transparent';
     temperature: 'Warm' | 'Cool' | 'Neutral';
   };
+  density: number; // g/ml of an oil colour made with this pigment
 }
 
 interface PaintDatabase {
@@ -24,7 +25,10 @@ interface PaintDatabase {
 
 // This is a starter database with a subset of paints
 // In a production environment, this would be expanded
-// to include all paints from all supported brands
+// to include all paints from all supported brands.
+// Spectral reflectance curves are sampled at 10 nm from 400-700 nm
+// (31 bands) and were fitted to each paint's masstone LAB value.
+// Pigment densities are typical values for oil colours made with each pigment.
 export const paintDatabase: PaintDatabase = {
   brands: {
     "Winsor & Newton Artists' Oil Colour": {
@@ -41,6 +45,12 @@ export const paintDatabase: PaintDatabase = {
           series: "1",
           tintingStrength: "High",
           lab: { L: 96.3, a: -0.8, b: 2.6 },
+          spectrum: [
+            0.849, 0.85, 0.852, 0.855, 0.859, 0.866, 0.873, 0.882,
+            0.89, 0.896, 0.901, 0.904, 0.906, 0.907, 0.907, 0.908,
+            0.908, 0.909, 0.91, 0.911, 0.912, 0.913, 0.913, 0.914,
+            0.914, 0.914, 0.914, 0.914, 0.914, 0.914, 0.914
+          ],
           swatch: "#FCFCFC"
         },
         {
@@ -54,6 +64,12 @@ export const paintDatabase: PaintDatabase = {
           series: "4",
           tintingStrength: "High",
           lab: { L: 90.2, a: 3.1, b: 89.6 },
+          spectrum: [
+            0.102, 0.102, 0.102, 0.101, 0.1, 0.099, 0.096, 0.092,
+            0.085, 0.076, 0.064, 0.061, 0.261, 0.865, 0.95, 0.95,
+            0.95, 0.95, 0.95, 0.95, 0.95, 0.95, 0.95, 0.95,
+            0.95, 0.95, 0.95, 0.95, 0.95, 0.95, 0.95
+          ],
           swatch: "#FFEE44"
         },
         {
@@ -67,6 +83,12 @@ export const paintDatabase: PaintDatabase = {
           series: "4",
           tintingStrength: "High",
           lab: { L: 88.1, a: 14.2, b: 92.7 },
+          spectrum: [
+            0.096, 0.096, 0.095, 0.093, 0.089, 0.083, 0.074, 0.061,
+            0.045, 0.025, 0.005, 0.005, 0.005, 0.435, 0.919, 0.95,
+            0.95, 0.95, 0.95, 0.95, 0.95, 0.95, 0.95, 0.95,
+            0.95, 0.95, 0.95, 0.95, 0.95, 0.95, 0.95
+          ],
           swatch: "#FBE422"
         },
         {
@@ -80,6 +102,12 @@ export const paintDatabase: PaintDatabase = {
           series: "4",
           tintingStrength: "High",
           lab: { L: 74.8, a: 57.5, b: 77.3 },
+          spectrum: [
+            0.076, 0.075, 0.074, 0.072, 0.068, 0.061, 0.051, 0.036,
+            0.018, 0.005, 0.005, 0.005, 0.005, 0.005, 0.005, 0.005,
+            0.421, 0.95, 0.95, 0.95, 0.95, 0.95, 0.95, 0.95,
+            0.95, 0.95, 0.95, 0.95, 0.95, 0.95, 0.95
+          ],
           swatch: "#F17A0F"
         },
         {
@@ -93,6 +121,12 @@ export const paintDatabase: PaintDatabase = {
           series: "4",
           tintingStrength: "High",
           lab: { L: 54.9, a: 70.1, b: 51.2 },
+          spectrum: [
+            0.046, 0.046, 0.046, 0.046, 0.046, 0.046, 0.045, 0.045,
+            0.043, 0.041, 0.038, 0.035, 0.031, 0.028, 0.026, 0.03,
+            0.046, 0.097, 0.235, 0.484, 0.723, 0.847, 0.892, 0.907,
+            0.911, 0.913, 0.914, 0.914, 0.914, 0.914, 0.914
+          ],
           swatch: "#D92725"
         },
         {
@@ -106,6 +140,12 @@ export const paintDatabase: PaintDatabase = {
           series: "2",
           tintingStrength: "Medium",
           lab: { L: 42.7, a: 60.2, b: 21.3 },
+          spectrum: [
+            0.047, 0.074, 0.101, 0.113, 0.102, 0.076, 0.048, 0.029,
+            0.019, 0.016, 0.015, 0.016, 0.016, 0.018, 0.022, 0.031,
+            0.047, 0.079, 0.135, 0.222, 0.33, 0.433, 0.509, 0.557,
+            0.583, 0.596, 0.602, 0.606, 0.607, 0.608, 0.608
+          ],
           swatch: "#A60C28"
         },
         {
@@ -119,6 +159,12 @@ export const paintDatabase: PaintDatabase = {
           series: "3",
           tintingStrength: "Medium",
           lab: { L: 58.7, a: 69.8, b: -5.6 },
+          spectrum: [
+            0.162, 0.229, 0.309, 0.379, 0.408, 0.383, 0.316, 0.235,
+            0.167, 0.123, 0.1, 0.09, 0.087, 0.086, 0.086, 0.088,
+            0.096, 0.128, 0.233, 0.469, 0.717, 0.836, 0.873, 0.882,
+            0.884, 0.885, 0.885, 0.885, 0.885, 0.885, 0.885
+          ],
           swatch: "#E04583"
         },
         {
@@ -132,6 +178,12 @@ export const paintDatabase: PaintDatabase = {
           series: "2",
           tintingStrength: "Medium",
           lab: { L: 39.4, a: 14.2, b: -47.3 },
+          spectrum: [
+            0.191, 0.242, 0.298, 0.35, 0.39, 0.412, 0.409, 0.384,
+            0.34, 0.286, 0.231, 0.181, 0.141, 0.112, 0.092, 0.08,
+            0.073, 0.069, 0.067, 0.067, 0.066, 0.066, 0.066, 0.067,
+            0.068, 0.071, 0.077, 0.092, 0.119, 0.16, 0.204
+          ],
           swatch: "#3B4C8D"
         },
         {
@@ -145,6 +197,12 @@ export const paintDatabase: PaintDatabase = {
           series: "5",
           tintingStrength: "Low",
           lab: { L: 53.8, a: -10.9, b: -42.1 },
+          spectrum: [
+            0.279, 0.34, 0.405, 0.469, 0.526, 0.569, 0.593, 0.595,
+            0.574, 0.534, 0.479, 0.415, 0.35, 0.288, 0.234, 0.189,
+            0.154, 0.129, 0.111, 0.099, 0.092, 0.087, 0.083, 0.08,
+            0.075, 0.068, 0.057, 0.041, 0.021, 0.005, 0.005
+          ],
           swatch: "#305A9E"
         },
         {
@@ -158,6 +216,12 @@ export const paintDatabase: PaintDatabase = {
           series: "2",
           tintingStrength: "High",
           lab: { L: 38.3, a: -24.7, b: -52.6 },
+          spectrum: [
+            0.005, 0.005, 0.008, 0.068, 0.176, 0.338, 0.527, 0.688,
+            0.758, 0.708, 0.559, 0.37, 0.201, 0.083, 0.015, 0.005,
+            0.005, 0.005, 0.005, 0.005, 0.005, 0.005, 0.005, 0.005,
+            0.005, 0.005, 0.005, 0.005, 0.005, 0.005, 0.005
+          ],
           swatch: "#0E2760"
         },
         {
@@ -171,6 +235,12 @@ export const paintDatabase: PaintDatabase = {
           series: "4",
           tintingStrength: "Low",
           lab: { L: 53.2, a: -52.3, b: 5.4 },
+          spectrum: [
+            0.049, 0.055, 0.066, 0.083, 0.11, 0.148, 0.195, 0.25,
+            0.306, 0.354, 0.386, 0.396, 0.382, 0.346, 0.296, 0.24,
+            0.186, 0.14, 0.105, 0.08, 0.064, 0.055, 0.05, 0.049,
+            0.051, 0.055, 0.063, 0.075, 0.09, 0.107, 0.122
+          ],
           swatch: "#00885A"
         },
         {
@@ -184,6 +254,12 @@ export const paintDatabase: PaintDatabase = {
           series: "1",
           tintingStrength: "Medium",
           lab: { L: 56.1, a: -34.8, b: 34.2 },
+          spectrum: [
+            0.079, 0.079, 0.079, 0.079, 0.079, 0.08, 0.082, 0.088,
+            0.1, 0.121, 0.156, 0.204, 0.26, 0.313, 0.348, 0.355,
+            0.332, 0.286, 0.229, 0.177, 0.136, 0.109, 0.093, 0.086,
+            0.084, 0.085, 0.088, 0.094, 0.103, 0.113, 0.122
+          ],
           swatch: "#2E5C35"
         },
         {
@@ -197,6 +273,12 @@ export const paintDatabase: PaintDatabase = {
           series: "1",
           tintingStrength: "Low",
           lab: { L: 75.6, a: 13.8, b: 59.1 },
+          spectrum: [
+            0.085, 0.086, 0.088, 0.09, 0.095, 0.101, 0.111, 0.127,
+            0.15, 0.184, 0.23, 0.282, 0.335, 0.38, 0.419, 0.459,
+            0.503, 0.555, 0.61, 0.662, 0.705, 0.738, 0.761, 0.774,
+            0.782, 0.786, 0.787, 0.788, 0.788, 0.789, 0.789
+          ],
           swatch: "#C79839"
         },
         {
@@ -210,6 +292,12 @@ export const paintDatabase: PaintDatabase = {
           series: "1",
           tintingStrength: "Low",
           lab: { L: 48.2, a: 31.6, b: 36.3 },
+          spectrum: [
+            0.049, 0.049, 0.049, 0.05, 0.05, 0.051, 0.051, 0.052,
+            0.052, 0.053, 0.055, 0.058, 0.065, 0.076, 0.092, 0.116,
+            0.147, 0.184, 0.225, 0.268, 0.31, 0.348, 0.38, 0.407,
+            0.428, 0.444, 0.455, 0.464, 0.47, 0.475, 0.478
+          ],
           swatch: "#8F4E16"
         },
         {
@@ -223,6 +311,12 @@ export const paintDatabase: PaintDatabase = {
           series: "1",
           tintingStrength: "Low",
           lab: { L: 39.6, a: 12.4, b: 23.1 },
+          spectrum: [
+            0.04, 0.041, 0.042, 0.043, 0.044, 0.046, 0.048, 0.05,
+            0.053, 0.057, 0.062, 0.067, 0.073, 0.081, 0.089, 0.098,
+            0.108, 0.119, 0.13, 0.142, 0.154, 0.166, 0.178, 0.189,
+            0.199, 0.208, 0.216, 0.223, 0.229, 0.234, 0.238
+          ],
           swatch: "#5E3C25"
         },
         {
@@ -236,6 +330,12 @@ export const paintDatabase: PaintDatabase = {
           series: "1",
           tintingStrength: "High",
           lab: { L: 24.6, a: -0.7, b: 0.4 },
+          spectrum: [
+            0.042, 0.042, 0.042, 0.042, 0.042, 0.042, 0.042, 0.042,
+            0.042, 0.042, 0.043, 0.043, 0.043, 0.043, 0.044, 0.044,
+            0.043, 0.043, 0.043, 0.043, 0.042, 0.042, 0.042, 0.042,
+            0.041, 0.041, 0.041, 0.041, 0.041, 0.041, 0.041
+          ],
           swatch: "#222222"
         }
       ]
@@ -254,6 +354,12 @@ export const paintDatabase: PaintDatabase = {
           series: "1",
           tintingStrength: "High",
           lab: { L: 96.4, a: -1.0, b: 2.8 },
+          spectrum: [
+            0.84, 0.843, 0.846, 0.851, 0.858, 0.866, 0.875, 0.883,
+            0.891, 0.898, 0.903, 0.906, 0.909, 0.91, 0.911, 0.911,
+            0.912, 0.912, 0.913, 0.913, 0.913, 0.914, 0.914, 0.914,
+            0.914, 0.914, 0.914, 0.914, 0.914, 0.914, 0.914
+          ],
           munsell: { hue: "10Y", value: 9.5, chroma: 1 },
           swatch: "#FCFCFC"
         },
@@ -268,6 +374,12 @@ export const paintDatabase: PaintDatabase = {
           series: "4",
           tintingStrength: "High",
           lab: { L: 90.3, a: 2.9, b: 87.2 },
+          spectrum: [
+            0.112, 0.112, 0.112, 0.112, 0.111, 0.109, 0.106, 0.1,
+            0.091, 0.078, 0.063, 0.064, 0.305, 0.857, 0.95, 0.95,
+            0.95, 0.95, 0.95, 0.95, 0.95, 0.95, 0.95, 0.95,
+            0.95, 0.95, 0.95, 0.95, 0.95, 0.95, 0.95
+          ],
           munsell: { hue: "5Y", value: 9, chroma: 10 },
           swatch: "#FFF04E"
         },
@@ -282,6 +394,12 @@ export const paintDatabase: PaintDatabase = {
           series: "4",
           tintingStrength: "High",
           lab: { L: 88.7, a: 13.7, b: 93.2 },
+          spectrum: [
+            0.094, 0.093, 0.092, 0.091, 0.088, 0.082, 0.074, 0.062,
+            0.046, 0.026, 0.005, 0.005, 0.005, 0.467, 0.927, 0.95,
+            0.95, 0.95, 0.95, 0.95, 0.95, 0.95, 0.95, 0.95,
+            0.95, 0.95, 0.95, 0.95, 0.95, 0.95, 0.95
+          ],
           munsell: { hue: "2.5Y", value: 8.5, chroma: 14 },
           swatch: "#FFBE00"
         },
@@ -296,6 +414,12 @@ export const paintDatabase: PaintDatabase = {
           series: "4",
           tintingStrength: "High",
           lab: { L: 74.7, a: 56.9, b: 79.1 },
+          spectrum: [
+            0.069, 0.069, 0.068, 0.066, 0.063, 0.057, 0.048, 0.035,
+            0.018, 0.005, 0.005, 0.005, 0.005, 0.005, 0.005, 0.005,
+            0.445, 0.95, 0.95, 0.95, 0.95, 0.95, 0.95, 0.95,
+            0.95, 0.95, 0.95, 0.95, 0.95, 0.95, 0.95
+          ],
           munsell: { hue: "10R", value: 7, chroma: 16 },
           swatch: "#F36C01"
         },
@@ -310,6 +434,12 @@ export const paintDatabase: PaintDatabase = {
           series: "4",
           tintingStrength: "High",
           lab: { L: 54.6, a: 70.5, b: 48.9 },
+          spectrum: [
+            0.05, 0.05, 0.05, 0.05, 0.05, 0.05, 0.049, 0.048,
+            0.046, 0.043, 0.038, 0.032, 0.025, 0.018, 0.015, 0.02,
+            0.043, 0.109, 0.259, 0.496, 0.709, 0.826, 0.873, 0.89,
+            0.897, 0.899, 0.9, 0.9, 0.9, 0.9, 0.9
+          ],
           munsell: { hue: "5R", value: 5, chroma: 14 },
           swatch: "#DE372B"
         },
@@ -324,6 +454,12 @@ export const paintDatabase: PaintDatabase = {
           series: "3",
           tintingStrength: "Medium",
           lab: { L: 42.9, a: 59.8, b: 20.7 },
+          spectrum: [
+            0.046, 0.077, 0.108, 0.122, 0.11, 0.079, 0.047, 0.026,
+            0.017, 0.013, 0.013, 0.013, 0.014, 0.017, 0.022, 0.032,
+            0.052, 0.087, 0.146, 0.231, 0.333, 0.428, 0.5, 0.546,
+            0.572, 0.586, 0.593, 0.597, 0.599, 0.6, 0.6
+          ],
           munsell: { hue: "2.5R", value: 4, chroma: 10 },
           swatch: "#9F0812"
         },
@@ -338,6 +474,12 @@ export const paintDatabase: PaintDatabase = {
           series: "2",
           tintingStrength: "Medium",
           lab: { L: 39.6, a: 15.1, b: -48.3 },
+          spectrum: [
+            0.151, 0.201, 0.262, 0.329, 0.388, 0.428, 0.438, 0.417,
+            0.369, 0.306, 0.24, 0.182, 0.137, 0.107, 0.088, 0.077,
+            0.072, 0.07, 0.069, 0.069, 0.069, 0.069, 0.069, 0.07,
+            0.071, 0.075, 0.083, 0.101, 0.134, 0.182, 0.231
+          ],
           munsell: { hue: "7.5PB", value: 3.5, chroma: 12 },
           swatch: "#1A237E"
         },
@@ -352,6 +494,12 @@ export const paintDatabase: PaintDatabase = {
           series: "2",
           tintingStrength: "High",
           lab: { L: 37.9, a: -25.1, b: -53.2 },
+          spectrum: [
+            0.005, 0.005, 0.005, 0.043, 0.14, 0.307, 0.526, 0.73,
+            0.827, 0.767, 0.581, 0.357, 0.174, 0.061, 0.006, 0.005,
+            0.005, 0.005, 0.005, 0.005, 0.005, 0.005, 0.005, 0.005,
+            0.005, 0.005, 0.005, 0.005, 0.005, 0.005, 0.005
+          ],
           munsell: { hue: "5PB", value: 3, chroma: 14 },
           swatch: "#0D47A1"
         },
@@ -366,6 +514,12 @@ export const paintDatabase: PaintDatabase = {
           series: "4",
           tintingStrength: "Low",
           lab: { L: 53.6, a: -52.8, b: 5.1 },
+          spectrum: [
+            0.039, 0.048, 0.064, 0.086, 0.117, 0.158, 0.205, 0.257,
+            0.306, 0.348, 0.377, 0.386, 0.376, 0.347, 0.304, 0.254,
+            0.203, 0.156, 0.116, 0.085, 0.063, 0.049, 0.04, 0.035,
+            0.034, 0.036, 0.042, 0.051, 0.065, 0.08, 0.095
+          ],
           munsell: { hue: "5G", value: 5, chroma: 8 },
           swatch: "#00796B"
         },
@@ -380,6 +534,12 @@ export const paintDatabase: PaintDatabase = {
           series: "1",
           tintingStrength: "Low",
           lab: { L: 75.2, a: 14.2, b: 58.3 },
+          spectrum: [
+            0.095, 0.096, 0.097, 0.098, 0.101, 0.105, 0.112, 0.123,
+            0.14, 0.167, 0.208, 0.261, 0.321, 0.378, 0.426, 0.466,
+            0.505, 0.548, 0.595, 0.643, 0.688, 0.725, 0.754, 0.774,
+            0.786, 0.793, 0.797, 0.799, 0.799, 0.8, 0.8
+          ],
           munsell: { hue: "10YR", value: 7, chroma: 8 },
           swatch: "#C88A2E"
         },
@@ -394,6 +554,12 @@ export const paintDatabase: PaintDatabase = {
           series: "1",
           tintingStrength: "Low",
           lab: { L: 47.9, a: 32.1, b: 35.8 },
+          spectrum: [
+            0.048, 0.049, 0.049, 0.049, 0.05, 0.05, 0.051, 0.052,
+            0.053, 0.054, 0.056, 0.059, 0.065, 0.075, 0.09, 0.112,
+            0.141, 0.177, 0.219, 0.263, 0.306, 0.346, 0.381, 0.41,
+            0.432, 0.45, 0.463, 0.472, 0.479, 0.484, 0.487
+          ],
           munsell: { hue: "7.5YR", value: 4.5, chroma: 6 },
           swatch: "#8A3D11"
         },
@@ -408,6 +574,12 @@ export const paintDatabase: PaintDatabase = {
           series: "1",
           tintingStrength: "Low",
           lab: { L: 39.2, a: 12.9, b: 22.4 },
+          spectrum: [
+            0.041, 0.041, 0.042, 0.043, 0.044, 0.046, 0.048, 0.05,
+            0.053, 0.056, 0.06, 0.065, 0.071, 0.078, 0.086, 0.095,
+            0.105, 0.116, 0.128, 0.14, 0.152, 0.164, 0.176, 0.187,
+            0.197, 0.206, 0.214, 0.22, 0.226, 0.231, 0.235
+          ],
           munsell: { hue: "7.5YR", value: 3.5, chroma: 4 },
           swatch: "#513625"
         },
@@ -422,6 +594,12 @@ export const paintDatabase: PaintDatabase = {
           series: "1",
           tintingStrength: "High",
           lab: { L: 24.3, a: -0.5, b: 0.6 },
+          spectrum: [
+            0.041, 0.041, 0.041, 0.041, 0.041, 0.041, 0.041, 0.041,
+            0.041, 0.041, 0.041, 0.042, 0.042, 0.042, 0.042, 0.042,
+            0.042, 0.042, 0.042, 0.042, 0.042, 0.041, 0.041, 0.041,
+            0.041, 0.041, 0.041, 0.041, 0.041, 0.041, 0.041
+          ],
           munsell: { hue: "N", value: 2, chroma: 0 },
           swatch: "#212121"
         }
@@ -441,6 +619,12 @@ export const paintDatabase: PaintDatabase = {
           series: "1",
           tintingStrength: "High",
           lab: { L: 96.5, a: -0.9, b: 2.7 },
+          spectrum: [
+            0.842, 0.844, 0.848, 0.853, 0.86, 0.869, 0.879, 0.889,
+            0.897, 0.904, 0.908, 0.91, 0.911, 0.912, 0.912, 0.912,
+            0.913, 0.914, 0.915, 0.916, 0.917, 0.918, 0.918, 0.919,
+            0.919, 0.919, 0.919, 0.919, 0.919, 0.919, 0.919
+          ],
           swatch: "#FDFDFD"
         },
         {
@@ -454,6 +638,12 @@ export const paintDatabase: PaintDatabase = {
           series: "5",
           tintingStrength: "High",
           lab: { L: 90.5, a: 3.0, b: 88.7 },
+          spectrum: [
+            0.107, 0.107, 0.107, 0.106, 0.105, 0.103, 0.1, 0.094,
+            0.086, 0.074, 0.061, 0.057, 0.28, 0.873, 0.95, 0.95,
+            0.95, 0.95, 0.95, 0.95, 0.95, 0.95, 0.95, 0.95,
+            0.95, 0.95, 0.95, 0.95, 0.95, 0.95, 0.95
+          ],
           swatch: "#FFF24F"
         },
         {
@@ -467,6 +657,12 @@ export const paintDatabase: PaintDatabase = {
           series: "5",
           tintingStrength: "High",
           lab: { L: 55.2, a: 71.3, b: 50.4 },
+          spectrum: [
+            0.05, 0.05, 0.05, 0.05, 0.05, 0.05, 0.049, 0.047,
+            0.044, 0.04, 0.033, 0.026, 0.018, 0.013, 0.011, 0.019,
+            0.049, 0.124, 0.282, 0.513, 0.721, 0.84, 0.891, 0.912,
+            0.919, 0.922, 0.923, 0.924, 0.924, 0.924, 0.924
+          ],
           swatch: "#DF2B26"
         },
         {
@@ -480,6 +676,12 @@ export const paintDatabase: PaintDatabase = {
           series: "5",
           tintingStrength: "Low",
           lab: { L: 62.5, a: 64.8, b: 16.3 },
+          spectrum: [
+            0.074, 0.112, 0.182, 0.267, 0.317, 0.294, 0.216, 0.135,
+            0.085, 0.064, 0.058, 0.057, 0.056, 0.056, 0.057, 0.063,
+            0.098, 0.273, 0.614, 0.777, 0.808, 0.813, 0.814, 0.814,
+            0.814, 0.814, 0.814, 0.814, 0.814, 0.814, 0.814
+          ],
           swatch: "#D25A72"
         },
         {
@@ -493,6 +695,12 @@ export const paintDatabase: PaintDatabase = {
           series: "3",
           tintingStrength: "Medium",
           lab: { L: 39.8, a: 15.0, b: -49.2 },
+          spectrum: [
+            0.154, 0.205, 0.268, 0.336, 0.398, 0.439, 0.45, 0.429,
+            0.38, 0.315, 0.247, 0.187, 0.141, 0.108, 0.089, 0.077,
+            0.072, 0.069, 0.068, 0.068, 0.068, 0.068, 0.068, 0.068,
+            0.069, 0.072, 0.078, 0.093, 0.124, 0.174, 0.228
+          ],
           swatch: "#283593"
         },
         {
@@ -506,6 +714,12 @@ export const paintDatabase: PaintDatabase = {
           series: "2",
           tintingStrength: "High",
           lab: { L: 37.8, a: -25.3, b: -53.8 },
+          spectrum: [
+            0.005, 0.005, 0.005, 0.03, 0.117, 0.285, 0.527, 0.768,
+            0.887, 0.817, 0.597, 0.345, 0.154, 0.047, 0.005, 0.005,
+            0.005, 0.005, 0.005, 0.005, 0.005, 0.005, 0.005, 0.005,
+            0.005, 0.005, 0.005, 0.005, 0.005, 0.005, 0.005
+          ],
           swatch: "#0D47A1"
         },
         {
@@ -519,6 +733,12 @@ export const paintDatabase: PaintDatabase = {
           series: "1",
           tintingStrength: "Low",
           lab: { L: 76.1, a: 14.5, b: 60.2 },
+          spectrum: [
+            0.086, 0.087, 0.088, 0.091, 0.095, 0.101, 0.11, 0.125,
+            0.147, 0.18, 0.224, 0.278, 0.335, 0.386, 0.43, 0.47,
+            0.513, 0.562, 0.616, 0.669, 0.717, 0.755, 0.783, 0.8,
+            0.811, 0.817, 0.82, 0.821, 0.821, 0.822, 0.822
+          ],
           swatch: "#CA9A3E"
         },
         {
@@ -532,6 +752,12 @@ export const paintDatabase: PaintDatabase = {
           series: "1",
           tintingStrength: "Low",
           lab: { L: 48.5, a: 32.5, b: 36.9 },
+          spectrum: [
+            0.048, 0.048, 0.048, 0.049, 0.049, 0.05, 0.051, 0.052,
+            0.053, 0.054, 0.057, 0.061, 0.067, 0.077, 0.093, 0.116,
+            0.145, 0.182, 0.223, 0.268, 0.313, 0.356, 0.394, 0.425,
+            0.451, 0.471, 0.486, 0.497, 0.505, 0.511, 0.515
+          ],
           swatch: "#8F4315"
         },
         {
@@ -545,6 +771,12 @@ export const paintDatabase: PaintDatabase = {
           series: "1",
           tintingStrength: "High",
           lab: { L: 24.1, a: -0.6, b: 0.5 },
+          spectrum: [
+            0.04, 0.04, 0.04, 0.04, 0.04, 0.04, 0.04, 0.04,
+            0.041, 0.041, 0.041, 0.041, 0.041, 0.042, 0.042, 0.042,
+            0.042, 0.042, 0.041, 0.041, 0.041, 0.041, 0.04, 0.04,
+            0.04, 0.04, 0.04, 0.04, 0.04, 0.04, 0.04
+          ],
           swatch: "#212121"
         }
       ]
@@ -558,7 +790,8 @@ export const paintDatabase: PaintDatabase = {
         tintingStrength: "High",
         transparency: "Opaque",
         temperature: "Neutral"
-      }
+      },
+      density: 1.9
     },
     "PY35": {
       name: "Cadmium Yellow",
@@ -567,7 +800,8 @@ export const paintDatabase: PaintDatabase = {
         tintingStrength: "High",
         transparency: "Opaque",
         temperature: "Warm"
-      }
+      },
+      density: 2.1
     },
     "PY37": {
       name: "Cadmium Yellow Medium",
@@ -576,7 +810,8 @@ export const paintDatabase: PaintDatabase = {
         tintingStrength: "High",
         transparency: "Opaque",
         temperature: "Warm"
-      }
+      },
+      density: 2.1
     },
     "PO20": {
       name: "Cadmium Orange",
@@ -585,7 +820,8 @@ export const paintDatabase: PaintDatabase = {
         tintingStrength: "High",
         transparency: "Opaque",
         temperature: "Warm"
-      }
+      },
+      density: 2.2
     },
     "PR108": {
       name: "Cadmium Red",
@@ -594,7 +830,8 @@ export const paintDatabase: PaintDatabase = {
         tintingStrength: "High",
         transparency: "Opaque",
         temperature: "Warm"
-      }
+      },
+      density: 2.3
     },
     "PR83": {
       name: "Alizarin Crimson",
@@ -603,7 +840,8 @@ export const paintDatabase: PaintDatabase = {
         tintingStrength: "Medium",
         transparency: "Semi-Transparent",
         temperature: "Cool"
-      }
+      },
+      density: 1.1
     },
     "PR177": {
       name: "Anthraquinone Red",
@@ -612,7 +850,8 @@ export const paintDatabase: PaintDatabase = {
         tintingStrength: "Medium",
         transparency: "Transparent",
         temperature: "Cool"
-      }
+      },
+      density: 1.1
     },
     "PR264": {
       name: "Naphthol Red",
@@ -621,7 +860,8 @@ export const paintDatabase: PaintDatabase = {
         tintingStrength: "Medium",
         transparency: "Semi-Transparent",
         temperature: "Warm"
-      }
+      },
+      density: 1.2
     },
     "PV19": {
       name: "Quinacridone Rose",
@@ -630,7 +870,8 @@ export const paintDatabase: PaintDatabase = {
         tintingStrength: "Medium",
         transparency: "Semi-Transparent",
         temperature: "Cool"
-      }
+      },
+      density: 1.1
     },
     "PB29": {
       name: "Ultramarine Blue",
@@ -639,7 +880,8 @@ export const paintDatabase: PaintDatabase = {
         tintingStrength: "Medium",
         transparency: "Semi-Opaque",
         temperature: "Warm"
-      }
+      },
+      density: 1.4
     },
     "PB28": {
       name: "Cobalt Blue",
@@ -648,7 +890,8 @@ export const paintDatabase: PaintDatabase = {
         tintingStrength: "Low",
         transparency: "Semi-Opaque",
         temperature: "Cool"
-      }
+      },
+      density: 1.9
     },
     "PB15:3": {
       name: "Phthalo Blue",
@@ -657,7 +900,8 @@ export const paintDatabase: PaintDatabase = {
         tintingStrength: "High",
         transparency: "Transparent",
         temperature: "Cool"
-      }
+      },
+      density: 1.1
     },
     "PG18": {
       name: "Viridian",
@@ -666,7 +910,8 @@ export const paintDatabase: PaintDatabase = {
         tintingStrength: "Low",
         transparency: "Transparent",
         temperature: "Cool"
-      }
+      },
+      density: 1.6
     },
     "PG36": {
       name: "Phthalo Green (Yellowish)",
@@ -675,7 +920,8 @@ export const paintDatabase: PaintDatabase = {
         tintingStrength: "High",
         transparency: "Transparent",
         temperature: "Cool"
-      }
+      },
+      density: 1.3
     },
     "PY110": {
       name: "Isoindolinone Yellow",
@@ -684,7 +930,8 @@ export const paintDatabase: PaintDatabase = {
         tintingStrength: "Medium",
         transparency: "Transparent",
         temperature: "Warm"
-      }
+      },
+      density: 1.2
     },
     "PY43": {
       name: "Yellow Ochre",
@@ -693,7 +940,8 @@ export const paintDatabase: PaintDatabase = {
         tintingStrength: "Low",
         transparency: "Semi-Opaque",
         temperature: "Warm"
-      }
+      },
+      density: 1.8
     },
     "PBr7": {
       name: "Natural Earth Pigment",
@@ -702,7 +950,8 @@ export const paintDatabase: PaintDatabase = {
         tintingStrength: "Low",
         transparency: "Semi-Transparent",
         temperature: "Warm"
-      }
+      },
+      density: 1.9
     },
     "PBk9": {
       name: "Ivory Black",
@@ -711,7 +960,8 @@ export const paintDatabase: PaintDatabase = {
         tintingStrength: "High",
         transparency: "Semi-Opaque",
         temperature: "Cool"
-      }
+      },
+      density: 1.5
     },
     "NR9": {
       name: "Natural Madder Lake",
@@ -720,11 +970,27 @@ export const paintDatabase: PaintDatabase = {
         tintingStrength: "Low",
         transparency: "Transparent",
         temperature: "Cool"
-      }
+      },
+      density: 1.1
     }
   }
 };
 
+// Typical oil colour density, for paints whose pigments are not listed
+export const DEFAULT_PAINT_DENSITY = 1.6;
+
+/**
+ * Returns a paint's density in g/ml, averaged over its pigments
+ */
+export function getPaintDensity(paint: Paint): number {
+  const densities = paint.pigmentCodes
+    .map(code => paintDatabase.pigments[code]?.density)
+    .filter((density): density is number => density !== undefined);
+  
+  if (densities.length === 0) return DEFAULT_PAINT_DENSITY;
+  return densities.reduce((sum, density) => sum + density, 0) / densities.length;
+}
+
 /**
  * Returns all paint colors from all brands in the database
  */
@@ -0,0 +1,13 @@
+import { Paint } from '../context/PaintContext';
+import { getAllPaints } from '../data/paintDatabase';
+
+// A catalog paint by id; fails loudly when a test names one the catalog doesn't have
+export const paint = (id: string): Paint => {
+  const found = getAllPaints().find(candidate => candidate.id === id);
+  if (!found) throw new Error(`No paint with id ${id} in the catalog`);
+  return found;
+};
+
+// Every catalog paint from the same range as the given paint
+export const brandPaints = (id: string): Paint[] =>
+  getAllPaints().filter(candidate => candidate.brand === paint(id).brand);
@@ -0,0 +1,37 @@
+import { RecipeSearchResponse, respondToSearch, SearchStartMessage } from '../workers/recipeSearch';
+
+// Stands in for the search worker: records each search, runs it on this
+// thread and answers with cloned messages, as a real worker would
+export class MockSearchWorker {
+  static searches: SearchStartMessage[] = [];
+  onmessage: ((event: MessageEvent<RecipeSearchResponse>) => void) | null = null;
+  onerror: ((event: ErrorEvent) => void) | null = null;
+
+  postMessage(message: SearchStartMessage) {
+    MockSearchWorker.searches.push(message);
+    const responses: RecipeSearchResponse[] = [];
+    respondToSearch(message, response => responses.push(JSON.parse(JSON.stringify(response))));
+    setTimeout(() => responses.forEach(data => this.onmessage?.({ data } as MessageEvent<RecipeSearchResponse>)));
+  }
+
+  terminate() {
+    this.onmessage = null;
+  }
+}
+
+// Replaces ../workers/createRecipeSearchWorker in tests
+export const createRecipeSearchWorker = () => new MockSearchWorker();
+
+// Makes the search client use the mock, as jsdom has no Worker of its own
+export const installMockSearchWorker = () => {
+  const originalWorker = (globalThis as { Worker?: unknown }).Worker;
+  beforeAll(() => {
+    (globalThis as { Worker?: unknown }).Worker = MockSearchWorker;
+  });
+  afterAll(() => {
+    (globalThis as { Worker?: unknown }).Worker = originalWorker;
+  });
+  beforeEach(() => {
+    MockSearchWorker.searches = [];
+  });
+};
@@ -0,0 +1,6 @@
+// Compression Streams API, not yet part of the bundled TypeScript DOM typings
+declare class DecompressionStream {
+  constructor(format: 'gzip' | 'deflate' | 'deflate-raw');
+  readonly readable: ReadableStream<Uint8Array>;
+  readonly writable: WritableStream<Uint8Array>;
+}
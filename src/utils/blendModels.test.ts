@@ -0,0 +1,76 @@
+import { RGBColor } from '../context/ColorContext';
+import { BLEND_MODELS, BlendModel, blendColors, blendGradient, linearRgbToOklab, oklabToLinearRgb } from './blendModels';
+
+const BLUE: RGBColor = { r: 0, g: 0, b: 255 };
+const YELLOW: RGBColor = { r: 255, g: 255, b: 0 };
+const ORANGE: RGBColor = { r: 230, g: 120, b: 30 };
+const TEAL: RGBColor = { r: 20, g: 110, b: 120 };
+
+const MODELS = Object.keys(BLEND_MODELS) as BlendModel[];
+
+const expectClose = (actual: RGBColor, expected: RGBColor, tolerance = 0.5) => {
+  expect(Math.abs(actual.r - expected.r)).toBeLessThan(tolerance);
+  expect(Math.abs(actual.g - expected.g)).toBeLessThan(tolerance);
+  expect(Math.abs(actual.b - expected.b)).toBeLessThan(tolerance);
+};
+
+describe('blendColors', () => {
+  it('returns the inputs at both ends under every model', () => {
+    MODELS.forEach(model => {
+      [[BLUE, YELLOW], [ORANGE, TEAL]].forEach(([a, b]) => {
+        expectClose(blendColors(a, b, 0, model), a);
+        expectClose(blendColors(a, b, 1, model), b);
+      });
+    });
+  });
+
+  it('clamps the ratio to 0-1', () => {
+    expectClose(blendColors(ORANGE, TEAL, -1, 'oklab'), ORANGE);
+    expectClose(blendColors(ORANGE, TEAL, 2, 'oklab'), TEAL);
+  });
+
+  it('averages encoded values in sRGB and light in linear RGB', () => {
+    expect(blendColors(BLUE, YELLOW, 0.5, 'srgb')).toEqual({ r: 127.5, g: 127.5, b: 127.5 });
+    const linear = blendColors(BLUE, YELLOW, 0.5, 'linear');
+    expect(linear.r).toBeCloseTo(188, 0); // Half intensity, gamma-encoded
+    expect(linear.r).toBeCloseTo(linear.b, 6);
+  });
+
+  it('travels the requested way round the hue circle in OKLCH', () => {
+    const increasing = blendColors(ORANGE, TEAL, 0.5, 'oklch', 'increasing');
+    const decreasing = blendColors(ORANGE, TEAL, 0.5, 'oklch', 'decreasing');
+    expect(increasing.g).toBeGreaterThan(increasing.r); // Through yellow and green
+    expect(decreasing.r).toBeGreaterThan(decreasing.g); // Through red and purple
+  });
+
+  it('mixes blue and yellow paint to a dark blue-green', () => {
+    const paint = blendColors(BLUE, YELLOW, 0.5, 'subtractive');
+    const light = blendColors(BLUE, YELLOW, 0.5, 'linear');
+    expect(paint.g).toBeGreaterThan(paint.r + 50);
+    expect(paint.r + paint.g + paint.b).toBeLessThan(light.r + light.g + light.b);
+  });
+});
+
+describe('OKLab', () => {
+  it('round-trips linear RGB', () => {
+    const linear: [number, number, number] = [0.2, 0.5, 0.8];
+    oklabToLinearRgb(linearRgbToOklab(linear)).forEach((channel, i) => expect(channel).toBeCloseTo(linear[i], 6));
+  });
+
+  it('gives white a lightness of 1 and no chroma', () => {
+    const [L, a, b] = linearRgbToOklab([1, 1, 1]);
+    expect(L).toBeCloseTo(1, 4);
+    expect(a).toBeCloseTo(0, 4);
+    expect(b).toBeCloseTo(0, 4);
+  });
+});
+
+describe('blendGradient', () => {
+  it('samples evenly from one color to the other', () => {
+    const steps = blendGradient(BLUE, YELLOW, 'srgb', 5);
+    expect(steps).toHaveLength(5);
+    expect(steps[0]).toEqual(BLUE);
+    expect(steps[4]).toEqual(YELLOW);
+    expect(steps[1].r).toBeCloseTo(63.75, 9);
+  });
+});
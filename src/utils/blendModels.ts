@@ -0,0 +1,210 @@
+import { RGBColor } from '../context/ColorContext';
+import { linearRgbToLab, linearToSrgb, srgbToLinear, xyzToLinearRgb } from './colorConversion';
+import { ksToReflectance, reflectanceToKS } from './kubelkaMunk';
+import { estimateSpectrum, spectrumToXyz } from './spectral';
+
+// Ways of blending two colors, from plain digital interpolation to paint
+export type BlendModel = 'srgb' | 'linear' | 'oklab' | 'oklch' | 'subtractive';
+
+// Which way round the hue circle OKLCH interpolation travels (CSS Color 4 names)
+export type HuePath = 'shorter' | 'longer' | 'increasing' | 'decreasing';
+
+export const BLEND_MODELS: Record<BlendModel, { name: string; description: string }> = {
+  srgb: {
+    name: 'sRGB',
+    description: 'Averages gamma-encoded RGB values, as most image editors and CSS gradients do. Midpoints look too dark and muddy.'
+  },
+  linear: {
+    name: 'Linear RGB',
+    description: 'Averages light intensities, like two overlapping projectors. Physically correct for light, but midpoints look too bright.'
+  },
+  oklab: {
+    name: 'OKLab',
+    description: 'Interpolates in a perceptually uniform space, so steps look evenly spaced. Hue and lightness change smoothly.'
+  },
+  oklch: {
+    name: 'OKLCH',
+    description: 'Interpolates lightness, chroma and hue separately, keeping mixtures saturated by travelling around the hue circle.'
+  },
+  subtractive: {
+    name: 'Paint (Kubelka-Munk)',
+    description: 'Treats both colors as opaque paints of equal strength with the smoothest reflectance curves that match them and mixes their absorption, as pigments do. Mixes darken like paint: screen blue and yellow give a deep teal, where real pigment blues give greener mixes.'
+  }
+};
+
+export const HUE_PATHS: Record<HuePath, string> = {
+  shorter: 'Shorter arc',
+  longer: 'Longer arc',
+  increasing: 'Increasing hue',
+  decreasing: 'Decreasing hue'
+};
+
+type Triplet = [number, number, number];
+
+const toLinear = (rgb: RGBColor): Triplet => [
+  srgbToLinear(rgb.r / 255),
+  srgbToLinear(rgb.g / 255),
+  srgbToLinear(rgb.b / 255)
+];
+
+const fromLinear = ([r, g, b]: Triplet): RGBColor => {
+  const encode = (channel: number) => Math.max(0, Math.min(255, linearToSrgb(Math.max(0, Math.min(1, channel))) * 255));
+  return { r: encode(r), g: encode(g), b: encode(b) };
+};
+
+const lerp = (a: number, b: number, t: number): number => a + (b - a) * t;
+
+/**
+ * Converts linear-light sRGB to OKLab (Björn Ottosson, 2020)
+ */
+export const linearRgbToOklab = ([r, g, b]: Triplet): Triplet => {
+  const l = Math.cbrt(0.4122214708 * r + 0.5363325363 * g + 0.0514459929 * b);
+  const m = Math.cbrt(0.2119034982 * r + 0.6806995451 * g + 0.1073969566 * b);
+  const s = Math.cbrt(0.0883024619 * r + 0.2817188376 * g + 0.6299787005 * b);
+
+  return [
+    0.2104542553 * l + 0.7936177850 * m - 0.0040720468 * s,
+    1.9779984951 * l - 2.4285922050 * m + 0.4505937099 * s,
+    0.0259040371 * l + 0.7827717662 * m - 0.8086757660 * s
+  ];
+};
+
+/**
+ * Converts OKLab to linear-light sRGB (unclamped)
+ */
+export const oklabToLinearRgb = ([L, a, b]: Triplet): Triplet => {
+  const l = Math.pow(L + 0.3963377774 * a + 0.2158037573 * b, 3);
+  const m = Math.pow(L - 0.1055613458 * a - 0.0638541728 * b, 3);
+  const s = Math.pow(L - 0.0894841775 * a - 1.2914855480 * b, 3);
+
+  return [
+    4.0767416621 * l - 3.3077115913 * m + 0.2309699292 * s,
+    -1.2684380046 * l + 2.6097574011 * m - 0.3413193965 * s,
+    -0.0041960863 * l - 0.7034186147 * m + 1.7076147010 * s
+  ];
+};
+
+// Hues of near-grey colors are meaningless, so they take the other color's hue
+const ACHROMATIC_CHROMA = 0.0001;
+
+const interpolateHue = (h1: number, h2: number, t: number, path: HuePath): number => {
+  let delta = h2 - h1;
+
+  switch (path) {
+    case 'shorter':
+      if (delta > 180) delta -= 360;
+      else if (delta < -180) delta += 360;
+      break;
+    case 'longer':
+      if (delta > 0 && delta < 180) delta -= 360;
+      else if (delta > -180 && delta <= 0) delta += 360;
+      break;
+    case 'increasing':
+      if (delta < 0) delta += 360;
+      break;
+    case 'decreasing':
+      if (delta > 0) delta -= 360;
+      break;
+  }
+
+  return (((h1 + delta * t) % 360) + 360) % 360;
+};
+
+const blendOklch = (a: Triplet, b: Triplet, t: number, path: HuePath): Triplet => {
+  const [L1, a1, b1] = linearRgbToOklab(a);
+  const [L2, a2, b2] = linearRgbToOklab(b);
+  const C1 = Math.sqrt(a1 * a1 + b1 * b1);
+  const C2 = Math.sqrt(a2 * a2 + b2 * b2);
+  let h1 = (Math.atan2(b1, a1) * 180 / Math.PI + 360) % 360;
+  let h2 = (Math.atan2(b2, a2) * 180 / Math.PI + 360) % 360;
+
+  if (C1 < ACHROMATIC_CHROMA) h1 = h2;
+  if (C2 < ACHROMATIC_CHROMA) h2 = h1;
+
+  const L = lerp(L1, L2, t);
+  const C = lerp(C1, C2, t);
+  const h = interpolateHue(h1, h2, t, path) * Math.PI / 180;
+
+  return oklabToLinearRgb([L, C * Math.cos(h), C * Math.sin(h)]);
+};
+
+/**
+ * Builds the smoothest reflectance curve with the given linear sRGB color
+ * under D65, as used for paints without a measured spectrum
+ */
+const linearRgbToReflectance = (linear: Triplet): number[] => estimateSpectrum(linearRgbToLab(linear));
+
+const reflectanceToLinearRgb = (reflectance: number[]): Triplet => xyzToLinearRgb(spectrumToXyz(reflectance));
+
+const blendSubtractive = (a: Triplet, b: Triplet, t: number): Triplet => {
+  const reflectanceA = linearRgbToReflectance(a);
+  const reflectanceB = linearRgbToReflectance(b);
+
+  // Equal scattering, so the mixture's K/S is the weighted mean per band
+  const mixed = reflectanceToLinearRgb(reflectanceA.map((R, band) =>
+    ksToReflectance(lerp(reflectanceToKS(R), reflectanceToKS(reflectanceB[band]), t))
+  ));
+
+  // Carry the curve-fitting residuals along so both ends land on the inputs
+  const roundTripA = reflectanceToLinearRgb(reflectanceA);
+  const roundTripB = reflectanceToLinearRgb(reflectanceB);
+  return mixed.map((channel, i) =>
+    channel + lerp(a[i] - roundTripA[i], b[i] - roundTripB[i], t)
+  ) as Triplet;
+};
+
+/**
+ * Blends two sRGB colors (0-255 channels) with a blend model. `ratio` is the
+ * share of colorB, from 0 (all A) to 1 (all B).
+ */
+export const blendColors = (
+  colorA: RGBColor,
+  colorB: RGBColor,
+  ratio: number,
+  model: BlendModel,
+  huePath: HuePath = 'shorter'
+): RGBColor => {
+  const t = Math.max(0, Math.min(1, ratio));
+
+  switch (model) {
+    case 'srgb':
+      return {
+        r: lerp(colorA.r, colorB.r, t),
+        g: lerp(colorA.g, colorB.g, t),
+        b: lerp(colorA.b, colorB.b, t)
+      };
+
+    case 'linear': {
+      const a = toLinear(colorA);
+      const b = toLinear(colorB);
+      return fromLinear([lerp(a[0], b[0], t), lerp(a[1], b[1], t), lerp(a[2], b[2], t)]);
+    }
+
+    case 'oklab': {
+      const a = linearRgbToOklab(toLinear(colorA));
+      const b = linearRgbToOklab(toLinear(colorB));
+      return fromLinear(oklabToLinearRgb([lerp(a[0], b[0], t), lerp(a[1], b[1], t), lerp(a[2], b[2], t)]));
+    }
+
+    case 'oklch':
+      return fromLinear(blendOklch(toLinear(colorA), toLinear(colorB), t, huePath));
+
+    case 'subtractive':
+      return fromLinear(blendSubtractive(toLinear(colorA), toLinear(colorB), t));
+  }
+};
+
+/**
+ * Samples a blend from colorA to colorB at evenly spaced ratios
+ */
+export const blendGradient = (
+  colorA: RGBColor,
+  colorB: RGBColor,
+  model: BlendModel,
+  steps: number,
+  huePath: HuePath = 'shorter'
+): RGBColor[] => {
+  return Array.from({ length: steps }, (_, i) =>
+    blendColors(colorA, colorB, steps > 1 ? i / (steps - 1) : 0, model, huePath)
+  );
+};
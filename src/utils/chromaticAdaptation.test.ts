@@ -0,0 +1,49 @@
+import { bradfordAdapt, isSameWhite } from './chromaticAdaptation';
+
+const D65 = { X: 0.95047, Y: 1, Z: 1.08883 };
+const D50 = { X: 0.96422, Y: 1, Z: 0.82521 };
+
+// Bradford D65 to D50 matrix as published by Lindbloom
+const D65_TO_D50 = [
+  [1.0478112, 0.0228866, -0.0501270],
+  [0.0295424, 0.9904844, -0.0170491],
+  [-0.0092345, 0.0150436, 0.7521316]
+];
+
+describe('bradfordAdapt', () => {
+  it('maps the source white onto the destination white', () => {
+    const [X, Y, Z] = bradfordAdapt([D65.X, D65.Y, D65.Z], D65, D50);
+    expect(X).toBeCloseTo(D50.X, 4);
+    expect(Y).toBeCloseTo(D50.Y, 4);
+    expect(Z).toBeCloseTo(D50.Z, 4);
+  });
+
+  it('matches the published D65 to D50 matrix', () => {
+    [0, 1, 2].forEach(column => {
+      const unit: [number, number, number] = [0, 0, 0];
+      unit[column] = 1;
+      bradfordAdapt(unit, D65, D50).forEach((value, row) => {
+        expect(value).toBeCloseTo(D65_TO_D50[row][column], 4);
+      });
+    });
+  });
+
+  it('round-trips between two whites', () => {
+    const xyz: [number, number, number] = [0.3, 0.2, 0.6];
+    bradfordAdapt(bradfordAdapt(xyz, D65, D50), D50, D65).forEach((value, i) => {
+      expect(value).toBeCloseTo(xyz[i], 5);
+    });
+  });
+
+  it('leaves colors alone when the whites match', () => {
+    const xyz: [number, number, number] = [0.3, 0.2, 0.6];
+    expect(bradfordAdapt(xyz, D65, { ...D65 })).toBe(xyz);
+  });
+});
+
+describe('isSameWhite', () => {
+  it('tolerates rounding but not a different white', () => {
+    expect(isSameWhite(D65, { X: 0.950470001, Y: 1, Z: 1.08883 })).toBe(true);
+    expect(isSameWhite(D65, D50)).toBe(false);
+  });
+});
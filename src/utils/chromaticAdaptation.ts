@@ -0,0 +1,48 @@
+type XYZ = [number, number, number];
+type WhitePoint = { X: number; Y: number; Z: number };
+
+// Bradford cone response matrix and its inverse
+const BRADFORD = [
+  [0.8951, 0.2664, -0.1614],
+  [-0.7502, 1.7135, 0.0367],
+  [0.0389, -0.0685, 1.0296]
+];
+
+const BRADFORD_INVERSE = [
+  [0.9869929, -0.1470543, 0.1599627],
+  [0.4323053, 0.5183603, 0.0492912],
+  [-0.0085287, 0.0400428, 0.9684867]
+];
+
+const multiply = (matrix: number[][], vector: XYZ): XYZ => [
+  matrix[0][0] * vector[0] + matrix[0][1] * vector[1] + matrix[0][2] * vector[2],
+  matrix[1][0] * vector[0] + matrix[1][1] * vector[1] + matrix[1][2] * vector[2],
+  matrix[2][0] * vector[0] + matrix[2][1] * vector[1] + matrix[2][2] * vector[2]
+];
+
+/**
+ * Checks whether two white points are the same within rounding
+ */
+export const isSameWhite = (a: WhitePoint, b: WhitePoint): boolean => {
+  return Math.abs(a.X - b.X) < 1e-4 && Math.abs(a.Y - b.Y) < 1e-4 && Math.abs(a.Z - b.Z) < 1e-4;
+};
+
+/**
+ * Adapts an XYZ color seen under one white to the corresponding color under
+ * another white using the Bradford chromatic adaptation transform
+ */
+export const bradfordAdapt = (xyz: XYZ, sourceWhite: WhitePoint, destinationWhite: WhitePoint): XYZ => {
+  if (isSameWhite(sourceWhite, destinationWhite)) return xyz;
+
+  const source = multiply(BRADFORD, [sourceWhite.X, sourceWhite.Y, sourceWhite.Z]);
+  const destination = multiply(BRADFORD, [destinationWhite.X, destinationWhite.Y, destinationWhite.Z]);
+  const cone = multiply(BRADFORD, xyz);
+
+  const adapted: XYZ = [
+    cone[0] * (destination[0] / source[0]),
+    cone[1] * (destination[1] / source[1]),
+    cone[2] * (destination[2] / source[2])
+  ];
+
+  return multiply(BRADFORD_INVERSE, adapted);
+};
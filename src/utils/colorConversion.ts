@@ -1,71 +1,37 @@
 import chroma from 'chroma-js';
-import { rgb, lab, differenceCiede2000 } from 'culori';
 import { RGBColor, LABColor } from '../context/ColorContext';
+import { ILLUMINANTS, IlluminantId } from '../data/illuminants';
+import { bradfordAdapt } from './chromaticAdaptation';
+import { colorDifference, DEFAULT_DELTA_E_OPTIONS, DeltaEOptions } from './colorDifference';
 
 /**
- * Converts RGB color to CIE LAB color space
+ * Converts RGB color to CIE LAB color space.
+ * sRGB pixels are encoded for a D65 white; for any other viewing illuminant
+ * the color is Bradford-adapted and expressed relative to that illuminant's white.
  */
-export const rgbToLab = (rgbColor: RGBColor): LABColor => {
-  try {
-    // Using culori for conversion
-    const result = lab(rgb({
-      r: rgbColor.r / 255, 
-      g: rgbColor.g / 255, 
-      b: rgbColor.b / 255
-    }));
-    
-    if (!result) {
-      throw new Error('Color conversion failed');
-    }
-    
-    return {
-      L: result.l,
-      a: result.a,
-      b: result.b
-    };
-  } catch (error) {
-    console.error('Error converting RGB to LAB:', error);
-    
-    // Fallback to chroma-js in case of error
-    try {
-      const labValues = chroma(
-        rgbColor.r, 
-        rgbColor.g, 
-        rgbColor.b
-      ).lab();
-      
-      return {
-        L: labValues[0],
-        a: labValues[1],
-        b: labValues[2]
-      };
-    } catch (chromaError) {
-      console.error('Fallback conversion also failed:', chromaError);
-      
-      // Return a default value if all else fails
-      return { L: 50, a: 0, b: 0 };
-    }
-  }
+export const rgbToLab = (rgbColor: RGBColor, illuminant: IlluminantId = 'D65'): LABColor => {
+  const linear: [number, number, number] = [
+    srgbToLinear(rgbColor.r / 255),
+    srgbToLinear(rgbColor.g / 255),
+    srgbToLinear(rgbColor.b / 255)
+  ];
+  const white = getIlluminantWhite(illuminant);
+  
+  return xyzToLab(bradfordAdapt(linearRgbToXyz(linear), D65_WHITE, white), white);
 };
 
 /**
- * Converts LAB color to RGB color space
+ * Converts LAB color to RGB color space.
+ * LAB values rendered under another illuminant are adapted back to D65 for display.
  */
-export const labToRgb = (labColor: LABColor): RGBColor => {
-  try {
-    // Using chroma-js for conversion
-    const chromaColor = chroma.lab(labColor.L, labColor.a, labColor.b);
-    const [r, g, b] = chromaColor.rgb();
-    
-    return {
-      r: Math.round(r),
-      g: Math.round(g),
-      b: Math.round(b)
-    };
-  } catch (error) {
-    console.error('Error converting LAB to RGB:', error);
-    return { r: 0, g: 0, b: 0 };
-  }
+export const labToRgb = (labColor: LABColor, illuminant: IlluminantId = 'D65'): RGBColor => {
+  const white = getIlluminantWhite(illuminant);
+  const linear = xyzToLinearRgb(bradfordAdapt(labToXyz(labColor, white), white, D65_WHITE));
+  
+  // Out-of-gamut channels are clipped to the displayable range
+  const encode = (channel: number) => Math.round(Math.max(0, Math.min(1, linearToSrgb(channel))) * 255);
+  
+  return { r: encode(linear[0]), g: encode(linear[1]), b: encode(linear[2]) };
 };
 
 /**
@@ -97,27 +63,126 @@ export const hexToRgb = (hex: string): RGBColor => {
   }
 };
 
+// D65 reference white (Y normalised to 1) used by sRGB
+const D65_WHITE = { X: 0.95047, Y: 1.0, Z: 1.08883 };
+
 /**
- * Calculates the perceptual color difference (Delta E 2000)
- * between two LAB colors
+ * Returns the XYZ white point (Y normalised to 1) of a viewing illuminant
  */
-export const calculateDeltaE = (lab1: LABColor, lab2: LABColor): number => {
-  try {
-    // Using culori's implementation of Delta E 2000
-    const color1 = { mode: 'lab', l: lab1.L, a: lab1.a, b: lab1.b };
-    const color2 = { mode: 'lab', l: lab2.L, a: lab2.a, b: lab2.b };
-    
-    return differenceCiede2000(color1, color2);
-  } catch (error) {
-    console.error('Error calculating Delta E:', error);
-    
-    // Fallback to a simpler Euclidean distance if the Delta E calculation fails
-    const dL = lab1.L - lab2.L;
-    const da = lab1.a - lab2.a;
-    const db = lab1.b - lab2.b;
-    
-    return Math.sqrt(dL * dL + da * da + db * db);
-  }
+export const getIlluminantWhite = (illuminant: IlluminantId): { X: number; Y: number; Z: number } => {
+  return illuminant === 'D65' ? D65_WHITE : ILLUMINANTS[illuminant].whitePoint;
+};
+
+/**
+ * Re-expresses a LAB color seen under one illuminant as the corresponding
+ * color under another, using Bradford chromatic adaptation
+ */
+export const adaptLab = (labColor: LABColor, from: IlluminantId, to: IlluminantId): LABColor => {
+  if (from === to) return labColor;
+  
+  const sourceWhite = getIlluminantWhite(from);
+  const destinationWhite = getIlluminantWhite(to);
+  return xyzToLab(bradfordAdapt(labToXyz(labColor, sourceWhite), sourceWhite, destinationWhite), destinationWhite);
+};
+
+/**
+ * Decodes a gamma-encoded sRGB channel (0-1) to linear light
+ */
+export const srgbToLinear = (channel: number): number => {
+  return channel <= 0.04045 ? channel / 12.92 : Math.pow((channel + 0.055) / 1.055, 2.4);
+};
+
+/**
+ * Encodes a linear-light channel (0-1) with the sRGB transfer curve
+ */
+export const linearToSrgb = (channel: number): number => {
+  return channel <= 0.0031308 ? channel * 12.92 : 1.055 * Math.pow(channel, 1 / 2.4) - 0.055;
+};
+
+/**
+ * Converts CIE LAB to XYZ (Y normalised to 1) relative to a reference white
+ */
+export const labToXyz = (
+  labColor: LABColor,
+  white: { X: number; Y: number; Z: number } = D65_WHITE
+): [number, number, number] => {
+  const fy = (labColor.L + 16) / 116;
+  const fx = fy + labColor.a / 500;
+  const fz = fy - labColor.b / 200;
+
+  const finv = (t: number) => t > 6 / 29 ? t * t * t : 3 * (6 / 29) * (6 / 29) * (t - 4 / 29);
+
+  return [white.X * finv(fx), white.Y * finv(fy), white.Z * finv(fz)];
+};
+
+/**
+ * Converts XYZ (Y normalised to 1) to CIE LAB relative to a reference white
+ */
+export const xyzToLab = (
+  xyz: [number, number, number],
+  white: { X: number; Y: number; Z: number } = D65_WHITE
+): LABColor => {
+  const f = (t: number) => t > Math.pow(6 / 29, 3) ? Math.cbrt(t) : t / (3 * (6 / 29) * (6 / 29)) + 4 / 29;
+
+  const fx = f(xyz[0] / white.X);
+  const fy = f(xyz[1] / white.Y);
+  const fz = f(xyz[2] / white.Z);
+
+  return {
+    L: 116 * fy - 16,
+    a: 500 * (fx - fy),
+    b: 200 * (fy - fz)
+  };
+};
+
+/**
+ * Converts linear-light sRGB channels (0-1) to XYZ under D65
+ */
+export const linearRgbToXyz = (linear: [number, number, number]): [number, number, number] => {
+  const [r, g, b] = linear;
+  return [
+    r * 0.4124564 + g * 0.3575761 + b * 0.1804375,
+    r * 0.2126729 + g * 0.7151522 + b * 0.0721750,
+    r * 0.0193339 + g * 0.1191920 + b * 0.9503041
+  ];
+};
+
+/**
+ * Converts XYZ under D65 to linear-light sRGB channels (unclamped)
+ */
+export const xyzToLinearRgb = (xyz: [number, number, number]): [number, number, number] => {
+  const [x, y, z] = xyz;
+  return [
+    x * 3.2404542 + y * -1.5371385 + z * -0.4985314,
+    x * -0.9692660 + y * 1.8760108 + z * 0.0415560,
+    x * 0.0556434 + y * -0.2040259 + z * 1.0572252
+  ];
+};
+
+/**
+ * Converts a LAB color to linear-light sRGB channels (unclamped)
+ */
+export const labToLinearRgb = (labColor: LABColor): [number, number, number] => {
+  return xyzToLinearRgb(labToXyz(labColor));
+};
+
+/**
+ * Converts linear-light sRGB channels to a LAB color
+ */
+export const linearRgbToLab = (linear: [number, number, number]): LABColor => {
+  return xyzToLab(linearRgbToXyz(linear));
+};
+
+/**
+ * Calculates the perceptual color difference between two LAB colors.
+ * Uses CIEDE2000 unless another metric is given.
+ */
+export const calculateDeltaE = (
+  lab1: LABColor,
+  lab2: LABColor,
+  options: DeltaEOptions = DEFAULT_DELTA_E_OPTIONS
+): number => {
+  return colorDifference(lab1, lab2, options);
 };
 
 /**
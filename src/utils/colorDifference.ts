@@ -0,0 +1,184 @@
+import { LABColor } from '../context/ColorContext';
+
+export type DeltaEMetric = 'cie76' | 'cie94' | 'ciede2000' | 'cmc';
+
+export interface DeltaEOptions {
+  metric: DeltaEMetric;
+  kL: number; // Lightness weight (the "l" of CMC l:c)
+  kC: number; // Chroma weight (the "c" of CMC l:c)
+  kH: number; // Hue weight
+}
+
+export const DEFAULT_DELTA_E_OPTIONS: DeltaEOptions = {
+  metric: 'ciede2000',
+  kL: 1,
+  kC: 1,
+  kH: 1
+};
+
+export const DELTA_E_METRICS: Record<DeltaEMetric, { name: string; description: string }> = {
+  cie76: {
+    name: 'CIE76',
+    description: 'Straight-line distance in LAB. Overstates differences between saturated colors'
+  },
+  cie94: {
+    name: 'CIE94',
+    description: 'Weights chroma and hue differences by the chroma of the target'
+  },
+  ciede2000: {
+    name: 'CIEDE2000',
+    description: 'Current CIE standard, with corrections for blues and near-neutrals'
+  },
+  cmc: {
+    name: 'CMC l:c',
+    description: 'Textile industry metric; set lightness to 2 for the common 2:1 acceptability form'
+  }
+};
+
+// Each unit of color difference lowers the match percentage by 2%
+const MATCH_PERCENT_PER_DELTA_E = 2;
+
+const toRadians = (degrees: number) => degrees * (Math.PI / 180);
+const toDegrees = (radians: number) => radians * (180 / Math.PI);
+
+const hueAngle = (a: number, b: number): number => {
+  const hue = toDegrees(Math.atan2(b, a));
+  return hue < 0 ? hue + 360 : hue;
+};
+
+/**
+ * Splits a LAB difference into lightness, chroma and hue components,
+ * using the first color as the reference
+ */
+const differenceComponents = (reference: LABColor, sample: LABColor) => {
+  const C1 = Math.sqrt(reference.a * reference.a + reference.b * reference.b);
+  const C2 = Math.sqrt(sample.a * sample.a + sample.b * sample.b);
+  const dL = reference.L - sample.L;
+  const dC = C1 - C2;
+  const da = reference.a - sample.a;
+  const db = reference.b - sample.b;
+  const dH2 = Math.max(0, da * da + db * db - dC * dC);
+
+  return { C1, dL, dC, dH2 };
+};
+
+const cie76 = (reference: LABColor, sample: LABColor): number => {
+  const dL = reference.L - sample.L;
+  const da = reference.a - sample.a;
+  const db = reference.b - sample.b;
+  return Math.sqrt(dL * dL + da * da + db * db);
+};
+
+const cie94 = (reference: LABColor, sample: LABColor, { kL, kC, kH }: DeltaEOptions): number => {
+  const { C1, dL, dC, dH2 } = differenceComponents(reference, sample);
+
+  // Graphic arts constants
+  const SC = 1 + 0.045 * C1;
+  const SH = 1 + 0.015 * C1;
+
+  return Math.sqrt(
+    Math.pow(dL / kL, 2) +
+    Math.pow(dC / (kC * SC), 2) +
+    dH2 / Math.pow(kH * SH, 2)
+  );
+};
+
+const cmc = (reference: LABColor, sample: LABColor, { kL, kC, kH }: DeltaEOptions): number => {
+  const { C1, dL, dC, dH2 } = differenceComponents(reference, sample);
+  const H1 = hueAngle(reference.a, reference.b);
+
+  const T = H1 >= 164 && H1 <= 345
+    ? 0.56 + Math.abs(0.2 * Math.cos(toRadians(H1 + 168)))
+    : 0.36 + Math.abs(0.4 * Math.cos(toRadians(H1 + 35)));
+  const F = Math.sqrt(Math.pow(C1, 4) / (Math.pow(C1, 4) + 1900));
+
+  const SL = reference.L < 16 ? 0.511 : (0.040975 * reference.L) / (1 + 0.01765 * reference.L);
+  const SC = (0.0638 * C1) / (1 + 0.0131 * C1) + 0.638;
+  const SH = SC * (F * T + 1 - F);
+
+  return Math.sqrt(
+    Math.pow(dL / (kL * SL), 2) +
+    Math.pow(dC / (kC * SC), 2) +
+    dH2 / Math.pow(kH * SH, 2)
+  );
+};
+
+const ciede2000 = (lab1: LABColor, lab2: LABColor, { kL, kC, kH }: DeltaEOptions): number => {
+  const C1 = Math.sqrt(lab1.a * lab1.a + lab1.b * lab1.b);
+  const C2 = Math.sqrt(lab2.a * lab2.a + lab2.b * lab2.b);
+  const meanC = (C1 + C2) / 2;
+  const G = 0.5 * (1 - Math.sqrt(Math.pow(meanC, 7) / (Math.pow(meanC, 7) + Math.pow(25, 7))));
+
+  const a1 = lab1.a * (1 + G);
+  const a2 = lab2.a * (1 + G);
+  const C1p = Math.sqrt(a1 * a1 + lab1.b * lab1.b);
+  const C2p = Math.sqrt(a2 * a2 + lab2.b * lab2.b);
+  const h1p = C1p === 0 ? 0 : hueAngle(a1, lab1.b);
+  const h2p = C2p === 0 ? 0 : hueAngle(a2, lab2.b);
+
+  const dLp = lab2.L - lab1.L;
+  const dCp = C2p - C1p;
+
+  let dhp = 0;
+  if (C1p * C2p !== 0) {
+    dhp = h2p - h1p;
+    if (dhp > 180) dhp -= 360;
+    else if (dhp < -180) dhp += 360;
+  }
+  const dHp = 2 * Math.sqrt(C1p * C2p) * Math.sin(toRadians(dhp / 2));
+
+  const meanL = (lab1.L + lab2.L) / 2;
+  const meanCp = (C1p + C2p) / 2;
+
+  let meanHp = h1p + h2p;
+  if (C1p * C2p !== 0) {
+    if (Math.abs(h1p - h2p) <= 180) meanHp /= 2;
+    else meanHp = h1p + h2p < 360 ? (meanHp + 360) / 2 : (meanHp - 360) / 2;
+  }
+
+  const T = 1 -
+    0.17 * Math.cos(toRadians(meanHp - 30)) +
+    0.24 * Math.cos(toRadians(2 * meanHp)) +
+    0.32 * Math.cos(toRadians(3 * meanHp + 6)) -
+    0.20 * Math.cos(toRadians(4 * meanHp - 63));
+
+  const SL = 1 + (0.015 * Math.pow(meanL - 50, 2)) / Math.sqrt(20 + Math.pow(meanL - 50, 2));
+  const SC = 1 + 0.045 * meanCp;
+  const SH = 1 + 0.015 * meanCp * T;
+
+  const dTheta = 30 * Math.exp(-Math.pow((meanHp - 275) / 25, 2));
+  const RC = 2 * Math.sqrt(Math.pow(meanCp, 7) / (Math.pow(meanCp, 7) + Math.pow(25, 7)));
+  const RT = -Math.sin(toRadians(2 * dTheta)) * RC;
+
+  const lightness = dLp / (kL * SL);
+  const chroma = dCp / (kC * SC);
+  const hue = dHp / (kH * SH);
+
+  return Math.sqrt(lightness * lightness + chroma * chroma + hue * hue + RT * chroma * hue);
+};
+
+/**
+ * Calculates the color difference between two LAB colors with the chosen
+ * metric and kL/kC/kH weights. CIE94 and CMC are not symmetric: the first
+ * color is taken as the reference (the target being matched).
+ */
+export const colorDifference = (
+  reference: LABColor,
+  sample: LABColor,
+  options: DeltaEOptions = DEFAULT_DELTA_E_OPTIONS
+): number => {
+  switch (options.metric) {
+    case 'cie76': return cie76(reference, sample);
+    case 'cie94': return cie94(reference, sample, options);
+    case 'cmc': return cmc(reference, sample, options);
+    case 'ciede2000':
+    default: return ciede2000(reference, sample, options);
+  }
+};
+
+/**
+ * Converts a color difference to the match percentage (0-100) shown throughout the app
+ */
+export const deltaEToMatchPercentage = (deltaE: number): number => {
+  return Math.max(0, Math.min(100, 100 - deltaE * MATCH_PERCENT_PER_DELTA_E));
+};
@@ -1,24 +1,32 @@
 /**
  * Utility functions for color calculations and conversions
  */
+import { IlluminantId } from '../data/illuminants';
+import { bradfordAdapt } from './chromaticAdaptation';
+import { getIlluminantWhite } from './colorConversion';
+import { colorDifference, DEFAULT_DELTA_E_OPTIONS, DeltaEOptions } from './colorDifference';
 
 /**
- * Calculates Delta E (color difference) between two colors in LAB space
- * Using CIEDE2000 formula approximation
+ * Calculates Delta E (color difference) between two colors in LAB space.
+ * Uses CIEDE2000 unless another metric is given.
  */
-export function deltaE(lab1: [number, number, number], lab2: [number, number, number]): number {
-  // Simple Euclidean distance for LAB values
-  const dL = lab1[0] - lab2[0];
-  const da = lab1[1] - lab2[1];
-  const db = lab1[2] - lab2[2];
-  
-  return Math.sqrt(dL * dL + da * da + db * db);
+export function deltaE(
+  lab1: [number, number, number],
+  lab2: [number, number, number],
+  options: DeltaEOptions = DEFAULT_DELTA_E_OPTIONS
+): number {
+  return colorDifference(
+    { L: lab1[0], a: lab1[1], b: lab1[2] },
+    { L: lab2[0], a: lab2[1], b: lab2[2] },
+    options
+  );
 }
 
 /**
- * Converts RGB color to LAB color space
+ * Converts RGB color to LAB color space, relative to the white of the viewing
+ * illuminant (pixels are assumed to be sRGB with a D65 white)
  */
-export function rgb2lab(rgb: [number, number, number]): [number, number, number] {
+export function rgb2lab(rgb: [number, number, number], illuminant: IlluminantId = 'D65'): [number, number, number] {
   // Convert RGB to XYZ
   let rVal = rgb[0] / 255;
   let gVal = rgb[1] / 255;
@@ -35,14 +43,19 @@ export function rgb2lab(rgb: [number, number, number]): [number, number, number]
   bVal *= 100;
   
   // RGB to XYZ conversion
-  const x = rVal * 0.4124 + gVal * 0.3576 + bVal * 0.1805;
-  const y = rVal * 0.2126 + gVal * 0.7152 + bVal * 0.0722;
-  const z = rVal * 0.0193 + gVal * 0.1192 + bVal * 0.9505;
+  const d65X = rVal * 0.4124 + gVal * 0.3576 + bVal * 0.1805;
+  const d65Y = rVal * 0.2126 + gVal * 0.7152 + bVal * 0.0722;
+  const d65Z = rVal * 0.0193 + gVal * 0.1192 + bVal * 0.9505;
+  
+  // Bradford-adapt from D65 to the viewing illuminant
+  const d65White = getIlluminantWhite('D65');
+  const white = getIlluminantWhite(illuminant);
+  const [x, y, z] = bradfordAdapt([d65X, d65Y, d65Z], d65White, white);
   
   // XYZ to LAB conversion
-  const xRef = 95.047;   // D65 reference white
-  const yRef = 100.0;
-  const zRef = 108.883;
+  const xRef = white.X * 100;   // Reference white of the illuminant
+  const yRef = white.Y * 100;
+  const zRef = white.Z * 100;
   
   const xRatio = x / xRef;
   const yRatio = y / yRef;
@@ -0,0 +1,38 @@
+import { hexToRgb, rgbToLab } from './colorConversion';
+import { createCustomPaint, CUSTOM_PAINT_BRAND, parsePigmentCodes } from './customPaints';
+import { getKubelkaMunkCoefficients, hasEstimatedSpectrum } from './kubelkaMunk';
+
+describe('createCustomPaint', () => {
+  const input = {
+    name: '  Studio Olive ',
+    hex: '#6b6b2f',
+    pigmentCodes: ['PY42', 'PBk9'],
+    opacity: 'SO' as const,
+    tintingStrength: 'Medium' as const
+  };
+
+  it('builds a mixable paint from a swatch', () => {
+    const paint = createCustomPaint(input);
+
+    expect(paint.brand).toBe(CUSTOM_PAINT_BRAND);
+    expect(paint.name).toBe('Studio Olive');
+    expect(paint.id).toMatch(/^custom-studio-olive-/);
+    expect(paint.swatch).toBe('#6B6B2F');
+    expect(paint.lab).toEqual(rgbToLab(hexToRgb('#6B6B2F'), 'D65'));
+    expect(hasEstimatedSpectrum(paint)).toBe(true);
+    expect(getKubelkaMunkCoefficients(paint)!.K).toHaveLength(31);
+  });
+
+  it('names unnamed paints', () => {
+    const paint = createCustomPaint({ ...input, name: '  ' });
+    expect(paint.name).toBe('Custom Paint');
+    expect(paint.id).toMatch(/^custom-paint-/);
+  });
+});
+
+describe('parsePigmentCodes', () => {
+  it('splits on commas and spaces and normalises case', () => {
+    expect(parsePigmentCodes('py42, pbk9  PBR7,pw6')).toEqual(['PY42', 'PBk9', 'PBr7', 'PW6']);
+    expect(parsePigmentCodes(' ')).toEqual([]);
+  });
+});
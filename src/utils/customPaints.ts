@@ -0,0 +1,46 @@
+import { Paint } from '../context/PaintContext';
+import { hexToRgb, rgbToLab } from './colorConversion';
+
+// Brand name custom paints are grouped under
+export const CUSTOM_PAINT_BRAND = 'Custom Paints';
+
+export interface CustomPaintInput {
+  name: string;
+  hex: string;
+  pigmentCodes: string[];
+  opacity: Paint['opacity'];
+  tintingStrength: NonNullable<Paint['tintingStrength']>;
+}
+
+/**
+ * Builds a paint from a user's own swatch. Without a measured spectrum, it
+ * mixes from a reflectance curve estimated from its daylight LAB color, with
+ * scattering set by its opacity and tinting strength.
+ */
+export const createCustomPaint = (input: CustomPaintInput): Paint => {
+  const hex = input.hex.toUpperCase();
+  const slug = input.name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+
+  return {
+    id: `custom-${slug || 'paint'}-${Date.now().toString(36)}`,
+    brand: CUSTOM_PAINT_BRAND,
+    name: input.name.trim() || 'Custom Paint',
+    pigmentCodes: input.pigmentCodes,
+    opacity: input.opacity,
+    binder: 'Unknown',
+    lightfastness: 'Unknown',
+    series: '-',
+    tintingStrength: input.tintingStrength,
+    lab: rgbToLab(hexToRgb(hex), 'D65'),
+    swatch: hex
+  };
+};
+
+/**
+ * Parses a comma- or space-separated list of Colour Index codes
+ */
+export const parsePigmentCodes = (text: string): string[] => text
+  .split(/[,\s]+/)
+  .map(code => code.trim().toUpperCase())
+  .filter(code => code.length > 0)
+  .map(code => code.replace(/^PBK/, 'PBk').replace(/^PBR/, 'PBr'));
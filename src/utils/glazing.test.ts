@@ -0,0 +1,48 @@
+import { paint } from '../testing/paints';
+import { colorDifference } from './colorDifference';
+import { findGlazes, predictGlaze, Underlayer } from './glazing';
+import { mixPaints } from './kubelkaMunk';
+
+
+const yellowUnderpainting: Underlayer = { kind: 'recipe', paints: [{ paint: paint('wn-cadmium-yellow-pale'), proportion: 1 }] };
+const glaze = (id: string, thicknessMm: number) => ({ paints: [{ paint: paint(id), proportion: 1 }], thicknessMm });
+
+describe('predictGlaze', () => {
+  it('shows the underlayer unchanged under a film of no thickness', () => {
+    const prediction = predictGlaze(yellowUnderpainting, glaze('wn-alizarin-crimson', 0))!;
+    expect(colorDifference(prediction.lab, mixPaints(yellowUnderpainting.paints))).toBeLessThan(0.01);
+    expect(prediction.hiding).toBeCloseTo(0, 6);
+  });
+
+  it('approaches the masstone as the film thickens', () => {
+    const crimson = paint('wn-alizarin-crimson');
+    const prediction = predictGlaze(yellowUnderpainting, glaze(crimson.id, 10))!;
+    expect(colorDifference(prediction.lab, mixPaints([{ paint: crimson, proportion: 1 }]))).toBeLessThan(0.5);
+    expect(prediction.hiding).toBeGreaterThan(0.99);
+  });
+
+  it('lets a transparent paint hide less than an opaque one', () => {
+    const transparent = predictGlaze(yellowUnderpainting, glaze('wn-alizarin-crimson', 0.02))!;
+    const opaque = predictGlaze(yellowUnderpainting, glaze('wn-titanium-white', 0.02))!;
+    expect(transparent.hiding).toBeLessThan(opaque.hiding);
+  });
+
+  it('glazes over a plain color as well as a recipe', () => {
+    const prediction = predictGlaze({ kind: 'color', lab: { L: 80, a: 0, b: 60 } }, glaze('wn-french-ultramarine', 0.01))!;
+    expect(prediction.lab.b).toBeLessThan(60);
+    expect(prediction.hex).toMatch(/^#[0-9a-f]{6}$/i);
+  });
+});
+
+describe('findGlazes', () => {
+  it('finds a glaze that reproduces a predicted one, best first', () => {
+    const target = predictGlaze(yellowUnderpainting, glaze('wn-alizarin-crimson', 0.02))!.lab;
+    const paints = ['wn-alizarin-crimson', 'wn-french-ultramarine', 'wn-viridian', 'wn-burnt-sienna'].map(paint);
+    const glazes = findGlazes(yellowUnderpainting, target, paints, { maxResults: 3 });
+
+    expect(glazes.length).toBeLessThanOrEqual(3);
+    expect(glazes[0].deltaE).toBeLessThan(0.5);
+    expect(glazes[0].paints.map(component => component.paint.id)).toContain('wn-alizarin-crimson');
+    expect(glazes.map(recipe => recipe.deltaE)).toEqual([...glazes.map(recipe => recipe.deltaE)].sort((a, b) => a - b));
+  });
+});
@@ -0,0 +1,202 @@
+import { Paint } from '../context/PaintContext';
+import { LABColor } from '../context/ColorContext';
+import { IlluminantId } from '../data/illuminants';
+import { SPECTRAL_BANDS } from '../data/cieTables';
+import { adaptLab, labToRgb, rgbToHex } from './colorConversion';
+import { colorDifference, DEFAULT_DELTA_E_OPTIONS, DeltaEOptions, deltaEToMatchPercentage } from './colorDifference';
+import {
+  finiteLayerReflectance,
+  hasEstimatedSpectrum,
+  mixCoefficients,
+  mixPaintsReflectance,
+  reflectanceToLab
+} from './kubelkaMunk';
+import { estimateSpectrum } from './spectral';
+
+type PaintComponent = { paint: Paint; proportion: number };
+
+// Kubelka-Munk thickness units per millimetre of wet film. Derived coefficients
+// give an opaque, medium-strength paint S = 1, so 0.03 mm of it (a typical
+// glaze) has SX = 3 and mostly hides what is underneath.
+const KM_UNITS_PER_MM = 100;
+
+// Film thicknesses tried when searching for a glaze, in mm
+export const GLAZE_THICKNESSES = [0.005, 0.01, 0.02, 0.03, 0.05, 0.08];
+export const DEFAULT_GLAZE_THICKNESS = 0.02;
+
+// Thinnest and thickest films a glaze search refines between, in mm
+const MIN_GLAZE_THICKNESS = 0.002;
+const MAX_GLAZE_THICKNESS = 0.15;
+
+const GLAZE_RATIOS = [0.25, 0.5, 0.75];
+
+// Single paints kept for two-paint glazes, closest first
+const GLAZE_PAIR_CANDIDATES = 10;
+
+// What the glaze goes over: a plain color, or a paint mix with known pigments
+export type Underlayer =
+  | { kind: 'color'; lab: LABColor } // Relative to the illuminant's white
+  | { kind: 'recipe'; paints: PaintComponent[] };
+
+export interface GlazeLayer {
+  paints: PaintComponent[];
+  thicknessMm: number;
+}
+
+export interface GlazePrediction {
+  lab: LABColor; // Relative to the illuminant's white
+  hex: string;
+  estimated: Paint[]; // Paints mixed from a curve estimated from their color
+  hiding: number; // 0-1 contrast ratio of the film over black and over white
+}
+
+export interface GlazeRecipe extends GlazeLayer {
+  prediction: GlazePrediction;
+  deltaE: number;
+  matchPercentage: number;
+}
+
+// Drawdown grounds for judging hiding
+const BLACK_GROUND: number[] = new Array(SPECTRAL_BANDS).fill(0);
+const WHITE_GROUND: number[] = new Array(SPECTRAL_BANDS).fill(1);
+
+// A plain color underlayer is given the smooth curve of its D65 equivalent
+const getUnderlayerReflectance = (underlayer: Underlayer, illuminant: IlluminantId): number[] | null => {
+  if (underlayer.kind === 'recipe') {
+    return mixPaintsReflectance(underlayer.paints)?.reflectance || null;
+  }
+  return estimateSpectrum(adaptLab(underlayer.lab, illuminant, 'D65'));
+};
+
+// Reflectance of the glaze film over a background, band by band
+const layerReflectance = (
+  glaze: GlazeLayer,
+  background: number[]
+): number[] | null => {
+  const coefficients = mixCoefficients(glaze.paints);
+  if (!coefficients) return null;
+
+  const thickness = Math.max(0, glaze.thicknessMm) * KM_UNITS_PER_MM;
+  return background.map((Rg, channel) =>
+    finiteLayerReflectance(coefficients.K[channel], coefficients.S[channel], thickness, Rg)
+  );
+};
+
+// CIE luminance factor Y (0-1) from L*
+const labToLuminance = (lab: LABColor): number => {
+  const fy = (lab.L + 16) / 116;
+  return lab.L > 8 ? fy * fy * fy : lab.L / 903.3;
+};
+
+/**
+ * Predicts the color of a glaze or scumble over an underlayer, treating the
+ * film as a Kubelka-Munk layer of finite thickness. Transparent paints scatter
+ * little, so the underlayer shows through tinted; opaque paints hide it.
+ */
+export const predictGlaze = (
+  underlayer: Underlayer,
+  glaze: GlazeLayer,
+  illuminant: IlluminantId = 'D65'
+): GlazePrediction | null => {
+  const background = getUnderlayerReflectance(underlayer, illuminant);
+  if (!background) return null;
+
+  const reflectance = layerReflectance(glaze, background);
+  if (!reflectance) return null;
+
+  const lab = reflectanceToLab({ basis: 'spectral', reflectance }, illuminant);
+
+  // Hiding is judged over black and white grounds, as on a drawdown card
+  const overBlack = layerReflectance(glaze, BLACK_GROUND);
+  const overWhite = layerReflectance(glaze, WHITE_GROUND);
+  const hiding = overBlack && overWhite
+    ? labToLuminance(reflectanceToLab({ basis: 'spectral', reflectance: overBlack }))
+      / Math.max(1e-6, labToLuminance(reflectanceToLab({ basis: 'spectral', reflectance: overWhite })))
+    : 0;
+
+  const paints = [...(underlayer.kind === 'recipe' ? underlayer.paints : []), ...glaze.paints].map(component => component.paint);
+
+  return {
+    lab,
+    hex: rgbToHex(labToRgb(lab, illuminant)),
+    estimated: paints.filter((paint, i) => hasEstimatedSpectrum(paint) && paints.indexOf(paint) === i),
+    hiding: Math.max(0, Math.min(1, hiding))
+  };
+};
+
+/**
+ * Finds single-paint and two-paint glazes, with their film thickness, that
+ * turn the underlayer into the target color
+ */
+export const findGlazes = (
+  underlayer: Underlayer,
+  target: LABColor,
+  paints: Paint[],
+  options: { illuminant?: IlluminantId; deltaE?: DeltaEOptions; maxResults?: number } = {}
+): GlazeRecipe[] => {
+  const illuminant = options.illuminant || 'D65';
+  const deltaEOptions = options.deltaE || DEFAULT_DELTA_E_OPTIONS;
+  const maxResults = options.maxResults || 5;
+
+  const evaluate = (components: PaintComponent[], thicknessMm: number): GlazeRecipe | null => {
+    const layer = { paints: components, thicknessMm };
+    const prediction = predictGlaze(underlayer, layer, illuminant);
+    if (!prediction) return null;
+    const deltaE = colorDifference(target, prediction.lab, deltaEOptions);
+    return { ...layer, prediction, deltaE, matchPercentage: deltaEToMatchPercentage(deltaE) };
+  };
+
+  // Best of the screening thicknesses for a glaze
+  const screen = (components: PaintComponent[]): GlazeRecipe | null => GLAZE_THICKNESSES
+    .map(thickness => evaluate(components, thickness))
+    .reduce<GlazeRecipe | null>((best, recipe) => (recipe && (!best || recipe.deltaE < best.deltaE) ? recipe : best), null);
+
+  const singles = paints
+    .map(paint => screen([{ paint, proportion: 1 }]))
+    .filter((recipe): recipe is GlazeRecipe => recipe !== null)
+    .sort((a, b) => a.deltaE - b.deltaE);
+
+  const closest = singles.slice(0, GLAZE_PAIR_CANDIDATES).map(recipe => recipe.paints[0].paint);
+  const pairs: GlazeRecipe[] = [];
+  for (let i = 0; i < closest.length; i++) {
+    for (let j = i + 1; j < closest.length; j++) {
+      GLAZE_RATIOS.forEach(ratio => {
+        const recipe = screen([
+          { paint: closest[i], proportion: ratio },
+          { paint: closest[j], proportion: 1 - ratio }
+        ]);
+        if (recipe) pairs.push(recipe);
+      });
+    }
+  }
+
+  // Refine the film thickness of the best candidates by golden-section search
+  const refine = (recipe: GlazeRecipe): GlazeRecipe => {
+    const ratio = (Math.sqrt(5) - 1) / 2;
+    let low = MIN_GLAZE_THICKNESS;
+    let high = MAX_GLAZE_THICKNESS;
+    for (let i = 0; i < 20 && high - low > 0.0005; i++) {
+      const a = high - ratio * (high - low);
+      const b = low + ratio * (high - low);
+      const deltaA = evaluate(recipe.paints, a)?.deltaE ?? Infinity;
+      const deltaB = evaluate(recipe.paints, b)?.deltaE ?? Infinity;
+      if (deltaA < deltaB) high = b;
+      else low = a;
+    }
+    const refined = evaluate(recipe.paints, (low + high) / 2);
+    return refined && refined.deltaE < recipe.deltaE ? refined : recipe;
+  };
+
+  const seen = new Set<string>();
+  return [...singles, ...pairs]
+    .sort((a, b) => a.deltaE - b.deltaE)
+    .filter(recipe => {
+      const key = recipe.paints.map(component => component.paint.id).sort().join('|');
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .slice(0, maxResults)
+    .map(refine)
+    .sort((a, b) => a.deltaE - b.deltaE);
+};
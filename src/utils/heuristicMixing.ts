@@ -0,0 +1,539 @@
+import { Paint, MixingRecipe } from '../context/PaintContext';
+import { LABColor } from '../context/ColorContext';
+import { labToRgb, rgbToHex } from './colorConversion';
+import { colorDifference, deltaEToMatchPercentage } from './colorDifference';
+import { mixPaints } from './kubelkaMunk';
+import { MixingEngine, MixingEngineOutput, MixingRequest } from './mixingEngine';
+import { findChromaticBlacks, isWhitePaint } from './neutralMixing';
+import { renderPaint } from './spectral';
+
+/**
+ * Identifies complementary colors for a given paint
+ * Used for creating more harmonious mixes and reducing chroma
+ */
+const findComplementaryPaints = (paint: Paint, availablePaints: Paint[]): Paint[] => {
+  if (!paint.lab) return [];
+  
+  // Get the paint's hue angle in LAB space
+  const a = paint.lab.a;
+  const b = paint.lab.b;
+  const hueAngle = Math.atan2(b, a) * (180 / Math.PI);
+  
+  // The complementary hue is roughly 180 degrees away
+  const complementaryHue = (hueAngle + 180) % 360;
+  const complementaryRadians = complementaryHue * (Math.PI / 180);
+  
+  // Find paints with similar hue to the complementary
+  return availablePaints
+    .filter(p => p.lab && p.id !== paint.id && p.brand === paint.brand)
+    .map(p => {
+      const pHueAngle = Math.atan2(p.lab!.b, p.lab!.a) * (180 / Math.PI);
+      // Calculate angular distance (considering the circle)
+      let hueDiff = Math.abs(pHueAngle - complementaryHue);
+      if (hueDiff > 180) hueDiff = 360 - hueDiff;
+      
+      return { paint: p, hueDiff };
+    })
+    .sort((a, b) => a.hueDiff - b.hueDiff)
+    .slice(0, 3)
+    .map(item => item.paint);
+};
+
+/**
+ * Determines the temperature (warm/cool) of a color in LAB space
+ */
+const getColorTemperature = (lab: LABColor): 'warm' | 'cool' | 'neutral' => {
+  // In LAB, positive 'b' values (yellow) and positive 'a' values (red) generally indicate warmth
+  // Negative 'b' values (blue) and negative 'a' values (green) generally indicate coolness
+  
+  const warmth = lab.a + lab.b;
+  const coolness = -lab.a - lab.b;
+  
+  if (warmth > coolness + 15) return 'warm';
+  if (coolness > warmth + 15) return 'cool';
+  return 'neutral';
+};
+
+/**
+ * Paint mixing algorithm that finds the closest matching paints
+ * and suggests mixing formulas based on professional painting principles.
+ */
+const findHeuristicMixtures = (request: MixingRequest): MixingEngineOutput => {
+  const { target: targetColor, illuminant, deltaE, constraints } = request;
+  console.log('DEBUG: Starting enhanced findPaintMixtures with target color:', targetColor);
+  let candidatesEvaluated = 0;
+  
+  try {
+    console.log('Finding paint mixtures for target color using professional painting principles');
+    
+    // Paints are rendered under the viewing illuminant, from their reflectance curves where available
+    const availablePaints = request.paints.map(paint => renderPaint(paint, illuminant));
+    console.log('Available paints count:', availablePaints.length);
+    
+    // Always create at least one recipe with the first available paint
+    const fallbackRecipe: MixingRecipe = {
+      paints: [
+        { 
+          paint: {
+            id: "error-fallback",
+            brand: "Error Recovery",
+            name: "Error Fallback White",
+            pigmentCodes: ["PW6"],
+            opacity: "O" as const,
+            binder: "Oil",
+            lightfastness: "I",
+            series: "1",
+            tintingStrength: "High" as const,
+            lab: { L: 95, a: 0, b: 2 },
+            swatch: "#FFFFFF"
+          }, 
+          proportion: 1 
+        }
+      ],
+      matchPercentage: 50.0,
+      estimatedHexColor: "#FFFFFF"
+    };
+    
+    if (availablePaints.length === 0) {
+      console.warn('No available paints found, using fallback recipe');
+      return { recipes: [fallbackRecipe], candidatesEvaluated };
+    }
+    
+    // Only consider paints that have LAB values
+    const paintsWithLab = availablePaints.filter(paint => paint.lab);
+    console.log('Paints with LAB values:', paintsWithLab.length);
+    
+    if (paintsWithLab.length === 0) {
+      console.warn('No paints with LAB values found, using fallback recipe');
+      return { recipes: [fallbackRecipe], candidatesEvaluated };
+    }
+    
+    // Store all our recipes
+    const recipes: MixingRecipe[] = [];
+    
+    // Find the closest paints by color difference
+    const sortedPaints = [...paintsWithLab].sort((a, b) => {
+      if (!a.lab || !b.lab) return 0;
+      
+      const distA = colorDifference(targetColor, a.lab, deltaE);
+      
+      const distB = colorDifference(targetColor, b.lab, deltaE);
+      
+      return distA - distB;
+    });
+    
+    // Find the target color temperature
+    const targetTemperature = getColorTemperature(targetColor);
+    console.log(`Target color temperature: ${targetTemperature}, L value: ${targetColor.L}`);
+    
+    // Define isDarkColor outside the loop so it's available throughout the function
+    const isDarkColor = targetColor.L < 40;
+    
+    // Find chromatic blacks by hue cancellation if we need to darken colors,
+    // choosing the one matching the target temperature, falling back to any other
+    const chromaticBlacks = isDarkColor ? findChromaticBlacks(paintsWithLab, illuminant) : null;
+    const blackMix = chromaticBlacks && (chromaticBlacks[targetTemperature]
+      || chromaticBlacks.neutral || chromaticBlacks.warm || chromaticBlacks.cool);
+    
+    // A recipe is a chromatic black when its paints, white aside, are the black's
+    const isChromaticBlack = (recipe: MixingRecipe): boolean => {
+      const colors = recipe.paints.filter(component => !isWhitePaint(component.paint));
+      return !!blackMix && colors.length === blackMix.length
+        && colors.every(component => blackMix.some(black => black.paint.id === component.paint.id));
+    };
+    
+    // 1. Add best single-paint matches as recipes
+    for (let i = 0; i < Math.min(3, sortedPaints.length); i++) {
+      const paint = sortedPaints[i];
+      
+      // Calculate a match percentage
+      const dist = colorDifference(targetColor, paint.lab!, deltaE);
+      candidatesEvaluated++;
+      
+      const matchPercentage = deltaEToMatchPercentage(dist);
+      
+      // Only add if it's a decent match
+      if (matchPercentage > 50) {
+        recipes.push({
+          paints: [{ paint, proportion: 1 }],
+          matchPercentage,
+          estimatedLabColor: paint.lab,
+          estimatedHexColor: paint.swatch
+        });
+      }
+    }
+    
+    // Best recipes so far, for progressive display
+    const reportProgress = (fraction: number) => {
+      request.onProgress?.({
+        fraction,
+        recipes: [...recipes].sort((a, b) => b.matchPercentage - a.matchPercentage).slice(0, constraints.maxRecipes)
+      });
+    };
+    reportProgress(0.1);
+    
+    // 2. Process paints by brand to create binary mixes
+    const paintsByBrand: { [brand: string]: Paint[] } = {};
+    
+    paintsWithLab.forEach(paint => {
+      if (!paintsByBrand[paint.brand]) {
+        paintsByBrand[paint.brand] = [];
+      }
+      paintsByBrand[paint.brand].push(paint);
+    });
+    
+    // For each brand
+    const brandEntries = Object.entries(paintsByBrand);
+    brandEntries.forEach(([brandName, brandPaints], brandIndex) => {
+      if (brandIndex > 0) reportProgress(0.1 + 0.8 * brandIndex / brandEntries.length);
+      if (brandPaints.length < 2) return;
+      
+      // A. If it's a dark color (low L value), try chromatic black recipes instead of black
+      if (blackMix) {
+        console.log(`Using ${targetTemperature} chromatic black:`, blackMix.map(c => c.paint.name).join(' + '));
+        
+        if (brandPaints.some(isWhitePaint)) {
+          // Make a recipe with the chromatic black + white to match the target value
+          const whitePaint = brandPaints.find(isWhitePaint);
+          
+          if (whitePaint) {
+            // Mix the balanced chromatic black with white
+            // We'll use 10-30% white to adjust the value
+            for (let whiteRatio of [0.1, 0.2, 0.3]) {
+              const blackRatio = 1 - whiteRatio;
+              const components = [
+                ...blackMix.map(c => ({ paint: c.paint, proportion: c.proportion * blackRatio })),
+                { paint: whitePaint, proportion: whiteRatio }
+              ];
+              
+              const mixedLab = mixPaints(components, illuminant);
+              
+              // Calculate color distance
+              const dist = colorDifference(targetColor, mixedLab, deltaE);
+              candidatesEvaluated++;
+              
+              const matchPercentage = deltaEToMatchPercentage(dist);
+              
+              // Generate the mixed color preview
+              const mixedRgb = labToRgb(mixedLab, illuminant);
+              const mixedHex = rgbToHex(mixedRgb);
+              
+              // Only add good matches
+              if (matchPercentage > 60) {
+                recipes.push({
+                  paints: components,
+                  matchPercentage,
+                  estimatedLabColor: mixedLab,
+                  estimatedHexColor: mixedHex
+                });
+              }
+            }
+          }
+        }
+      }
+      
+      // B. For normal colors, try harmonious pairs that improve on single paint matches
+      
+      // Get the top 5 closest paints by lightness and hue for this brand
+      const closestByValue = [...brandPaints].sort((a, b) => 
+        Math.abs(a.lab!.L - targetColor.L) - Math.abs(b.lab!.L - targetColor.L)
+      ).slice(0, 5);
+      
+      const closestByHue = [...brandPaints].sort((a, b) => {
+        const aHueDist = Math.sqrt(
+          Math.pow(a.lab!.a - targetColor.a, 2) + 
+          Math.pow(a.lab!.b - targetColor.b, 2)
+        );
+        const bHueDist = Math.sqrt(
+          Math.pow(b.lab!.a - targetColor.a, 2) + 
+          Math.pow(b.lab!.b - targetColor.b, 2)
+        );
+        return aHueDist - bHueDist;
+      }).slice(0, 5);
+      
+      // Create a unique set of candidate paints
+      const candidatePaintsSet = new Set([...closestByValue, ...closestByHue]);
+      const candidatePaints = Array.from(candidatePaintsSet);
+      
+      // Try pairs of paints
+      for (let i = 0; i < candidatePaints.length; i++) {
+        const paint1 = candidatePaints[i];
+        
+        for (let j = i + 1; j < candidatePaints.length; j++) {
+          const paint2 = candidatePaints[j];
+          
+          // Skip if the paints are too similar in hue
+          const hue1 = Math.atan2(paint1.lab!.b, paint1.lab!.a);
+          const hue2 = Math.atan2(paint2.lab!.b, paint2.lab!.a);
+          const hueDiff = Math.abs(hue1 - hue2);
+          
+          if (hueDiff < 0.2) continue; // Skip very similar hues
+          
+          // If one paint is much lighter than the other, it's a good candidate for value mixing
+          const valueDiff = Math.abs(paint1.lab!.L - paint2.lab!.L);
+          
+          // Try different proportions
+          for (let ratio of [0.2, 0.35, 0.5, 0.65, 0.8]) {
+            const inversedRatio = 1 - ratio;
+            
+            // For paints with different values, try to balance based on target value
+            let adjustedRatio = ratio;
+            if (valueDiff > 20) {
+              // If we need to adjust the value, bias the ratio to get closer to target L
+              const lighter = paint1.lab!.L > paint2.lab!.L ? paint1 : paint2;
+              const darker = lighter === paint1 ? paint2 : paint1;
+              
+              // Calculate ideal ratio to reach target lightness
+              if (targetColor.L > darker.lab!.L && targetColor.L < lighter.lab!.L) {
+                const idealRatio = (targetColor.L - darker.lab!.L) / (lighter.lab!.L - darker.lab!.L);
+                
+                // Use the paint that's closer to the ideal ratio
+                if (lighter === paint1) {
+                  adjustedRatio = Math.min(0.9, Math.max(0.1, idealRatio)); 
+                } else {
+                  adjustedRatio = Math.min(0.9, Math.max(0.1, 1 - idealRatio));
+                }
+              }
+            }
+            
+            const inversedAdjustedRatio = 1 - adjustedRatio;
+            
+            // Mix the colors (Kubelka-Munk subtractive model)
+            const mixedLab = mixPaints([
+              { paint: paint1, proportion: adjustedRatio },
+              { paint: paint2, proportion: inversedAdjustedRatio }
+            ], illuminant);
+            
+            // Calculate color distance
+            const dist = colorDifference(targetColor, mixedLab, deltaE);
+            candidatesEvaluated++;
+            
+            const matchPercentage = deltaEToMatchPercentage(dist);
+            
+            // Generate the mixed color preview
+            const mixedRgb = labToRgb(mixedLab, illuminant);
+            const mixedHex = rgbToHex(mixedRgb);
+            
+            // Only add good matches
+            if (matchPercentage > 70) {
+              recipes.push({
+                paints: [
+                  { paint: paint1, proportion: adjustedRatio },
+                  { paint: paint2, proportion: inversedAdjustedRatio }
+                ],
+                matchPercentage,
+                estimatedLabColor: mixedLab,
+                estimatedHexColor: mixedHex
+              });
+            }
+          }
+        }
+      }
+      
+      // C. For high chroma colors, try complements to adjust chroma naturally
+      const topPaint = brandPaints[0];
+      if (topPaint) {
+        const complementaryPaints = findComplementaryPaints(topPaint, brandPaints);
+        
+        if (complementaryPaints.length > 0) {
+          const complement = complementaryPaints[0];
+          
+          // Try varying small amounts of the complement to adjust chroma
+          for (let ratio of [0.85, 0.9, 0.95]) {
+            const complementRatio = 1 - ratio;
+            
+            // Mix the colors with just a touch of the complement
+            const mixedLab = mixPaints([
+              { paint: topPaint, proportion: ratio },
+              { paint: complement, proportion: complementRatio }
+            ], illuminant);
+            
+            // Calculate color distance
+            const dist = colorDifference(targetColor, mixedLab, deltaE);
+            candidatesEvaluated++;
+            
+            const matchPercentage = deltaEToMatchPercentage(dist);
+            
+            // Generate the mixed color preview
+            const mixedRgb = labToRgb(mixedLab, illuminant);
+            const mixedHex = rgbToHex(mixedRgb);
+            
+            // Only add if adjusting with complement improves the match
+            if (matchPercentage > 65) {
+              recipes.push({
+                paints: [
+                  { paint: topPaint, proportion: ratio },
+                  { paint: complement, proportion: complementRatio }
+                ],
+                matchPercentage,
+                estimatedLabColor: mixedLab,
+                estimatedHexColor: mixedHex,
+              });
+            }
+          }
+        }
+      }
+    });
+    
+    // Sort recipes by match percentage (highest first)
+    const finalRecipes = recipes.sort((a, b) => b.matchPercentage - a.matchPercentage);
+    
+    // Remove duplicates and take top results
+    const uniqueRecipes = [];
+    const seenPaintCombos = new Set();
+    
+    for (const recipe of finalRecipes) {
+      // Create a key based on the paint IDs and proportions (rounded)
+      const paintIds = recipe.paints.map(p => p.paint.id + "-" + Math.round(p.proportion * 10)).sort().join("|");
+      
+      if (!seenPaintCombos.has(paintIds)) {
+        seenPaintCombos.add(paintIds);
+        uniqueRecipes.push(recipe);
+        
+        // Stop once we have enough unique recipes
+        if (uniqueRecipes.length >= constraints.maxRecipes) break;
+      }
+    }
+    
+    console.log('Generated recipes count:', uniqueRecipes.length);
+    if (uniqueRecipes.length > 0) {
+      console.log('First recipe:', {
+        paints: uniqueRecipes[0].paints.map(p => p.paint.name + " (" + (p.proportion * 100).toFixed(0) + "%)"),
+        match: uniqueRecipes[0].matchPercentage.toFixed(1) + '%'
+      });
+    }
+    
+    // Always ensure we have at least one recipe
+    if (uniqueRecipes.length === 0 && sortedPaints.length > 0) {
+      const bestPaint = sortedPaints[0];
+      uniqueRecipes.push({
+        paints: [{ paint: bestPaint, proportion: 1 }],
+        matchPercentage: deltaEToMatchPercentage(colorDifference(targetColor, bestPaint.lab!, deltaE)),
+        estimatedLabColor: bestPaint.lab,
+        estimatedHexColor: bestPaint.swatch
+      });
+    } else if (uniqueRecipes.length === 0) {
+      uniqueRecipes.push(fallbackRecipe);
+    }
+    
+    // Ensure we have both direct match and chromatic black recipes when appropriate
+    // Check if the target color is dark enough to warrant a chromatic black recipe
+    
+    // Find if we already have a direct match recipe
+    const hasDirectMatch = uniqueRecipes.some(r => 
+      r.paints.length === 1 || 
+      r.description?.includes('Direct match') || 
+      !isChromaticBlack(r)
+    );
+    
+    // Find if we already have a chromatic black recipe
+    const hasChromatic = uniqueRecipes.some(isChromaticBlack);
+    
+    // If we're missing one and the color is dark, try to generate the missing type
+    if (isDarkColor && !hasDirectMatch && sortedPaints.length > 0) {
+      // Add a direct match recipe
+      const bestPaint = sortedPaints[0];
+      uniqueRecipes.push({
+        paints: [{ paint: bestPaint, proportion: 1 }],
+        matchPercentage: deltaEToMatchPercentage(colorDifference(targetColor, bestPaint.lab!, deltaE)),
+        estimatedLabColor: bestPaint.lab,
+        estimatedHexColor: bestPaint.swatch,
+        description: 'Direct match with a single paint'
+      });
+    }
+    
+    if (isDarkColor && !hasChromatic && blackMix) {
+      // Add the balanced chromatic black on its own
+      const mixedLab = mixPaints(blackMix, illuminant);
+      
+      // Calculate match percentage
+      const dist = colorDifference(targetColor, mixedLab, deltaE);
+      candidatesEvaluated++;
+      
+      uniqueRecipes.push({
+        paints: blackMix,
+        matchPercentage: deltaEToMatchPercentage(dist),
+        estimatedLabColor: mixedLab,
+        estimatedHexColor: rgbToHex(labToRgb(mixedLab, illuminant)),
+        description: 'Chromatic black mixture (richer, more natural darks)'
+      });
+    }
+    
+    // Add recipe descriptions based on the mixing technique
+    const recipesWithDescriptions = uniqueRecipes.map(recipe => {
+      // Skip if recipe already has a description
+      if (recipe.description) return recipe;
+      
+      let description = '';
+      const paintNames = recipe.paints.map(p => p.paint.name);
+      
+      if (recipe.paints.length === 1) {
+        description = 'Direct match with a single paint';
+      } else if (recipe.paints.length === 2) {
+        if (isChromaticBlack(recipe)) {
+          description = 'Chromatic black mixture (richer, more natural darks)';
+        } else if (recipe.paints.some(component => isWhitePaint(component.paint))) {
+          description = 'Tint mixture (adding white to adjust value)';
+        } else if (paintNames.some(name => name.toLowerCase().includes('yellow'))) {
+          description = 'Warm tint mixture (adding yellow to brighten)';
+        } else if (findComplementaryPaints(recipe.paints[0].paint, [recipe.paints[1].paint]).length > 0) {
+          description = 'Chroma reduction using complementary colors';
+        } else {
+          description = 'Traditional binary mixture for hue adjustment';
+        }
+      } else if (recipe.paints.length === 3) {
+        if (isChromaticBlack(recipe)) {
+          description = 'Chromatic black mixture with value adjustment';
+        } else {
+          description = 'Complex mixture for precise color matching';
+        }
+      }
+      
+      return {
+        ...recipe,
+        description
+      };
+    });
+    
+    // Sort recipes by match percentage
+    const sortedRecipes = [...recipesWithDescriptions].sort((a, b) => b.matchPercentage - a.matchPercentage);
+    
+    // Limit to the top recipes
+    const finalSortedRecipes = sortedRecipes.slice(0, constraints.maxRecipes);
+    
+    return { recipes: finalSortedRecipes, candidatesEvaluated };
+    
+  } catch (error) {
+    console.error('Error finding paint mixtures:', error);
+    const fallbackRecipe: MixingRecipe = {
+      paints: [
+        { 
+          paint: {
+            id: "error-fallback",
+            brand: "Error Recovery",
+            name: "Error Fallback White",
+            pigmentCodes: ["PW6"],
+            opacity: "O" as const,
+            binder: "Oil",
+            lightfastness: "I",
+            series: "1",
+            tintingStrength: "High" as const,
+            lab: { L: 95, a: 0, b: 2 },
+            swatch: "#FFFFFF"
+          }, 
+          proportion: 1 
+        }
+      ],
+      matchPercentage: 50.0,
+      estimatedHexColor: "#FFFFFF"
+    };
+    return { recipes: [fallbackRecipe], candidatesEvaluated };
+  }
+};
+
+export const heuristicEngine: MixingEngine = {
+  id: 'heuristic',
+  name: 'Painter\'s heuristic',
+  description: 'Tries single paints, same-brand pairs, complement adjustments and chromatic blacks the way a painter would, keeping a variety of approaches.',
+  findMixtures: findHeuristicMixtures
+};
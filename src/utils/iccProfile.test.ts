@@ -0,0 +1,202 @@
+import {
+  applyToneCurve,
+  extractIccProfileData,
+  IccProfile,
+  parseIccProfile,
+  profileRgbToXyz,
+  sourceRgbToLab
+} from './iccProfile';
+import { rgbToLab } from './colorConversion';
+
+// Display P3 colorants (D50-adapted), as stored in Apple's profile
+const P3_COLORANTS: Record<string, [number, number, number]> = {
+  rXYZ: [0.515121, 0.241196, -0.001053],
+  gXYZ: [0.291977, 0.692245, 0.041885],
+  bXYZ: [0.157104, 0.066574, 0.784073]
+};
+
+// sRGB transfer function as a type 3 parametric curve
+const SRGB_PARAMS = [2.4, 1 / 1.055, 0.055 / 1.055, 1 / 12.92, 0.04045];
+
+const s15Fixed16 = (value: number): number[] => {
+  const bytes = new Uint8Array(4);
+  new DataView(bytes.buffer).setInt32(0, Math.round(value * 65536));
+  return Array.from(bytes);
+};
+
+const uint = (value: number, size: 2 | 4): number[] => {
+  const bytes = new Uint8Array(size);
+  const view = new DataView(bytes.buffer);
+  if (size === 2) view.setUint16(0, value);
+  else view.setUint32(0, value);
+  return Array.from(bytes);
+};
+
+const text = (value: string): number[] => Array.from(value, character => character.charCodeAt(0));
+
+const xyzTag = (xyz: number[]): number[] => [...text('XYZ '), 0, 0, 0, 0, ...xyz.flatMap(s15Fixed16)];
+const gammaTag = (gamma: number): number[] => [...text('curv'), 0, 0, 0, 0, ...uint(1, 4), ...uint(gamma * 256, 2), 0, 0];
+const tableTag = (table: number[]): number[] => [
+  ...text('curv'), 0, 0, 0, 0, ...uint(table.length, 4),
+  ...table.flatMap(value => uint(Math.round(value * 65535), 2)),
+  ...(table.length % 2 ? [0, 0] : [])
+];
+const parametricTag = (functionType: number, params: number[]): number[] => [
+  ...text('para'), 0, 0, 0, 0, ...uint(functionType, 2), 0, 0, ...params.flatMap(s15Fixed16)
+];
+const descTag = (description: string): number[] => {
+  const ascii = [...text(description), 0];
+  const padding = (4 - ((12 + ascii.length) % 4)) % 4;
+  return [...text('desc'), 0, 0, 0, 0, ...uint(ascii.length, 4), ...ascii, ...new Array(padding).fill(0)];
+};
+
+// Assembles a minimal ICC profile: header, tag table, then the tag data
+const buildProfile = (tags: Record<string, number[]>, colorSpace = 'RGB '): Uint8Array => {
+  const entries = Object.entries(tags);
+  let offset = 132 + entries.length * 12;
+  const table: number[] = [];
+  const data: number[] = [];
+  entries.forEach(([signature, tag]) => {
+    table.push(...text(signature), ...uint(offset, 4), ...uint(tag.length, 4));
+    data.push(...tag);
+    offset += tag.length;
+  });
+
+  const header = new Array(128).fill(0);
+  header.splice(0, 4, ...uint(offset, 4));
+  header.splice(16, 4, ...text(colorSpace));
+  header.splice(36, 4, ...text('acsp'));
+
+  return new Uint8Array([...header, ...uint(entries.length, 4), ...table, ...data]);
+};
+
+const p3Tags = (): Record<string, number[]> => ({
+  desc: descTag('Display P3'),
+  rXYZ: xyzTag(P3_COLORANTS.rXYZ),
+  gXYZ: xyzTag(P3_COLORANTS.gXYZ),
+  bXYZ: xyzTag(P3_COLORANTS.bXYZ),
+  rTRC: parametricTag(3, SRGB_PARAMS),
+  gTRC: parametricTag(3, SRGB_PARAMS),
+  bTRC: parametricTag(3, SRGB_PARAMS)
+});
+
+describe('parseIccProfile', () => {
+  it('reads the colorant matrix and tone curves of a matrix/TRC profile', () => {
+    const profile = parseIccProfile(buildProfile(p3Tags()))!;
+
+    expect(profile.description).toBe('Display P3');
+    expect(profile.colorSpace).toBe('RGB ');
+    const { matrix, curves } = profile.matrixTrc!;
+    ['rXYZ', 'gXYZ', 'bXYZ'].forEach((tag, column) => {
+      P3_COLORANTS[tag].forEach((value, row) => expect(matrix[row][column]).toBeCloseTo(value, 4));
+    });
+    curves.forEach(curve => {
+      expect(curve).toMatchObject({ type: 'parametric', functionType: 3 });
+      (curve as { params: number[] }).params.forEach((value, i) => expect(value).toBeCloseTo(SRGB_PARAMS[i], 4));
+    });
+  });
+
+  it('decodes gamma and table curves', () => {
+    const profile = parseIccProfile(buildProfile({
+      ...p3Tags(),
+      rTRC: gammaTag(2.2),
+      gTRC: tableTag([0, 0.25, 1]),
+      bTRC: tableTag([])
+    }))!;
+
+    const [red, green, blue] = profile.matrixTrc!.curves;
+    // Gammas are stored as u8Fixed8, so 2.2 reads back as 563/256
+    expect(red).toEqual({ type: 'gamma', gamma: 563 / 256 });
+    expect(green).toEqual({ type: 'table', table: [0, 16384 / 65535, 1] });
+    expect(blue).toEqual({ type: 'gamma', gamma: 1 });
+  });
+
+  it('keeps the description but no matrix for profiles it cannot apply', () => {
+    const withoutRedCurve = p3Tags();
+    delete withoutRedCurve.rTRC;
+    expect(parseIccProfile(buildProfile(withoutRedCurve))!.matrixTrc).toBeNull();
+
+    const cmyk = parseIccProfile(buildProfile({ desc: descTag('Press') }, 'CMYK'))!;
+    expect(cmyk.description).toBe('Press');
+    expect(cmyk.matrixTrc).toBeNull();
+  });
+
+  it('rejects data that is not an ICC profile', () => {
+    expect(parseIccProfile(new Uint8Array(200))).toBeNull();
+  });
+});
+
+describe('applyToneCurve', () => {
+  it('applies a plain gamma', () => {
+    expect(applyToneCurve({ type: 'gamma', gamma: 2 }, 0.5)).toBeCloseTo(0.25, 9);
+  });
+
+  it('interpolates a sampled table', () => {
+    const curve = { type: 'table' as const, table: [0, 0.2, 1] };
+    expect(applyToneCurve(curve, 0.25)).toBeCloseTo(0.1, 9);
+    expect(applyToneCurve(curve, 0.75)).toBeCloseTo(0.6, 9);
+    expect(applyToneCurve(curve, 1)).toBe(1);
+  });
+
+  it('matches the sRGB transfer function with its parametric form', () => {
+    const curve = { type: 'parametric' as const, functionType: 3, params: SRGB_PARAMS };
+    expect(applyToneCurve(curve, 0.02)).toBeCloseTo(0.02 / 12.92, 9);
+    expect(applyToneCurve(curve, 0.5)).toBeCloseTo(Math.pow((0.5 + 0.055) / 1.055, 2.4), 9);
+  });
+
+  it('clamps encoded values to 0-1', () => {
+    expect(applyToneCurve({ type: 'gamma', gamma: 2.2 }, 1.5)).toBe(1);
+    expect(applyToneCurve({ type: 'gamma', gamma: 2.2 }, -0.5)).toBe(0);
+  });
+});
+
+describe('profileRgbToXyz', () => {
+  const profile = parseIccProfile(buildProfile(p3Tags()))!;
+
+  it('maps white to the D50 connection space white', () => {
+    const [X, Y, Z] = profileRgbToXyz({ r: 255, g: 255, b: 255 }, profile)!;
+    expect(X).toBeCloseTo(0.9642, 3);
+    expect(Y).toBeCloseTo(1, 3);
+    expect(Z).toBeCloseTo(0.8249, 3);
+  });
+
+  it('maps each primary to its colorant', () => {
+    profileRgbToXyz({ r: 0, g: 255, b: 0 }, profile)!.forEach((value, row) => {
+      expect(value).toBeCloseTo(P3_COLORANTS.gXYZ[row], 4);
+    });
+  });
+
+  it('returns null without a matrix', () => {
+    const unsupported: IccProfile = { ...profile, matrixTrc: null };
+    expect(profileRgbToXyz({ r: 10, g: 20, b: 30 }, unsupported)).toBeNull();
+  });
+});
+
+describe('sourceRgbToLab', () => {
+  it('treats untagged pixels as sRGB', () => {
+    const rgb = { r: 200, g: 40, b: 90 };
+    expect(sourceRgbToLab(rgb, null)).toEqual(rgbToLab(rgb));
+  });
+});
+
+describe('extractIccProfileData', () => {
+  it('joins a profile split across JPEG APP2 segments in sequence order', async () => {
+    const profile = buildProfile(p3Tags());
+    const half = Math.floor(profile.length / 2);
+    const segment = (sequence: number, data: Uint8Array): number[] => [
+      0xff, 0xe2, ...uint(data.length + 16, 2), ...text('ICC_PROFILE'), 0, sequence, 2, ...Array.from(data)
+    ];
+    const jpeg = new Uint8Array([
+      0xff, 0xd8,
+      ...segment(2, profile.subarray(half)),
+      ...segment(1, profile.subarray(0, half)),
+      0xff, 0xda, 0, 2
+    ]);
+
+    expect(await extractIccProfileData(jpeg.buffer)).toEqual(profile);
+  });
+
+  it('returns null for files without a profile', async () => {
+    expect(await extractIccProfileData(new Uint8Array([0xff, 0xd8, 0xff, 0xd9]).buffer)).toBeNull();
+  });
+});
@@ -0,0 +1,381 @@
+import { RGBColor, LABColor } from '../context/ColorContext';
+import { IlluminantId } from '../data/illuminants';
+import { bradfordAdapt } from './chromaticAdaptation';
+import { getIlluminantWhite, labToRgb, rgbToLab, xyzToLab } from './colorConversion';
+
+type XYZ = [number, number, number];
+
+export type ToneCurve =
+  | { type: 'gamma'; gamma: number }
+  | { type: 'table'; table: number[] }
+  | { type: 'parametric'; functionType: number; params: number[] };
+
+export interface IccProfile {
+  description: string;
+  colorSpace: string; // Data color space signature, e.g. 'RGB ' or 'CMYK'
+  // RGB colorant matrix (rows X, Y, Z; columns red, green, blue) and per-channel
+  // tone curves. Null for LUT-based or non-RGB profiles, which are not supported.
+  matrixTrc: { matrix: number[][]; curves: [ToneCurve, ToneCurve, ToneCurve] } | null;
+}
+
+export interface ImageColorSource {
+  profile: IccProfile | null; // Null when the image carries no embedded profile
+  pixels: ImageBitmap | null; // Decoded without color management, in the profile's own space
+}
+
+// ICC profile connection space white (D50)
+const PCS_WHITE = { X: 0.9642, Y: 1.0, Z: 0.8249 };
+
+// Parameter counts for the ICC parametricCurveType function types 0-4
+const PARAMETRIC_PARAM_COUNTS = [1, 3, 4, 5, 7];
+
+const ascii = (bytes: Uint8Array, start: number, length: number): string => {
+  let text = '';
+  for (let i = start; i < start + length && i < bytes.length; i++) {
+    text += String.fromCharCode(bytes[i]);
+  }
+  return text;
+};
+
+const concatBytes = (chunks: Uint8Array[]): Uint8Array => {
+  const result = new Uint8Array(chunks.reduce((sum, chunk) => sum + chunk.length, 0));
+  let offset = 0;
+  chunks.forEach(chunk => {
+    result.set(chunk, offset);
+    offset += chunk.length;
+  });
+  return result;
+};
+
+/**
+ * Inflates zlib-compressed data with the browser's DecompressionStream
+ */
+const inflate = async (data: Uint8Array): Promise<Uint8Array | null> => {
+  if (typeof DecompressionStream === 'undefined') return null;
+
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+/**
+ * Collects the ICC profile from a JPEG's APP2 segments, which may split it
+ * across several numbered chunks
+ */
+const extractFromJpeg = (bytes: Uint8Array): Uint8Array | null => {
+  const chunks: { sequence: number; data: Uint8Array }[] = [];
+  let position = 2;
+
+  while (position + 4 <= bytes.length) {
+    if (bytes[position] !== 0xff) break;
+    const marker = bytes[position + 1];
+
+    // Padding bytes and markers without a length field
+    if (marker === 0xff) {
+      position++;
+      continue;
+    }
+    if (marker === 0x01 || (marker >= 0xd0 && marker <= 0xd7)) {
+      position += 2;
+      continue;
+    }
+    // Image data starts at SOS; no profile segments follow
+    if (marker === 0xda || marker === 0xd9) break;
+
+    const length = (bytes[position + 2] << 8) | bytes[position + 3];
+    const segment = bytes.subarray(position + 4, position + 2 + length);
+
+    if (marker === 0xe2 && ascii(segment, 0, 12) === 'ICC_PROFILE\0') {
+      chunks.push({ sequence: segment[12], data: segment.subarray(14) });
+    }
+
+    position += 2 + length;
+  }
+
+  if (chunks.length === 0) return null;
+  return concatBytes(chunks.sort((a, b) => a.sequence - b.sequence).map(chunk => chunk.data));
+};
+
+/**
+ * Reads the compressed ICC profile from a PNG's iCCP chunk
+ */
+const extractFromPng = async (bytes: Uint8Array): Promise<Uint8Array | null> => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let position = 8;
+
+  while (position + 8 <= bytes.length) {
+    const length = view.getUint32(position);
+    const type = ascii(bytes, position + 4, 4);
+    const data = bytes.subarray(position + 8, position + 8 + length);
+
+    if (type === 'iCCP') {
+      // Profile name (null terminated), compression method, then zlib data
+      const nameEnd = data.indexOf(0);
+      if (nameEnd < 0 || data[nameEnd + 1] !== 0) return null;
+      return inflate(data.subarray(nameEnd + 2));
+    }
+    if (type === 'IDAT' || type === 'IEND') break;
+
+    position += 12 + length;
+  }
+
+  return null;
+};
+
+/**
+ * Extracts the raw embedded ICC profile from JPEG (APP2) or PNG (iCCP) file data
+ */
+export const extractIccProfileData = async (buffer: ArrayBuffer): Promise<Uint8Array | null> => {
+  const bytes = new Uint8Array(buffer);
+
+  try {
+    if (bytes[0] === 0xff && bytes[1] === 0xd8) {
+      return extractFromJpeg(bytes);
+    }
+    if (bytes[0] === 0x89 && ascii(bytes, 1, 3) === 'PNG') {
+      return await extractFromPng(bytes);
+    }
+  } catch (error) {
+    console.error('Error extracting ICC profile:', error);
+  }
+
+  return null;
+};
+
+const readDescription = (bytes: Uint8Array, view: DataView, offset: number): string => {
+  const type = ascii(bytes, offset, 4);
+
+  if (type === 'desc') {
+    const length = view.getUint32(offset + 8);
+    return ascii(bytes, offset + 12, length).replace(/\0+$/, '');
+  }
+
+  if (type === 'mluc') {
+    // First localized record: length and offset of a UTF-16BE string
+    const recordCount = view.getUint32(offset + 8);
+    if (recordCount === 0) return '';
+    const length = view.getUint32(offset + 20);
+    const start = offset + view.getUint32(offset + 24);
+    let text = '';
+    for (let i = 0; i + 1 < length; i += 2) {
+      text += String.fromCharCode(view.getUint16(start + i));
+    }
+    return text.replace(/\0+$/, '');
+  }
+
+  return '';
+};
+
+const readXyz = (bytes: Uint8Array, view: DataView, offset: number): XYZ | null => {
+  if (ascii(bytes, offset, 4) !== 'XYZ ') return null;
+  return [
+    view.getInt32(offset + 8) / 65536,
+    view.getInt32(offset + 12) / 65536,
+    view.getInt32(offset + 16) / 65536
+  ];
+};
+
+const readCurve = (bytes: Uint8Array, view: DataView, offset: number): ToneCurve | null => {
+  const type = ascii(bytes, offset, 4);
+
+  if (type === 'curv') {
+    const count = view.getUint32(offset + 8);
+    if (count === 0) return { type: 'gamma', gamma: 1 };
+    if (count === 1) return { type: 'gamma', gamma: view.getUint16(offset + 12) / 256 };
+
+    const table: number[] = [];
+    for (let i = 0; i < count; i++) {
+      table.push(view.getUint16(offset + 12 + i * 2) / 65535);
+    }
+    return { type: 'table', table };
+  }
+
+  if (type === 'para') {
+    const functionType = view.getUint16(offset + 8);
+    if (functionType >= PARAMETRIC_PARAM_COUNTS.length) return null;
+
+    const params: number[] = [];
+    for (let i = 0; i < PARAMETRIC_PARAM_COUNTS[functionType]; i++) {
+      params.push(view.getInt32(offset + 12 + i * 4) / 65536);
+    }
+    return { type: 'parametric', functionType, params };
+  }
+
+  return null;
+};
+
+/**
+ * Parses an ICC profile, extracting the colorant matrix and tone curves of
+ * matrix/TRC RGB profiles (sRGB, Display P3, Adobe RGB, ProPhoto and similar)
+ */
+export const parseIccProfile = (data: Uint8Array): IccProfile | null => {
+  if (data.length < 132 || ascii(data, 36, 4) !== 'acsp') return null;
+
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const colorSpace = ascii(data, 16, 4);
+  const tags: Record<string, number> = {};
+
+  try {
+    const tagCount = view.getUint32(128);
+    for (let i = 0; i < tagCount; i++) {
+      const entry = 132 + i * 12;
+      tags[ascii(data, entry, 4)] = view.getUint32(entry + 4);
+    }
+
+    const description = tags.desc !== undefined ? readDescription(data, view, tags.desc) : '';
+    const profile: IccProfile = {
+      description: description || `Unnamed ${colorSpace.trim()} profile`,
+      colorSpace,
+      matrixTrc: null
+    };
+
+    if (colorSpace !== 'RGB ') return profile;
+
+    const colorants = ['rXYZ', 'gXYZ', 'bXYZ'].map(tag =>
+      tags[tag] !== undefined ? readXyz(data, view, tags[tag]) : null
+    );
+    const curves = ['rTRC', 'gTRC', 'bTRC'].map(tag =>
+      tags[tag] !== undefined ? readCurve(data, view, tags[tag]) : null
+    );
+
+    if (colorants.every(Boolean) && curves.every(Boolean)) {
+      const [red, green, blue] = colorants as XYZ[];
+      profile.matrixTrc = {
+        matrix: [0, 1, 2].map(row => [red[row], green[row], blue[row]]),
+        curves: curves as [ToneCurve, ToneCurve, ToneCurve]
+      };
+    }
+
+    return profile;
+  } catch (error) {
+    console.error('Error parsing ICC profile:', error);
+    return null;
+  }
+};
+
+/**
+ * Applies an ICC tone curve, decoding an encoded channel (0-1) to linear light
+ */
+export const applyToneCurve = (curve: ToneCurve, value: number): number => {
+  const x = Math.max(0, Math.min(1, value));
+
+  if (curve.type === 'gamma') {
+    return Math.pow(x, curve.gamma);
+  }
+
+  if (curve.type === 'table') {
+    const position = x * (curve.table.length - 1);
+    const index = Math.min(Math.floor(position), curve.table.length - 2);
+    const fraction = position - index;
+    return curve.table[index] * (1 - fraction) + curve.table[index + 1] * fraction;
+  }
+
+  const [g, a = 1, b = 0, c = 0, d = 0, e = 0, f = 0] = curve.params;
+  switch (curve.functionType) {
+    case 0: return Math.pow(x, g);
+    case 1: return x >= -b / a ? Math.pow(a * x + b, g) : 0;
+    case 2: return x >= -b / a ? Math.pow(a * x + b, g) + c : c;
+    case 3: return x >= d ? Math.pow(a * x + b, g) : c * x;
+    case 4: return x >= d ? Math.pow(a * x + b, g) + e : c * x + f;
+    default: return x;
+  }
+};
+
+/**
+ * Converts an RGB pixel encoded in a matrix/TRC profile to XYZ in the
+ * profile connection space (D50)
+ */
+export const profileRgbToXyz = (rgbColor: RGBColor, profile: IccProfile): XYZ | null => {
+  if (!profile.matrixTrc) return null;
+
+  const { matrix, curves } = profile.matrixTrc;
+  const linear = [rgbColor.r, rgbColor.g, rgbColor.b].map((channel, i) => applyToneCurve(curves[i], channel / 255));
+
+  return [
+    matrix[0][0] * linear[0] + matrix[0][1] * linear[1] + matrix[0][2] * linear[2],
+    matrix[1][0] * linear[0] + matrix[1][1] * linear[1] + matrix[1][2] * linear[2],
+    matrix[2][0] * linear[0] + matrix[2][1] * linear[1] + matrix[2][2] * linear[2]
+  ];
+};
+
+/**
+ * Checks whether an image's pixels were decoded in its own profiled color
+ * space. Otherwise the browser has already converted them to sRGB.
+ */
+export const hasProfiledPixels = (source: ImageColorSource | null): boolean => {
+  return !!source?.profile?.matrixTrc && !!source.pixels;
+};
+
+/**
+ * Converts a pixel from an image's own color space to LAB under the viewing
+ * illuminant. Untagged images and unsupported profiles are treated as sRGB.
+ */
+export const sourceRgbToLab = (
+  rgbColor: RGBColor,
+  source: ImageColorSource | null,
+  illuminant: IlluminantId = 'D65'
+): LABColor => {
+  const xyz = hasProfiledPixels(source) ? profileRgbToXyz(rgbColor, source!.profile!) : null;
+  if (!xyz) return rgbToLab(rgbColor, illuminant);
+
+  const white = getIlluminantWhite(illuminant);
+  return xyzToLab(bradfordAdapt(xyz, PCS_WHITE, white), white);
+};
+
+/**
+ * Converts a pixel from an image's own color space to sRGB for display,
+ * clipping colors outside the sRGB gamut
+ */
+export const sourceRgbToSrgb = (rgbColor: RGBColor, source: ImageColorSource | null): RGBColor => {
+  if (!hasProfiledPixels(source)) return rgbColor;
+  return labToRgb(sourceRgbToLab(rgbColor, source));
+};
+
+/**
+ * Draws an image's unmanaged pixels at the given size and returns them, or
+ * null when the image is plain sRGB and the displayed pixels can be used
+ */
+export const getSourcePixels = (
+  source: ImageColorSource | null,
+  width: number,
+  height: number
+): Uint8ClampedArray | null => {
+  if (!hasProfiledPixels(source)) return null;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) return null;
+
+  ctx.drawImage(source!.pixels!, 0, 0, width, height);
+  return ctx.getImageData(0, 0, width, height).data;
+};
+
+/**
+ * Reads the embedded ICC profile of an uploaded image and, for supported
+ * profiles, decodes its pixels without converting them to sRGB
+ */
+export const readImageColorSource = async (file: Blob): Promise<ImageColorSource> => {
+  const profileData = await extractIccProfileData(await file.arrayBuffer());
+  const profile = profileData ? parseIccProfile(profileData) : null;
+  let pixels: ImageBitmap | null = null;
+
+  if (profile?.matrixTrc && typeof createImageBitmap !== 'undefined') {
+    try {
+      pixels = await createImageBitmap(file, { colorSpaceConversion: 'none' });
+    } catch (error) {
+      console.error('Error decoding unmanaged image pixels:', error);
+    }
+  }
+
+  return { profile, pixels };
+};
+
+/**
+ * Describes the color profile an image was read with
+ */
+export const describeColorSource = (source: ImageColorSource | null): string => {
+  if (!source?.profile) return 'sRGB (no embedded profile)';
+  if (!hasProfiledPixels(source)) return `${source.profile.description} (unsupported, treated as sRGB)`;
+  return source.profile.description;
+};
@@ -1,10 +1,13 @@
 import { rgbToLab, labToRgb, rgbToHex } from './colorConversion';
 import { LABColor } from '../context/ColorContext';
 import ColorThief from 'colorthief';
-import { deltaE, rgb2lab } from './colorUtils';
+import { deltaE } from './colorUtils';
 import { getAllPaints } from '../data/paintDatabase';
-import { rgb, lab } from 'culori';
 import { Paint } from '../context/PaintContext';
+import { renderPaint } from './spectral';
+import { IlluminantId } from '../data/illuminants';
+import { DEFAULT_DELTA_E_OPTIONS, DeltaEOptions } from './colorDifference';
+import { hasProfiledPixels, ImageColorSource, sourceRgbToLab, sourceRgbToSrgb } from './iccProfile';
 
 interface RGB {
   r: number;
@@ -511,9 +514,23 @@ function getMixingStrategy(
 }
 
 /**
- * Analyzes an image and returns color analysis data
+ * Analyzes an image and returns color analysis data.
+ * Palette LAB values and paint matches are rendered under the given viewing
+ * illuminant, and paints are matched with the given color-difference metric.
+ * Images with a supported embedded profile are read in their own color space.
  */
-export const analyzeImage = async (imageElement: HTMLImageElement): Promise<ImageAnalysis> => {
+export const analyzeImage = async (
+  imageElement: HTMLImageElement,
+  options: {
+    illuminant?: IlluminantId;
+    deltaE?: DeltaEOptions;
+    colorSource?: ImageColorSource | null;
+    paints?: Paint[]; // Paints to recommend from; the whole database by default
+  } = {}
+): Promise<ImageAnalysis> => {
+  const { illuminant = 'D65', deltaE: deltaEOptions = DEFAULT_DELTA_E_OPTIONS, colorSource = null } = options;
+  const paints = options.paints && options.paints.length > 0 ? options.paints : getAllPaints();
+  
   // Create a canvas to analyze the image
   const canvas = document.createElement('canvas');
   const ctx = canvas.getContext('2d', { willReadFrequently: true });
@@ -525,8 +542,13 @@ export const analyzeImage = async (imageElement: HTMLImageElement): Promise<Imag
   canvas.width = imageElement.width;
   canvas.height = imageElement.height;
   
-  // Draw the image on the canvas
-  ctx.drawImage(imageElement, 0, 0);
+  // Draw the image on the canvas, using the unmanaged pixels of profiled images
+  const sourcePixels = hasProfiledPixels(colorSource) ? colorSource!.pixels : null;
+  if (sourcePixels) {
+    ctx.drawImage(sourcePixels, 0, 0, canvas.width, canvas.height);
+  } else {
+    ctx.drawImage(imageElement, 0, 0);
+  }
   
   // Use ColorThief to extract the color palette
   const colorThief = new ColorThief();
@@ -534,7 +556,9 @@ export const analyzeImage = async (imageElement: HTMLImageElement): Promise<Imag
 
   try {
     // Use crossOrigin image data to avoid security errors
-    if (imageElement.complete) {
+    if (sourcePixels) {
+      palette = colorThief.getPalette(canvas, 10);
+    } else if (imageElement.complete) {
       palette = colorThief.getPalette(imageElement, 10);
     } else {
       // If image is not complete, create a canvas and draw the image
@@ -565,9 +589,13 @@ export const analyzeImage = async (imageElement: HTMLImageElement): Promise<Imag
   }
   
   // Convert palette to more useful format with HSV values
-  const colors = palette.map(([r, g, b]) => {
+  const colors = palette.map(([sourceR, sourceG, sourceB]) => {
+    // Palette entries are in the image's own color space; display values are sRGB
+    const sourceRgb = { r: sourceR, g: sourceG, b: sourceB };
+    const { r, g, b } = sourceRgbToSrgb(sourceRgb, colorSource);
     const hsvObj = rgbToHsv(r, g, b);
-    const lab = rgb2lab([r, g, b]);
+    const labColor = sourceRgbToLab(sourceRgb, colorSource, illuminant);
+    const lab: [number, number, number] = [labColor.L, labColor.a, labColor.b];
     return {
       rgb: [r, g, b] as [number, number, number],
       hex: rgbToHex({ r, g, b }),
@@ -593,7 +621,7 @@ export const analyzeImage = async (imageElement: HTMLImageElement): Promise<Imag
     remainingPercentage -= percentage;
     
     // Find closest paint
-    const closestPaint: Paint | null = findClosestPaint(color.hex);
+    const closestPaint: Paint | null = findClosestPaint(color.lab, paints, illuminant, deltaEOptions);
     
     return {
       color: color.hex,
@@ -737,7 +765,7 @@ export const analyzeImage = async (imageElement: HTMLImageElement): Promise<Imag
   
   // Find primary brand and paints
   const primaryBrand = findPrimaryBrand(dominantColors);
-  const paintRecommendations = getPaintRecommendations(dominantColors, primaryBrand);
+  const paintRecommendations = getPaintRecommendations(dominantColors, primaryBrand, paints, illuminant);
   
   // Suggest painting approach
   const recommendedApproach = getRecommendedApproach(
@@ -771,24 +799,13 @@ export const analyzeImage = async (imageElement: HTMLImageElement): Promise<Imag
 }
 
 // Helper function to find the closest paint to a given color
-function findClosestPaint(targetColor: string): Paint | null {
-  const allPaints = getAllPaints();
-  const hexColor = targetColor.toLowerCase();
-  
-  // Extract RGB values from the target color
-  const rgbColor = hexToRgb(hexColor);
-  if (!rgbColor) return null;
-  
-  // Convert RGB to LAB using culori
-  const culoriRgb = { r: rgbColor.r / 255, g: rgbColor.g / 255, b: rgbColor.b / 255 };
-  const labValues = lab(culoriRgb);
-  if (!labValues) return null;
-  
-  const targetLab = [
-    labValues.l || 0,
-    labValues.a || 0,
-    labValues.b || 0
-  ] as [number, number, number];
+function findClosestPaint(
+  targetLab: [number, number, number],
+  paints: Paint[],
+  illuminant: IlluminantId = 'D65',
+  deltaEOptions: DeltaEOptions = DEFAULT_DELTA_E_OPTIONS
+): Paint | null {
+  const allPaints = paints.map(paint => renderPaint(paint, illuminant));
   
   let closestPaint: Paint | null = null;
   let smallestDelta = Number.MAX_VALUE;
@@ -797,12 +814,7 @@ function findClosestPaint(targetColor: string): Paint | null {
     if (!paint.lab) return;
     
     const paintLab = [paint.lab.L, paint.lab.a, paint.lab.b] as [number, number, number];
-    // Calculate simple Euclidean distance in LAB space as a color difference
-    const delta = Math.sqrt(
-      Math.pow(targetLab[0] - paintLab[0], 2) +
-      Math.pow(targetLab[1] - paintLab[1], 2) +
-      Math.pow(targetLab[2] - paintLab[2], 2)
-    );
+    const delta = deltaE(targetLab, paintLab, deltaEOptions);
     
     if (delta < smallestDelta) {
       smallestDelta = delta;
@@ -860,9 +872,11 @@ function getPaintRecommendations(
       hex: string;
     };
   }>, 
-  primaryBrand: string
+  primaryBrand: string,
+  paints: Paint[],
+  illuminant: IlluminantId = 'D65'
 ): Array<{name: string, brand: string, hex: string, purpose?: string}> {
-  const allPaints = getAllPaints();
+  const allPaints = paints.map(paint => renderPaint(paint, illuminant));
   const paintRecs: Array<{name: string, brand: string, hex: string, purpose?: string}> = [];
   
   // First, check if we have direct matches for our dominant colors
@@ -889,10 +903,11 @@ function getPaintRecommendations(
   );
   
   if (!hasWhite) {
+    // Prefer the primary brand, then any white on hand
     const titaniumWhite = allPaints.find(p => 
       p.name.toLowerCase().includes('titanium white') && 
       p.brand === primaryBrand
-    );
+    ) || allPaints.find(p => p.name.toLowerCase().includes('white'));
     
     if (titaniumWhite) {
       paintRecs.push({
@@ -913,7 +928,7 @@ function getPaintRecommendations(
     const black = allPaints.find(p => 
       p.name.toLowerCase().includes('black') && 
       p.brand === primaryBrand
-    );
+    ) || allPaints.find(p => p.name.toLowerCase().includes('black'));
     
     if (black) {
       paintRecs.push({
@@ -0,0 +1,128 @@
+import { Paint } from '../context/PaintContext';
+import { paint } from '../testing/paints';
+import { colorDifference } from './colorDifference';
+import {
+  deriveDefaultCoefficients,
+  finiteLayerReflectance,
+  getKubelkaMunkCoefficients,
+  ksToReflectance,
+  mixPaints,
+  mixPaintsReflectance,
+  reflectanceToKS
+} from './kubelkaMunk';
+import { getPaintLab } from './spectral';
+
+
+describe('reflectanceToKS', () => {
+  it('round-trips through ksToReflectance', () => {
+    [0.01, 0.2, 0.5, 0.8, 0.98].forEach(R => {
+      expect(ksToReflectance(reflectanceToKS(R))).toBeCloseTo(R, 6);
+    });
+  });
+
+  it('stays finite at the ends of the range', () => {
+    expect(Number.isFinite(reflectanceToKS(0))).toBe(true);
+    expect(reflectanceToKS(1)).toBeGreaterThan(0);
+  });
+});
+
+describe('deriveDefaultCoefficients', () => {
+  const base = paint('wn-cadmium-red');
+
+  it('keeps the masstone K/S on every channel', () => {
+    const { K, S } = deriveDefaultCoefficients(base, 'spectral')!;
+    base.spectrum!.forEach((R, band) => {
+      expect(K[band] / S[band]).toBeCloseTo(reflectanceToKS(R), 6);
+    });
+  });
+
+  it('scales scattering with opacity once', () => {
+    const opaque = deriveDefaultCoefficients({ ...base, opacity: 'O' }, 'rgb')!;
+    const transparent = deriveDefaultCoefficients({ ...base, opacity: 'T' }, 'rgb')!;
+    expect(opaque.S[0] / transparent.S[0]).toBeCloseTo(4, 6);
+  });
+
+  it('scales absorption and scattering alike with tinting strength', () => {
+    const high = deriveDefaultCoefficients({ ...base, tintingStrength: 'High' }, 'rgb')!;
+    const low = deriveDefaultCoefficients({ ...base, tintingStrength: 'Low' }, 'rgb')!;
+    expect(high.K[1] / low.K[1]).toBeCloseTo(4, 6);
+    expect(high.S[1] / low.S[1]).toBeCloseTo(4, 6);
+  });
+});
+
+describe('mixPaints', () => {
+  it('reproduces a single paint', () => {
+    const red = paint('wn-cadmium-red');
+    expect(colorDifference(mixPaints([{ paint: red, proportion: 1 }]), getPaintLab(red)!)).toBeLessThan(0.01);
+  });
+
+  it('ignores the scale of the proportions', () => {
+    const components = [paint('wn-phthalo-blue'), paint('wn-titanium-white')];
+    const halves = mixPaints(components.map(p => ({ paint: p, proportion: 0.5 })));
+    const parts = mixPaints(components.map(p => ({ paint: p, proportion: 3 })));
+    expect(colorDifference(halves, parts)).toBeLessThan(1e-6);
+  });
+
+  it('lets a strong paint shift a white tint further than a weak one', () => {
+    const white = paint('wn-titanium-white');
+    const blue = paint('wn-french-ultramarine');
+    const tint = (strength: Paint['tintingStrength']) => mixPaints([
+      { paint: { ...blue, tintingStrength: strength }, proportion: 0.2 },
+      { paint: white, proportion: 0.8 }
+    ]);
+    expect(tint('High').L).toBeLessThan(tint('Low').L);
+  });
+
+  it('falls back to a mid grey with nothing to mix', () => {
+    expect(mixPaints([])).toEqual({ L: 50, a: 0, b: 0 });
+  });
+});
+
+describe('finiteLayerReflectance', () => {
+  it('leaves the background unchanged at zero thickness', () => {
+    expect(finiteLayerReflectance(1, 1, 0, 0.4)).toBe(0.4);
+  });
+
+  it('approaches the masstone over any background as the film thickens', () => {
+    const masstone = ksToReflectance(2);
+    expect(finiteLayerReflectance(2, 1, 50, 0)).toBeCloseTo(masstone, 6);
+    expect(finiteLayerReflectance(2, 1, 50, 1)).toBeCloseTo(masstone, 6);
+  });
+
+  it('filters the background through a pure absorber', () => {
+    expect(finiteLayerReflectance(0.5, 0, 1, 0.8)).toBeCloseTo(0.8 * Math.exp(-1), 9);
+  });
+});
+
+describe('getKubelkaMunkCoefficients', () => {
+  const blue = paint('wn-french-ultramarine');
+  const white = paint('wn-titanium-white');
+  const measured = (scattering: number): Paint => ({
+    ...blue,
+    id: `${blue.id}-calibrated-${scattering}`,
+    spectrum: undefined,
+    kubelkaMunk: { K: [4, 3, 1].map(ks => ks * scattering), S: [scattering, scattering, scattering] }
+  });
+
+  it('mixes on the spectral bands by default', () => {
+    expect(getKubelkaMunkCoefficients(blue)!.K).toHaveLength(31);
+    expect(mixPaintsReflectance([{ paint: blue, proportion: 1 }])!.basis).toBe('spectral');
+  });
+
+  it('returns measured RGB coefficients when RGB is asked for', () => {
+    const calibrated = measured(2);
+    expect(getKubelkaMunkCoefficients(calibrated, 'rgb')).toBe(calibrated.kubelkaMunk);
+  });
+
+  it('carries measured RGB scattering over to the spectral bands', () => {
+    const coefficients = getKubelkaMunkCoefficients(measured(2), 'spectral')!;
+    expect(coefficients.S).toHaveLength(31);
+    coefficients.S.forEach(S => expect(S).toBeCloseTo(2, 6));
+
+    const tint = (scattering: number) => mixPaints([
+      { paint: measured(scattering), proportion: 0.2 },
+      { paint: white, proportion: 0.8 }
+    ]);
+    expect(tint(4).L).toBeLessThan(tint(1).L);
+  });
+});
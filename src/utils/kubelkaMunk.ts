@@ -0,0 +1,240 @@
+import { Paint, KubelkaMunkCoefficients } from '../context/PaintContext';
+import { LABColor } from '../context/ColorContext';
+import { SPECTRAL_BANDS } from '../data/cieTables';
+import { ILLUMINANTS, IlluminantId } from '../data/illuminants';
+import {
+  adaptLab,
+  labToLinearRgb,
+  linearRgbToLab,
+  opacityToNumeric,
+  tintingStrengthToNumeric
+} from './colorConversion';
+import { estimateSpectrum, getPaintLab, getPaintSpectrum, getSourcePaint, hasSpectrum, spectrumToLab } from './spectral';
+
+// Reflectance is clamped away from 0 and 1 so K/S stays finite
+const MIN_REFLECTANCE = 0.001;
+const MAX_REFLECTANCE = 0.999;
+
+// Mixing runs on 31 spectral bands. The three linear RGB channels are only
+// used when a caller asks for them, as calibration does for camera data.
+export type MixingBasis = 'rgb' | 'spectral';
+
+export const DEFAULT_MIXING_BASIS: MixingBasis = 'spectral';
+
+const BASIS_CHANNELS: Record<MixingBasis, number> = {
+  rgb: 3,
+  spectral: SPECTRAL_BANDS
+};
+
+// Cache of derived coefficients for paints without measured data
+const derivedCoefficientsCache = new WeakMap<Paint, Partial<Record<MixingBasis, KubelkaMunkCoefficients | null>>>();
+
+// Share of each spectral band seen by the red, green and blue channels, from
+// the estimated curves of the three primaries
+const CHANNEL_BAND_SHARES: number[][] = (() => {
+  const primaries = ([[1, 0, 0], [0, 1, 0], [0, 0, 1]] as [number, number, number][])
+    .map(linear => estimateSpectrum(linearRgbToLab(linear)));
+  return Array.from({ length: SPECTRAL_BANDS }, (_, band) => {
+    const total = primaries.reduce((sum, curve) => sum + curve[band], 0);
+    return primaries.map(curve => curve[band] / total);
+  });
+})();
+
+/**
+ * Converts a masstone reflectance (0-1) to the Kubelka-Munk K/S ratio
+ */
+export const reflectanceToKS = (reflectance: number): number => {
+  const R = Math.max(MIN_REFLECTANCE, Math.min(MAX_REFLECTANCE, reflectance));
+  return ((1 - R) * (1 - R)) / (2 * R);
+};
+
+/**
+ * Converts a Kubelka-Munk K/S ratio back to masstone reflectance (0-1)
+ */
+export const ksToReflectance = (ks: number): number => {
+  const ratio = Math.max(0, ks);
+  return 1 + ratio - Math.sqrt(ratio * ratio + 2 * ratio);
+};
+
+/**
+ * Works out default K/S coefficients for a paint from its reflectance curve
+ * (spectral basis; estimated from its lab color when it has no spectrum) or
+ * from its lab color (RGB basis), plus its opacity and tintingStrength fields.
+ *
+ * Opacity sets the scattering S and the masstone reflectance fixes K/S per
+ * channel, so K follows from S. Tinting strength then scales K and S alike,
+ * which keeps the masstone but gives a strong paint more weight in a mix.
+ */
+export const deriveDefaultCoefficients = (
+  paint: Paint,
+  basis: MixingBasis = DEFAULT_MIXING_BASIS
+): KubelkaMunkCoefficients | null => {
+  const lab = getPaintLab(paint);
+  const reflectance = basis === 'spectral' ? getPaintSpectrum(paint) : lab && labToLinearRgb(lab);
+  if (!reflectance) return null;
+
+  const strength = tintingStrengthToNumeric(paint.tintingStrength);
+  const scattering = opacityToNumeric(paint.opacity);
+
+  return {
+    K: reflectance.map(R => reflectanceToKS(R) * scattering * strength),
+    S: reflectance.map(() => scattering * strength)
+  };
+};
+
+/**
+ * Carries coefficients measured on RGB channels over to spectral bands. Each
+ * band's scattering is the channels' scattering weighted by how much of the
+ * band they see; absorption follows from the paint's curve, so the masstone
+ * keeps its color.
+ */
+const spreadChannelCoefficients = (
+  paint: Paint,
+  measured: KubelkaMunkCoefficients
+): KubelkaMunkCoefficients | null => {
+  const reflectance = getPaintSpectrum(paint);
+  if (!reflectance) return null;
+
+  const S = CHANNEL_BAND_SHARES.map(shares => shares.reduce((sum, share, channel) => sum + share * measured.S[channel], 0));
+  return { K: reflectance.map((R, band) => reflectanceToKS(R) * S[band]), S };
+};
+
+/**
+ * Returns a paint's K/S coefficients for a basis, preferring measured data
+ * over defaults; RGB measurements are spread over the spectral bands.
+ * Coefficients always come from the D65 database paint, so copies rendered
+ * under another illuminant mix the same way.
+ */
+export const getKubelkaMunkCoefficients = (
+  renderedPaint: Paint,
+  basis: MixingBasis = DEFAULT_MIXING_BASIS
+): KubelkaMunkCoefficients | null => {
+  const paint = getSourcePaint(renderedPaint);
+  const measured = paint.kubelkaMunk;
+  if (measured && measured.K.length === BASIS_CHANNELS[basis]) {
+    return measured;
+  }
+
+  const cached = derivedCoefficientsCache.get(paint) || {};
+  if (!(basis in cached)) {
+    cached[basis] = basis === 'spectral' && measured?.K.length === BASIS_CHANNELS.rgb
+      ? spreadChannelCoefficients(paint, measured)
+      : deriveDefaultCoefficients(paint, basis);
+    derivedCoefficientsCache.set(paint, cached);
+  }
+
+  return cached[basis] || null;
+};
+
+/**
+ * Checks whether a paint is mixed from a reflectance curve estimated from its
+ * color rather than a measured spectrum
+ */
+export const hasEstimatedSpectrum = (paint: Paint): boolean => !hasSpectrum(getSourcePaint(paint));
+
+/**
+ * Averages the K and S coefficients of a paint mixture by proportion.
+ * Proportions are normalised, so they do not need to sum to 1.
+ */
+export const mixCoefficients = (
+  components: { paint: Paint; proportion: number }[],
+  basis: MixingBasis = DEFAULT_MIXING_BASIS
+): KubelkaMunkCoefficients | null => {
+  const weighted = components
+    .filter(component => component.proportion > 0)
+    .map(component => ({
+      coefficients: getKubelkaMunkCoefficients(component.paint, basis),
+      proportion: component.proportion
+    }))
+    .filter((item): item is { coefficients: KubelkaMunkCoefficients; proportion: number } =>
+      item.coefficients !== null
+    );
+
+  if (weighted.length === 0) return null;
+
+  const total = weighted.reduce((sum, item) => sum + item.proportion, 0);
+  const K = new Array(BASIS_CHANNELS[basis]).fill(0);
+  const S = new Array(BASIS_CHANNELS[basis]).fill(0);
+
+  weighted.forEach(({ coefficients, proportion }) => {
+    for (let channel = 0; channel < K.length; channel++) {
+      K[channel] += coefficients.K[channel] * (proportion / total);
+      S[channel] += coefficients.S[channel] * (proportion / total);
+    }
+  });
+
+  return { K, S };
+};
+
+/**
+ * Predicts the reflectance of a paint mixture with the Kubelka-Munk model, on
+ * the spectral bands unless another basis is asked for. Proportions are
+ * normalised, so they do not need to sum to 1.
+ */
+export const mixPaintsReflectance = (
+  components: { paint: Paint; proportion: number }[],
+  basis: MixingBasis = DEFAULT_MIXING_BASIS
+): { basis: MixingBasis; reflectance: number[] } | null => {
+  const active = components.filter(component => component.proportion > 0);
+  if (active.length === 0) return null;
+
+  const coefficients = mixCoefficients(active, basis);
+  if (!coefficients) return null;
+
+  const reflectance = coefficients.K.map((K, channel) => {
+    const S = coefficients.S[channel];
+    return S > 0 ? ksToReflectance(K / S) : MIN_REFLECTANCE;
+  });
+
+  return { basis, reflectance };
+};
+
+/**
+ * Reflectance of a paint film of finite thickness over a background, from
+ * the Kubelka-Munk layer equation. K and S are per unit thickness; a
+ * thickness of 0 leaves the background unchanged.
+ */
+export const finiteLayerReflectance = (K: number, S: number, thickness: number, background: number): number => {
+  const Rg = Math.max(0, Math.min(1, background));
+  if (thickness <= 0) return Rg;
+
+  // A pure absorber only filters the light reflected by the background
+  if (S < 1e-9) return Rg * Math.exp(-2 * K * thickness);
+
+  const SX = S * thickness;
+
+  // A pure scatterer approaches white
+  if (K < 1e-9) return (Rg + (1 - Rg) * SX) / (1 + (1 - Rg) * SX);
+
+  const a = 1 + K / S;
+  const b = Math.sqrt(a * a - 1);
+  const coth = 1 / Math.tanh(b * SX);
+  return (1 - Rg * (a - b * coth)) / (a - Rg + b * coth);
+};
+
+/**
+ * Converts a reflectance on either basis to LAB under the given illuminant
+ */
+export const reflectanceToLab = (
+  mixture: { basis: MixingBasis; reflectance: number[] },
+  illuminant: IlluminantId = 'D65'
+): LABColor => mixture.basis === 'spectral'
+  ? spectrumToLab(mixture.reflectance, ILLUMINANTS[illuminant].spd)
+  : adaptLab(linearRgbToLab(mixture.reflectance as [number, number, number]), 'D65', illuminant);
+
+/**
+ * Predicts the LAB color of a paint mixture with the Kubelka-Munk model,
+ * as seen under the given illuminant
+ */
+export const mixPaints = (
+  components: { paint: Paint; proportion: number }[],
+  illuminant: IlluminantId = 'D65'
+): LABColor => {
+  const mixture = mixPaintsReflectance(components);
+
+  if (!mixture) {
+    return { L: 50, a: 0, b: 0 }; // Default fallback
+  }
+
+  return reflectanceToLab(mixture, illuminant);
+};
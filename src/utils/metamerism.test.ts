@@ -0,0 +1,51 @@
+import { paint } from '../testing/paints';
+import { adaptLab } from './colorConversion';
+import { mixPaints } from './kubelkaMunk';
+import { assessMetamerism, METAMERISM_WARNING_THRESHOLD, metamerismIndex } from './metamerism';
+
+
+describe('metamerismIndex', () => {
+  it('ignores a mismatch that is already there under the reference light', () => {
+    const target = { reference: { L: 50, a: 10, b: 10 }, test: { L: 52, a: 14, b: 8 } };
+    const offset = { L: 3, a: -2, b: 1 };
+    const sample = {
+      reference: { L: 53, a: 8, b: 11 },
+      test: { L: 52 + offset.L, a: 14 + offset.a, b: 8 + offset.b }
+    };
+    expect(metamerismIndex(target, sample)).toBeCloseTo(0, 9);
+  });
+
+  it('measures the extra shift under the test light', () => {
+    const color = { L: 50, a: 10, b: 10 };
+    expect(metamerismIndex({ reference: color, test: color }, { reference: color, test: { L: 50, a: 10, b: 20 } }))
+      .toBeGreaterThan(0);
+  });
+});
+
+describe('assessMetamerism', () => {
+  const recipe = [
+    { paint: paint('wn-french-ultramarine'), proportion: 0.3 },
+    { paint: paint('wn-cadmium-yellow-pale'), proportion: 0.7 }
+  ];
+
+  it('predicts the recipe under every illuminant', () => {
+    const { colors } = assessMetamerism(recipe, mixPaints(recipe));
+    expect(colors.A).toEqual(mixPaints(recipe, 'A'));
+    expect(colors.D65).toEqual(mixPaints(recipe));
+  });
+
+  it('reports no shift in daylight and names the worst light', () => {
+    const result = assessMetamerism(recipe, mixPaints(recipe));
+    expect(result.indices.D65).toBeCloseTo(0, 9);
+    expect(result.worstIlluminant).not.toBe('D65');
+    expect(result.indices[result.worstIlluminant]).toBeGreaterThan(0);
+    expect(result.warmLightWarning).toBe(result.indices.A > METAMERISM_WARNING_THRESHOLD);
+  });
+
+  it('compares against the target seen under its own light', () => {
+    const target = mixPaints(recipe, 'A');
+    const underWarmLight = assessMetamerism(recipe, target, 'A');
+    const adapted = assessMetamerism(recipe, adaptLab(target, 'A', 'D65'));
+    expect(underWarmLight.indices.A).toBeCloseTo(adapted.indices.A, 3);
+  });
+});
@@ -0,0 +1,80 @@
+import { LABColor } from '../context/ColorContext';
+import { Paint } from '../context/PaintContext';
+import { ILLUMINANTS, IlluminantId } from '../data/illuminants';
+import { adaptLab } from './colorConversion';
+import { colorDifference, DEFAULT_DELTA_E_OPTIONS, DeltaEOptions } from './colorDifference';
+import { mixPaints } from './kubelkaMunk';
+
+// Recipes are matched in daylight; other illuminants are tested against it
+export const METAMERISM_REFERENCE: IlluminantId = 'D65';
+
+// Incandescent and tungsten gallery lighting
+export const WARM_ILLUMINANTS: IlluminantId[] = ['A'];
+
+// A metamerism index above this is a visible split between recipe and target
+export const METAMERISM_WARNING_THRESHOLD = 2.0;
+
+export interface RecipeMetamerism {
+  colors: Record<IlluminantId, LABColor>; // Predicted recipe color under each illuminant
+  indices: Record<IlluminantId, number>; // Metamerism index against the target under each illuminant
+  worstIlluminant: IlluminantId;
+  warmLightWarning: boolean;
+}
+
+/**
+ * Special metamerism index: the color difference under a test illuminant
+ * after removing the mismatch that already exists under the reference, so
+ * only the shift caused by the change of light is measured
+ */
+export const metamerismIndex = (
+  target: { reference: LABColor; test: LABColor },
+  sample: { reference: LABColor; test: LABColor },
+  deltaEOptions: DeltaEOptions = DEFAULT_DELTA_E_OPTIONS
+): number => {
+  const corrected: LABColor = {
+    L: sample.test.L - (sample.reference.L - target.reference.L),
+    a: sample.test.a - (sample.reference.a - target.reference.a),
+    b: sample.test.b - (sample.reference.b - target.reference.b)
+  };
+  return colorDifference(target.test, corrected, deltaEOptions);
+};
+
+/**
+ * Predicts a recipe under every standard illuminant and measures how far it
+ * drifts from the target compared with daylight. The target has no spectral
+ * data, so its appearance under each light is its chromatically adapted
+ * (corresponding) color.
+ */
+export const assessMetamerism = (
+  components: { paint: Paint; proportion: number }[],
+  targetLab: LABColor,
+  targetIlluminant: IlluminantId = 'D65',
+  deltaEOptions: DeltaEOptions = DEFAULT_DELTA_E_OPTIONS
+): RecipeMetamerism => {
+  const illuminants = Object.keys(ILLUMINANTS) as IlluminantId[];
+  const colors = {} as Record<IlluminantId, LABColor>;
+  const indices = {} as Record<IlluminantId, number>;
+
+  illuminants.forEach(id => {
+    colors[id] = mixPaints(components, id);
+  });
+
+  const targetReference = adaptLab(targetLab, targetIlluminant, METAMERISM_REFERENCE);
+
+  illuminants.forEach(id => {
+    indices[id] = metamerismIndex(
+      { reference: targetReference, test: adaptLab(targetLab, targetIlluminant, id) },
+      { reference: colors[METAMERISM_REFERENCE], test: colors[id] },
+      deltaEOptions
+    );
+  });
+
+  const worstIlluminant = illuminants.reduce((worst, id) => indices[id] > indices[worst] ? id : worst);
+
+  return {
+    colors,
+    indices,
+    worstIlluminant,
+    warmLightWarning: WARM_ILLUMINANTS.some(id => indices[id] > METAMERISM_WARNING_THRESHOLD)
+  };
+};
@@ -0,0 +1,43 @@
+import { getAllPaints } from '../data/paintDatabase';
+import { colorDifference, DEFAULT_DELTA_E_OPTIONS, deltaEToMatchPercentage } from './colorDifference';
+import { mixPaints } from './kubelkaMunk';
+import { exhaustiveEngine, findOptimalPaintMixture } from './mixingAlgorithm';
+
+const paints = getAllPaints().filter(paint => paint.brand === getAllPaints()[0].brand);
+const target = { L: 55, a: -20, b: 25 };
+
+describe('findOptimalPaintMixture', () => {
+  it('returns as many recipes as asked for', () => {
+    [2, 8].forEach(maxRecipes => {
+      const recipes = findOptimalPaintMixture(target, paints, 3, DEFAULT_DELTA_E_OPTIONS, 'D65', undefined, undefined, null, maxRecipes);
+      expect(recipes).toHaveLength(maxRecipes);
+    });
+  });
+
+  it('scores each recipe from the proportions it lists', () => {
+    findOptimalPaintMixture(target, paints).forEach(recipe => {
+      expect(recipe.paints.reduce((sum, component) => sum + component.proportion, 0)).toBeCloseTo(1, 9);
+      const lab = mixPaints(recipe.paints);
+      expect(colorDifference(recipe.estimatedLabColor!, lab)).toBeLessThan(1e-9);
+      expect(recipe.matchPercentage).toBeCloseTo(deltaEToMatchPercentage(colorDifference(target, lab)), 9);
+    });
+  });
+
+  it('keeps recipes sorted by match', () => {
+    const matches = findOptimalPaintMixture(target, paints).map(recipe => recipe.matchPercentage);
+    expect(matches).toEqual([...matches].sort((a, b) => b - a));
+  });
+});
+
+describe('exhaustiveEngine', () => {
+  it('respects the requested recipe count', () => {
+    const { recipes } = exhaustiveEngine.findMixtures({
+      target,
+      paints,
+      constraints: { maxComponents: 3, maxRecipes: 7 },
+      illuminant: 'D65',
+      deltaE: DEFAULT_DELTA_E_OPTIONS
+    });
+    expect(recipes).toHaveLength(7);
+  });
+});
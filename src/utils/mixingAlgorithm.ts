@@ -1,16 +1,36 @@
 import { Paint, MixingRecipe } from '../context/PaintContext';
 import { LABColor } from '../context/ColorContext';
-import { 
-  calculateDeltaE, 
-  opacityToNumeric, 
-  tintingStrengthToNumeric,
-  calculateChroma
-} from './colorConversion';
+import { IlluminantId } from '../data/illuminants';
+import {
+  colorDifference,
+  deltaEToMatchPercentage,
+  DEFAULT_DELTA_E_OPTIONS,
+  DeltaEOptions
+} from './colorDifference';
+import { mixPaints } from './kubelkaMunk';
+import { MixingEngine, MixingEngineOutput, MixingRequest } from './mixingEngine';
+import { countDistinctPigments } from './pigmentBreakdown';
+import { optimizeProportions } from './proportionOptimizer';
+import { renderPaint } from './spectral';
 
 // Constants for algorithm tuning
 const ACCEPTABLE_MATCH_THRESHOLD = 5.0; // DeltaE threshold for "good enough" match
 const MAX_ATTEMPTS = 100000; // Maximum number of mix combinations to try
 const MAX_COMPONENTS = 3; // Maximum number of paints in a mixture
+const MAX_RECIPES = 5; // Recipes returned when no limit is given
+const SCREENING_RATIOS = [0.25, 0.5, 0.75]; // Coarse pair proportions used to rank pairs
+const OPTIMIZED_PAIRS = 24; // Best-screened pairs whose proportions are optimised
+const OPTIMIZED_TRIPLES = 16; // Best-screened triples whose proportions are optimised
+const MIN_PROPORTION = 0.01; // Smaller optimised shares are dropped from the recipe
+
+// Running count of candidate mixtures evaluated during one search
+interface SearchStats {
+  evaluated: number;
+}
+
+// Whether a combination of tubes stays within a distinct-pigment limit
+const withinPigmentLimit = (paints: Paint[], maxPigments: number | null): boolean =>
+  !maxPigments || countDistinctPigments(paints) <= maxPigments;
 
 /**
  * Finds optimal paint mixtures to match a target color
@@ -18,33 +38,54 @@ const MAX_COMPONENTS = 3; // Maximum number of paints in a mixture
 export const findOptimalPaintMixture = (
   targetLabColor: LABColor, 
   availablePaints: Paint[],
-  maxComponents: number = MAX_COMPONENTS
+  maxComponents: number = MAX_COMPONENTS,
+  deltaEOptions: DeltaEOptions = DEFAULT_DELTA_E_OPTIONS,
+  illuminant: IlluminantId = 'D65',
+  stats: SearchStats = { evaluated: 0 },
+  onProgress?: (fraction: number, recipes: MixingRecipe[]) => void,
+  maxPigments: number | null = null,
+  maxRecipes: number = MAX_RECIPES
 ): MixingRecipe[] => {
   if (!targetLabColor || !availablePaints || availablePaints.length === 0) {
     return [];
   }
   
+  // Spectral paints are rendered from their reflectance curves; tubes that
+  // alone exceed the pigment limit cannot be in any recipe
+  const paints = availablePaints
+    .filter(paint => withinPigmentLimit([paint], maxPigments))
+    .map(paint => renderPaint(paint, illuminant));
+  
   // All calculated recipes will be stored here
   const recipes: MixingRecipe[] = [];
   
   // 1. Check for direct matches (single paint)
-  const singlePaintMatches = findSinglePaintMatches(targetLabColor, availablePaints);
+  const singlePaintMatches = findSinglePaintMatches(targetLabColor, paints, deltaEOptions, stats);
   recipes.push(...singlePaintMatches);
   
   // If we found a perfect match, no need to continue
   if (recipes.length > 0 && recipes[0].matchPercentage > 98) {
-    return recipes.slice(0, 5); // Return top 5 matches
+    return recipes.slice(0, maxRecipes);
   }
   
+  // Best recipes so far, for progressive display
+  const reportProgress = (fraction: number) => {
+    if (!onProgress) return;
+    const sorted = [...recipes].sort((a, b) => b.matchPercentage - a.matchPercentage);
+    onProgress(fraction, removeRedundantRecipes(sorted).slice(0, maxRecipes));
+  };
+  reportProgress(0.05);
+  
   // 2. Try binary mixes (two paints)
   if (maxComponents >= 2) {
-    const binaryMixes = findBinaryMixes(targetLabColor, availablePaints);
+    const binaryMixes = findBinaryMixes(targetLabColor, paints, deltaEOptions, illuminant, stats, maxPigments);
     recipes.push(...binaryMixes);
+    reportProgress(0.5);
   }
   
   // 3. Try ternary mixes if needed (three paints)
   if (maxComponents >= 3 && (recipes.length === 0 || recipes[0].matchPercentage < 90)) {
-    const ternaryMixes = findTernaryMixes(targetLabColor, availablePaints);
+    const ternaryMixes = findTernaryMixes(targetLabColor, paints, deltaEOptions, illuminant, stats, maxPigments);
     recipes.push(...ternaryMixes);
   }
   
@@ -52,7 +93,7 @@ export const findOptimalPaintMixture = (
   recipes.sort((a, b) => b.matchPercentage - a.matchPercentage);
   
   // Return top results, removing duplicates
-  return removeRedundantRecipes(recipes).slice(0, 5);
+  return removeRedundantRecipes(recipes).slice(0, maxRecipes);
 };
 
 /**
@@ -60,15 +101,18 @@ export const findOptimalPaintMixture = (
  */
 const findSinglePaintMatches = (
   targetLabColor: LABColor, 
-  availablePaints: Paint[]
+  availablePaints: Paint[],
+  deltaEOptions: DeltaEOptions,
+  stats: SearchStats
 ): MixingRecipe[] => {
   const matches: MixingRecipe[] = [];
   
   for (const paint of availablePaints) {
     if (!paint.lab) continue;
+    stats.evaluated++;
     
-    const deltaE = calculateDeltaE(targetLabColor, paint.lab);
-    const matchPercentage = deltaEToPercentage(deltaE);
+    const deltaE = colorDifference(targetLabColor, paint.lab, deltaEOptions);
+    const matchPercentage = deltaEToMatchPercentage(deltaE);
     
     matches.push({
       paints: [{ paint, proportion: 1.0 }],
@@ -81,126 +125,119 @@ const findSinglePaintMatches = (
   return matches.sort((a, b) => b.matchPercentage - a.matchPercentage).slice(0, 10);
 };
 
+/**
+ * Scores a paint combination at a few coarse proportions so only promising
+ * combinations are handed to the optimizer
+ */
+const screenCombination = (
+  targetLabColor: LABColor,
+  paints: Paint[],
+  deltaEOptions: DeltaEOptions,
+  illuminant: IlluminantId,
+  stats: SearchStats
+): number => {
+  const points = paints.length === 2
+    ? SCREENING_RATIOS.map(ratio => [ratio, 1 - ratio])
+    : [
+        paints.map(() => 1 / paints.length),
+        ...paints.map((_, dominant) => paints.map((__, i) =>
+          i === dominant ? 0.6 : 0.4 / (paints.length - 1)
+        ))
+      ];
+
+  stats.evaluated += points.length;
+  return Math.min(...points.map(proportions => colorDifference(
+    targetLabColor,
+    mixPaints(paints.map((paint, i) => ({ paint, proportion: proportions[i] })), illuminant),
+    deltaEOptions
+  )));
+};
+
+/**
+ * Optimises the proportions of a paint combination and turns the result into
+ * a recipe; paints the optimizer drove to (almost) nothing are dropped and
+ * the remaining mix is predicted and scored again
+ */
+const optimizeRecipe = (
+  targetLabColor: LABColor,
+  paints: Paint[],
+  deltaEOptions: DeltaEOptions,
+  illuminant: IlluminantId,
+  stats: SearchStats
+): MixingRecipe => {
+  const result = optimizeProportions(paints, targetLabColor, { illuminant, deltaE: deltaEOptions });
+  stats.evaluated += result.evaluations;
+
+  const components = paints
+    .map((paint, i) => ({ paint, proportion: result.proportions[i] }))
+    .filter(component => component.proportion >= MIN_PROPORTION);
+  const total = components.reduce((sum, component) => sum + component.proportion, 0);
+  const normalized = components.map(component => ({ ...component, proportion: component.proportion / total }));
+  const lab = mixPaints(normalized, illuminant);
+  stats.evaluated++;
+
+  return {
+    paints: normalized,
+    matchPercentage: deltaEToMatchPercentage(colorDifference(targetLabColor, lab, deltaEOptions)),
+    estimatedLabColor: lab,
+    optimization: {
+      deltaE: result.deltaE,
+      iterations: result.iterations,
+      converged: result.converged
+    }
+  };
+};
+
+/**
+ * Screens every combination and optimises the proportions of the most
+ * promising ones
+ */
+const optimizeBestCombinations = (
+  targetLabColor: LABColor,
+  combinations: Paint[][],
+  limit: number,
+  deltaEOptions: DeltaEOptions,
+  illuminant: IlluminantId,
+  stats: SearchStats
+): MixingRecipe[] => {
+  return combinations
+    .slice(0, MAX_ATTEMPTS)
+    .map(paints => ({
+      paints,
+      deltaE: screenCombination(targetLabColor, paints, deltaEOptions, illuminant, stats)
+    }))
+    .sort((a, b) => a.deltaE - b.deltaE)
+    .slice(0, limit)
+    .map(({ paints }) => optimizeRecipe(targetLabColor, paints, deltaEOptions, illuminant, stats));
+};
+
 /**
  * Finds the best binary (two paint) mixes
  */
 const findBinaryMixes = (
   targetLabColor: LABColor, 
-  availablePaints: Paint[]
+  availablePaints: Paint[],
+  deltaEOptions: DeltaEOptions,
+  illuminant: IlluminantId,
+  stats: SearchStats,
+  maxPigments: number | null
 ): MixingRecipe[] => {
-  const matches: MixingRecipe[] = [];
-  let attempts = 0;
-  
-  // First find white and black paints for tinting/shading
-  const whitePaints = availablePaints.filter(p => 
-    p.pigmentCodes.includes('PW6') || p.name.toLowerCase().includes('white')
-  );
-  
-  const blackPaints = availablePaints.filter(p => 
-    p.pigmentCodes.includes('PBk9') || p.pigmentCodes.includes('PBk11') || 
-    p.name.toLowerCase().includes('black')
-  );
-  
-  // Test a range of mixture proportions
-  for (let i = 0; i < availablePaints.length && attempts < MAX_ATTEMPTS; i++) {
-    const paint1 = availablePaints[i];
-    if (!paint1.lab) continue;
-    
-    for (let j = i + 1; j < availablePaints.length && attempts < MAX_ATTEMPTS; j++) {
-      const paint2 = availablePaints[j];
-      if (!paint2.lab) continue;
-      
-      // Try different proportions
-      for (let ratio = 0.1; ratio <= 0.9; ratio += 0.1) {
-        attempts++;
-        
-        // Adjust ratio based on relative tinting strengths
-        const tintRatio1 = tintingStrengthToNumeric(paint1.tintingStrength);
-        const tintRatio2 = tintingStrengthToNumeric(paint2.tintingStrength);
-        const adjustedRatio = adjustRatioForTintingStrength(
-          ratio, 
-          tintRatio1, 
-          tintRatio2
-        );
-        
-        // Estimate the mixed color
-        const mixedColor = estimateMixedColor(paint1, paint2, adjustedRatio);
-        
-        // Calculate match quality
-        const deltaE = calculateDeltaE(targetLabColor, mixedColor);
-        const matchPercentage = deltaEToPercentage(deltaE);
-        
-        matches.push({
-          paints: [
-            { paint: paint1, proportion: adjustedRatio },
-            { paint: paint2, proportion: 1 - adjustedRatio }
-          ],
-          matchPercentage,
-          estimatedLabColor: mixedColor
-        });
-      }
-    }
-    
-    // Also try mixing with white and black (common in painting)
-    if (whitePaints.length > 0) {
-      const whitePaint = whitePaints[0];
-      if (whitePaint.lab) {
-        for (let ratio = 0.1; ratio <= 0.9; ratio += 0.1) {
-          attempts++;
-          
-          // Adjust for white's strong tinting power
-          const adjustedRatio = adjustRatioForTintingStrength(
-            ratio, 
-            tintingStrengthToNumeric(paint1.tintingStrength), 
-            tintingStrengthToNumeric(whitePaint.tintingStrength)
-          );
-          
-          const mixedColor = estimateMixedColor(paint1, whitePaint, adjustedRatio);
-          const deltaE = calculateDeltaE(targetLabColor, mixedColor);
-          const matchPercentage = deltaEToPercentage(deltaE);
-          
-          matches.push({
-            paints: [
-              { paint: paint1, proportion: adjustedRatio },
-              { paint: whitePaint, proportion: 1 - adjustedRatio }
-            ],
-            matchPercentage,
-            estimatedLabColor: mixedColor
-          });
-        }
-      }
-    }
-    
-    if (blackPaints.length > 0) {
-      const blackPaint = blackPaints[0];
-      if (blackPaint.lab) {
-        for (let ratio = 0.7; ratio <= 0.98; ratio += 0.02) {
-          attempts++;
-          
-          // Black has very strong tinting power
-          const adjustedRatio = adjustRatioForTintingStrength(
-            ratio, 
-            tintingStrengthToNumeric(paint1.tintingStrength), 
-            tintingStrengthToNumeric('High') // Black is always high tinting strength
-          );
-          
-          const mixedColor = estimateMixedColor(paint1, blackPaint, adjustedRatio);
-          const deltaE = calculateDeltaE(targetLabColor, mixedColor);
-          const matchPercentage = deltaEToPercentage(deltaE);
-          
-          matches.push({
-            paints: [
-              { paint: paint1, proportion: adjustedRatio },
-              { paint: blackPaint, proportion: 1 - adjustedRatio }
-            ],
-            matchPercentage,
-            estimatedLabColor: mixedColor
-          });
-        }
+  const paints = availablePaints.filter(p => p.lab);
+  const pairs: Paint[][] = [];
+  
+  // Every pair, including tints with white and shades with black
+  for (let i = 0; i < paints.length; i++) {
+    for (let j = i + 1; j < paints.length; j++) {
+      if (withinPigmentLimit([paints[i], paints[j]], maxPigments)) {
+        pairs.push([paints[i], paints[j]]);
       }
     }
   }
   
+  const matches = optimizeBestCombinations(
+    targetLabColor, pairs, OPTIMIZED_PAIRS, deltaEOptions, illuminant, stats
+  );
+  
   // Sort by match quality (descending)
   return matches.sort((a, b) => b.matchPercentage - a.matchPercentage).slice(0, 20);
 };
@@ -211,11 +248,12 @@ const findBinaryMixes = (
  */
 const findTernaryMixes = (
   targetLabColor: LABColor, 
-  availablePaints: Paint[]
+  availablePaints: Paint[],
+  deltaEOptions: DeltaEOptions,
+  illuminant: IlluminantId,
+  stats: SearchStats,
+  maxPigments: number | null
 ): MixingRecipe[] => {
-  const matches: MixingRecipe[] = [];
-  let attempts = 0;
-  
   // Find white paint for tinting
   const whitePaint = availablePaints.find(p => 
     p.pigmentCodes.includes('PW6') || p.name.toLowerCase().includes('white'));
@@ -225,237 +263,35 @@ const findTernaryMixes = (
     .filter(p => p.lab)
     .sort((a, b) => {
       if (!a.lab || !b.lab) return 0;
-      const deltaA = calculateDeltaE(targetLabColor, a.lab);
-      const deltaB = calculateDeltaE(targetLabColor, b.lab);
+      const deltaA = colorDifference(targetLabColor, a.lab, deltaEOptions);
+      const deltaB = colorDifference(targetLabColor, b.lab, deltaEOptions);
       return deltaA - deltaB;
     })
     .slice(0, 10); // Use only the closest 10 paints to limit combinations
   
-  // Try combinations of three paints using strategic ratios
-  for (let i = 0; i < closestPaints.length && attempts < MAX_ATTEMPTS; i++) {
-    const paint1 = closestPaints[i];
-    if (!paint1.lab) continue;
-    
-    for (let j = i + 1; j < closestPaints.length && attempts < MAX_ATTEMPTS; j++) {
-      const paint2 = closestPaints[j];
-      if (!paint2.lab) continue;
-      
-      for (let k = j + 1; k < closestPaints.length && attempts < MAX_ATTEMPTS; k++) {
-        const paint3 = closestPaints[k];
-        if (!paint3.lab) continue;
-        
-        // Try a limited set of ratios for efficiency
-        // Focus on combinations where one paint is dominant
-        const ratioSets = [
-          [0.7, 0.2, 0.1],
-          [0.6, 0.3, 0.1],
-          [0.5, 0.3, 0.2],
-          [0.4, 0.4, 0.2],
-          [0.33, 0.33, 0.34]  // Equal parts
-        ];
-        
-        for (const [r1, r2, r3] of ratioSets) {
-          attempts++;
-          
-          // Adjust ratios based on tinting strength
-          const tintRatio1 = tintingStrengthToNumeric(paint1.tintingStrength);
-          const tintRatio2 = tintingStrengthToNumeric(paint2.tintingStrength);
-          const tintRatio3 = tintingStrengthToNumeric(paint3.tintingStrength);
-          
-          const totalTinting = r1 * tintRatio1 + r2 * tintRatio2 + r3 * tintRatio3;
-          
-          const adjustedR1 = (r1 * tintRatio1) / totalTinting;
-          const adjustedR2 = (r2 * tintRatio2) / totalTinting;
-          const adjustedR3 = (r3 * tintRatio3) / totalTinting;
-          
-          // Estimate the mixed color
-          const mixedColor = estimateTernaryMixedColor(
-            paint1, paint2, paint3, adjustedR1, adjustedR2, adjustedR3
-          );
-          
-          // Calculate match quality
-          const deltaE = calculateDeltaE(targetLabColor, mixedColor);
-          const matchPercentage = deltaEToPercentage(deltaE);
-          
-          matches.push({
-            paints: [
-              { paint: paint1, proportion: adjustedR1 },
-              { paint: paint2, proportion: adjustedR2 },
-              { paint: paint3, proportion: adjustedR3 }
-            ],
-            matchPercentage,
-            estimatedLabColor: mixedColor
-          });
-        }
-      }
-    }
-    
-    // Also try combinations with white if appropriate (for tints)
-    if (whitePaint && whitePaint.lab) {
-      for (let j = 0; j < closestPaints.length && j !== i && attempts < MAX_ATTEMPTS; j++) {
-        const paint2 = closestPaints[j];
-        if (!paint2.lab) continue;
-        
-        const ratioSets = [
-          [0.7, 0.2, 0.1],  // Main color dominant
-          [0.5, 0.4, 0.1],  // More balanced
-          [0.4, 0.3, 0.3]   // Equal secondary colors
-        ];
-        
-        for (const [r1, r2, r3] of ratioSets) {
-          attempts++;
-          
-          const mixedColor = estimateTernaryMixedColor(
-            paint1, paint2, whitePaint, r1, r2, r3
-          );
-          
-          const deltaE = calculateDeltaE(targetLabColor, mixedColor);
-          const matchPercentage = deltaEToPercentage(deltaE);
-          
-          matches.push({
-            paints: [
-              { paint: paint1, proportion: r1 },
-              { paint: paint2, proportion: r2 },
-              { paint: whitePaint, proportion: r3 }
-            ],
-            matchPercentage,
-            estimatedLabColor: mixedColor
-          });
+  // White is always on hand for tints
+  if (whitePaint && whitePaint.lab && !closestPaints.includes(whitePaint)) {
+    closestPaints.push(whitePaint);
+  }
+  
+  const triples: Paint[][] = [];
+  for (let i = 0; i < closestPaints.length; i++) {
+    for (let j = i + 1; j < closestPaints.length; j++) {
+      for (let k = j + 1; k < closestPaints.length; k++) {
+        const triple = [closestPaints[i], closestPaints[j], closestPaints[k]];
+        if (withinPigmentLimit(triple, maxPigments)) {
+          triples.push(triple);
         }
       }
     }
   }
   
-  // Sort by match quality (descending)
-  return matches.sort((a, b) => b.matchPercentage - a.matchPercentage).slice(0, 15);
-};
-
-/**
- * Adjusts mixing ratio based on tinting strength of paints
- */
-const adjustRatioForTintingStrength = (
-  ratio: number, 
-  tintStrength1: number, 
-  tintStrength2: number
-): number => {
-  // Simple adjustment based on relative tinting strength
-  const relativeTintingStrength = tintStrength1 / (tintStrength1 + tintStrength2);
-  const adjustedRatio = ratio * relativeTintingStrength * 2;
-  
-  // Clamp to valid range [0, 1]
-  return Math.max(0, Math.min(1, adjustedRatio));
-};
-
-/**
- * Estimates the LAB color of a mixture of two paints
- */
-const estimateMixedColor = (
-  paint1: Paint, 
-  paint2: Paint, 
-  ratio: number
-): LABColor => {
-  if (!paint1.lab || !paint2.lab) {
-    return { L: 50, a: 0, b: 0 }; // Default fallback
-  }
-  
-  const opacity1 = opacityToNumeric(paint1.opacity);
-  const opacity2 = opacityToNumeric(paint2.opacity);
-  
-  // Calculate base mixed color using weighted average in LAB space
-  const mixedLab = {
-    L: paint1.lab.L * ratio + paint2.lab.L * (1 - ratio),
-    a: paint1.lab.a * ratio + paint2.lab.a * (1 - ratio),
-    b: paint1.lab.b * ratio + paint2.lab.b * (1 - ratio)
-  };
-  
-  // Apply saturation reduction based on color difference
-  // This simulates the dulling effect that occurs when mixing paints
-  const deltaE = calculateDeltaE(paint1.lab, paint2.lab);
-  
-  // The dulling effect is more pronounced:
-  // 1. When the colors are very different (high deltaE)
-  // 2. For more transparent pigments
-  const dullingFactor = 1 - (deltaE / 100) * 0.3 * (1 - Math.min(opacity1, opacity2) * 0.5);
-  
-  // Apply dulling to the a and b components (chroma)
-  const chroma = calculateChroma(mixedLab);
-  const reducedChroma = chroma * dullingFactor;
-  
-  if (chroma > 0) {
-    const chromaticityRatio = reducedChroma / chroma;
-    mixedLab.a *= chromaticityRatio;
-    mixedLab.b *= chromaticityRatio;
-  }
-  
-  return mixedLab;
-};
-
-/**
- * Estimates the LAB color of a mixture of three paints
- */
-const estimateTernaryMixedColor = (
-  paint1: Paint, 
-  paint2: Paint, 
-  paint3: Paint,
-  ratio1: number,
-  ratio2: number,
-  ratio3: number
-): LABColor => {
-  if (!paint1.lab || !paint2.lab || !paint3.lab) {
-    return { L: 50, a: 0, b: 0 }; // Default fallback
-  }
-  
-  // Normalize ratios
-  const sum = ratio1 + ratio2 + ratio3;
-  const r1 = ratio1 / sum;
-  const r2 = ratio2 / sum;
-  const r3 = ratio3 / sum;
-  
-  // Calculate base mixed color using weighted average in LAB space
-  const mixedLab = {
-    L: paint1.lab.L * r1 + paint2.lab.L * r2 + paint3.lab.L * r3,
-    a: paint1.lab.a * r1 + paint2.lab.a * r2 + paint3.lab.a * r3,
-    b: paint1.lab.b * r1 + paint2.lab.b * r2 + paint3.lab.b * r3
-  };
-  
-  // Apply greater saturation reduction for three-paint mixtures
-  // Mixing three paints typically results in more dulling than just two
-  const maxDeltaE = Math.max(
-    calculateDeltaE(paint1.lab, paint2.lab),
-    calculateDeltaE(paint1.lab, paint3.lab),
-    calculateDeltaE(paint2.lab, paint3.lab)
+  const matches = optimizeBestCombinations(
+    targetLabColor, triples, OPTIMIZED_TRIPLES, deltaEOptions, illuminant, stats
   );
   
-  const averageOpacity = (
-    opacityToNumeric(paint1.opacity) +
-    opacityToNumeric(paint2.opacity) +
-    opacityToNumeric(paint3.opacity)
-  ) / 3;
-  
-  // More paints and more different pigments = more dulling
-  const dullingFactor = 1 - (maxDeltaE / 100) * 0.4 * (1 - averageOpacity * 0.5);
-  
-  // Apply dulling to the a and b components (chroma)
-  const chroma = calculateChroma(mixedLab);
-  const reducedChroma = chroma * dullingFactor;
-  
-  if (chroma > 0) {
-    const chromaticityRatio = reducedChroma / chroma;
-    mixedLab.a *= chromaticityRatio;
-    mixedLab.b *= chromaticityRatio;
-  }
-  
-  return mixedLab;
-};
-
-/**
- * Converts deltaE value to a match percentage (0-100)
- */
-const deltaEToPercentage = (deltaE: number): number => {
-  // DeltaE of 0 is perfect match (100%)
-  // DeltaE above 10 is very noticeable difference (0%)
-  const percentage = 100 - (deltaE * 5);
-  return Math.max(0, Math.min(100, percentage));
+  // Sort by match quality (descending)
+  return matches.sort((a, b) => b.matchPercentage - a.matchPercentage).slice(0, 15);
 };
 
 /**
@@ -485,4 +321,37 @@ const removeRedundantRecipes = (recipes: MixingRecipe[]): MixingRecipe[] => {
   }
   
   return uniqueRecipes;
-};
\ No newline at end of file
+};
+
+/**
+ * Searches every paint, pair and close-match triple, optimising the
+ * proportions of the most promising combinations
+ */
+const findExhaustiveMixtures = (request: MixingRequest): MixingEngineOutput => {
+  const stats: SearchStats = { evaluated: 0 };
+  const recipes = findOptimalPaintMixture(
+    request.target,
+    request.paints,
+    request.constraints.maxComponents,
+    request.deltaE,
+    request.illuminant,
+    stats,
+    request.onProgress && ((fraction, progressRecipes) => request.onProgress!({ fraction, recipes: progressRecipes })),
+    request.constraints.maxPigments ?? null,
+    request.constraints.maxRecipes
+  );
+
+  const optimized = recipes.find(recipe => recipe.optimization);
+  const notes = optimized && optimized.optimization
+    ? [`Proportions converged to ΔE ${optimized.optimization.deltaE.toFixed(2)} after ${optimized.optimization.iterations} iterations${optimized.optimization.converged ? '' : ' (iteration limit reached)'}`]
+    : [];
+
+  return { recipes, candidatesEvaluated: stats.evaluated, notes };
+};
+
+export const exhaustiveEngine: MixingEngine = {
+  id: 'exhaustive',
+  name: 'Exhaustive search',
+  description: 'Screens every single paint and every pair across all selected brands, plus triples of the closest paints, then optimises the proportions of the best combinations. Slower, but brand-agnostic.',
+  findMixtures: findExhaustiveMixtures
+};
@@ -0,0 +1,118 @@
+import { MixingRecipe } from '../context/PaintContext';
+import { getAllPaints } from '../data/paintDatabase';
+import { paint } from '../testing/paints';
+import { DEFAULT_DELTA_E_OPTIONS } from './colorDifference';
+import * as kubelkaMunk from './kubelkaMunk';
+import { mixPaints } from './kubelkaMunk';
+import { MIXING_ENGINES, MixingRequest, runMixingEngine, toMixingConstraints } from './mixingEngine';
+import { DEFAULT_RECIPE_CONSTRAINTS } from './recipeConstraints';
+
+const PALETTE = ['wn-titanium-white', 'wn-cadmium-yellow-pale', 'wn-cadmium-red', 'wn-french-ultramarine', 'wn-burnt-sienna'];
+
+const request = (overrides: Partial<MixingRequest> = {}): MixingRequest => {
+  return {
+    target: mixPaints([
+      { paint: paint('wn-french-ultramarine'), proportion: 0.2 },
+      { paint: paint('wn-burnt-sienna'), proportion: 0.3 },
+      { paint: paint('wn-titanium-white'), proportion: 0.5 }
+    ]),
+    paints: PALETTE.map(paint),
+    constraints: toMixingConstraints(DEFAULT_RECIPE_CONSTRAINTS),
+    illuminant: 'D65',
+    deltaE: DEFAULT_DELTA_E_OPTIONS,
+    ...overrides
+  };
+};
+
+describe('runMixingEngine', () => {
+  (['heuristic', 'exhaustive'] as const).forEach(engine => {
+    it(`keeps the ${engine} engine within the recipe and component limits`, () => {
+      const { recipes, diagnostics } = runMixingEngine(engine, request({
+        constraints: { maxComponents: 2, maxRecipes: 3 }
+      }));
+
+      expect(recipes.length).toBeGreaterThan(0);
+      expect(recipes.length).toBeLessThanOrEqual(3);
+      recipes.forEach(recipe => {
+        expect(recipe.paints.length).toBeLessThanOrEqual(2);
+        expect(recipe.pigmentCount).toBeGreaterThan(0);
+        expect(recipe.estimatedHexColor).toMatch(/^#[0-9a-f]{6}$/i);
+      });
+      expect(diagnostics.engine).toBe(engine);
+      expect(diagnostics.bestDeltaE).not.toBeNull();
+    });
+  });
+
+  it('counts every mix the heuristic engine scores once', () => {
+    const heuristicRequest = request();
+    const mixes = jest.spyOn(kubelkaMunk, 'mixPaints');
+    const { candidatesEvaluated } = MIXING_ENGINES.heuristic.findMixtures(heuristicRequest);
+
+    // The three closest single paints are scored from their own color, mixes through the pigment model
+    expect(mixes).toHaveBeenCalled();
+    expect(candidatesEvaluated).toBe(mixes.mock.calls.length + 3);
+    mixes.mockRestore();
+  });
+
+  it('reports paints the constraints leave out', () => {
+    const { recipes, diagnostics } = runMixingEngine('heuristic', request({
+      constraints: toMixingConstraints({ ...DEFAULT_RECIPE_CONSTRAINTS, bannedPaintIds: ['wn-cadmium-red'] })
+    }));
+
+    expect(diagnostics.excluded.map(exclusion => exclusion.paintId)).toEqual(['wn-cadmium-red']);
+    recipes.forEach(recipe => {
+      expect(recipe.paints.some(component => component.paint.id === 'wn-cadmium-red')).toBe(false);
+    });
+  });
+
+  it('leaves out recipes over the pigment limit', () => {
+    const { recipes } = runMixingEngine('exhaustive', request({
+      constraints: { maxComponents: 3, maxRecipes: 5, maxPigments: 2 }
+    }));
+
+    expect(recipes.length).toBeGreaterThan(0);
+    recipes.forEach(recipe => expect(recipe.pigmentCount).toBeLessThanOrEqual(2));
+  });
+
+  it('has the heuristic engine rank dark recipes by match alone', () => {
+    const paints = getAllPaints().filter(candidate => candidate.id.startsWith('wn-'));
+    const { recipes } = MIXING_ENGINES.heuristic.findMixtures(request({ target: { L: 25, a: 2, b: -4 }, paints }));
+
+    expect(recipes.length).toBeGreaterThan(1);
+    recipes.slice(1).forEach((recipe, i) => expect(recipe.matchPercentage).toBeLessThanOrEqual(recipes[i].matchPercentage));
+  });
+
+  it('ranks final and progress recipes with robustness breaking near-ties', () => {
+    const batches: MixingRecipe[][] = [];
+    const { recipes } = runMixingEngine('exhaustive', request({
+      target: { L: 80, a: -5, b: -15 },
+      paints: [...PALETTE, 'wn-phthalo-blue'].map(paint),
+      onProgress: progress => batches.push(progress.recipes)
+    }));
+    // Pairs where a recipe ranks above a closer match
+    const overtakes = (batch: MixingRecipe[]) => batch.flatMap((higher, i) => batch.slice(i + 1)
+      .filter(lower => lower.matchPercentage > higher.matchPercentage)
+      .map(lower => [higher, lower]));
+
+    expect(batches.length).toBeGreaterThan(0);
+    expect(overtakes(recipes).length).toBeGreaterThan(0);
+    [...batches, recipes].forEach(batch => {
+      batch.forEach(recipe => expect(recipe.robustness).toBeDefined());
+      // Only by being more forgiving to measure, and only over a near-tie
+      overtakes(batch).forEach(([higher, lower]) => {
+        expect(higher.robustness!.worstDeltaE).toBeLessThan(lower.robustness!.worstDeltaE);
+        expect(lower.matchPercentage - higher.matchPercentage).toBeLessThan(5);
+      });
+    });
+  });
+
+  it('returns no recipes when every paint is excluded', () => {
+    const { recipes, diagnostics } = runMixingEngine('exhaustive', request({
+      constraints: toMixingConstraints({ ...DEFAULT_RECIPE_CONSTRAINTS, bannedPaintIds: PALETTE })
+    }));
+
+    expect(recipes).toEqual([]);
+    expect(diagnostics.bestDeltaE).toBeNull();
+    expect(diagnostics.notes).toHaveLength(1);
+  });
+});
@@ -0,0 +1,173 @@
+import { Paint, MixingRecipe } from '../context/PaintContext';
+import { LABColor } from '../context/ColorContext';
+import { IlluminantId } from '../data/illuminants';
+import { labToRgb, rgbToHex } from './colorConversion';
+import { colorDifference, DeltaEOptions } from './colorDifference';
+import { heuristicEngine } from './heuristicMixing';
+import { exhaustiveEngine } from './mixingAlgorithm';
+import { countDistinctPigments } from './pigmentBreakdown';
+import { assessRobustness, rankByRobustness } from './recipeRobustness';
+import { applyPaintConstraints, PaintConstraints, PaintExclusion, RecipeConstraints } from './recipeConstraints';
+
+export type MixingEngineId = 'heuristic' | 'exhaustive';
+
+// Limits every engine has to respect; paint filters are applied before the engine runs
+export interface MixingConstraints extends Partial<PaintConstraints> {
+  maxComponents: number; // Most paints in one recipe
+  maxRecipes: number; // Most recipes returned
+  maxPigments?: number | null; // Most distinct pigments across a recipe's tubes
+}
+
+export const DEFAULT_MIXING_CONSTRAINTS: MixingConstraints = {
+  maxComponents: 3,
+  maxRecipes: 5
+};
+
+/**
+ * Mixing constraints for a user's recipe constraints
+ */
+export const toMixingConstraints = (
+  recipeConstraints: RecipeConstraints,
+  base: MixingConstraints = DEFAULT_MIXING_CONSTRAINTS
+): MixingConstraints => {
+  const { maxPaints, maxPigments, ...paintConstraints } = recipeConstraints;
+  return {
+    ...base,
+    ...paintConstraints,
+    maxComponents: Math.min(base.maxComponents, maxPaints),
+    maxPigments: maxPigments ?? base.maxPigments
+  };
+};
+
+export interface MixingRequest {
+  target: LABColor; // Relative to the illuminant's white
+  paints: Paint[]; // Database paints to choose from
+  constraints: MixingConstraints;
+  illuminant: IlluminantId;
+  deltaE: DeltaEOptions;
+  onProgress?: (progress: MixingProgress) => void; // Called with the best recipes found so far
+}
+
+export interface MixingProgress {
+  fraction: number; // 0-1 share of the search completed
+  recipes: MixingRecipe[]; // Best so far, best match first
+}
+
+// What an engine reports back; timing and ranking are added by runMixingEngine
+export interface MixingEngineOutput {
+  recipes: MixingRecipe[];
+  candidatesEvaluated: number;
+  notes?: string[];
+}
+
+export interface MixingDiagnostics {
+  engine: MixingEngineId;
+  candidatesEvaluated: number;
+  durationMs: number;
+  bestDeltaE: number | null;
+  notes: string[];
+  excluded: PaintExclusion[]; // Paints the constraints kept out of the search
+}
+
+export interface MixingResult {
+  recipes: MixingRecipe[]; // Best match first
+  diagnostics: MixingDiagnostics;
+}
+
+export interface MixingEngine {
+  id: MixingEngineId;
+  name: string;
+  description: string;
+  findMixtures: (request: MixingRequest) => MixingEngineOutput;
+}
+
+export const MIXING_ENGINES: Record<MixingEngineId, MixingEngine> = {
+  heuristic: heuristicEngine,
+  exhaustive: exhaustiveEngine
+};
+
+export const DEFAULT_MIXING_ENGINE: MixingEngineId = 'heuristic';
+
+// Engines are asked for this many times the recipes wanted when a pigment
+// limit is set, so enough survive the limit
+const PIGMENT_LIMIT_HEADROOM = 4;
+
+// Otherwise they are asked for this many times, so robustness can move a
+// close runner-up into the list
+const RANKING_HEADROOM = 2;
+
+/**
+ * Runs a mixing engine and normalises its output and progress reports:
+ * paints failing the constraints are left out, recipes over the component
+ * or pigment limit are dropped, pigment counts, robustness and missing
+ * preview colors are filled in, recipes are ranked with robustness breaking
+ * near-ties, and the run is timed and summarised in diagnostics
+ */
+export const runMixingEngine = (engineId: MixingEngineId, request: MixingRequest): MixingResult => {
+  const engine = MIXING_ENGINES[engineId] || MIXING_ENGINES[DEFAULT_MIXING_ENGINE];
+  const { maxComponents, maxRecipes, maxPigments } = request.constraints;
+  const countPigments = (recipe: MixingRecipe): number =>
+    countDistinctPigments(recipe.paints.map(component => component.paint));
+  const overPigmentLimit = (recipe: MixingRecipe): boolean => !!maxPigments && countPigments(recipe) > maxPigments;
+  const normalise = (recipes: MixingRecipe[]): MixingRecipe[] => rankByRobustness(recipes
+    .filter(recipe => recipe.paints.length <= maxComponents && !overPigmentLimit(recipe))
+    .map(recipe => ({
+      ...recipe,
+      pigmentCount: countPigments(recipe),
+      robustness: recipe.robustness || assessRobustness(recipe.paints, request.illuminant, request.deltaE)
+    })))
+    .slice(0, maxRecipes)
+    .map(recipe => recipe.estimatedHexColor || !recipe.estimatedLabColor
+      ? recipe
+      : { ...recipe, estimatedHexColor: rgbToHex(labToRgb(recipe.estimatedLabColor, request.illuminant)) }
+    );
+  const { onProgress } = request;
+  const { paints, excluded } = applyPaintConstraints(request.paints, request.constraints);
+
+  if (paints.length === 0) {
+    return {
+      recipes: [],
+      diagnostics: {
+        engine: engine.id,
+        candidatesEvaluated: 0,
+        durationMs: 0,
+        bestDeltaE: null,
+        notes: ['Every paint was excluded by the recipe constraints'],
+        excluded
+      }
+    };
+  }
+
+  const constraints = {
+    ...request.constraints,
+    maxRecipes: maxRecipes * (maxPigments ? PIGMENT_LIMIT_HEADROOM : RANKING_HEADROOM)
+  };
+  const started = performance.now();
+  const output = engine.findMixtures(onProgress
+    ? { ...request, paints, constraints, onProgress: progress => onProgress({ ...progress, recipes: normalise(progress.recipes) }) }
+    : { ...request, paints, constraints }
+  );
+  const durationMs = performance.now() - started;
+
+  const recipes = normalise(output.recipes);
+  const notes = [...(output.notes || [])];
+  if (output.recipes.some(overPigmentLimit)) {
+    notes.push(`Recipes with more than ${maxPigments} distinct pigments were left out`);
+  }
+
+  const differences = recipes
+    .filter(recipe => recipe.estimatedLabColor)
+    .map(recipe => colorDifference(request.target, recipe.estimatedLabColor!, request.deltaE));
+
+  return {
+    recipes,
+    diagnostics: {
+      engine: engine.id,
+      candidatesEvaluated: output.candidatesEvaluated,
+      durationMs,
+      bestDeltaE: differences.length > 0 ? Math.min(...differences) : null,
+      notes,
+      excluded
+    }
+  };
+};
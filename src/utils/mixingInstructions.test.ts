@@ -0,0 +1,65 @@
+import { MixingRecipe } from '../context/PaintContext';
+import { paint } from '../testing/paints';
+import { colorDifference } from './colorDifference';
+import { mixPaints } from './kubelkaMunk';
+import { generateMixingInstructions, orderForMixing } from './mixingInstructions';
+
+const white = paint('wn-titanium-white');
+const sienna = paint('wn-burnt-sienna');
+const ultramarine = paint('wn-french-ultramarine');
+const phthalo = paint('wn-phthalo-blue');
+
+const recipe = (paints: MixingRecipe['paints']): MixingRecipe => ({ paints, matchPercentage: 90 });
+
+describe('orderForMixing', () => {
+  it('puts white first and strong tinters last, lightest first in between', () => {
+    const ordered = orderForMixing([
+      { paint: phthalo, proportion: 0.1 },
+      { paint: ultramarine, proportion: 0.2 },
+      { paint: sienna, proportion: 0.2 },
+      { paint: white, proportion: 0.5 },
+      { paint: paint('wn-viridian'), proportion: 0 }
+    ]);
+    expect(ordered.map(component => component.paint)).toEqual([white, sienna, ultramarine, phthalo]);
+  });
+});
+
+describe('generateMixingInstructions', () => {
+  const components = [
+    { paint: phthalo, proportion: 0.1 },
+    { paint: sienna, proportion: 0.3 },
+    { paint: white, proportion: 0.6 }
+  ];
+  const steps = generateMixingInstructions(recipe(components));
+
+  it('starts from the white and adds a strong tinter in increments', () => {
+    expect(steps.map(step => step.kind)).toEqual(['start', 'add', 'increment', 'increment', 'increment', 'increment']);
+    expect(steps[0].paint).toBe(white);
+    steps.slice(2).forEach(step => expect(step.paint).toBe(phthalo));
+  });
+
+  it('adds up to the whole recipe and predicts its color at the end', () => {
+    expect(steps.reduce((sum, step) => sum + step.amount, 0)).toBeCloseTo(1, 9);
+    expect(colorDifference(steps[steps.length - 1].lab, mixPaints(components))).toBeLessThan(0.01);
+  });
+
+  it('asks for a check before the last 10% of the tinter', () => {
+    const checkpoints = steps.filter(step => step.checkpoint);
+    expect(checkpoints).toHaveLength(1);
+    expect(checkpoints[0]).toBe(steps[steps.length - 2]);
+    expect(steps[steps.length - 1].amount).toBeCloseTo(0.01, 9);
+  });
+
+  it('darkens the mix as the tinter goes in', () => {
+    steps.slice(2).forEach((step, i) => expect(step.lab.L).toBeLessThan(steps[i + 1].lab.L));
+  });
+
+  it('uses a single paint straight from the tube', () => {
+    const [only] = generateMixingInstructions(recipe([{ paint: sienna, proportion: 1 }]));
+    expect(only).toMatchObject({ kind: 'start', amount: 1, text: `Use ${sienna.name} straight from the tube` });
+  });
+
+  it('has nothing to say about an empty recipe', () => {
+    expect(generateMixingInstructions(recipe([]))).toEqual([]);
+  });
+});
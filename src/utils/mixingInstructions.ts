@@ -0,0 +1,111 @@
+import { MixingRecipe, Paint } from '../context/PaintContext';
+import { LABColor } from '../context/ColorContext';
+import { IlluminantId } from '../data/illuminants';
+import { labToRgb, rgbToHex } from './colorConversion';
+import { mixPaints } from './kubelkaMunk';
+import { getPaintLab } from './spectral';
+
+type PaintComponent = { paint: Paint; proportion: number };
+
+// Shares of a strong paint's amount added one after another; the last is the final 10%
+const INCREMENT_SHARES = [0.5, 0.25, 0.15, 0.1];
+
+export interface MixingStep {
+  paint: Paint;
+  kind: 'start' | 'add' | 'increment';
+  amount: number; // Share of the finished mix this step adds
+  text: string;
+  mix: PaintComponent[]; // What is on the palette after this step, as shares of the finished mix
+  lab: LABColor; // Predicted color after this step
+  hex: string;
+  checkpoint?: string; // What to compare against before going on
+}
+
+const isWhitePaint = (paint: Paint): boolean =>
+  paint.pigmentCodes.length > 0 && paint.pigmentCodes.every(code => /^PW/i.test(code));
+
+const formatShare = (share: number): string => (share < 0.01 ? '<1%' : `${Math.round(share * 100)}%`);
+
+/**
+ * Orders a recipe's paints for mixing: white first, then the weaker paints
+ * from lightest to darkest, and paints with high tinting strength last so
+ * they can be added a little at a time
+ */
+export const orderForMixing = (paints: PaintComponent[]): PaintComponent[] => {
+  const lightness = (paint: Paint): number => getPaintLab(paint)?.L ?? 50;
+  const rank = (paint: Paint): number => {
+    if (isWhitePaint(paint)) return 0;
+    return paint.tintingStrength === 'High' ? 2 : 1;
+  };
+
+  return [...paints]
+    .filter(component => component.proportion > 0)
+    .sort((a, b) => rank(a.paint) - rank(b.paint) || lightness(b.paint) - lightness(a.paint));
+};
+
+/**
+ * Turns a recipe into ordered studio steps with the predicted color after
+ * each one. High-tinting-strength paints after the first are split into
+ * increments, with a checkpoint swatch before their last 10%.
+ */
+export const generateMixingInstructions = (
+  recipe: MixingRecipe,
+  illuminant: IlluminantId = 'D65'
+): MixingStep[] => {
+  const ordered = orderForMixing(recipe.paints);
+  const total = ordered.reduce((sum, component) => sum + component.proportion, 0);
+  if (ordered.length === 0 || total <= 0) return [];
+
+  const steps: MixingStep[] = [];
+  const onPalette = new Map<Paint, number>();
+
+  const addStep = (paint: Paint, amount: number, kind: MixingStep['kind'], text: string, checkpoint?: string) => {
+    onPalette.set(paint, (onPalette.get(paint) || 0) + amount);
+    const mix = Array.from(onPalette, ([mixPaint, proportion]) => ({ paint: mixPaint, proportion }));
+    const lab = mixPaints(mix, illuminant);
+    steps.push({ paint, kind, amount, text, mix, lab, hex: rgbToHex(labToRgb(lab, illuminant)), checkpoint });
+  };
+
+  ordered.forEach(({ paint, proportion }, index) => {
+    const share = proportion / total;
+
+    if (ordered.length === 1) {
+      addStep(paint, share, 'start', `Use ${paint.name} straight from the tube`);
+      return;
+    }
+
+    if (index === 0) {
+      const reason = isWhitePaint(paint)
+        ? 'the white, so darker paints go into it'
+        : paint.tintingStrength === 'High'
+          ? 'the lightest paint'
+          : 'the lightest of the weaker paints';
+      addStep(paint, share, 'start', `Put out ${formatShare(share)} ${paint.name} (${reason})`);
+      return;
+    }
+
+    if (paint.tintingStrength !== 'High') {
+      addStep(paint, share, 'add', `Add ${formatShare(share)} ${paint.name} and mix it in thoroughly`);
+      return;
+    }
+
+    INCREMENT_SHARES.forEach((increment, i) => {
+      const isLast = i === INCREMENT_SHARES.length - 1;
+      const beforeLast = i === INCREMENT_SHARES.length - 2;
+      const text = isLast
+        ? `Add the last ${formatShare(share * increment)} ${paint.name} only if the mix still needs it`
+        : i === 0
+          ? `${paint.name} is a strong tinter: add ${formatShare(share * increment)} and mix well`
+          : `Add another ${formatShare(share * increment)} ${paint.name}`;
+      addStep(
+        paint,
+        share * increment,
+        'increment',
+        text,
+        beforeLast ? `the mix should look like this swatch before the last 10% of ${paint.name} goes in` : undefined
+      );
+    });
+  });
+
+  return steps;
+};
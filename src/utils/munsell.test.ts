@@ -0,0 +1,62 @@
+import { rgbToLab } from './colorConversion';
+import { formatMunsell, labToMunsell, MunsellColor, munsellToLab, parseMunsell } from './munsell';
+
+const hueStep = (hue: string): number => {
+  const families = ['R', 'YR', 'Y', 'GY', 'G', 'BG', 'B', 'PB', 'P', 'RP'];
+  const [, number, family] = hue.match(/^([\d.]+)([A-Z]+)$/)!;
+  return families.indexOf(family) * 10 + parseFloat(number);
+};
+
+describe('munsellToLab and labToMunsell', () => {
+  it('round-trip renotation colors across hues, values and chromas', () => {
+    ['5R 4/14', '5Y 8/12', '7.5PB 3/10', '10GY 6/6', '2.5YR 5/2', '5P 2/8'].forEach(notation => {
+      const munsell = labToMunsell(munsellToLab(parseMunsell(notation)!)!);
+      const expected = parseMunsell(notation)!;
+      expect(hueStep(munsell.hue)).toBeCloseTo(hueStep(expected.hue), 1);
+      expect(munsell.value).toBeCloseTo(expected.value, 2);
+      expect(munsell.chroma).toBeCloseTo(expected.chroma, 1);
+    });
+  });
+
+  it('places the sRGB primaries in their hue families', () => {
+    const red = labToMunsell(rgbToLab({ r: 255, g: 0, b: 0 }));
+    expect(formatMunsell(red)).toBe('7.8R 5.2/20.4');
+    expect(labToMunsell(rgbToLab({ r: 0, g: 0, b: 255 })).hue).toMatch(/PB$/);
+    expect(labToMunsell(rgbToLab({ r: 0, g: 255, b: 0 })).hue).toMatch(/GY$/);
+  });
+
+  it('follows the renotation rather than a fixed hue angle as value changes', () => {
+    const dark = labToMunsell({ L: 30, a: 20, b: 20 });
+    const light = labToMunsell({ L: 70, a: 20, b: 20 });
+    expect(Math.abs(hueStep(dark.hue) - hueStep(light.hue))).toBeGreaterThan(1);
+    expect(dark.chroma).not.toBeCloseTo(light.chroma, 0);
+  });
+
+  it('maps neutrals onto the value scale', () => {
+    expect(labToMunsell({ L: 0, a: 0, b: 0 })).toEqual({ hue: 'N', value: 0, chroma: 0 });
+    expect(labToMunsell({ L: 100, a: 0, b: 0 }).value).toBeCloseTo(10, 1);
+    const middle = munsellToLab({ hue: 'N', value: 5, chroma: 0 })!;
+    expect(Math.hypot(middle.a, middle.b)).toBeLessThan(0.05);
+    expect(labToMunsell(middle).value).toBeCloseTo(5, 3);
+  });
+
+  it('returns null for an unknown hue', () => {
+    expect(munsellToLab({ hue: '5Q', value: 5, chroma: 4 })).toBeNull();
+  });
+});
+
+describe('parseMunsell and formatMunsell', () => {
+  it('reads chromatic and neutral notation', () => {
+    expect(parseMunsell('7.5pb 3.5/12')).toEqual({ hue: '7.5PB', value: 3.5, chroma: 12 });
+    expect(parseMunsell('10R 4/6')).toEqual({ hue: '10R', value: 4, chroma: 6 });
+    expect(parseMunsell('N 5/')).toEqual({ hue: 'N', value: 5, chroma: 0 });
+    expect(parseMunsell('5R 11/4')).toBeNull();
+    expect(parseMunsell('red')).toBeNull();
+  });
+
+  it('writes standard notation', () => {
+    const color: MunsellColor = { hue: '5R', value: 4, chroma: 14 };
+    expect(formatMunsell(color)).toBe('5R 4/14');
+    expect(formatMunsell({ hue: 'N', value: 2.04, chroma: 0 })).toBe('N 2/');
+  });
+});
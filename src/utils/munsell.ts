@@ -0,0 +1,118 @@
+import { mhvcToXyz, xyzToMhvc } from 'munsell';
+import { LABColor } from '../context/ColorContext';
+import { Paint } from '../context/PaintContext';
+import { labToXyz, xyzToLab } from './colorConversion';
+import { getSourcePaint } from './spectral';
+
+export interface MunsellColor {
+  hue: string; // e.g. "5R", "7.5PB", or "N" for neutrals
+  value: number; // 0 (black) to 10 (white)
+  chroma: number; // 0 for neutrals
+}
+
+const MUNSELL_HUE_FAMILIES = ['R', 'YR', 'Y', 'GY', 'G', 'BG', 'B', 'PB', 'P', 'RP'] as const;
+
+// Colors with less CIELAB chroma than this are written as neutrals (N)
+const NEUTRAL_CHROMA = 1.0;
+
+const roundTo = (value: number, step: number): number => Math.round(value / step) * step;
+
+const trimNumber = (value: number): string => String(parseFloat(value.toFixed(1)));
+
+/**
+ * Parses a Munsell hue such as "2.5YR" into its step number (0-100], or null for neutrals
+ */
+const hueToStep = (hue: string): number | null => {
+  const match = hue.trim().toUpperCase().match(/^(\d+(?:\.\d+)?)\s*(R|YR|Y|GY|G|BG|B|PB|P|RP)$/);
+  if (!match) return null;
+
+  const number = parseFloat(match[1]);
+  if (number <= 0 || number > 10) return null;
+
+  const family = MUNSELL_HUE_FAMILIES.indexOf(match[2] as typeof MUNSELL_HUE_FAMILIES[number]);
+  return family * 10 + number;
+};
+
+const stepToHue = (step: number): string => {
+  // Hue numbers run 0 < n <= 10 within a family, so 0YR is written 10R
+  let rounded = roundTo(((step % 100) + 100) % 100, 0.1);
+  if (rounded <= 0) rounded = 100;
+  const family = Math.min(9, Math.ceil(rounded / 10) - 1);
+  return `${trimNumber(rounded - family * 10)}${MUNSELL_HUE_FAMILIES[family]}`;
+};
+
+/**
+ * Converts a LAB color (D65) to Munsell hue, value and chroma by inverting
+ * the interpolated Munsell renotation data, which is defined under
+ * illuminant C and reached through Bradford adaptation
+ */
+export const labToMunsell = (lab: LABColor): MunsellColor => {
+  const clamped = { ...lab, L: Math.max(0, Math.min(100, lab.L)) };
+  // 'last' keeps the closest estimate rather than throwing when the inversion
+  // hasn't converged, as happens far outside the renotation data
+  const [step, value, chroma] = xyzToMhvc(...labToXyz(clamped), undefined, undefined, undefined, 'last');
+
+  if (Math.sqrt(lab.a * lab.a + lab.b * lab.b) < NEUTRAL_CHROMA) {
+    return { hue: 'N', value, chroma: 0 };
+  }
+
+  return { hue: stepToHue(step), value, chroma };
+};
+
+/**
+ * Converts a Munsell color to LAB (D65) by interpolating the renotation data
+ */
+export const munsellToLab = (munsell: MunsellColor): LABColor | null => {
+  const value = Math.max(0, Math.min(10, munsell.value));
+  if (munsell.hue.trim().toUpperCase() === 'N' || munsell.chroma <= 0) {
+    return xyzToLab(mhvcToXyz(0, value, 0));
+  }
+
+  const step = hueToStep(munsell.hue);
+  if (step === null) return null;
+
+  return xyzToLab(mhvcToXyz(step, value, munsell.chroma));
+};
+
+/**
+ * Formats a Munsell color in standard notation, e.g. "5R 4/14" or "N 2/"
+ */
+export const formatMunsell = (munsell: MunsellColor): string => {
+  const value = trimNumber(munsell.value);
+  if (munsell.hue === 'N' || munsell.chroma <= 0) {
+    return `N ${value}/`;
+  }
+  return `${munsell.hue} ${value}/${trimNumber(munsell.chroma)}`;
+};
+
+/**
+ * Parses Munsell notation such as "5R 4/14", "7.5pb 3.5/12" or "N 5/",
+ * returning null when the notation is not valid
+ */
+export const parseMunsell = (notation: string): MunsellColor | null => {
+  const neutral = notation.trim().match(/^N\s*(\d+(?:\.\d+)?)\s*(?:\/\s*0?)?$/i);
+  if (neutral) {
+    const value = parseFloat(neutral[1]);
+    return value <= 10 ? { hue: 'N', value, chroma: 0 } : null;
+  }
+
+  const match = notation.trim().match(/^(\d+(?:\.\d+)?\s*[A-Za-z]{1,2})\s+(\d+(?:\.\d+)?)\s*\/\s*(\d+(?:\.\d+)?)$/);
+  if (!match) return null;
+
+  const step = hueToStep(match[1]);
+  const value = parseFloat(match[2]);
+  const chroma = parseFloat(match[3]);
+  if (step === null || value > 10) return null;
+
+  return { hue: stepToHue(step), value, chroma };
+};
+
+/**
+ * Returns a paint's Munsell notation, computing it from the paint's LAB color
+ * when the database doesn't list one
+ */
+export const getPaintMunsell = (paint: Paint): MunsellColor | null => {
+  const source = getSourcePaint(paint);
+  if (source.munsell) return source.munsell;
+  return source.lab ? labToMunsell(source.lab) : null;
+};
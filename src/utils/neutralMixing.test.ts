@@ -0,0 +1,99 @@
+import { Paint } from '../context/PaintContext';
+import { brandPaints, paint } from '../testing/paints';
+import { calculateChroma } from './colorConversion';
+import { mixPaints } from './kubelkaMunk';
+import {
+  biasedGrey,
+  buildGreyScale,
+  findCancellingSets,
+  findChromaticBlacks,
+  findNeutralMixes,
+  isWhitePaint
+} from './neutralMixing';
+import { valueToLightness } from './valueLadder';
+
+const wnPaints = brandPaints('wn-titanium-white');
+const isBlack = (candidate: Paint): boolean => candidate.pigmentCodes.some(code => code.startsWith('PBk'));
+
+describe('isWhitePaint', () => {
+  it('goes by pigments, not names', () => {
+    const white = paint('wn-titanium-white');
+    expect(isWhitePaint(white)).toBe(true);
+    expect(isWhitePaint({ ...white, pigmentCodes: ['PW6', 'PY35'] })).toBe(false);
+    expect(isWhitePaint({ ...paint('wn-cadmium-red'), name: 'Flake White Hue', pigmentCodes: [] })).toBe(false);
+  });
+});
+
+describe('biasedGrey', () => {
+  it('leans warm or cool by a little chroma and stays neutral otherwise', () => {
+    expect(biasedGrey(50, 'neutral')).toEqual({ L: 50, a: 0, b: 0 });
+    expect(calculateChroma(biasedGrey(50, 'warm'))).toBeCloseTo(4, 9);
+    expect(biasedGrey(50, 'warm').b).toBeGreaterThan(0);
+    expect(biasedGrey(50, 'cool').b).toBeLessThan(0);
+  });
+});
+
+describe('findCancellingSets', () => {
+  it('pairs and groups chromatic paints from around the hue circle', () => {
+    const sets = findCancellingSets(wnPaints);
+    expect(sets.length).toBeGreaterThan(0);
+    sets.forEach(set => {
+      expect(set.length === 2 || set.length === 3).toBe(true);
+      set.forEach(member => {
+        expect(isWhitePaint(member)).toBe(false);
+        expect(isBlack(member)).toBe(false);
+      });
+    });
+  });
+});
+
+describe('findChromaticBlacks', () => {
+  const blacks = findChromaticBlacks(wnPaints);
+
+  it('mixes dark blacks whose hues actually cancel', () => {
+    (['warm', 'neutral', 'cool'] as const).forEach(bias => {
+      const black = blacks[bias]!;
+      const lab = mixPaints(black);
+      const grey = biasedGrey(lab.L, bias);
+      expect(Math.hypot(lab.a - grey.a, lab.b - grey.b)).toBeLessThanOrEqual(4);
+      expect(lab.L).toBeLessThan(40);
+      black.forEach(({ paint: member }) => expect(isBlack(member)).toBe(false));
+    });
+  });
+
+  it('makes none from paints that cannot cancel', () => {
+    expect(findChromaticBlacks([paint('wn-french-ultramarine'), paint('wn-phthalo-blue')]))
+      .toEqual({ warm: null, neutral: null, cool: null });
+  });
+});
+
+describe('findNeutralMixes', () => {
+  const mixes = findNeutralMixes(wnPaints, { bias: 'neutral', value: 5 });
+
+  it('balances greys at the value, best first', () => {
+    expect(mixes.length).toBeGreaterThan(0);
+    expect(mixes[0].reached).toBe(true);
+    expect(mixes[0].residualDeltaE).toBeLessThan(3);
+    expect(mixes[0].lab.L).toBeCloseTo(valueToLightness(5), 0);
+    mixes.slice(1).filter(mix => mix.reached).forEach(mix => {
+      expect(mix.residualDeltaE).toBeGreaterThanOrEqual(mixes[0].residualDeltaE);
+    });
+  });
+
+  it('lightens with white', () => {
+    expect(mixes[0].recipe.some(component => isWhitePaint(component.paint))).toBe(true);
+  });
+});
+
+describe('buildGreyScale', () => {
+  it('steps from light to dark, hitting every value it can reach', () => {
+    const [mix] = findNeutralMixes(wnPaints, { bias: 'cool', value: 5 });
+    const scale = buildGreyScale(mix.paints, wnPaints, { bias: 'cool', steps: 7 });
+
+    expect(scale.steps.map(step => step.value)).toEqual([8, 7, 6, 5, 4, 3, 2]);
+    expect(scale.white!.pigmentCodes).toContain('PW6');
+    scale.steps.filter(step => step.reached).forEach(step => {
+      expect(Math.abs(step.lab.L - valueToLightness(step.value))).toBeLessThanOrEqual(0.5);
+    });
+  });
+});
@@ -0,0 +1,309 @@
+import { Paint } from '../context/PaintContext';
+import { LABColor } from '../context/ColorContext';
+import { IlluminantId } from '../data/illuminants';
+import { calculateChroma, calculateHueAngle, labToRgb, rgbToHex } from './colorConversion';
+import { colorDifference, DEFAULT_DELTA_E_OPTIONS, DeltaEOptions } from './colorDifference';
+import { mixPaints } from './kubelkaMunk';
+import { labToMunsell, MunsellColor } from './munsell';
+import { findWhite, LadderStepCount, solveAgentShare, valueToLightness } from './valueLadder';
+
+type PaintComponent = { paint: Paint; proportion: number };
+
+export type NeutralBias = 'warm' | 'neutral' | 'cool';
+
+export const NEUTRAL_BIASES: Record<NeutralBias, { id: NeutralBias; name: string; description: string; hue: number; chroma: number }> = {
+  warm: {
+    id: 'warm',
+    name: 'Warm grey',
+    description: 'Leans slightly to orange-brown, like an umber grey.',
+    hue: 70,
+    chroma: 4
+  },
+  neutral: {
+    id: 'neutral',
+    name: 'True neutral',
+    description: 'Leans neither way; a Munsell N grey.',
+    hue: 0,
+    chroma: 0
+  },
+  cool: {
+    id: 'cool',
+    name: 'Cool grey',
+    description: "Leans slightly to blue, like a Payne's grey.",
+    hue: 250,
+    chroma: 4
+  }
+};
+
+export interface NeutralMix {
+  paints: Paint[]; // Chromatic paints that cancel each other
+  recipe: PaintComponent[]; // The balanced mix at the requested value, white included
+  lab: LABColor;
+  hex: string;
+  munsell: MunsellColor;
+  residualDeltaE: number; // From the ideal grey at the mix's value and bias
+  reached: boolean; // False when the requested value is out of reach
+}
+
+export interface GreyScaleStep {
+  value: number; // Munsell value the step aims for
+  recipe: PaintComponent[];
+  lab: LABColor;
+  hex: string;
+  munsell: MunsellColor;
+  residualDeltaE: number;
+  reached: boolean;
+}
+
+export interface GreyScale {
+  bias: NeutralBias;
+  paints: Paint[]; // The cancelling paints, rebalanced at each step
+  white: Paint | null;
+  steps: GreyScaleStep[]; // Lightest first
+}
+
+// Darkest and lightest Munsell values a grey scale spans
+const GREY_SCALE_VALUES: Record<LadderStepCount, [number, number]> = { 7: [2, 8], 9: [1, 9] };
+
+// Paints greyer than this add little to a cancellation
+const MIN_CANCELLING_CHROMA = 12;
+
+// Smallest hue angle between the two paints of a complementary pair
+const MIN_PAIR_HUE_DIFFERENCE = 120;
+
+// Largest gap between a triad's hues; below 180° the three surround grey
+const MAX_TRIAD_HUE_GAP = 160;
+
+// Most chromatic paints that triads are formed from, to bound the search
+const TRIAD_CANDIDATES = 12;
+
+// Paints darker than this can make a chromatic black
+const CHROMATIC_BLACK_MAX_L = 50;
+
+// Cancellations kept from the masstone screen for balancing at a value
+const SHORTLIST_SIZE = 10;
+
+// Residual chroma at or below which a set's hues count as cancelled
+const CANCELLED_CHROMA = 4;
+
+const GRID_STEP = 0.05;
+
+// Pairs are screened more finely, as a strong tinter can cancel its partner at a few percent
+const PAIR_GRID_STEP = 0.01;
+
+const MIN_PROPORTION = 0.01;
+
+/**
+ * Whether a tube is a white, judged by its pigments alone
+ */
+export const isWhitePaint = (paint: Paint): boolean =>
+  paint.pigmentCodes.length > 0 && paint.pigmentCodes.every(code => /^PW\d/i.test(code));
+
+const isBlackPaint = (paint: Paint): boolean => paint.pigmentCodes.some(code => code.toUpperCase().startsWith('PBK'));
+
+// Same pigments in other brands' tubes count as the same set
+const pigmentKey = (set: Paint[]): string => Array.from(new Set(set.flatMap(paint =>
+  paint.pigmentCodes.length > 0 ? paint.pigmentCodes.map(code => code.toUpperCase()) : [paint.id]
+))).sort().join('+');
+
+const hueDifference = (a: number, b: number): number => {
+  const difference = Math.abs(a - b) % 360;
+  return difference > 180 ? 360 - difference : difference;
+};
+
+/**
+ * The grey a bias aims for at a lightness
+ */
+export const biasedGrey = (L: number, bias: NeutralBias): LABColor => {
+  const { hue, chroma } = NEUTRAL_BIASES[bias];
+  const angle = hue * Math.PI / 180;
+  return { L, a: chroma * Math.cos(angle), b: chroma * Math.sin(angle) };
+};
+
+// How far a color is from its bias's grey in a*b*, whatever its lightness
+const residualChroma = (lab: LABColor, bias: NeutralBias): number => {
+  const grey = biasedGrey(lab.L, bias);
+  return Math.sqrt((lab.a - grey.a) ** 2 + (lab.b - grey.b) ** 2);
+};
+
+// Proportions over k paints on a grid, every paint getting a share
+const proportionGrid = (k: number, step: number = GRID_STEP): number[][] => {
+  const units = Math.round(1 / step);
+  if (k === 2) return Array.from({ length: units - 1 }, (_, i) => [(i + 1) / units, (units - i - 1) / units]);
+  const grid: number[][] = [];
+  for (let i = 1; i < units - 1; i++) {
+    for (let j = 1; i + j < units; j++) grid.push([i / units, j / units, (units - i - j) / units]);
+  }
+  return grid;
+};
+
+/**
+ * Chromatic paints whose hues can cancel: complementary pairs at least
+ * 120° apart, and triads whose hues surround grey. Whites, blacks and
+ * near-greys are left out, so the result does not depend on paint names.
+ */
+export const findCancellingSets = (paints: Paint[], illuminant: IlluminantId = 'D65'): Paint[][] => {
+  const candidates = paints
+    .filter(paint => !isWhitePaint(paint) && !isBlackPaint(paint))
+    .map(paint => ({ paint, lab: mixPaints([{ paint, proportion: 1 }], illuminant) }))
+    .filter(({ lab }) => calculateChroma(lab) >= MIN_CANCELLING_CHROMA)
+    .map(({ paint, lab }) => ({ paint, hue: calculateHueAngle(lab), chroma: calculateChroma(lab) }));
+
+  const sets: Paint[][] = [];
+  candidates.forEach((first, i) => candidates.slice(i + 1).forEach(second => {
+    if (hueDifference(first.hue, second.hue) >= MIN_PAIR_HUE_DIFFERENCE) sets.push([first.paint, second.paint]);
+  }));
+
+  const strongest = [...candidates].sort((a, b) => b.chroma - a.chroma).slice(0, TRIAD_CANDIDATES);
+  strongest.forEach((first, i) => strongest.slice(i + 1).forEach((second, j) => strongest.slice(i + j + 2).forEach(third => {
+    const hues = [first.hue, second.hue, third.hue].sort((a, b) => a - b);
+    const largestGap = Math.max(hues[1] - hues[0], hues[2] - hues[1], 360 - hues[2] + hues[0]);
+    if (largestGap < MAX_TRIAD_HUE_GAP) sets.push([first.paint, second.paint, third.paint]);
+  })));
+
+  return sets;
+};
+
+// Grid proportions of a set of paints with the lowest score on the mix, among
+// the mixes accepted; null when none is
+const balanceMasstone = (
+  set: Paint[],
+  illuminant: IlluminantId,
+  score: (lab: LABColor) => number,
+  accept: (lab: LABColor) => boolean = () => true
+): { components: PaintComponent[]; lab: LABColor; score: number } | null => proportionGrid(set.length, set.length === 2 ? PAIR_GRID_STEP : GRID_STEP)
+  .map(shares => {
+    const components = set.map((paint, i) => ({ paint, proportion: shares[i] }));
+    const lab = mixPaints(components, illuminant);
+    return { components, lab, score: score(lab) };
+  })
+  .filter(candidate => accept(candidate.lab))
+  .reduce<{ components: PaintComponent[]; lab: LABColor; score: number } | null>(
+    (best, candidate) => (!best || candidate.score < best.score ? candidate : best), null
+  );
+
+// Rebalances a set at a lightness: for each grid proportion the white share
+// is solved to reach the lightness, and the mix closest to the biased grey wins
+const balanceAt = (
+  set: Paint[],
+  white: Paint | null,
+  targetL: number,
+  bias: NeutralBias,
+  illuminant: IlluminantId,
+  deltaEOptions: DeltaEOptions
+): { recipe: PaintComponent[]; lab: LABColor; residualDeltaE: number; reached: boolean } => {
+  const grey = biasedGrey(targetL, bias);
+
+  return proportionGrid(set.length)
+    .map(shares => {
+      const base = set.map((paint, i) => ({ paint, proportion: shares[i] }));
+      const withWhite = (share: number): PaintComponent[] => [
+        ...base.map(component => ({ ...component, proportion: component.proportion * (1 - share) })),
+        ...(white ? [{ paint: white, proportion: share }] : [])
+      ];
+      const { share, reached } = solveAgentShare(t => mixPaints(withWhite(white ? t : 0), illuminant).L, targetL);
+      const recipe = withWhite(white ? share : 0).filter(component => component.proportion >= MIN_PROPORTION);
+      const lab = mixPaints(recipe, illuminant);
+      return { recipe, lab, residualDeltaE: colorDifference(grey, lab, deltaEOptions), reached };
+    })
+    .reduce((best, candidate) => {
+      if (candidate.reached !== best.reached) return candidate.reached ? candidate : best;
+      return candidate.residualDeltaE < best.residualDeltaE ? candidate : best;
+    });
+};
+
+/**
+ * Searches the palette for pairs and triads that cancel to a grey of the
+ * given bias, balanced with white to a Munsell value, best first
+ */
+export const findNeutralMixes = (
+  paints: Paint[],
+  options: { bias: NeutralBias; value: number; illuminant?: IlluminantId; deltaE?: DeltaEOptions; maxResults?: number }
+): NeutralMix[] => {
+  const illuminant = options.illuminant || 'D65';
+  const deltaEOptions = options.deltaE || DEFAULT_DELTA_E_OPTIONS;
+  const white = findWhite(paints);
+  const targetL = valueToLightness(options.value);
+
+  // Screen every set by how well its masstone cancels, keeping the best set
+  // per pigment combination, then balance the shortlist at the value
+  const seen = new Set<string>();
+  return findCancellingSets(paints, illuminant)
+    .map(set => ({ set, ...balanceMasstone(set, illuminant, lab => residualChroma(lab, options.bias))! }))
+    .sort((a, b) => a.score - b.score)
+    .filter(({ set }) => {
+      const key = pigmentKey(set);
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .slice(0, SHORTLIST_SIZE)
+    .map(({ set }) => {
+      const balanced = balanceAt(set, white, targetL, options.bias, illuminant, deltaEOptions);
+      return {
+        paints: set,
+        ...balanced,
+        hex: rgbToHex(labToRgb(balanced.lab, illuminant)),
+        munsell: labToMunsell(balanced.lab)
+      };
+    })
+    .sort((a, b) => Number(b.reached) - Number(a.reached) || a.residualDeltaE - b.residualDeltaE)
+    .slice(0, options.maxResults || 5);
+};
+
+/**
+ * Builds a grey value scale from a cancelling set, rebalancing the set's
+ * proportions at every step so the greys keep their bias as white is added
+ */
+export const buildGreyScale = (
+  set: Paint[],
+  paints: Paint[],
+  options: { bias: NeutralBias; steps: LadderStepCount; illuminant?: IlluminantId; deltaE?: DeltaEOptions }
+): GreyScale => {
+  const illuminant = options.illuminant || 'D65';
+  const deltaEOptions = options.deltaE || DEFAULT_DELTA_E_OPTIONS;
+  const white = findWhite(paints);
+  const [low, high] = GREY_SCALE_VALUES[options.steps];
+
+  return {
+    bias: options.bias,
+    paints: set,
+    white,
+    steps: Array.from({ length: options.steps }, (_, i) => high - i * (high - low) / (options.steps - 1)).map(value => {
+      const balanced = balanceAt(set, white, valueToLightness(value), options.bias, illuminant, deltaEOptions);
+      return {
+        value,
+        ...balanced,
+        hex: rgbToHex(labToRgb(balanced.lab, illuminant)),
+        munsell: labToMunsell(balanced.lab)
+      };
+    })
+  };
+};
+
+/**
+ * Darkest chromatic black for each bias, from paints dark enough on their
+ * own, or null for a bias no set can make. Only proportions whose hues
+ * actually cancel are considered, so a strong tinter is not left as a trace
+ * in a mix that is mostly its partner's color.
+ */
+export const findChromaticBlacks = (
+  paints: Paint[],
+  illuminant: IlluminantId = 'D65'
+): Record<NeutralBias, PaintComponent[] | null> => {
+  const dark = paints.filter(paint => mixPaints([{ paint, proportion: 1 }], illuminant).L < CHROMATIC_BLACK_MAX_L);
+  const sets = findCancellingSets(dark, illuminant);
+
+  const blackFor = (bias: NeutralBias): PaintComponent[] | null => sets
+    .map(set => balanceMasstone(
+      set,
+      illuminant,
+      lab => lab.L + 2 * residualChroma(lab, bias),
+      lab => residualChroma(lab, bias) <= CANCELLED_CHROMA
+    ))
+    .reduce<{ components: PaintComponent[]; score: number } | null>(
+      (best, candidate) => (candidate && (!best || candidate.score < best.score) ? candidate : best), null
+    )?.components || null;
+
+  return { warm: blackFor('warm'), neutral: blackFor('neutral'), cool: blackFor('cool') };
+};
@@ -0,0 +1,74 @@
+import { paint } from '../testing/paints';
+import { getKubelkaMunkCoefficients, ksToReflectance } from './kubelkaMunk';
+import { applyCalibration, correctWithGreyCard, fitPaintCalibration, samplePatch } from './paintCalibration';
+
+type Triplet = [number, number, number];
+
+const red = paint('wn-cadmium-red');
+const white = paint('wn-titanium-white');
+
+// A tint ladder photographed from a paint with known coefficients, mixed by proportion
+const K: Triplet = [0.2, 6, 8];
+const S = 1.5;
+const photographedCard = (): { paintFraction: number; linearRgb: Triplet }[] => {
+  const whiteCoefficients = getKubelkaMunkCoefficients(white, 'rgb')!;
+  return [1, 0.75, 0.5, 0.25].map(c => ({
+    paintFraction: c,
+    linearRgb: K.map((k, channel) => ksToReflectance(
+      (c * k + (1 - c) * whiteCoefficients.K[channel]) / (c * S + (1 - c) * whiteCoefficients.S[channel])
+    )) as Triplet
+  }));
+};
+
+describe('samplePatch', () => {
+  it('averages linear light over the pixels inside the image', () => {
+    const data = new Uint8ClampedArray([255, 255, 255, 255, 0, 0, 0, 255, 0, 0, 0, 255, 0, 0, 0, 255]);
+    const image = { width: 2, height: 2, data } as ImageData;
+    samplePatch(image, 0, 0, 3)!.forEach(channel => expect(channel).toBeCloseTo(0.25, 9));
+    expect(samplePatch(image, 10, 10, 3)).toBeNull();
+  });
+});
+
+describe('correctWithGreyCard', () => {
+  it('scales each channel so the grey card reads 18%', () => {
+    const corrected = correctWithGreyCard([0.1, 0.2, 0.9], [0.09, 0.36, 0.18]);
+    expect(corrected[0]).toBeCloseTo(0.2, 9);
+    expect(corrected[1]).toBeCloseTo(0.1, 9);
+    expect(corrected[2]).toBe(0.9);
+  });
+});
+
+describe('fitPaintCalibration', () => {
+  it('recovers the coefficients behind a tint ladder', () => {
+    const fit = fitPaintCalibration(red, white, photographedCard())!;
+
+    fit.calibration.kubelkaMunk.S.forEach(value => expect(value).toBeCloseTo(S, 6));
+    fit.calibration.kubelkaMunk.K.forEach((value, channel) => expect(value).toBeCloseTo(K[channel], 6));
+    expect(fit.tints).toHaveLength(3);
+    expect(fit.calibration.whitePaintId).toBe(white.id);
+  });
+
+  it('predicts the measured tints with the fitted paint', () => {
+    const fit = fitPaintCalibration(red, white, photographedCard())!;
+    expect(fit.calibration.fitDeltaE).toBeLessThan(3);
+  });
+
+  it('rejects tints that darken with more white', () => {
+    const card = photographedCard();
+    const inverted = card.map(patch => (patch.paintFraction === 1
+      ? patch
+      : { ...patch, linearRgb: patch.linearRgb.map(R => R / 20) as Triplet }));
+    expect(fitPaintCalibration(red, white, inverted)).toBeNull();
+    expect(fitPaintCalibration(red, white, card.slice(0, 1))).toBeNull();
+  });
+});
+
+describe('applyCalibration', () => {
+  it('replaces the color and coefficients but keeps the paint', () => {
+    const fit = fitPaintCalibration(red, white, photographedCard())!;
+    const calibrated = applyCalibration(red, fit.calibration);
+
+    expect(calibrated).toMatchObject({ id: red.id, name: red.name, lab: fit.calibration.lab, spectrum: undefined });
+    expect(calibrated.kubelkaMunk).toBe(fit.calibration.kubelkaMunk);
+  });
+});
@@ -0,0 +1,167 @@
+import { KubelkaMunkCoefficients, Paint } from '../context/PaintContext';
+import { LABColor } from '../context/ColorContext';
+import { labToRgb, linearRgbToLab, rgbToHex, srgbToLinear } from './colorConversion';
+import { colorDifference, DEFAULT_DELTA_E_OPTIONS, DeltaEOptions } from './colorDifference';
+import { deriveDefaultCoefficients, getKubelkaMunkCoefficients, mixPaints, reflectanceToKS } from './kubelkaMunk';
+
+type Triplet = [number, number, number];
+
+// Reflectance of a standard photographic grey card
+export const GREY_CARD_REFLECTANCE = 0.18;
+
+// Patches of a calibration card: the masstone, then tints with 25%, 50% and 75% white
+export type CalibrationPatchId = 'grey' | 'masstone' | 'tint25' | 'tint50' | 'tint75';
+
+export const CALIBRATION_PATCHES: Record<CalibrationPatchId, { name: string; paintFraction: number | null }> = {
+  grey: { name: 'Grey card', paintFraction: null },
+  masstone: { name: 'Masstone', paintFraction: 1 },
+  tint25: { name: '25% white', paintFraction: 0.75 },
+  tint50: { name: '50% white', paintFraction: 0.5 },
+  tint75: { name: '75% white', paintFraction: 0.25 }
+};
+
+// Side of the square averaged around a clicked patch, in pixels
+export const PATCH_SAMPLE_SIZE = 9;
+
+// A paint's coefficients fitted from its tint ladder, stored over the database entry
+export interface PaintCalibration {
+  paintId: string;
+  lab: LABColor; // Measured masstone under D65
+  kubelkaMunk: KubelkaMunkCoefficients; // Linear RGB channels
+  whitePaintId: string; // White the tints were mixed with
+  strengthRatio: number; // Fitted scattering over the database paint's
+  fitDeltaE: number; // Mean ΔE between the measured tints and the fitted model
+  calibratedAt: string; // ISO date
+}
+
+export interface CalibrationFit {
+  calibration: PaintCalibration;
+  tints: { paintFraction: number; measured: LABColor; predicted: LABColor; deltaE: number }[];
+}
+
+/**
+ * Averages the linear-light sRGB of a square of pixels centred on (x, y).
+ * Pixels outside the image are skipped.
+ */
+export const samplePatch = (image: ImageData, x: number, y: number, size: number = PATCH_SAMPLE_SIZE): Triplet | null => {
+  const half = Math.floor(size / 2);
+  const sum: Triplet = [0, 0, 0];
+  let count = 0;
+
+  for (let py = Math.round(y) - half; py <= Math.round(y) + half; py++) {
+    for (let px = Math.round(x) - half; px <= Math.round(x) + half; px++) {
+      if (px < 0 || py < 0 || px >= image.width || py >= image.height) continue;
+      const offset = (py * image.width + px) * 4;
+      for (let channel = 0; channel < 3; channel++) {
+        sum[channel] += srgbToLinear(image.data[offset + channel] / 255);
+      }
+      count++;
+    }
+  }
+
+  return count > 0 ? (sum.map(channel => channel / count) as Triplet) : null;
+};
+
+/**
+ * Corrects a photographed patch for exposure and white balance, scaling each
+ * channel so the grey card comes out at its known reflectance
+ */
+export const correctWithGreyCard = (
+  patch: Triplet,
+  greyCard: Triplet,
+  greyReflectance: number = GREY_CARD_REFLECTANCE
+): Triplet => patch.map((channel, i) =>
+  Math.max(0, Math.min(1, channel * greyReflectance / Math.max(1e-6, greyCard[i])))
+) as Triplet;
+
+/**
+ * Fits a paint's Kubelka-Munk coefficients from its masstone and white tints.
+ *
+ * The masstone fixes K/S on each channel. Each tint then pins the scattering:
+ * mixing by proportion gives c·(K - q·S) = (1 - c)·(q·Sw - Kw), where q is the
+ * tint's measured K/S, c the paint fraction and Kw, Sw the white's
+ * coefficients. One scattering value is fitted across channels and tints by
+ * least squares, as the database's derived coefficients also scatter evenly.
+ * Returns null when the tints cannot be fitted, for instance when they get
+ * darker with more white.
+ */
+export const fitPaintCalibration = (
+  paint: Paint,
+  white: Paint,
+  patches: { paintFraction: number; linearRgb: Triplet }[],
+  deltaEOptions: DeltaEOptions = DEFAULT_DELTA_E_OPTIONS
+): CalibrationFit | null => {
+  const masstone = patches.find(patch => patch.paintFraction === 1);
+  const tints = patches.filter(patch => patch.paintFraction > 0 && patch.paintFraction < 1);
+  const whiteCoefficients = getKubelkaMunkCoefficients(white, 'rgb');
+  if (!masstone || tints.length === 0 || !whiteCoefficients) return null;
+
+  const masstoneKS = masstone.linearRgb.map(reflectanceToKS);
+
+  let numerator = 0;
+  let denominator = 0;
+  tints.forEach(({ paintFraction: c, linearRgb }) => {
+    linearRgb.forEach((R, channel) => {
+      const q = reflectanceToKS(R);
+      const a = c * (masstoneKS[channel] - q);
+      const b = (1 - c) * (q * whiteCoefficients.S[channel] - whiteCoefficients.K[channel]);
+      numerator += a * b;
+      denominator += a * a;
+    });
+  });
+
+  const scattering = denominator > 0 ? numerator / denominator : NaN;
+  if (!Number.isFinite(scattering) || scattering <= 0) return null;
+
+  const kubelkaMunk: KubelkaMunkCoefficients = {
+    K: masstoneKS.map(ks => ks * scattering),
+    S: masstoneKS.map(() => scattering)
+  };
+  const lab = linearRgbToLab(masstone.linearRgb);
+  const calibrated = applyCalibration(paint, {
+    paintId: paint.id,
+    lab,
+    kubelkaMunk,
+    whitePaintId: white.id,
+    strengthRatio: 1,
+    fitDeltaE: 0,
+    calibratedAt: ''
+  });
+
+  const fittedTints = tints.map(({ paintFraction, linearRgb }) => {
+    const measured = linearRgbToLab(linearRgb);
+    const predicted = mixPaints([
+      { paint: calibrated, proportion: paintFraction },
+      { paint: white, proportion: 1 - paintFraction }
+    ]);
+    return { paintFraction, measured, predicted, deltaE: colorDifference(measured, predicted, deltaEOptions) };
+  });
+
+  const databaseScattering = deriveDefaultCoefficients(paint, 'rgb')?.S[0];
+
+  return {
+    calibration: {
+      paintId: paint.id,
+      lab,
+      kubelkaMunk,
+      whitePaintId: white.id,
+      strengthRatio: databaseScattering ? scattering / databaseScattering : 1,
+      fitDeltaE: fittedTints.reduce((sum, tint) => sum + tint.deltaE, 0) / fittedTints.length,
+      calibratedAt: new Date().toISOString()
+    },
+    tints: fittedTints
+  };
+};
+
+/**
+ * Layers a calibration over a paint. The measured color replaces the
+ * spectrum, so the paint mixes from a curve estimated from it, with the
+ * measured scattering spread over the bands.
+ */
+export const applyCalibration = (paint: Paint, calibration: PaintCalibration): Paint => ({
+  ...paint,
+  lab: calibration.lab,
+  swatch: rgbToHex(labToRgb(calibration.lab)),
+  spectrum: undefined,
+  kubelkaMunk: calibration.kubelkaMunk
+});
@@ -0,0 +1,65 @@
+import { getAllPaints } from '../data/paintDatabase';
+import { paint } from '../testing/paints';
+import { comparePaints, findEquivalents, findSubstitute } from './paintEquivalents';
+
+const red = paint('wn-cadmium-red');
+
+describe('comparePaints', () => {
+  it('scores a copy of the paint as a perfect equivalent', () => {
+    const equivalent = comparePaints(red, { ...red, id: 'copy', brand: 'other' });
+    expect(equivalent.score).toBeCloseTo(1, 9);
+    expect(equivalent.deltaE).toBe(0);
+    expect(equivalent.flags).toEqual([]);
+  });
+
+  it('treats pigment variants as the same pigment', () => {
+    const variant = { ...red, id: 'variant', pigmentCodes: red.pigmentCodes.map(code => `${code}:1`) };
+    expect(comparePaints(red, variant).pigmentOverlap).toBe(1);
+  });
+
+  it('flags a convenience mix standing in for a single pigment', () => {
+    const hue = { ...red, id: 'hue', pigmentCodes: ['PR254', 'PO73'], opacity: 'ST' as const };
+    const equivalent = comparePaints(red, hue);
+
+    expect(equivalent.sharedPigments).toEqual([]);
+    expect(equivalent.flags).toEqual([
+      'a 2-pigment mix where the original is a single pigment',
+      'No pigments in common; a color match only',
+      `Opacity ST instead of ${red.opacity}`
+    ]);
+  });
+});
+
+describe('findEquivalents', () => {
+  const equivalents = findEquivalents(red, getAllPaints());
+
+  it('ranks other brands\' paints of the same pigment first', () => {
+    expect(equivalents[0].paint.id).toMatch(/cadmium-red/);
+    expect(equivalents[0].sharedPigments).toEqual(['PR108']);
+    equivalents.slice(1).forEach((equivalent, i) => expect(equivalent.score).toBeLessThanOrEqual(equivalents[i].score));
+  });
+
+  it('leaves out the paint\'s own brand unless asked', () => {
+    equivalents.forEach(equivalent => expect(equivalent.paint.brand).not.toBe(red.brand));
+    const deep = { ...red, id: 'wn-cadmium-red-deep' };
+    expect(findEquivalents(red, [red, deep]).map(equivalent => equivalent.paint)).toEqual([]);
+    expect(findEquivalents(red, [red, deep], { includeSameBrand: true }).map(equivalent => equivalent.paint)).toEqual([deep]);
+  });
+
+  it('drops unrelated paints that are far off in color', () => {
+    findEquivalents(red, getAllPaints(), { maxResults: 50 })
+      .filter(equivalent => equivalent.sharedPigments.length === 0)
+      .forEach(equivalent => expect(equivalent.deltaE!).toBeLessThanOrEqual(10));
+  });
+});
+
+describe('findSubstitute', () => {
+  it('suggests an owned tube of the same pigment', () => {
+    expect(findSubstitute(red, [paint('gamblin-cadmium-red-medium'), paint('wn-phthalo-blue')])!.paint.id)
+      .toBe('gamblin-cadmium-red-medium');
+  });
+
+  it('suggests nothing when no owned paint is close', () => {
+    expect(findSubstitute(red, [paint('wn-phthalo-blue'), paint('wn-titanium-white')])).toBeNull();
+  });
+});
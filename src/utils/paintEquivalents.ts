@@ -0,0 +1,128 @@
+import { Paint } from '../context/PaintContext';
+import { colorDifference, DEFAULT_DELTA_E_OPTIONS, DeltaEOptions } from './colorDifference';
+import { getPaintLab } from './spectral';
+
+// How much each property counts towards an equivalent's score
+const SCORE_WEIGHTS = {
+  pigments: 0.45,
+  color: 0.35,
+  opacity: 0.1,
+  tintingStrength: 0.1
+};
+
+// ΔE at which the color part of the score reaches zero
+const COLOR_SCORE_DELTA_E = 20;
+
+// Candidates sharing no pigment are kept only when this close in color
+const MAX_UNRELATED_DELTA_E = 10;
+
+// Lowest score an owned paint needs to stand in for a missing tube
+export const SUBSTITUTE_MIN_SCORE = 0.6;
+
+const OPACITY_ORDER: Paint['opacity'][] = ['T', 'ST', 'SO', 'O'];
+const STRENGTH_ORDER: NonNullable<Paint['tintingStrength']>[] = ['Low', 'Medium', 'High'];
+
+export interface PaintEquivalent {
+  paint: Paint;
+  score: number; // 0-1, higher is closer
+  deltaE: number | null; // Masstone difference under D65; null without color data
+  sharedPigments: string[];
+  pigmentOverlap: number; // 0-1 share of the two paints' pigments in common
+  opacityMatch: boolean;
+  tintingStrengthMatch: boolean;
+  flags: string[]; // Differences a painter should know about
+}
+
+// Pigment without its variant suffix, so PR108:1 counts as PR108
+const basePigment = (code: string): string => code.split(':')[0].toUpperCase();
+
+// 1 for the same step, 0.5 for a neighbouring step, 0 otherwise
+const closeness = <T>(order: T[], a: T | undefined, b: T | undefined): number => {
+  if (a === undefined || b === undefined) return 0.5;
+  const distance = Math.abs(order.indexOf(a) - order.indexOf(b));
+  return distance === 0 ? 1 : distance === 1 ? 0.5 : 0;
+};
+
+const pigmentCountLabel = (count: number): string => (count === 1 ? 'a single pigment' : `a ${count}-pigment mix`);
+
+/**
+ * Compares a candidate with a paint it might replace
+ */
+export const comparePaints = (
+  paint: Paint,
+  candidate: Paint,
+  deltaEOptions: DeltaEOptions = DEFAULT_DELTA_E_OPTIONS
+): PaintEquivalent => {
+  const pigments = new Set(paint.pigmentCodes.map(basePigment));
+  const candidatePigments = new Set(candidate.pigmentCodes.map(basePigment));
+  const sharedPigments = Array.from(pigments).filter(code => candidatePigments.has(code));
+  const union = new Set([...Array.from(pigments), ...Array.from(candidatePigments)]).size;
+  const pigmentOverlap = union > 0 ? sharedPigments.length / union : 0;
+
+  const lab = getPaintLab(paint);
+  const candidateLab = getPaintLab(candidate);
+  const deltaE = lab && candidateLab ? colorDifference(lab, candidateLab, deltaEOptions) : null;
+  const colorScore = deltaE === null ? 0 : Math.max(0, 1 - deltaE / COLOR_SCORE_DELTA_E);
+
+  const opacityScore = closeness(OPACITY_ORDER, paint.opacity, candidate.opacity);
+  const strengthScore = closeness(STRENGTH_ORDER, paint.tintingStrength, candidate.tintingStrength);
+
+  const flags: string[] = [];
+  if (pigments.size > 0 && candidatePigments.size > 0 && pigments.size !== candidatePigments.size
+    && (pigments.size === 1 || candidatePigments.size === 1)) {
+    flags.push(`${pigmentCountLabel(candidatePigments.size)} where the original is ${pigmentCountLabel(pigments.size)}`);
+  }
+  if (sharedPigments.length === 0) {
+    flags.push('No pigments in common; a color match only');
+  } else if (sharedPigments.length < pigments.size) {
+    flags.push(`Lacks ${Array.from(pigments).filter(code => !candidatePigments.has(code)).join(', ')}`);
+  }
+  if (opacityScore < 1) flags.push(`Opacity ${candidate.opacity} instead of ${paint.opacity}`);
+  if (strengthScore < 1 && paint.tintingStrength && candidate.tintingStrength) {
+    flags.push(`${candidate.tintingStrength} tinting strength instead of ${paint.tintingStrength}`);
+  }
+
+  return {
+    paint: candidate,
+    score: SCORE_WEIGHTS.pigments * pigmentOverlap
+      + SCORE_WEIGHTS.color * colorScore
+      + SCORE_WEIGHTS.opacity * opacityScore
+      + SCORE_WEIGHTS.tintingStrength * strengthScore,
+    deltaE,
+    sharedPigments,
+    pigmentOverlap,
+    opacityMatch: paint.opacity === candidate.opacity,
+    tintingStrengthMatch: paint.tintingStrength === candidate.tintingStrength,
+    flags
+  };
+};
+
+/**
+ * Ranks paints from other brands as equivalents of a paint, by pigments in
+ * common, masstone ΔE, opacity and tinting strength. Candidates sharing no
+ * pigment are only kept when they are close in color.
+ */
+export const findEquivalents = (
+  paint: Paint,
+  candidates: Paint[],
+  options: { deltaE?: DeltaEOptions; maxResults?: number; includeSameBrand?: boolean } = {}
+): PaintEquivalent[] => candidates
+  .filter(candidate => candidate.id !== paint.id && (options.includeSameBrand || candidate.brand !== paint.brand))
+  .map(candidate => comparePaints(paint, candidate, options.deltaE))
+  .filter(equivalent => equivalent.sharedPigments.length > 0
+    || (equivalent.deltaE !== null && equivalent.deltaE <= MAX_UNRELATED_DELTA_E))
+  .sort((a, b) => b.score - a.score)
+  .slice(0, options.maxResults || 5);
+
+/**
+ * Best paint among those owned to stand in for a missing tube, from any
+ * brand, or null when none is close enough
+ */
+export const findSubstitute = (
+  paint: Paint,
+  owned: Paint[],
+  deltaEOptions: DeltaEOptions = DEFAULT_DELTA_E_OPTIONS
+): PaintEquivalent | null => {
+  const [best] = findEquivalents(paint, owned, { deltaE: deltaEOptions, maxResults: 1, includeSameBrand: true });
+  return best && best.score >= SUBSTITUTE_MIN_SCORE ? best : null;
+};
@@ -0,0 +1,67 @@
+import { MixingRecipe, Paint } from '../context/PaintContext';
+import { paint } from '../testing/paints';
+import { estimatePaintVolume, PALETTE_WASTE, planPaintQuantities } from './paintQuantity';
+
+
+const white = paint('wn-titanium-white');
+const blue = paint('wn-french-ultramarine');
+const sienna = paint('wn-burnt-sienna');
+
+const recipe = (components: [Paint, number][]): MixingRecipe => ({
+  paints: components.map(([p, proportion]) => ({ paint: p, proportion })),
+  matchPercentage: 90
+});
+
+describe('estimatePaintVolume', () => {
+  it('multiplies area, film thickness and layers, plus palette waste', () => {
+    // 100 cm² of a 0.25 mm alla prima layer is 2.5 ml
+    expect(estimatePaintVolume(100, { film: 'alla-prima', layers: 2 })).toBeCloseTo(5 * (1 + PALETTE_WASTE), 9);
+  });
+
+  it('counts at least one layer', () => {
+    expect(estimatePaintVolume(100, { film: 'glaze', layers: 0 })).toBeCloseTo(estimatePaintVolume(100, { film: 'glaze', layers: 1 }), 9);
+  });
+});
+
+describe('planPaintQuantities', () => {
+  const canvas = { widthCm: 40, heightCm: 50, film: 'alla-prima' as const, layers: 1 };
+  const colors = [
+    { color: '#8899aa', coverage: 0.6, recipe: recipe([[white, 3], [blue, 1]]) },
+    { color: '#664433', coverage: 0.4, recipe: recipe([[sienna, 0.5], [blue, 0.5]]) }
+  ];
+
+  it('shares the canvas between colors by coverage', () => {
+    const plan = planPaintQuantities(colors, canvas);
+    expect(plan.colors[0].areaCm2).toBeCloseTo(1200, 9);
+    expect(plan.colors[1].areaCm2).toBeCloseTo(800, 9);
+    expect(plan.totalMillilitres).toBeCloseTo(estimatePaintVolume(2000, canvas), 9);
+  });
+
+  it('splits each color\'s volume between its paints by proportion', () => {
+    const plan = planPaintQuantities(colors, canvas);
+    const [first, second] = plan.colors.map(color => color.millilitres);
+    const needed = (p: Paint) => plan.paints.find(planned => planned.paint.id === p.id)!.millilitres;
+
+    expect(needed(white)).toBeCloseTo(first * 0.75, 9);
+    expect(needed(blue)).toBeCloseTo(first * 0.25 + second * 0.5, 9);
+    expect(plan.paints.map(planned => planned.millilitres)).toEqual(
+      [...plan.paints.map(planned => planned.millilitres)].sort((a, b) => b - a)
+    );
+  });
+
+  it('lists only the paints that run short, by brand, with whole tubes to buy', () => {
+    const plan = planPaintQuantities(colors, canvas, { [white.id]: 1, [sienna.id]: 5 }, 37);
+    const planned = (p: Paint) => plan.paints.find(candidate => candidate.paint.id === p.id)!;
+
+    expect(planned(sienna).sufficient).toBe(true);
+    expect(planned(blue).tubesToBuy).toBe(Math.ceil(planned(blue).millilitres / 37));
+    expect(Object.keys(plan.shoppingList)).toEqual([blue.brand]);
+    plan.shoppingList[blue.brand].forEach(entry => expect(entry.sufficient).toBe(false));
+  });
+
+  it('plans no paints for colors without a recipe', () => {
+    const plan = planPaintQuantities([{ color: '#000000', coverage: 1, recipe: null }], canvas);
+    expect(plan.paints).toEqual([]);
+    expect(plan.totalMillilitres).toBeGreaterThan(0);
+  });
+});
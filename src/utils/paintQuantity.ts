@@ -0,0 +1,122 @@
+import { MixingRecipe, Paint } from '../context/PaintContext';
+
+export type PaintFilmId = 'glaze' | 'thin' | 'alla-prima' | 'impasto';
+
+export interface PaintFilm {
+  id: PaintFilmId;
+  name: string;
+  thicknessMm: number; // Wet film thickness per layer
+}
+
+// Typical wet film thicknesses for oil paint application styles
+export const PAINT_FILMS: Record<PaintFilmId, PaintFilm> = {
+  glaze: { id: 'glaze', name: 'Glaze', thicknessMm: 0.03 },
+  thin: { id: 'thin', name: 'Thin layer / scumble', thicknessMm: 0.08 },
+  'alla-prima': { id: 'alla-prima', name: 'Alla prima', thicknessMm: 0.25 },
+  impasto: { id: 'impasto', name: 'Impasto', thicknessMm: 1.0 }
+};
+
+// Standard artists' oil colour tube
+export const DEFAULT_TUBE_SIZE_ML = 37;
+
+// Paint left on the palette, knife and brushes, as a share of what reaches the canvas
+export const PALETTE_WASTE = 0.3;
+
+export interface CanvasSpec {
+  widthCm: number;
+  heightCm: number;
+  film: PaintFilmId;
+  layers: number;
+}
+
+export interface PlannedColor {
+  color: string; // HEX
+  coverage: number; // 0-1 share of the canvas
+  areaCm2: number;
+  millilitres: number;
+  recipe: MixingRecipe | null; // How the color is mixed; null when no recipe was found
+}
+
+export interface PlannedPaint {
+  paint: Paint;
+  millilitres: number; // Needed, including palette waste
+  onHandMillilitres: number;
+  sufficient: boolean;
+  tubesToBuy: number;
+}
+
+export interface PaintQuantityPlan {
+  totalMillilitres: number;
+  colors: PlannedColor[];
+  paints: PlannedPaint[]; // Most needed first
+  shoppingList: Record<string, PlannedPaint[]>; // Paints that run short, by brand
+}
+
+/**
+ * Volume of paint in millilitres needed to cover an area, including palette waste
+ */
+export const estimatePaintVolume = (areaCm2: number, canvas: Pick<CanvasSpec, 'film' | 'layers'>): number => {
+  // 1 cm² at 1 mm thick is 0.1 ml
+  const perLayer = areaCm2 * PAINT_FILMS[canvas.film].thicknessMm / 10;
+  return perLayer * Math.max(1, canvas.layers) * (1 + PALETTE_WASTE);
+};
+
+/**
+ * Estimates how much of each mixed color and each tube paint a painting will
+ * use, and which paints need buying given the tubes on hand
+ */
+export const planPaintQuantities = (
+  colors: { color: string; coverage: number; recipe: MixingRecipe | null }[],
+  canvas: CanvasSpec,
+  tubesOnHand: Record<string, number> = {},
+  tubeSizeMl: number = DEFAULT_TUBE_SIZE_ML
+): PaintQuantityPlan => {
+  const canvasArea = Math.max(0, canvas.widthCm) * Math.max(0, canvas.heightCm);
+  const totalCoverage = colors.reduce((sum, color) => sum + color.coverage, 0) || 1;
+
+  const plannedColors: PlannedColor[] = colors.map(color => {
+    const areaCm2 = canvasArea * color.coverage / totalCoverage;
+    return { ...color, areaCm2, millilitres: estimatePaintVolume(areaCm2, canvas) };
+  });
+
+  // Recipe proportions are by volume, so each paint's share splits the color's volume
+  const needed = new Map<string, { paint: Paint; millilitres: number }>();
+  plannedColors.forEach(color => {
+    if (!color.recipe) return;
+    const total = color.recipe.paints.reduce((sum, component) => sum + component.proportion, 0) || 1;
+    color.recipe.paints.forEach(({ paint, proportion }) => {
+      const entry = needed.get(paint.id) || { paint, millilitres: 0 };
+      entry.millilitres += color.millilitres * proportion / total;
+      needed.set(paint.id, entry);
+    });
+  });
+
+  const paints: PlannedPaint[] = Array.from(needed.values())
+    .map(({ paint, millilitres }) => {
+      const onHandMillilitres = (tubesOnHand[paint.id] || 0) * tubeSizeMl;
+      const shortfall = Math.max(0, millilitres - onHandMillilitres);
+      return {
+        paint,
+        millilitres,
+        onHandMillilitres,
+        sufficient: shortfall === 0,
+        tubesToBuy: Math.ceil(shortfall / tubeSizeMl)
+      };
+    })
+    .sort((a, b) => b.millilitres - a.millilitres);
+
+  const shoppingList: Record<string, PlannedPaint[]> = {};
+  paints.filter(planned => !planned.sufficient).forEach(planned => {
+    if (!shoppingList[planned.paint.brand]) {
+      shoppingList[planned.paint.brand] = [];
+    }
+    shoppingList[planned.paint.brand].push(planned);
+  });
+
+  return {
+    totalMillilitres: plannedColors.reduce((sum, color) => sum + color.millilitres, 0),
+    colors: plannedColors,
+    paints,
+    shoppingList
+  };
+};
@@ -0,0 +1,56 @@
+import { paint } from '../testing/paints';
+import { colorDifference } from './colorDifference';
+import { mixPaints } from './kubelkaMunk';
+import { buildPaletteGamut, checkPaletteGamut, findNearestReachable } from './paletteGamut';
+
+
+describe('buildPaletteGamut', () => {
+  const palette = ['wn-titanium-white', 'wn-cadmium-yellow-pale', 'wn-french-ultramarine', 'wn-burnt-sienna'].map(paint);
+
+  it('returns null without any usable paint', () => {
+    expect(buildPaletteGamut([])).toBeNull();
+  });
+
+  it('samples each paint as mixed under the illuminant', () => {
+    const gamut = buildPaletteGamut(palette, 'A')!;
+    palette.forEach(candidate => {
+      const single = gamut.samples.find(sample => sample.paints.length === 1 && sample.paints[0].paint === candidate)!;
+      expect(colorDifference(single.lab, mixPaints([{ paint: candidate, proportion: 1 }], 'A'))).toBeLessThan(1e-9);
+    });
+  });
+
+  it('mixes near-identical paints only once', () => {
+    const yellow = paint('wn-cadmium-yellow-pale');
+    const twin = { ...yellow, id: 'twin-cadmium-yellow-pale' };
+    const single = buildPaletteGamut(palette)!;
+    const doubled = buildPaletteGamut([...palette, twin])!;
+    expect(doubled.samples.length).toBe(single.samples.length + 1);
+  });
+
+  it('keeps every sample inside its own gamut', () => {
+    const gamut = buildPaletteGamut(palette)!;
+    gamut.samples.forEach(sample => {
+      expect(checkPaletteGamut(sample.lab, gamut).isOutOfGamut).toBe(false);
+    });
+  });
+});
+
+describe('checkPaletteGamut', () => {
+  const gamut = buildPaletteGamut(['wn-titanium-white', 'wn-burnt-sienna'].map(paint))!;
+
+  it('flags colors the palette cannot reach and finds the closest mixture', () => {
+    const green = { L: 50, a: -50, b: 30 };
+    const check = checkPaletteGamut(green, gamut);
+    expect(check.isOutOfGamut).toBe(true);
+    expect(check.deltaE).toBeGreaterThan(20);
+    expect(check.nearest).toBe(findNearestReachable(green, gamut).sample);
+  });
+
+  it('accepts a tint of the palette\'s own paints', () => {
+    const tint = mixPaints([
+      { paint: paint('wn-burnt-sienna'), proportion: 0.3 },
+      { paint: paint('wn-titanium-white'), proportion: 0.7 }
+    ]);
+    expect(checkPaletteGamut(tint, gamut).isOutOfGamut).toBe(false);
+  });
+});
@@ -0,0 +1,176 @@
+import { Paint } from '../context/PaintContext';
+import { LABColor } from '../context/ColorContext';
+import { IlluminantId } from '../data/illuminants';
+import { colorDifference, DEFAULT_DELTA_E_OPTIONS, DeltaEOptions } from './colorDifference';
+import { mixPaints } from './kubelkaMunk';
+
+export interface GamutSample {
+  lab: LABColor;
+  paints: { paint: Paint; proportion: number }[];
+}
+
+export interface PaletteGamut {
+  samples: GamutSample[];
+  // Segment-maxima boundary: the furthest sample from the neutral axis
+  // centre in each hue/elevation sector, or -1 for empty sectors
+  centerL: number;
+  sectorRadii: number[];
+}
+
+export interface GamutCheck {
+  isOutOfGamut: boolean;
+  nearest: GamutSample; // Closest reachable mixture to the target
+  deltaE: number; // Color difference between the target and the nearest mixture
+}
+
+// Resolution of the gamut boundary descriptor
+const HUE_SECTORS = 24;
+const ELEVATION_SECTORS = 12;
+
+// Mixing ratios sampled when building the reachable volume
+const PAIR_RATIOS = [0.1, 0.25, 0.5, 0.75, 0.9];
+const TINT_RATIOS = [0.2, 0.4, 0.6, 0.8];
+const SHADE_RATIOS = [0.2, 0.4, 0.6];
+
+// Paints whose masstones are closer than this (CIE76) to one already kept,
+// typically the same pigment from another brand, are not mixed again
+const DUPLICATE_DELTA_E = 4.0;
+const DUPLICATE_OPTIONS: DeltaEOptions = { ...DEFAULT_DELTA_E_OPTIONS, metric: 'cie76' };
+
+// Targets this close to a reachable mixture count as in gamut even when the
+// boundary descriptor is too coarse to contain them
+const GAMUT_TOLERANCE = 2.0;
+
+const sectorIndex = (lab: LABColor, centerL: number): { index: number; radius: number } => {
+  const dL = lab.L - centerL;
+  const chroma = Math.sqrt(lab.a * lab.a + lab.b * lab.b);
+  const hue = (Math.atan2(lab.b, lab.a) + 2 * Math.PI) % (2 * Math.PI);
+  const elevation = Math.atan2(dL, chroma) + Math.PI / 2; // 0 to PI
+
+  const hueSector = Math.min(HUE_SECTORS - 1, Math.floor((hue / (2 * Math.PI)) * HUE_SECTORS));
+  const elevationSector = Math.min(ELEVATION_SECTORS - 1, Math.floor((elevation / Math.PI) * ELEVATION_SECTORS));
+
+  return {
+    index: hueSector * ELEVATION_SECTORS + elevationSector,
+    radius: Math.sqrt(dL * dL + chroma * chroma)
+  };
+};
+
+/**
+ * Builds the reachable LAB volume of a set of paints from their predicted
+ * Kubelka-Munk mixtures: every paint, every pair at several ratios, and tints
+ * and shades of those with the lightest and darkest paints in the set. Only
+ * one of each group of near-identical paints is mixed.
+ */
+export const buildPaletteGamut = (paints: Paint[], illuminant: IlluminantId = 'D65'): PaletteGamut | null => {
+  const masstones = new Map<Paint, LABColor>();
+  paints.forEach(paint => {
+    if (paint.lab) masstones.set(paint, mixPaints([{ paint, proportion: 1 }], illuminant));
+  });
+  if (masstones.size === 0) return null;
+
+  const usable: Paint[] = [];
+  masstones.forEach((lab, paint) => {
+    if (!usable.some(kept => colorDifference(lab, masstones.get(kept)!, DUPLICATE_OPTIONS) < DUPLICATE_DELTA_E)) {
+      usable.push(paint);
+    }
+  });
+
+  const samples: GamutSample[] = [];
+  const addSample = (components: { paint: Paint; proportion: number }[]) => {
+    samples.push({ lab: mixPaints(components, illuminant), paints: components });
+  };
+
+  const bases: { paint: Paint; proportion: number }[][] = [];
+
+  masstones.forEach((lab, paint) => {
+    const single = [{ paint, proportion: 1 }];
+    samples.push({ lab, paints: single });
+    if (usable.includes(paint)) bases.push(single);
+  });
+
+  for (let i = 0; i < usable.length; i++) {
+    for (let j = i + 1; j < usable.length; j++) {
+      PAIR_RATIOS.forEach(ratio => addSample([
+        { paint: usable[i], proportion: ratio },
+        { paint: usable[j], proportion: 1 - ratio }
+      ]));
+      bases.push([
+        { paint: usable[i], proportion: 0.5 },
+        { paint: usable[j], proportion: 0.5 }
+      ]);
+    }
+  }
+
+  // Tints and shades reach the light and dark parts of the volume
+  const lightest = usable.reduce((best, paint) => masstones.get(paint)!.L > masstones.get(best)!.L ? paint : best);
+  const darkest = usable.reduce((best, paint) => masstones.get(paint)!.L < masstones.get(best)!.L ? paint : best);
+
+  bases.forEach(base => {
+    if (!base.some(component => component.paint === lightest)) {
+      TINT_RATIOS.forEach(ratio => addSample([
+        ...base.map(component => ({ paint: component.paint, proportion: component.proportion * (1 - ratio) })),
+        { paint: lightest, proportion: ratio }
+      ]));
+    }
+    if (!base.some(component => component.paint === darkest)) {
+      SHADE_RATIOS.forEach(ratio => addSample([
+        ...base.map(component => ({ paint: component.paint, proportion: component.proportion * (1 - ratio) })),
+        { paint: darkest, proportion: ratio }
+      ]));
+    }
+  });
+
+  const lightnesses = samples.map(sample => sample.lab.L);
+  const centerL = (Math.min(...lightnesses) + Math.max(...lightnesses)) / 2;
+  const sectorRadii = new Array(HUE_SECTORS * ELEVATION_SECTORS).fill(-1);
+
+  samples.forEach(sample => {
+    const { index, radius } = sectorIndex(sample.lab, centerL);
+    sectorRadii[index] = Math.max(sectorRadii[index], radius);
+  });
+
+  return { samples, centerL, sectorRadii };
+};
+
+/**
+ * Finds the reachable mixture closest to a target color
+ */
+export const findNearestReachable = (
+  target: LABColor,
+  gamut: PaletteGamut,
+  deltaEOptions: DeltaEOptions = DEFAULT_DELTA_E_OPTIONS
+): { sample: GamutSample; deltaE: number } => {
+  let nearest = gamut.samples[0];
+  let smallest = Infinity;
+
+  gamut.samples.forEach(sample => {
+    const difference = colorDifference(target, sample.lab, deltaEOptions);
+    if (difference < smallest) {
+      smallest = difference;
+      nearest = sample;
+    }
+  });
+
+  return { sample: nearest, deltaE: smallest };
+};
+
+/**
+ * Checks whether a target lies inside the palette's reachable volume and
+ * finds the nearest reachable color by perceptual distance
+ */
+export const checkPaletteGamut = (
+  target: LABColor,
+  gamut: PaletteGamut,
+  deltaEOptions: DeltaEOptions = DEFAULT_DELTA_E_OPTIONS
+): GamutCheck => {
+  const { sample, deltaE } = findNearestReachable(target, gamut, deltaEOptions);
+  const { index, radius } = sectorIndex(target, gamut.centerL);
+  const insideBoundary = gamut.sectorRadii[index] >= 0 && radius <= gamut.sectorRadii[index];
+
+  return {
+    isOutOfGamut: !insideBoundary && deltaE > GAMUT_TOLERANCE,
+    nearest: sample,
+    deltaE
+  };
+};
@@ -0,0 +1,50 @@
+import { paint } from '../testing/paints';
+import { countDistinctPigments, getPigmentName, getRecipePigments } from './pigmentBreakdown';
+
+const red = paint('wn-cadmium-red');
+const white = paint('wn-titanium-white');
+const sienna = paint('wn-burnt-sienna');
+
+// A convenience mix of three pigments, and a tube whose pigments are not listed
+const neutralTint = { ...sienna, id: 'neutral-tint', name: 'Neutral Tint', pigmentCodes: ['PBr7', 'PB29', 'pw6'] };
+const mystery = { ...sienna, id: 'mystery', name: 'Mystery Brown', pigmentCodes: [] };
+
+describe('getPigmentName', () => {
+  it('looks up a pigment by code, ignoring its variant suffix', () => {
+    expect(getPigmentName('PR108')).toBe('Cadmium Red');
+    expect(getPigmentName('PR108:1')).toBe('Cadmium Red');
+    expect(getPigmentName('PX999')).toBe('PX999');
+  });
+});
+
+describe('countDistinctPigments', () => {
+  it('counts a pigment shared by several tubes once', () => {
+    expect(countDistinctPigments([red, white, neutralTint])).toBe(4);
+  });
+
+  it('counts each tube without listed pigments as a pigment of its own', () => {
+    expect(countDistinctPigments([mystery, { ...mystery, id: 'mystery-2' }])).toBe(2);
+    expect(countDistinctPigments([])).toBe(0);
+  });
+});
+
+describe('getRecipePigments', () => {
+  it('splits each tube evenly over its pigments, largest share first', () => {
+    const pigments = getRecipePigments([
+      { paint: white, proportion: 1 },
+      { paint: neutralTint, proportion: 3 }
+    ]);
+
+    expect(pigments.map(pigment => pigment.code)).toEqual(['PW6', 'PBr7', 'PB29']);
+    expect(pigments[0].share).toBeCloseTo(0.25 + 0.25, 9);
+    expect(pigments[0].paints).toEqual([white, neutralTint]);
+    expect(pigments[1].share).toBeCloseTo(0.25, 9);
+    expect(pigments.reduce((sum, pigment) => sum + pigment.share, 0)).toBeCloseTo(1, 9);
+  });
+
+  it('lists unknown tubes by name', () => {
+    expect(getRecipePigments([{ paint: mystery, proportion: 1 }])).toEqual([
+      { code: 'Mystery Brown', name: 'Unlisted pigments', share: 1, paints: [mystery], known: false }
+    ]);
+  });
+});
@@ -0,0 +1,52 @@
+import { Paint } from '../context/PaintContext';
+import { paintDatabase } from '../data/paintDatabase';
+
+export interface PigmentShare {
+  code: string; // Colour Index code, or the paint name when its pigments are unknown
+  name: string;
+  share: number; // 0-1 of the recipe, splitting each tube evenly over its pigments
+  paints: Paint[]; // Tubes in the recipe that carry the pigment
+  known: boolean; // False for a tube with no listed pigments
+}
+
+/**
+ * Common name of a pigment from the pigment table, falling back to the
+ * unsuffixed code (PR108 for PR108:1) and then to the code itself
+ */
+export const getPigmentName = (code: string): string =>
+  (paintDatabase.pigments[code] || paintDatabase.pigments[code.split(':')[0]])?.name || code;
+
+// A tube without listed pigments counts as one pigment of its own
+const getPaintPigments = (paint: Paint): { key: string; code: string; known: boolean }[] =>
+  paint.pigmentCodes.length > 0
+    ? Array.from(new Set(paint.pigmentCodes.map(code => code.toUpperCase())))
+      .map(key => ({ key, code: paint.pigmentCodes.find(code => code.toUpperCase() === key)!, known: true }))
+    : [{ key: `paint:${paint.id}`, code: paint.name, known: false }];
+
+/**
+ * Number of distinct pigments across a set of tubes
+ */
+export const countDistinctPigments = (paints: Paint[]): number =>
+  new Set(paints.flatMap(paint => getPaintPigments(paint).map(pigment => pigment.key))).size;
+
+/**
+ * Breaks a recipe down into its pigments, largest share first. Tube
+ * formulations are not published, so each tube's share is split evenly
+ * over its pigments.
+ */
+export const getRecipePigments = (components: { paint: Paint; proportion: number }[]): PigmentShare[] => {
+  const total = components.reduce((sum, component) => sum + component.proportion, 0) || 1;
+  const pigments = new Map<string, PigmentShare>();
+
+  components.forEach(({ paint, proportion }) => {
+    const paintPigments = getPaintPigments(paint);
+    paintPigments.forEach(({ key, code, known }) => {
+      const pigment = pigments.get(key) || { code, name: known ? getPigmentName(code) : 'Unlisted pigments', share: 0, paints: [], known };
+      pigment.share += proportion / total / paintPigments.length;
+      if (!pigment.paints.includes(paint)) pigment.paints.push(paint);
+      pigments.set(key, pigment);
+    });
+  });
+
+  return Array.from(pigments.values()).sort((a, b) => b.share - a.share);
+};
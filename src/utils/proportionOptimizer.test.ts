@@ -0,0 +1,55 @@
+import { paint } from '../testing/paints';
+import { colorDifference } from './colorDifference';
+import { mixPaints } from './kubelkaMunk';
+import { optimizeProportions, projectToSimplex } from './proportionOptimizer';
+
+
+const expectOnSimplex = (proportions: number[]) => {
+  proportions.forEach(proportion => expect(proportion).toBeGreaterThanOrEqual(0));
+  expect(proportions.reduce((sum, proportion) => sum + proportion, 0)).toBeCloseTo(1, 9);
+};
+
+describe('projectToSimplex', () => {
+  it('leaves points already on the simplex alone', () => {
+    projectToSimplex([0.2, 0.3, 0.5]).forEach((value, i) => expect(value).toBeCloseTo([0.2, 0.3, 0.5][i], 12));
+  });
+
+  it('projects points off the simplex onto it', () => {
+    [[2, 0, 0], [-1, 0.5, 0.2], [0.1, 0.1, 0.1], [5, 5, -3, 1]].forEach(point => {
+      expectOnSimplex(projectToSimplex(point));
+    });
+    expect(projectToSimplex([2, 0, 0])).toEqual([1, 0, 0]);
+  });
+
+  it('finds the closest point on the simplex', () => {
+    const projected = projectToSimplex([0.8, 0.6]);
+    expect(projected[0]).toBeCloseTo(0.6, 12);
+    expect(projected[1]).toBeCloseTo(0.4, 12);
+  });
+});
+
+describe('optimizeProportions', () => {
+  const paints = [paint('wn-french-ultramarine'), paint('wn-burnt-sienna'), paint('wn-titanium-white')];
+
+  it('recovers the proportions of a mix it can reach', () => {
+    const proportions = [0.15, 0.25, 0.6];
+    const target = mixPaints(paints.map((p, i) => ({ paint: p, proportion: proportions[i] })));
+    const result = optimizeProportions(paints, target);
+
+    expect(result.deltaE).toBeLessThan(0.5);
+    expectOnSimplex(result.proportions);
+    expect(colorDifference(result.lab, mixPaints(paints.map((p, i) => ({ paint: p, proportion: result.proportions[i] })))))
+      .toBeLessThan(1e-9);
+  });
+
+  it('stays on the simplex when the target is out of reach', () => {
+    const result = optimizeProportions(paints, { L: 60, a: -60, b: 50 });
+    expectOnSimplex(result.proportions);
+    expect(result.evaluations).toBeGreaterThan(result.iterations);
+  });
+
+  it('handles a single paint', () => {
+    const result = optimizeProportions([paints[0]], { L: 50, a: 0, b: 0 });
+    expect(result.proportions).toEqual([1]);
+  });
+});
@@ -0,0 +1,181 @@
+import { Paint } from '../context/PaintContext';
+import { LABColor } from '../context/ColorContext';
+import { IlluminantId } from '../data/illuminants';
+import { colorDifference, DEFAULT_DELTA_E_OPTIONS, DeltaEOptions } from './colorDifference';
+import { mixPaints } from './kubelkaMunk';
+
+export interface ProportionOptimizerOptions {
+  illuminant?: IlluminantId;
+  deltaE?: DeltaEOptions;
+  starts?: number; // Number of starting points tried
+  maxIterations?: number; // Per start
+  tolerance?: number; // Stop once the simplex's ΔE spread falls below this
+}
+
+export interface ProportionOptimizationResult {
+  proportions: number[]; // On the simplex: non-negative, summing to 1
+  lab: LABColor;
+  deltaE: number; // Converged color difference to the target
+  iterations: number; // Nelder-Mead iterations of the winning start
+  evaluations: number; // Mixtures predicted across all starts
+  converged: boolean;
+}
+
+const DEFAULT_OPTIONS: Required<Omit<ProportionOptimizerOptions, 'illuminant' | 'deltaE'>> = {
+  starts: 3,
+  maxIterations: 150,
+  tolerance: 1e-3
+};
+
+// Standard Nelder-Mead reflection, expansion, contraction and shrink factors
+const REFLECTION = 1;
+const EXPANSION = 2;
+const CONTRACTION = 0.5;
+const SHRINK = 0.5;
+
+// Size of the initial simplex around each start
+const INITIAL_STEP = 0.15;
+
+/**
+ * Euclidean projection of a vector onto the probability simplex
+ * (Duchi et al., 2008)
+ */
+export const projectToSimplex = (vector: number[]): number[] => {
+  const sorted = [...vector].sort((a, b) => b - a);
+  let cumulative = 0;
+  let theta = 0;
+
+  for (let i = 0; i < sorted.length; i++) {
+    cumulative += sorted[i];
+    const candidate = (cumulative - 1) / (i + 1);
+    if (sorted[i] - candidate > 0) theta = candidate;
+  }
+
+  return vector.map(value => Math.max(0, value - theta));
+};
+
+// The first n-1 proportions are free; the last one makes up the remainder
+const toProportions = (point: number[]): number[] => {
+  const last = 1 - point.reduce((sum, value) => sum + value, 0);
+  return projectToSimplex([...point, last]);
+};
+
+// Starting points: the even mix, then each paint in turn dominating
+const startingPoints = (components: number, starts: number): number[][] => {
+  const points: number[][] = [new Array(components).fill(1 / components)];
+
+  for (let i = 0; i < components && points.length < starts; i++) {
+    const point = new Array(components).fill(0.3 / Math.max(1, components - 1));
+    point[i] = components > 1 ? 0.7 : 1;
+    points.push(point);
+  }
+
+  return points.map(point => point.slice(0, components - 1));
+};
+
+/**
+ * Finds the proportions of a set of paints whose Kubelka-Munk mixture is
+ * closest to a target, minimising the chosen ΔE over the proportion simplex
+ * with multi-start Nelder-Mead
+ */
+export const optimizeProportions = (
+  paints: Paint[],
+  target: LABColor,
+  options: ProportionOptimizerOptions = {}
+): ProportionOptimizationResult => {
+  const illuminant = options.illuminant || 'D65';
+  const deltaEOptions = options.deltaE || DEFAULT_DELTA_E_OPTIONS;
+  const { starts, maxIterations, tolerance } = { ...DEFAULT_OPTIONS, ...options };
+  let evaluations = 0;
+
+  const evaluate = (point: number[]): number => {
+    evaluations++;
+    const proportions = toProportions(point);
+    const lab = mixPaints(paints.map((paint, i) => ({ paint, proportion: proportions[i] })), illuminant);
+    return colorDifference(target, lab, deltaEOptions);
+  };
+
+  const finish = (point: number[], iterations: number, converged: boolean): ProportionOptimizationResult => {
+    const proportions = toProportions(point);
+    const lab = mixPaints(paints.map((paint, i) => ({ paint, proportion: proportions[i] })), illuminant);
+    return {
+      proportions,
+      lab,
+      deltaE: colorDifference(target, lab, deltaEOptions),
+      iterations,
+      evaluations,
+      converged
+    };
+  };
+
+  // A single paint has nothing to optimise
+  if (paints.length <= 1) {
+    return finish([], 0, true);
+  }
+
+  const dimensions = paints.length - 1;
+  let best: { point: number[]; value: number; iterations: number; converged: boolean } | null = null;
+
+  startingPoints(paints.length, starts).forEach(start => {
+    // Initial simplex: the start plus one step along each free proportion
+    let simplex = [start, ...start.map((_, i) => {
+      const vertex = [...start];
+      vertex[i] += vertex[i] + INITIAL_STEP <= 1 ? INITIAL_STEP : -INITIAL_STEP;
+      return vertex;
+    })].map(point => ({ point, value: evaluate(point) }));
+
+    let iterations = 0;
+    let converged = false;
+
+    while (iterations < maxIterations) {
+      simplex.sort((a, b) => a.value - b.value);
+      if (simplex[dimensions].value - simplex[0].value < tolerance) {
+        converged = true;
+        break;
+      }
+      iterations++;
+
+      const worst = simplex[dimensions];
+      const centroid = new Array(dimensions).fill(0);
+      simplex.slice(0, dimensions).forEach(({ point }) => {
+        point.forEach((value, i) => { centroid[i] += value / dimensions; });
+      });
+      const along = (factor: number) => centroid.map((value, i) => value + factor * (worst.point[i] - value));
+
+      const reflected = along(-REFLECTION);
+      const reflectedValue = evaluate(reflected);
+
+      if (reflectedValue < simplex[0].value) {
+        const expanded = along(-EXPANSION);
+        const expandedValue = evaluate(expanded);
+        simplex[dimensions] = expandedValue < reflectedValue
+          ? { point: expanded, value: expandedValue }
+          : { point: reflected, value: reflectedValue };
+      } else if (reflectedValue < simplex[dimensions - 1].value) {
+        simplex[dimensions] = { point: reflected, value: reflectedValue };
+      } else {
+        const contracted = reflectedValue < worst.value ? along(-CONTRACTION) : along(CONTRACTION);
+        const contractedValue = evaluate(contracted);
+
+        if (contractedValue < Math.min(reflectedValue, worst.value)) {
+          simplex[dimensions] = { point: contracted, value: contractedValue };
+        } else {
+          const bestPoint = simplex[0].point;
+          simplex = simplex.map((vertex, index) => {
+            if (index === 0) return vertex;
+            const point = bestPoint.map((value, i) => value + SHRINK * (vertex.point[i] - value));
+            return { point, value: evaluate(point) };
+          });
+        }
+      }
+    }
+
+    simplex.sort((a, b) => a.value - b.value);
+    if (!best || simplex[0].value < best.value) {
+      best = { point: simplex[0].point, value: simplex[0].value, iterations, converged };
+    }
+  });
+
+  const winner = best!;
+  return finish(winner.point, winner.iterations, winner.converged);
+};
@@ -0,0 +1,66 @@
+import { Paint } from '../context/PaintContext';
+import { getAllPaints } from '../data/paintDatabase';
+import {
+  applyPaintConstraints,
+  getExclusionReasons,
+  groupExclusions,
+  parseLightfastness,
+  PIGMENT_FAMILIES
+} from './recipeConstraints';
+
+const base = getAllPaints()[0];
+const paint = (overrides: Partial<Paint>): Paint => ({ ...base, id: 'test-paint', ...overrides });
+
+describe('parseLightfastness', () => {
+  it('reads the ASTM rating from a label', () => {
+    expect(parseLightfastness('ASTM II')).toBe('II');
+    expect(parseLightfastness('astm iv')).toBe('IV');
+    expect(parseLightfastness('Unknown')).toBeNull();
+  });
+});
+
+describe('getExclusionReasons', () => {
+  it('excludes a pigment family and its variants, naming the family', () => {
+    const reasons = getExclusionReasons(paint({ pigmentCodes: ['PR108:1', 'PW6'] }), { excludedPigments: PIGMENT_FAMILIES.cadmium.codes });
+    expect(reasons).toEqual([{ constraint: 'pigment', detail: 'Contains Cadmium (PR108:1)' }]);
+  });
+
+  it('does not mistake a longer code for an excluded one', () => {
+    expect(getExclusionReasons(paint({ pigmentCodes: ['PR1080'] }), { excludedPigments: ['PR108'] })).toEqual([]);
+  });
+
+  it('excludes paints below the lightfastness floor or without a rating', () => {
+    const constraints = { minLightfastness: 'II' as const };
+    expect(getExclusionReasons(paint({ lightfastness: 'ASTM I' }), constraints)).toEqual([]);
+    expect(getExclusionReasons(paint({ lightfastness: 'ASTM III' }), constraints)[0].constraint).toBe('lightfastness');
+    expect(getExclusionReasons(paint({ lightfastness: 'Unknown' }), constraints)[0].detail).toBe('Lightfastness unknown');
+  });
+
+  it('checks opacity, black pigments and banned tubes', () => {
+    const reasons = getExclusionReasons(
+      paint({ opacity: 'T', pigmentCodes: ['PBk9'] }),
+      { opacities: ['O', 'SO'], noBlack: true, bannedPaintIds: ['test-paint'] }
+    );
+    expect(reasons.map(reason => reason.constraint)).toEqual(['banned', 'opacity', 'black']);
+  });
+
+  it('allows any opacity when none are listed', () => {
+    expect(getExclusionReasons(paint({ opacity: 'T' }), { opacities: [] })).toEqual([]);
+  });
+});
+
+describe('applyPaintConstraints and groupExclusions', () => {
+  it('splits paints and groups each exclusion under every constraint it failed', () => {
+    const paints = [
+      paint({ id: 'allowed', pigmentCodes: ['PB29'], opacity: 'O' }),
+      paint({ id: 'both', pigmentCodes: ['PBk11'], opacity: 'T' }),
+      paint({ id: 'black', pigmentCodes: ['PBk9'], opacity: 'O' })
+    ];
+    const { paints: allowed, excluded } = applyPaintConstraints(paints, { noBlack: true, opacities: ['O'] });
+
+    expect(allowed.map(p => p.id)).toEqual(['allowed']);
+    const groups = groupExclusions(excluded);
+    expect(groups.black!.map(exclusion => exclusion.paintId)).toEqual(['both', 'black']);
+    expect(groups.opacity!.map(exclusion => exclusion.paintId)).toEqual(['both']);
+  });
+});
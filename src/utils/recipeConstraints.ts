@@ -0,0 +1,172 @@
+import { Paint } from '../context/PaintContext';
+
+export type PigmentFamilyId = 'cadmium' | 'cobalt' | 'lead';
+
+export interface PigmentFamily {
+  id: PigmentFamilyId;
+  name: string;
+  codes: string[]; // Colour Index codes; variants such as PR108:1 are included
+}
+
+// Pigment families commonly avoided for toxicity, by Colour Index code
+export const PIGMENT_FAMILIES: Record<PigmentFamilyId, PigmentFamily> = {
+  cadmium: { id: 'cadmium', name: 'Cadmium', codes: ['PY35', 'PY37', 'PO20', 'PR108', 'PR113'] },
+  cobalt: { id: 'cobalt', name: 'Cobalt', codes: ['PB28', 'PB35', 'PB36', 'PB72', 'PB74', 'PV14', 'PV47', 'PV49', 'PG19', 'PG26', 'PG50', 'PY40'] },
+  lead: { id: 'lead', name: 'Lead', codes: ['PW1', 'PY34', 'PY41', 'PO21', 'PR105'] }
+};
+
+// ASTM D4303 lightfastness categories, most permanent first
+export const LIGHTFASTNESS_RATINGS = ['I', 'II', 'III', 'IV', 'V'] as const;
+export type LightfastnessRating = typeof LIGHTFASTNESS_RATINGS[number];
+
+// Filters on which paints a recipe may use
+export interface PaintConstraints {
+  excludedPigments: string[]; // Colour Index codes
+  minLightfastness: LightfastnessRating | null; // Worst ASTM rating allowed
+  opacities: Paint['opacity'][]; // Allowed opacities; empty allows any
+  noBlack: boolean; // Leave out paints containing a black pigment (PBk)
+  bannedPaintIds: string[];
+}
+
+export interface RecipeConstraints extends PaintConstraints {
+  maxPaints: number; // Most paints in one recipe
+  maxPigments: number | null; // Most distinct pigments in one recipe; null allows any
+}
+
+export const DEFAULT_RECIPE_CONSTRAINTS: RecipeConstraints = {
+  excludedPigments: [],
+  minLightfastness: null,
+  opacities: [],
+  noBlack: false,
+  bannedPaintIds: [],
+  maxPaints: 3,
+  maxPigments: null
+};
+
+export type PaintConstraintId = 'pigment' | 'lightfastness' | 'opacity' | 'black' | 'banned';
+
+export const PAINT_CONSTRAINT_LABELS: Record<PaintConstraintId, string> = {
+  pigment: 'Excluded pigments',
+  lightfastness: 'Lightfastness',
+  opacity: 'Opacity',
+  black: 'No black',
+  banned: 'Banned tubes'
+};
+
+export interface ExclusionReason {
+  constraint: PaintConstraintId;
+  detail: string;
+}
+
+// A paint kept out of the search, with every constraint it failed
+export interface PaintExclusion {
+  paintId: string;
+  name: string;
+  brand: string;
+  reasons: ExclusionReason[];
+}
+
+const OPACITY_NAMES: Record<Paint['opacity'], string> = {
+  O: 'Opaque',
+  SO: 'Semi-opaque',
+  ST: 'Semi-transparent',
+  T: 'Transparent'
+};
+
+/**
+ * Reads an ASTM rating from a lightfastness label such as "ASTM II"
+ */
+export const parseLightfastness = (lightfastness: string): LightfastnessRating | null => {
+  const match = lightfastness.toUpperCase().match(/\b(IV|V|I{1,3})\b/);
+  return match ? (match[1] as LightfastnessRating) : null;
+};
+
+// True when a code is an excluded code or one of its variants (PR108:1 for PR108)
+const matchesPigment = (code: string, excluded: string): boolean => {
+  const a = code.toUpperCase();
+  const b = excluded.toUpperCase();
+  return a === b || a.startsWith(`${b}:`);
+};
+
+// Family an excluded code belongs to, for naming the reason
+const findFamily = (code: string): PigmentFamily | undefined => Object.values(PIGMENT_FAMILIES)
+  .find(family => family.codes.some(familyCode => matchesPigment(code, familyCode)));
+
+/**
+ * Why a paint fails the constraints; empty when it may be used
+ */
+export const getExclusionReasons = (paint: Paint, constraints: Partial<PaintConstraints>): ExclusionReason[] => {
+  const reasons: ExclusionReason[] = [];
+
+  if (constraints.bannedPaintIds?.includes(paint.id)) {
+    reasons.push({ constraint: 'banned', detail: 'Banned tube' });
+  }
+
+  const excludedCodes = paint.pigmentCodes.filter(code =>
+    (constraints.excludedPigments || []).some(excluded => matchesPigment(code, excluded))
+  );
+  if (excludedCodes.length > 0) {
+    const families = Array.from(new Set(excludedCodes.map(code => findFamily(code)?.name).filter(Boolean)));
+    reasons.push({
+      constraint: 'pigment',
+      detail: `Contains ${families.length > 0 ? `${families.join(', ')} ` : ''}(${excludedCodes.join(', ')})`
+    });
+  }
+
+  if (constraints.minLightfastness) {
+    const rating = parseLightfastness(paint.lightfastness);
+    if (!rating) {
+      reasons.push({ constraint: 'lightfastness', detail: 'Lightfastness unknown' });
+    } else if (LIGHTFASTNESS_RATINGS.indexOf(rating) > LIGHTFASTNESS_RATINGS.indexOf(constraints.minLightfastness)) {
+      reasons.push({ constraint: 'lightfastness', detail: `ASTM ${rating} is below ASTM ${constraints.minLightfastness}` });
+    }
+  }
+
+  if (constraints.opacities && constraints.opacities.length > 0 && !constraints.opacities.includes(paint.opacity)) {
+    reasons.push({ constraint: 'opacity', detail: `${OPACITY_NAMES[paint.opacity]} not allowed` });
+  }
+
+  const blacks = paint.pigmentCodes.filter(code => code.toUpperCase().startsWith('PBK'));
+  if (constraints.noBlack && blacks.length > 0) {
+    reasons.push({ constraint: 'black', detail: `Contains black (${blacks.join(', ')})` });
+  }
+
+  return reasons;
+};
+
+/**
+ * Splits paints into those a recipe may use and those the constraints exclude
+ */
+export const applyPaintConstraints = (
+  paints: Paint[],
+  constraints: Partial<PaintConstraints>
+): { paints: Paint[]; excluded: PaintExclusion[] } => {
+  const allowed: Paint[] = [];
+  const excluded: PaintExclusion[] = [];
+
+  paints.forEach(paint => {
+    const reasons = getExclusionReasons(paint, constraints);
+    if (reasons.length === 0) {
+      allowed.push(paint);
+    } else {
+      excluded.push({ paintId: paint.id, name: paint.name, brand: paint.brand, reasons });
+    }
+  });
+
+  return { paints: allowed, excluded };
+};
+
+/**
+ * Groups excluded paints by the constraint that removed them; a paint failing
+ * several constraints appears under each
+ */
+export const groupExclusions = (excluded: PaintExclusion[]): Partial<Record<PaintConstraintId, PaintExclusion[]>> => {
+  const groups: Partial<Record<PaintConstraintId, PaintExclusion[]>> = {};
+  excluded.forEach(exclusion => {
+    Array.from(new Set(exclusion.reasons.map(reason => reason.constraint))).forEach(constraint => {
+      if (!groups[constraint]) groups[constraint] = [];
+      groups[constraint]!.push(exclusion);
+    });
+  });
+  return groups;
+};
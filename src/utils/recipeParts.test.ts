@@ -0,0 +1,71 @@
+import { MixingRecipe } from '../context/PaintContext';
+import { getPaintDensity } from '../data/paintDatabase';
+import { paint } from '../testing/paints';
+import { colorDifference } from './colorDifference';
+import { mixPaints } from './kubelkaMunk';
+import { toBatchQuantities, toRecipeParts } from './recipeParts';
+
+const PAINTS = ['wn-titanium-white', 'wn-french-ultramarine', 'wn-burnt-sienna'].map(paint);
+
+const recipe = (proportions: number[]): MixingRecipe => ({
+  paints: proportions.map((proportion, i) => ({ paint: PAINTS[i], proportion })),
+  matchPercentage: 90
+});
+
+describe('toRecipeParts', () => {
+  it('finds exact whole parts', () => {
+    expect(toRecipeParts(recipe([0.75, 0.25])).formatted).toBe('3 : 1');
+    const parts = toRecipeParts(recipe([0.6, 0.3, 0.1]), 0.02);
+    expect(parts.formatted).toBe('6 : 3 : 1');
+    expect(parts.maxError).toBeCloseTo(0, 9);
+    expect(parts.roundingDeltaE).toBeCloseTo(0, 6);
+  });
+
+  it('writes a small share as a half part', () => {
+    expect(toRecipeParts(recipe([0.4, 0.4, 0.2])).formatted).toBe('1 : 1 : ½');
+  });
+
+  it('trades accuracy for simpler parts as the tolerance grows', () => {
+    const proportions = [0.52, 0.31, 0.17];
+    const tight = toRecipeParts(recipe(proportions), 0.02);
+    const loose = toRecipeParts(recipe(proportions), 0.1);
+
+    expect(tight.formatted).toBe('7 : 4 : 2');
+    expect(loose.formatted).toBe('2 : 1 : 1');
+    expect(tight.maxError).toBeLessThanOrEqual(0.02);
+    expect(loose.maxError).toBeLessThanOrEqual(0.1);
+    expect(loose.roundingDeltaE).toBeGreaterThan(tight.roundingDeltaE);
+  });
+
+  it('keeps at least one part of every paint', () => {
+    const parts = toRecipeParts(recipe([0.995, 0.005]));
+    expect(parts.parts[1]).toBeGreaterThan(0);
+  });
+
+  it('measures the rounded mix against the target', () => {
+    const target = { L: 60, a: 0, b: -10 };
+    const parts = toRecipeParts(recipe([0.52, 0.31, 0.17]), 0.1, 'D65', undefined, target);
+    const rounded = mixPaints(PAINTS.map((p, i) => ({ paint: p, proportion: parts.proportions[i] })));
+
+    expect(parts.proportions.reduce((sum, proportion) => sum + proportion, 0)).toBeCloseTo(1, 9);
+    expect(parts.deltaE).toBeCloseTo(colorDifference(target, rounded), 9);
+    expect(parts.exactDeltaE).toBeDefined();
+  });
+});
+
+describe('toBatchQuantities', () => {
+  const components = [{ paint: PAINTS[0], proportion: 3 }, { paint: PAINTS[1], proportion: 1 }];
+
+  it('splits a volume by proportion', () => {
+    const [white, blue] = toBatchQuantities(components, 20, 'ml');
+    expect(white.millilitres).toBeCloseTo(15, 9);
+    expect(blue.millilitres).toBeCloseTo(5, 9);
+    expect(white.grams).toBeCloseTo(15 * getPaintDensity(PAINTS[0]), 9);
+  });
+
+  it('converts a batch weight to volume with each paint\'s density', () => {
+    const quantities = toBatchQuantities(components, 50, 'g');
+    expect(quantities.reduce((sum, quantity) => sum + quantity.grams, 0)).toBeCloseTo(50, 9);
+    expect(quantities[0].millilitres / quantities[1].millilitres).toBeCloseTo(3, 9);
+  });
+});
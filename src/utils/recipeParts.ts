@@ -0,0 +1,112 @@
+import { MixingRecipe, Paint } from '../context/PaintContext';
+import { LABColor } from '../context/ColorContext';
+import { IlluminantId } from '../data/illuminants';
+import { getPaintDensity } from '../data/paintDatabase';
+import { colorDifference, DEFAULT_DELTA_E_OPTIONS, DeltaEOptions } from './colorDifference';
+import { mixPaints } from './kubelkaMunk';
+
+// Largest proportion error allowed when rounding to parts
+export const PARTS_TOLERANCES = [0.02, 0.05, 0.1];
+export const DEFAULT_PARTS_TOLERANCE = 0.05;
+
+// Most units tried before settling for the closest rounding found
+const MAX_UNITS = 48;
+
+export type BatchUnit = 'g' | 'ml';
+
+export interface RecipeParts {
+  parts: number[]; // Whole or half parts, in recipe order
+  formatted: string; // e.g. "3 : 1 : ½"
+  proportions: number[]; // Proportions the parts stand for
+  maxError: number; // Largest difference from the exact proportions
+  roundingDeltaE: number; // Color difference between the exact and the rounded mix
+  deltaE?: number; // Rounded mix against the target, when one is given
+  exactDeltaE?: number; // Exact mix against the target, when one is given
+}
+
+export interface BatchQuantity {
+  paint: Paint;
+  millilitres: number;
+  grams: number;
+}
+
+const greatestCommonDivisor = (a: number, b: number): number => (b === 0 ? a : greatestCommonDivisor(b, a % b));
+
+const formatPart = (part: number): string => {
+  const whole = Math.floor(part);
+  if (part === whole) return String(whole);
+  return whole === 0 ? '½' : `${whole}½`;
+};
+
+/**
+ * Rounds a recipe's proportions to the simplest parts (halves allowed) that
+ * stay within the tolerance, and measures how far rounding moves the color
+ */
+export const toRecipeParts = (
+  recipe: MixingRecipe,
+  tolerance: number = DEFAULT_PARTS_TOLERANCE,
+  illuminant: IlluminantId = 'D65',
+  deltaEOptions: DeltaEOptions = DEFAULT_DELTA_E_OPTIONS,
+  target?: LABColor
+): RecipeParts => {
+  const exact = recipe.paints.map(component => component.proportion);
+  const total = exact.reduce((sum, proportion) => sum + proportion, 0) || 1;
+  const normalized = exact.map(proportion => proportion / total);
+
+  // Fewest whole units that keep every paint and stay within tolerance
+  let best: { units: number[]; error: number } | null = null;
+  for (let count = recipe.paints.length; count <= MAX_UNITS; count++) {
+    const units = normalized.map(proportion => Math.max(1, Math.round(proportion * count)));
+    const sum = units.reduce((acc, value) => acc + value, 0);
+    const error = Math.max(...units.map((value, i) => Math.abs(value / sum - normalized[i])));
+
+    if (!best || error < best.error) best = { units, error };
+    if (error <= tolerance) break;
+  }
+
+  const divisor = best!.units.reduce(greatestCommonDivisor);
+  const units = best!.units.map(value => value / divisor);
+  const sum = units.reduce((acc, value) => acc + value, 0);
+
+  // Halving reads better than large whole numbers only when a single share is small
+  const larger = units.filter(value => value > 1);
+  const useHalves = larger.length >= 2 && larger.every(value => value % 2 === 0);
+  const parts = useHalves ? units.map(value => value / 2) : units;
+
+  const proportions = units.map(value => value / sum);
+  const exactLab = mixPaints(recipe.paints.map((component, i) => ({ paint: component.paint, proportion: normalized[i] })), illuminant);
+  const roundedLab = mixPaints(recipe.paints.map((component, i) => ({ paint: component.paint, proportion: proportions[i] })), illuminant);
+
+  return {
+    parts,
+    formatted: parts.map(formatPart).join(' : '),
+    proportions,
+    maxError: best!.error,
+    roundingDeltaE: colorDifference(exactLab, roundedLab, deltaEOptions),
+    deltaE: target ? colorDifference(target, roundedLab, deltaEOptions) : undefined,
+    exactDeltaE: target ? colorDifference(target, exactLab, deltaEOptions) : undefined
+  };
+};
+
+/**
+ * Splits a batch into per-paint amounts. Proportions are by volume; a batch
+ * given in grams is converted with each paint's density.
+ */
+export const toBatchQuantities = (
+  components: { paint: Paint; proportion: number }[],
+  batchSize: number,
+  unit: BatchUnit
+): BatchQuantity[] => {
+  const total = components.reduce((sum, component) => sum + component.proportion, 0) || 1;
+  const densities = components.map(component => getPaintDensity(component.paint));
+
+  // Volume of the whole batch
+  const volume = unit === 'ml'
+    ? batchSize
+    : batchSize / components.reduce((sum, component, i) => sum + (component.proportion / total) * densities[i], 0);
+
+  return components.map((component, i) => {
+    const millilitres = volume * component.proportion / total;
+    return { paint: component.paint, millilitres, grams: millilitres * densities[i] };
+  });
+};
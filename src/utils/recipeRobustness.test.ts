@@ -0,0 +1,69 @@
+import { MixingRecipe } from '../context/PaintContext';
+import { paint } from '../testing/paints';
+import { assessRobustness, rankByRobustness, SENSITIVE_DELTA_E } from './recipeRobustness';
+
+const white = paint('wn-titanium-white');
+const phthalo = paint('wn-phthalo-blue');
+const sienna = paint('wn-burnt-sienna');
+
+describe('assessRobustness', () => {
+  const tint = [{ paint: phthalo, proportion: 0.05 }, { paint: white, proportion: 0.95 }];
+
+  it('finds the paint whose measuring error moves the mix most', () => {
+    const robustness = assessRobustness(tint);
+
+    expect(robustness.componentDeltaE.map(component => component.paint)).toEqual([phthalo, white]);
+    expect(robustness.mostSensitive).toBe(phthalo);
+    expect(robustness.rating).toBe('sensitive');
+    expect(robustness.worstDeltaE).toBeGreaterThan(SENSITIVE_DELTA_E);
+  });
+
+  it('takes the worst case over single and joint errors', () => {
+    const { worstDeltaE, expectedDeltaE, componentDeltaE } = assessRobustness([
+      { paint: sienna, proportion: 0.4 },
+      { paint: phthalo, proportion: 0.1 },
+      { paint: white, proportion: 0.5 }
+    ]);
+
+    componentDeltaE.forEach(component => expect(component.deltaE).toBeLessThanOrEqual(worstDeltaE));
+    expect(expectedDeltaE).toBeGreaterThan(0);
+    expect(expectedDeltaE).toBeLessThanOrEqual(worstDeltaE);
+  });
+
+  it('grows with the measuring error', () => {
+    expect(assessRobustness(tint, 'D65', undefined, 0.01).worstDeltaE)
+      .toBeLessThan(assessRobustness(tint, 'D65', undefined, 0.05).worstDeltaE);
+  });
+
+  it('calls a single paint forgiving', () => {
+    expect(assessRobustness([{ paint: phthalo, proportion: 1 }, { paint: white, proportion: 0 }])).toEqual({
+      worstDeltaE: 0, expectedDeltaE: 0, componentDeltaE: [], mostSensitive: null, rating: 'forgiving'
+    });
+  });
+});
+
+describe('rankByRobustness', () => {
+  const recipe = (matchPercentage: number, worstDeltaE: number): MixingRecipe => ({
+    paints: [],
+    matchPercentage,
+    robustness: {
+      worstDeltaE,
+      expectedDeltaE: worstDeltaE / 2,
+      componentDeltaE: [],
+      mostSensitive: null,
+      rating: worstDeltaE > SENSITIVE_DELTA_E ? 'sensitive' : 'forgiving'
+    }
+  });
+
+  it('lets a forgiving runner-up overtake a sensitive near-tie', () => {
+    const sensitive = recipe(90, 6);
+    const forgiving = recipe(89, 0.5);
+    expect(rankByRobustness([sensitive, forgiving])).toEqual([forgiving, sensitive]);
+  });
+
+  it('keeps clearly better matches first', () => {
+    const close = recipe(95, 8);
+    const distant = recipe(80, 0);
+    expect(rankByRobustness([distant, close])).toEqual([close, distant]);
+  });
+});
@@ -0,0 +1,86 @@
+import { MixingRecipe, Paint } from '../context/PaintContext';
+import { IlluminantId } from '../data/illuminants';
+import { colorDifference, DEFAULT_DELTA_E_OPTIONS, DeltaEOptions } from './colorDifference';
+import { mixPaints } from './kubelkaMunk';
+
+type PaintComponent = { paint: Paint; proportion: number };
+
+// Error in measuring out a paint by eye or palette knife, as a share of the whole mix
+export const MEASURING_ERROR = 0.05;
+
+// Worst-case ΔE above which a recipe is called sensitive
+export const SENSITIVE_DELTA_E = 2.0;
+
+// Match percentage a recipe gives up per unit of worst-case ΔE when ranked
+const ROBUSTNESS_RANK_WEIGHT = 0.5;
+
+// Above this many paints only one-at-a-time errors are tried
+const MAX_JOINT_COMPONENTS = 5;
+
+export interface RecipeRobustness {
+  worstDeltaE: number; // Largest shift when every paint is off by the measuring error
+  expectedDeltaE: number; // Mean shift over the error combinations tried
+  componentDeltaE: { paint: Paint; deltaE: number }[]; // Shift when only that paint is off, in recipe order
+  mostSensitive: Paint | null; // Paint whose error moves the mix most
+  rating: 'forgiving' | 'sensitive';
+}
+
+// Recipe with each paint's error added to its share, renormalised
+const perturb = (components: PaintComponent[], errors: number[]): PaintComponent[] => {
+  const scaled = components.map((component, i) => ({ ...component, proportion: Math.max(0, component.proportion + errors[i]) }));
+  const total = scaled.reduce((sum, component) => sum + component.proportion, 0) || 1;
+  return scaled.map(component => ({ ...component, proportion: component.proportion / total }));
+};
+
+/**
+ * Measures how far a recipe's color moves when its paints are measured
+ * inaccurately: each paint alone, and every combination of paints being over
+ * or under by the measuring error
+ */
+export const assessRobustness = (
+  components: PaintComponent[],
+  illuminant: IlluminantId = 'D65',
+  deltaEOptions: DeltaEOptions = DEFAULT_DELTA_E_OPTIONS,
+  error: number = MEASURING_ERROR
+): RecipeRobustness => {
+  const mixed = components.filter(component => component.proportion > 0);
+  if (mixed.length < 2) {
+    return { worstDeltaE: 0, expectedDeltaE: 0, componentDeltaE: [], mostSensitive: null, rating: 'forgiving' };
+  }
+
+  const lab = mixPaints(mixed, illuminant);
+  const shift = (errors: number[]): number => colorDifference(lab, mixPaints(perturb(mixed, errors), illuminant), deltaEOptions);
+
+  const componentDeltaE = mixed.map((component, i) => ({
+    paint: component.paint,
+    deltaE: Math.max(...[error, -error].map(sign => shift(mixed.map((_, j) => (j === i ? sign : 0)))))
+  }));
+
+  // Every combination of paints being over or under at once
+  const shifts = mixed.length <= MAX_JOINT_COMPONENTS
+    ? Array.from({ length: 2 ** mixed.length }, (_, mask) =>
+      shift(mixed.map((_, i) => (mask & (1 << i) ? error : -error))))
+    : componentDeltaE.map(component => component.deltaE);
+
+  const worstDeltaE = Math.max(...shifts, ...componentDeltaE.map(component => component.deltaE));
+  const mostSensitive = componentDeltaE.reduce((most, component) => (component.deltaE > most.deltaE ? component : most));
+
+  return {
+    worstDeltaE,
+    expectedDeltaE: shifts.reduce((sum, value) => sum + value, 0) / shifts.length,
+    componentDeltaE,
+    mostSensitive: mostSensitive.paint,
+    rating: worstDeltaE > SENSITIVE_DELTA_E ? 'sensitive' : 'forgiving'
+  };
+};
+
+/**
+ * Orders recipes by match, with robustness breaking near-ties: each unit of
+ * worst-case ΔE costs a recipe half a match percentage point, so a close
+ * runner-up that tolerates measuring error moves ahead
+ */
+export const rankByRobustness = (recipes: MixingRecipe[]): MixingRecipe[] => {
+  const score = (recipe: MixingRecipe): number =>
+    recipe.matchPercentage - ROBUSTNESS_RANK_WEIGHT * (recipe.robustness?.worstDeltaE || 0);
+  return [...recipes].sort((a, b) => score(b) - score(a));
+};
@@ -0,0 +1,59 @@
+import { paint } from '../testing/paints';
+import { hexToRgb } from './colorConversion';
+import { colorDifference } from './colorDifference';
+import { mixPaints } from './kubelkaMunk';
+import { renderPaint } from './spectral';
+import { mixGradient, predictMix, toProportions } from './recipeWorkbench';
+
+const red = paint('wn-cadmium-red');
+const yellow = paint('wn-cadmium-yellow-pale');
+const blue = paint('wn-french-ultramarine');
+
+describe('toProportions', () => {
+  it('turns parts into shares of the mix and drops empty entries', () => {
+    expect(toProportions([
+      { paint: red, parts: 1 },
+      { paint: yellow, parts: 3 },
+      { paint: blue, parts: 0 }
+    ])).toEqual([{ paint: red, proportion: 0.25 }, { paint: yellow, proportion: 0.75 }]);
+  });
+});
+
+describe('predictMix', () => {
+  it('mixes like the recipe search with the pigment model', () => {
+    const entries = [{ paint: red, parts: 2 }, { paint: blue, parts: 1 }];
+    const prediction = predictMix(entries, 'pigment')!;
+
+    expect(colorDifference(prediction.lab, mixPaints(toProportions(entries)))).toBeLessThan(0.01);
+    expect(prediction.basis).toBe('spectral');
+    expect(prediction.estimated).toEqual([]);
+  });
+
+  it('lists the paints it mixed from an estimated curve', () => {
+    const labOnly = { ...blue, id: 'custom-blue', spectrum: undefined };
+    expect(predictMix([{ paint: red, parts: 1 }, { paint: labOnly, parts: 1 }], 'pigment')!.estimated).toEqual([labOnly]);
+  });
+
+  it('weights each paint by its share when folding a blend model', () => {
+    const swatches = [red, yellow, blue].map(p => hexToRgb(renderPaint(p, 'D65').swatch));
+    const mixed = hexToRgb(predictMix([red, yellow, blue].map(p => ({ paint: p, parts: 1 })), 'srgb')!.hex);
+
+    (['r', 'g', 'b'] as const).forEach(channel => {
+      const mean = swatches.reduce((sum, swatch) => sum + swatch[channel], 0) / 3;
+      expect(Math.abs(mixed[channel] - mean)).toBeLessThanOrEqual(1);
+    });
+  });
+
+  it('returns null with nothing on the palette', () => {
+    expect(predictMix([{ paint: red, parts: 0 }], 'pigment')).toBeNull();
+  });
+});
+
+describe('mixGradient', () => {
+  it('runs from one paint to the other', () => {
+    const gradient = mixGradient(red, yellow, 'oklab', 5);
+    expect(gradient).toHaveLength(5);
+    expect(gradient[0]).toBe(predictMix([{ paint: red, parts: 1 }], 'oklab')!.hex);
+    expect(gradient[4]).toBe(predictMix([{ paint: yellow, parts: 1 }], 'oklab')!.hex);
+  });
+});
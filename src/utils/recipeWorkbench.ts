@@ -0,0 +1,94 @@
+import { Paint } from '../context/PaintContext';
+import { LABColor } from '../context/ColorContext';
+import { IlluminantId } from '../data/illuminants';
+import { BLEND_MODELS, BlendModel, blendColors, HuePath } from './blendModels';
+import { hexToRgb, labToRgb, rgbToHex, rgbToLab } from './colorConversion';
+import { hasEstimatedSpectrum, MixingBasis, mixPaintsReflectance, reflectanceToLab } from './kubelkaMunk';
+import { renderPaint } from './spectral';
+
+// The pigment model is the one recipe searches use; the blend models mix the paints' swatch colors
+export type WorkbenchModel = 'pigment' | BlendModel;
+
+export const WORKBENCH_MODELS: Record<WorkbenchModel, { name: string; description: string }> = {
+  pigment: {
+    name: 'Pigment (Kubelka-Munk)',
+    description: 'Mixes each paint\'s absorption and scattering over 31 spectral bands, as the recipe search does; paints without a measured spectrum use a smooth curve estimated from their color. Strong, opaque paints dominate a mix and transparent ones give way.'
+  },
+  ...BLEND_MODELS
+};
+
+export const DEFAULT_WORKBENCH_MODEL: WorkbenchModel = 'pigment';
+
+// A paint on the workbench palette and how much of it goes into the mix
+export interface PaletteEntry {
+  paint: Paint;
+  parts: number;
+}
+
+export interface MixPrediction {
+  lab: LABColor; // Relative to the illuminant's white
+  hex: string;
+  basis: MixingBasis | null; // Kubelka-Munk basis; null for the digital blend models
+  estimated: Paint[]; // Paints the pigment model mixed from a curve estimated from their color
+}
+
+/**
+ * Converts palette amounts into recipe proportions summing to 1, leaving out
+ * paints with no amount
+ */
+export const toProportions = (entries: PaletteEntry[]): { paint: Paint; proportion: number }[] => {
+  const active = entries.filter(entry => entry.parts > 0);
+  const total = active.reduce((sum, entry) => sum + entry.parts, 0);
+  return active.map(entry => ({ paint: entry.paint, proportion: entry.parts / total }));
+};
+
+/**
+ * Predicts the color of mixing the palette's paints in their amounts. The
+ * blend models fold the paints in one at a time, each weighted by its share
+ * of what has been mixed so far.
+ */
+export const predictMix = (
+  entries: PaletteEntry[],
+  model: WorkbenchModel,
+  options: { illuminant?: IlluminantId; huePath?: HuePath } = {}
+): MixPrediction | null => {
+  const illuminant = options.illuminant || 'D65';
+  const components = toProportions(entries);
+  if (components.length === 0) return null;
+
+  if (model === 'pigment') {
+    const mixture = mixPaintsReflectance(components);
+    if (!mixture) return null;
+    const lab = reflectanceToLab(mixture, illuminant);
+    return {
+      lab,
+      hex: rgbToHex(labToRgb(lab, illuminant)),
+      basis: mixture.basis,
+      estimated: components.map(component => component.paint).filter(hasEstimatedSpectrum)
+    };
+  }
+
+  let mixed = hexToRgb(renderPaint(components[0].paint, illuminant).swatch);
+  let mixedShare = components[0].proportion;
+  components.slice(1).forEach(({ paint, proportion }) => {
+    mixedShare += proportion;
+    mixed = blendColors(mixed, hexToRgb(renderPaint(paint, illuminant).swatch), proportion / mixedShare, model, options.huePath);
+  });
+
+  return { lab: rgbToLab(mixed, illuminant), hex: rgbToHex(mixed), basis: null, estimated: [] };
+};
+
+/**
+ * Samples mixes of two paints from all of the first to all of the second
+ */
+export const mixGradient = (
+  paintA: Paint,
+  paintB: Paint,
+  model: WorkbenchModel,
+  steps: number,
+  options: { illuminant?: IlluminantId; huePath?: HuePath } = {}
+): string[] => Array.from({ length: steps }, (_, i) => {
+  const t = steps > 1 ? i / (steps - 1) : 0;
+  const entries = [{ paint: paintA, parts: 1 - t }, { paint: paintB, parts: t }];
+  return predictMix(entries, model, options)?.hex || '#808080';
+});
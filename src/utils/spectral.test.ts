@@ -0,0 +1,139 @@
+import { Paint } from '../context/PaintContext';
+import { SPECTRAL_BANDS } from '../data/cieTables';
+import { getAllPaints } from '../data/paintDatabase';
+import { labToRgb, rgbToLab } from './colorConversion';
+import { colorDifference } from './colorDifference';
+import { mixPaints } from './kubelkaMunk';
+import {
+  estimateSpectrum,
+  getPaintLab,
+  getPaintSpectrum,
+  getSourcePaint,
+  renderPaint,
+  spectralWhitePoint,
+  spectrumToLab
+} from './spectral';
+
+const catalog = getAllPaints();
+const paint = (id: string): Paint => catalog.find(candidate => candidate.id === id)!;
+
+// The same paint with only its lab value, as a custom paint would have
+const labOnly = (source: Paint): Paint => ({ ...source, id: `${source.id}-lab`, spectrum: undefined, lab: spectrumToLab(source.spectrum!) });
+
+describe('spectrumToLab', () => {
+  it('puts a perfect reflector at the white point', () => {
+    const white = spectralWhitePoint();
+    expect(white.Y).toBeCloseTo(1, 9);
+    const lab = spectrumToLab(new Array(SPECTRAL_BANDS).fill(1));
+    expect(lab.L).toBeCloseTo(100, 6);
+    expect(lab.a).toBeCloseTo(0, 6);
+    expect(lab.b).toBeCloseTo(0, 6);
+  });
+});
+
+describe('estimateSpectrum', () => {
+  const colors = [
+    { r: 255, g: 0, b: 0 },
+    { r: 0, g: 255, b: 0 },
+    { r: 0, g: 0, b: 255 },
+    { r: 255, g: 255, b: 0 },
+    { r: 128, g: 128, b: 128 },
+    { r: 40, g: 90, b: 60 }
+  ];
+
+  it('reproduces the color it was estimated from', () => {
+    // Cadmium orange's catalog lab is beyond what a 400-700 nm curve reaches
+    const reachable = catalog.filter(p => p.name !== 'Cadmium Orange');
+    colors.map(rgb => rgbToLab(rgb)).concat(reachable.map(p => p.lab!)).forEach(lab => {
+      expect(colorDifference(spectrumToLab(estimateSpectrum(lab)), lab)).toBeLessThan(0.05);
+    });
+  });
+
+  it('gives a color no curve can reach the nearest one of its hue', () => {
+    const lab = { L: 75, a: 70, b: 95 };
+    const estimate = spectrumToLab(estimateSpectrum(lab));
+    expect(Math.hypot(estimate.a, estimate.b)).toBeLessThan(Math.hypot(lab.a, lab.b));
+    expect(Math.atan2(estimate.b, estimate.a)).toBeCloseTo(Math.atan2(lab.b, lab.a), 1);
+    expect(estimate.L).toBeCloseTo(lab.L, 0);
+  });
+
+  it('stays strictly between 0 and 1', () => {
+    colors.forEach(rgb => {
+      estimateSpectrum(rgbToLab(rgb)).forEach(R => {
+        expect(R).toBeGreaterThan(0);
+        expect(R).toBeLessThan(1);
+      });
+    });
+  });
+
+  it('gives a grey a flat curve', () => {
+    const curve = estimateSpectrum({ L: 50, a: 0, b: 0 });
+    expect(Math.max(...curve) - Math.min(...curve)).toBeLessThan(0.01);
+  });
+
+  it('clamps black and white to reachable curves', () => {
+    expect(estimateSpectrum({ L: 0, a: 0, b: 0 }).every(R => R > 0)).toBe(true);
+    expect(estimateSpectrum({ L: 100, a: 0, b: 0 }).every(R => R < 1)).toBe(true);
+  });
+});
+
+describe('getPaintSpectrum', () => {
+  it('returns a measured spectrum as is', () => {
+    const red = paint('wn-cadmium-red');
+    expect(getPaintSpectrum(red)).toBe(red.spectrum);
+  });
+
+  it('estimates a curve once for a lab-only paint', () => {
+    const custom = labOnly(paint('wn-cadmium-red'));
+    expect(getPaintSpectrum(custom)).toBe(getPaintSpectrum(custom));
+    expect(getPaintSpectrum({ ...custom, lab: undefined })).toBeNull();
+  });
+});
+
+describe('getPaintLab', () => {
+  it('keeps a lab-only paint\'s lab under D65 and renders it from its curve under other light', () => {
+    const custom = labOnly(paint('wn-cadmium-red'));
+    expect(getPaintLab(custom)).toBe(custom.lab);
+    expect(colorDifference(getPaintLab(custom, 'A')!, custom.lab!)).toBeGreaterThan(1);
+  });
+});
+
+describe('renderPaint', () => {
+  it('caches renderings and maps them back to the database paint', () => {
+    const red = paint('wn-cadmium-red');
+    expect(renderPaint(red, 'A')).toBe(renderPaint(red, 'A'));
+    expect(getSourcePaint(renderPaint(red, 'A'))).toBe(red);
+    expect(renderPaint(red, 'A').swatch).not.toBe(red.swatch);
+  });
+
+  it('returns a lab-only paint unchanged under D65', () => {
+    const custom = labOnly(paint('wn-cadmium-red'));
+    expect(renderPaint(custom)).toBe(custom);
+  });
+});
+
+describe('mixing lab-only paints', () => {
+  it('lands close to the measured spectra', () => {
+    const pairs: [string, string][] = [
+      ['wn-phthalo-blue', 'wn-cadmium-yellow-pale'],
+      ['wn-cadmium-red', 'wn-titanium-white'],
+      ['wn-french-ultramarine', 'wn-burnt-sienna'],
+      ['wn-alizarin-crimson', 'wn-viridian']
+    ];
+    const differences = pairs.map(([a, b]) => {
+      const measured = mixPaints([{ paint: paint(a), proportion: 0.5 }, { paint: paint(b), proportion: 0.5 }]);
+      const estimated = mixPaints([{ paint: labOnly(paint(a)), proportion: 0.5 }, { paint: labOnly(paint(b)), proportion: 0.5 }]);
+      return colorDifference(measured, estimated);
+    });
+    expect(differences.reduce((sum, deltaE) => sum + deltaE, 0) / differences.length).toBeLessThan(6);
+  });
+
+  it('renders a mix of a lab-only paint with a spectral one in a valid color', () => {
+    const lab = mixPaints([
+      { paint: labOnly(paint('wn-phthalo-blue')), proportion: 0.5 },
+      { paint: paint('wn-cadmium-yellow-pale'), proportion: 0.5 }
+    ]);
+    const rgb = labToRgb(lab);
+    expect(rgb.g).toBeGreaterThan(rgb.r);
+  });
+});
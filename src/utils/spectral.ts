@@ -0,0 +1,238 @@
+import { CIE_1931_2DEG, D65_SPD, SPECTRAL_BANDS } from '../data/cieTables';
+import { Paint } from '../context/PaintContext';
+import { LABColor } from '../context/ColorContext';
+import { ILLUMINANTS, IlluminantId } from '../data/illuminants';
+import { xyzToLab, labToRgb, labToXyz, rgbToHex } from './colorConversion';
+
+// Rendered copies of paints per illuminant, so repeated lookups return the same object
+const renderedPaintCache = new WeakMap<Paint, Map<IlluminantId, Paint>>();
+
+// Maps each rendered copy back to the database paint it was made from
+const sourcePaints = new WeakMap<Paint, Paint>();
+
+// Curves estimated for lab-only paints, by database paint
+const estimatedSpectrumCache = new WeakMap<Paint, number[]>();
+
+// Estimated curves stay this far inside 0 and 1, so their logit stays finite
+const ESTIMATE_MARGIN = 0.001;
+
+// Newton steps allowed for an estimate, and the XYZ error it must reach
+const ESTIMATE_ITERATIONS = 50;
+const ESTIMATE_TOLERANCE = 1e-6;
+
+// Share of chroma given up at a time when a color is out of reach
+const ESTIMATE_CHROMA_STEP = 0.05;
+
+/**
+ * Checks whether a paint carries a full 31-band reflectance curve
+ */
+export const hasSpectrum = (paint: Paint): boolean => {
+  return !!paint.spectrum && paint.spectrum.length === SPECTRAL_BANDS;
+};
+
+/**
+ * Integrates a reflectance curve against the CIE 1931 observer under an
+ * illuminant. XYZ is normalised so that a perfect white reflector has Y = 1.
+ */
+export const spectrumToXyz = (
+  reflectance: number[],
+  spd: number[] = D65_SPD
+): [number, number, number] => {
+  let X = 0;
+  let Y = 0;
+  let Z = 0;
+  let normaliser = 0;
+
+  for (let i = 0; i < SPECTRAL_BANDS; i++) {
+    const power = spd[i];
+    X += reflectance[i] * power * CIE_1931_2DEG.x[i];
+    Y += reflectance[i] * power * CIE_1931_2DEG.y[i];
+    Z += reflectance[i] * power * CIE_1931_2DEG.z[i];
+    normaliser += power * CIE_1931_2DEG.y[i];
+  }
+
+  return [X / normaliser, Y / normaliser, Z / normaliser];
+};
+
+/**
+ * Returns the XYZ white point of an illuminant's spectral power distribution
+ */
+export const spectralWhitePoint = (spd: number[] = D65_SPD): { X: number; Y: number; Z: number } => {
+  const [X, Y, Z] = spectrumToXyz(new Array(SPECTRAL_BANDS).fill(1), spd);
+  return { X, Y, Z };
+};
+
+/**
+ * Converts a reflectance curve to CIE LAB under an illuminant
+ */
+export const spectrumToLab = (reflectance: number[], spd: number[] = D65_SPD): LABColor => {
+  return xyzToLab(spectrumToXyz(reflectance, spd), spectralWhitePoint(spd));
+};
+
+// Solves A·x = b by Gaussian elimination with partial pivoting
+const solveLinearSystem = (A: number[][], b: number[]): number[] => {
+  const rows = A.map((row, i) => [...row, b[i]]);
+  const n = b.length;
+
+  for (let column = 0; column < n; column++) {
+    let pivot = column;
+    for (let row = column + 1; row < n; row++) {
+      if (Math.abs(rows[row][column]) > Math.abs(rows[pivot][column])) pivot = row;
+    }
+    [rows[column], rows[pivot]] = [rows[pivot], rows[column]];
+
+    for (let row = 0; row < n; row++) {
+      if (row === column) continue;
+      const factor = rows[row][column] / rows[column][column];
+      for (let k = column; k <= n; k++) rows[row][k] -= factor * rows[column][k];
+    }
+  }
+
+  return rows.map((row, i) => row[n] / row[i]);
+};
+
+const logistic = (value: number): number => 1 / (1 + Math.exp(-value));
+
+// XYZ under D65 contributed by unit reflectance in each band
+const D65_OBSERVER: number[][] = (() => {
+  const normaliser = D65_SPD.reduce((sum, power, i) => sum + power * CIE_1931_2DEG.y[i], 0);
+  return [CIE_1931_2DEG.x, CIE_1931_2DEG.y, CIE_1931_2DEG.z].map(cmf =>
+    cmf.map((value, i) => (value * D65_SPD[i]) / normaliser)
+  );
+})();
+
+const observedXyz = (curve: number[]): number[] =>
+  D65_OBSERVER.map(row => row.reduce((sum, weight, i) => sum + weight * curve[i], 0));
+
+// Smoothest curve in logit space with the target XYZ, by Newton iteration on
+// the logits and the Lagrange multipliers of the three XYZ constraints. Null
+// when no curve between 0 and 1 reaches the target.
+const fitSmoothCurve = (target: number[]): number[] | null => {
+  const size = SPECTRAL_BANDS + 3;
+  let z: number[] = new Array(SPECTRAL_BANDS).fill(0);
+  let multipliers = [0, 0, 0];
+
+  for (let iteration = 0; iteration < ESTIMATE_ITERATIONS; iteration++) {
+    const logits = z;
+    const lambda = multipliers;
+    const R = logits.map(logistic);
+    const slope = R.map(value => value * (1 - value));
+    const jacobian = Array.from({ length: size }, () => new Array(size).fill(0));
+    const residual = new Array(size).fill(0);
+
+    for (let band = 0; band < SPECTRAL_BANDS; band++) {
+      const pull = D65_OBSERVER.reduce((sum, row, j) => sum + row[band] * lambda[j], 0);
+      residual[band] = slope[band] * pull;
+      jacobian[band][band] = slope[band] * (1 - 2 * R[band]) * pull;
+
+      [band - 1, band + 1].filter(neighbour => neighbour >= 0 && neighbour < SPECTRAL_BANDS).forEach(neighbour => {
+        residual[band] += 2 * (logits[band] - logits[neighbour]);
+        jacobian[band][band] += 2;
+        jacobian[band][neighbour] -= 2;
+      });
+
+      D65_OBSERVER.forEach((row, j) => {
+        jacobian[band][SPECTRAL_BANDS + j] = row[band] * slope[band];
+        jacobian[SPECTRAL_BANDS + j][band] = row[band] * slope[band];
+      });
+    }
+    observedXyz(R).forEach((value, j) => { residual[SPECTRAL_BANDS + j] = value - target[j]; });
+
+    const step = solveLinearSystem(jacobian, residual.map(value => -value));
+
+    // Damped so no logit moves by more than 1 in a step
+    const damping = Math.min(1, 1 / Math.max(...step.slice(0, SPECTRAL_BANDS).map(Math.abs)));
+    if (!(damping > 0)) return null; // The step went non-finite
+    z = z.map((value, band) => value + damping * step[band]);
+    multipliers = multipliers.map((value, j) => value + damping * step[SPECTRAL_BANDS + j]);
+
+    const curve = z.map(logistic);
+    const error = Math.max(...observedXyz(curve).map((value, j) => Math.abs(value - target[j])));
+    if (damping === 1 && error < ESTIMATE_TOLERANCE) return curve;
+  }
+
+  return null;
+};
+
+/**
+ * Estimates a smooth reflectance curve with the given D65 lab color, after
+ * Burns' least log slope method: of all curves strictly between 0 and 1 with
+ * that color, the one whose logit changes least from band to band. A color
+ * too saturated for any curve gets the most saturated one of its hue and
+ * lightness that can be reached.
+ */
+export const estimateSpectrum = (lab: LABColor): number[] => {
+  const white = spectralWhitePoint();
+  const whiteXyz = [white.X, white.Y, white.Z];
+  const L = Math.max(0, Math.min(100, lab.L));
+
+  for (let chroma = 1; chroma > 0; chroma -= ESTIMATE_CHROMA_STEP) {
+    const target = labToXyz({ L, a: lab.a * chroma, b: lab.b * chroma }, white).map((value, i) =>
+      Math.max(ESTIMATE_MARGIN, Math.min(1 - ESTIMATE_MARGIN, value / whiteXyz[i])) * whiteXyz[i]
+    );
+    const curve = fitSmoothCurve(target);
+    if (curve) return curve;
+  }
+
+  // A grey is always reachable
+  const Y = Math.max(ESTIMATE_MARGIN, Math.min(1 - ESTIMATE_MARGIN, labToXyz({ L, a: 0, b: 0 }, white)[1]));
+  return new Array(SPECTRAL_BANDS).fill(Y);
+};
+
+/**
+ * Returns the database paint a rendered copy was made from
+ */
+export const getSourcePaint = (paint: Paint): Paint => {
+  return sourcePaints.get(paint) || paint;
+};
+
+/**
+ * Returns a paint's reflectance curve: its measured spectrum, or one estimated
+ * from its lab color for paints without one. Null for a paint with neither.
+ */
+export const getPaintSpectrum = (paint: Paint): number[] | null => {
+  const source = getSourcePaint(paint);
+  if (hasSpectrum(source)) return source.spectrum!;
+  if (!source.lab) return null;
+
+  let estimated = estimatedSpectrumCache.get(source);
+  if (!estimated) {
+    estimated = estimateSpectrum(source.lab);
+    estimatedSpectrumCache.set(source, estimated);
+  }
+  return estimated;
+};
+
+/**
+ * Returns a paint's LAB color under an illuminant, from its spectrum when one
+ * exists. A lab-only paint keeps its lab value under D65 and is rendered from
+ * its estimated curve under other light.
+ */
+export const getPaintLab = (paint: Paint, illuminant: IlluminantId = 'D65'): LABColor | undefined => {
+  if (hasSpectrum(paint)) {
+    return spectrumToLab(paint.spectrum!, ILLUMINANTS[illuminant].spd);
+  }
+  if (!paint.lab || illuminant === 'D65') return paint.lab;
+  return spectrumToLab(getPaintSpectrum(paint)!, ILLUMINANTS[illuminant].spd);
+};
+
+/**
+ * Returns a copy of a paint whose lab and swatch are rendered under an
+ * illuminant, from its spectrum where available. Lab-only paints viewed
+ * under D65 are returned unchanged.
+ */
+export const renderPaint = (paint: Paint, illuminant: IlluminantId = 'D65'): Paint => {
+  const source = getSourcePaint(paint);
+  if (!hasSpectrum(source) && illuminant === 'D65') return source;
+
+  const renderings = renderedPaintCache.get(source) || new Map<IlluminantId, Paint>();
+  const cached = renderings.get(illuminant);
+  if (cached) return cached;
+
+  const lab = getPaintLab(source, illuminant);
+  const rendered = lab ? { ...source, lab, swatch: rgbToHex(labToRgb(lab, illuminant)) } : { ...source };
+  renderings.set(illuminant, rendered);
+  renderedPaintCache.set(source, renderings);
+  sourcePaints.set(rendered, source);
+  return rendered;
+};
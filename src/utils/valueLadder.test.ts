@@ -0,0 +1,76 @@
+import { brandPaints, paint } from '../testing/paints';
+import { buildValueLadder, findChromaticBlack, findWhite, solveAgentShare, valueToLightness } from './valueLadder';
+
+const wnPaints = brandPaints('wn-cadmium-red');
+const red = [{ paint: paint('wn-cadmium-red'), proportion: 1 }];
+
+describe('valueToLightness', () => {
+  it('rises with Munsell value from black to white', () => {
+    expect(valueToLightness(0)).toBeCloseTo(0, 1);
+    expect(valueToLightness(5)).toBeGreaterThan(48);
+    expect(valueToLightness(5)).toBeLessThan(54);
+    expect(valueToLightness(10)).toBeGreaterThan(99);
+  });
+});
+
+describe('solveAgentShare', () => {
+  it('finds the share that lands on a lightness', () => {
+    const { share, reached } = solveAgentShare(t => 40 + 50 * t, 65);
+    expect(share).toBeCloseTo(0.5, 5);
+    expect(reached).toBe(true);
+  });
+
+  it('finds the first crossing when mixes dip below both ends', () => {
+    const { share } = solveAgentShare(t => 40 - 80 * t + 80 * t * t, 30);
+    expect(share).toBeCloseTo((80 - Math.sqrt(80 * 80 - 4 * 80 * 10)) / 160, 5);
+  });
+
+  it('settles for the closest share when the lightness is out of reach', () => {
+    expect(solveAgentShare(t => 40 + 10 * t, 90)).toEqual({ share: 1, reached: false });
+  });
+
+  it('does not claim a lightness it jumps over', () => {
+    expect(solveAgentShare(t => (t < 0.99 ? 60 : 90), 80).reached).toBe(false);
+  });
+});
+
+describe('findWhite and findChromaticBlack', () => {
+  it('prefers titanium white', () => {
+    expect(findWhite(wnPaints)!.pigmentCodes).toContain('PW6');
+    expect(findWhite([paint('wn-cadmium-red')])).toBeNull();
+  });
+
+  it('mixes a dark black from two non-black paints', () => {
+    const black = findChromaticBlack(wnPaints)!;
+    expect(black).toHaveLength(2);
+    black.forEach(({ paint: component }) => {
+      expect(component.pigmentCodes.some(code => code.toUpperCase().startsWith('PBK'))).toBe(false);
+    });
+  });
+});
+
+describe('buildValueLadder', () => {
+  it('steps a tint string from near white down to the base color', () => {
+    const ladder = buildValueLadder(red, wnPaints, { mode: 'white', steps: 7 })!;
+
+    expect(ladder.steps).toHaveLength(7);
+    expect(ladder.agents.lighten[0].pigmentCodes).toContain('PW6');
+    expect(ladder.steps[6].isBase).toBe(true);
+    ladder.steps.slice(1).forEach((step, i) => expect(step.lab.L).toBeLessThan(ladder.steps[i].lab.L));
+    ladder.steps.filter(step => step.reachable && !step.isBase).forEach(step => {
+      expect(step.lab.L).toBeCloseTo(valueToLightness(step.value), 0);
+    });
+  });
+
+  it('covers the full value range with white and the complement', () => {
+    const ladder = buildValueLadder(red, wnPaints, { mode: 'complement', steps: 9 })!;
+    expect(ladder.steps).toHaveLength(9);
+    expect(ladder.steps.filter(step => step.isBase)).toHaveLength(1);
+    expect(ladder.agents.darken).toHaveLength(1);
+    expect(ladder.steps[0].value).toBe(9);
+  });
+
+  it('needs a white to make tints', () => {
+    expect(buildValueLadder(red, [paint('wn-cadmium-red'), paint('wn-french-ultramarine')], { mode: 'white', steps: 7 })).toBeNull();
+  });
+});
@@ -0,0 +1,323 @@
+import { Paint } from '../context/PaintContext';
+import { LABColor } from '../context/ColorContext';
+import { IlluminantId } from '../data/illuminants';
+import { calculateChroma, calculateHueAngle, labToRgb, rgbToHex } from './colorConversion';
+import { colorDifference, DEFAULT_DELTA_E_OPTIONS, DeltaEOptions } from './colorDifference';
+import { mixPaints } from './kubelkaMunk';
+import { labToMunsell, MunsellColor, munsellToLab } from './munsell';
+
+type PaintComponent = { paint: Paint; proportion: number };
+
+export type LadderMode = 'white' | 'chromatic-black' | 'complement';
+
+export const LADDER_MODES: Record<LadderMode, { id: LadderMode; name: string; description: string }> = {
+  white: {
+    id: 'white',
+    name: 'Tints (white only)',
+    description: 'Steps up from the base color to near white by adding white.'
+  },
+  'chromatic-black': {
+    id: 'chromatic-black',
+    name: 'Shades (chromatic black only)',
+    description: 'Steps down from the base color with a mixed chromatic black, never tube black.'
+  },
+  complement: {
+    id: 'complement',
+    name: 'Full string (white and complement)',
+    description: 'Covers the whole value range: white above the base color, its complement below.'
+  }
+};
+
+export const LADDER_STEP_COUNTS = [7, 9] as const;
+export type LadderStepCount = typeof LADDER_STEP_COUNTS[number];
+
+export interface LadderStep {
+  value: number; // Munsell value the step aims for
+  lab: LABColor;
+  hex: string;
+  munsell: MunsellColor;
+  paints: PaintComponent[];
+  driftDeltaE: number; // From the ideal step: target value at the base color's hue
+  hueShift: number; // Degrees away from the base color's hue
+  isBase: boolean;
+  reachable: boolean; // False when the agent cannot reach the step's value
+}
+
+export interface ValueLadder {
+  mode: LadderMode;
+  agents: { lighten: Paint[]; darken: Paint[] }; // Paints that step the value
+  correctors: Paint[]; // Paints that may be added to hold hue
+  steps: LadderStep[]; // Lightest first
+}
+
+// Darkest and lightest Munsell values a full string spans
+const FULL_STRING_VALUES = { 7: [2, 8], 9: [1, 9] } as const;
+
+// Lightest value a tint string aims for
+const TINT_TOP_VALUE = 9.25;
+
+// Hue drift tolerated before a corrector paint is brought in
+const HUE_TOLERANCE = 3;
+
+// Below this chroma a color has no hue worth holding
+const NEUTRAL_CHROMA = 5;
+
+// Furthest a corrector paint's hue may be from the base color's
+const CORRECTOR_HUE_RANGE = 60;
+
+// L* a step may miss its value by and still count as reached
+const LIGHTNESS_TOLERANCE = 0.5;
+
+// Shares of the base recipe a corrector may take
+const CORRECTOR_SHARES = [0.03, 0.06, 0.1, 0.15, 0.2];
+
+// Agent shares sampled to bracket a step's lightness
+const SHARE_SCAN_STEPS = 20;
+
+const MIN_PROPORTION = 0.01;
+
+const isWhitePaint = (paint: Paint): boolean => paint.pigmentCodes.some(code => /^PW\d/.test(code))
+  || paint.name.toLowerCase().includes('white');
+
+const isBlackPaint = (paint: Paint): boolean => paint.pigmentCodes.some(code => code.toUpperCase().startsWith('PBK'));
+
+const hueDifference = (a: number, b: number): number => {
+  const difference = Math.abs(a - b) % 360;
+  return difference > 180 ? 360 - difference : difference;
+};
+
+/**
+ * CIE L* of a neutral at a Munsell value
+ */
+export const valueToLightness = (value: number): number => munsellToLab({ hue: 'N', value, chroma: 0 })!.L;
+
+// Combines paints, adding up the proportions of any paint listed twice
+const mergeComponents = (components: PaintComponent[]): PaintComponent[] => {
+  const merged = new Map<string, PaintComponent>();
+  components.forEach(({ paint, proportion }) => {
+    const entry = merged.get(paint.id);
+    merged.set(paint.id, { paint, proportion: (entry?.proportion || 0) + proportion });
+  });
+  const total = Array.from(merged.values()).reduce((sum, component) => sum + component.proportion, 0) || 1;
+  return Array.from(merged.values())
+    .map(component => ({ ...component, proportion: component.proportion / total }))
+    .filter(component => component.proportion >= MIN_PROPORTION);
+};
+
+// The base mixed with an agent, the agent making up a share t
+const blend = (base: PaintComponent[], agent: PaintComponent[], t: number): PaintComponent[] => mergeComponents([
+  ...base.map(component => ({ ...component, proportion: component.proportion * (1 - t) })),
+  ...agent.map(component => ({ ...component, proportion: component.proportion * t }))
+]);
+
+/**
+ * Picks the white to lighten with, preferring titanium (PW6)
+ */
+export const findWhite = (paints: Paint[]): Paint | null =>
+  paints.find(paint => paint.pigmentCodes.includes('PW6'))
+  || paints.find(isWhitePaint)
+  || null;
+
+// Lowest-scoring candidate, or null when there are none
+const lowest = <T extends { score: number }>(candidates: T[]): T | null =>
+  candidates.reduce<T | null>((best, candidate) => (!best || candidate.score < best.score ? candidate : best), null);
+
+/**
+ * Finds the two-paint mix of non-black paints that makes the darkest, most
+ * neutral chromatic black
+ */
+export const findChromaticBlack = (paints: Paint[], illuminant: IlluminantId = 'D65'): PaintComponent[] | null => {
+  const dark = paints.filter(paint => !isWhitePaint(paint) && !isBlackPaint(paint)
+    && mixPaints([{ paint, proportion: 1 }], illuminant).L < 50);
+
+  const candidates: { components: PaintComponent[]; score: number }[] = [];
+  dark.forEach((first, i) => dark.slice(i + 1).forEach(second => [0.3, 0.4, 0.5, 0.6, 0.7].forEach(ratio => {
+    const components = [{ paint: first, proportion: ratio }, { paint: second, proportion: 1 - ratio }];
+    const lab = mixPaints(components, illuminant);
+    candidates.push({ components, score: lab.L + 2 * calculateChroma(lab) });
+  })));
+
+  return lowest(candidates)?.components || null;
+};
+
+/**
+ * Finds the paint roughly opposite the base color that greys it most when
+ * mixed half and half
+ */
+export const findComplement = (base: PaintComponent[], paints: Paint[], illuminant: IlluminantId = 'D65'): Paint | null => {
+  const baseHue = calculateHueAngle(mixPaints(base, illuminant));
+  const baseIds = new Set(base.map(component => component.paint.id));
+
+  const candidates = paints
+    .filter(paint => !baseIds.has(paint.id) && !isWhitePaint(paint) && !isBlackPaint(paint))
+    .filter(paint => {
+      const lab = mixPaints([{ paint, proportion: 1 }], illuminant);
+      return calculateChroma(lab) >= 15 && hueDifference(calculateHueAngle(lab), baseHue) >= 135;
+    })
+    .map(paint => ({
+      paint,
+      score: calculateChroma(mixPaints(blend(base, [{ paint, proportion: 1 }], 0.5), illuminant))
+    }));
+
+  return lowest(candidates)?.paint || null;
+};
+
+// Signed hue difference from b to a, in degrees (-180, 180]
+const signedHueDifference = (a: number, b: number): number => ((a - b + 540) % 360) - 180;
+
+// Chromatic paints closest in hue to the base on either side, for pulling
+// drifting steps back; paints with the base's own pigments cannot help
+const findCorrectors = (base: PaintComponent[], baseHue: number, paints: Paint[], illuminant: IlluminantId): Paint[] => {
+  const basePigments = new Set(base.map(component => component.paint.pigmentCodes.slice().sort().join('+')));
+
+  const candidates = paints
+    .filter(paint => !basePigments.has(paint.pigmentCodes.slice().sort().join('+')))
+    .filter(paint => !isWhitePaint(paint) && !isBlackPaint(paint))
+    .map(paint => ({ paint, lab: mixPaints([{ paint, proportion: 1 }], illuminant) }))
+    .filter(({ lab }) => calculateChroma(lab) >= 20)
+    .map(({ paint, lab }) => ({ paint, difference: signedHueDifference(calculateHueAngle(lab), baseHue) }))
+    .filter(({ difference }) => Math.abs(difference) <= CORRECTOR_HUE_RANGE);
+
+  return [
+    lowest(candidates.filter(({ difference }) => difference > 0).map(({ paint, difference }) => ({ paint, score: difference }))),
+    lowest(candidates.filter(({ difference }) => difference <= 0).map(({ paint, difference }) => ({ paint, score: -difference })))
+  ].filter((candidate): candidate is { paint: Paint; score: number } => candidate !== null)
+    .map(candidate => candidate.paint);
+};
+
+/**
+ * Agent share whose mix lands on a lightness. Mixes can be darker than
+ * either paint, so a coarse scan brackets the first crossing before
+ * bisecting; without a crossing the closest share is used.
+ */
+export const solveAgentShare = (lightnessAt: (share: number) => number, targetL: number): { share: number; reached: boolean } => {
+  const samples = Array.from({ length: SHARE_SCAN_STEPS + 1 }, (_, i) => i / SHARE_SCAN_STEPS)
+    .map(share => ({ share, error: lightnessAt(share) - targetL }));
+
+  const crossing = samples.findIndex((sample, i) => i > 0 && Math.sign(sample.error) !== Math.sign(samples[0].error));
+  if (crossing < 0) {
+    const closest = samples.reduce((best, sample) => (Math.abs(sample.error) < Math.abs(best.error) ? sample : best));
+    return { share: closest.share, reached: Math.abs(closest.error) <= LIGHTNESS_TOLERANCE };
+  }
+
+  let low = samples[crossing - 1].share;
+  let high = samples[crossing].share;
+  const lowSign = Math.sign(samples[crossing - 1].error);
+  for (let i = 0; i < 25; i++) {
+    const mid = (low + high) / 2;
+    if (Math.sign(lightnessAt(mid) - targetL) === lowSign) low = mid;
+    else high = mid;
+  }
+  // A crossing can be a jump, e.g. where a tiny share drops out of the mix
+  const share = (low + high) / 2;
+  return { share, reached: Math.abs(lightnessAt(share) - targetL) <= LIGHTNESS_TOLERANCE };
+};
+
+// The step a perfect mix would land on: the given lightness and the mix's chroma at the base hue
+const idealStep = (lab: LABColor, lightness: number, baseHue: number, isChromatic: boolean): LABColor => {
+  if (!isChromatic) return { L: lightness, a: 0, b: 0 };
+  const chroma = calculateChroma(lab);
+  const angle = baseHue * Math.PI / 180;
+  return { L: lightness, a: chroma * Math.cos(angle), b: chroma * Math.sin(angle) };
+};
+
+/**
+ * Builds a Reilly-style value string from a paint or recipe: one mix per
+ * Munsell value step, each nudged back to the base color's hue with
+ * corrector paints when the lightening or darkening agent pulls it away
+ */
+export const buildValueLadder = (
+  base: PaintComponent[],
+  paints: Paint[],
+  options: { mode: LadderMode; steps: LadderStepCount; illuminant?: IlluminantId; deltaE?: DeltaEOptions }
+): ValueLadder | null => {
+  const illuminant = options.illuminant || 'D65';
+  const deltaEOptions = options.deltaE || DEFAULT_DELTA_E_OPTIONS;
+  const baseComponents = mergeComponents(base);
+  if (baseComponents.length === 0) return null;
+
+  const baseLab = mixPaints(baseComponents, illuminant);
+  const baseHue = calculateHueAngle(baseLab);
+  const baseValue = labToMunsell(baseLab).value;
+  const isChromatic = calculateChroma(baseLab) >= NEUTRAL_CHROMA;
+
+  // Agents that step the value up and down
+  const white = options.mode === 'chromatic-black' ? null : findWhite(paints);
+  let darken: PaintComponent[] | null = null;
+  if (options.mode === 'chromatic-black') {
+    darken = findChromaticBlack(paints, illuminant);
+  } else if (options.mode === 'complement') {
+    const complement = findComplement(baseComponents, paints, illuminant);
+    darken = complement ? [{ paint: complement, proportion: 1 }] : null;
+  }
+  if (options.mode !== 'chromatic-black' && !white) return null;
+  if (options.mode !== 'white' && !darken) return null;
+
+  // Step values, lightest first, with the base on the step nearest its own value
+  const count = options.steps;
+  let values: number[];
+  if (options.mode === 'white') {
+    values = Array.from({ length: count }, (_, i) => TINT_TOP_VALUE - i * (TINT_TOP_VALUE - baseValue) / (count - 1));
+  } else if (options.mode === 'chromatic-black') {
+    const bottom = Math.min(baseValue, labToMunsell(mixPaints(darken!, illuminant)).value);
+    values = Array.from({ length: count }, (_, i) => baseValue - i * (baseValue - bottom) / (count - 1));
+  } else {
+    const [low, high] = FULL_STRING_VALUES[count];
+    values = Array.from({ length: count }, (_, i) => high - i * (high - low) / (count - 1));
+  }
+  const baseIndex = values.reduce((nearest, value, i) =>
+    Math.abs(value - baseValue) < Math.abs(values[nearest] - baseValue) ? i : nearest, 0);
+
+  const correctors = isChromatic ? findCorrectors(baseComponents, baseHue, paints, illuminant) : [];
+
+  const makeStep = (value: number, isBase: boolean): LadderStep => {
+    let components = baseComponents;
+    let reachable = true;
+
+    if (!isBase) {
+      const targetL = valueToLightness(value);
+      const agent = targetL > baseLab.L ? [{ paint: white!, proportion: 1 }] : darken!;
+
+      // Mix for a corrector share, with the agent share set to reach the step's lightness
+      const solve = (corrected: PaintComponent[]) => {
+        const { share, reached } = solveAgentShare(t => mixPaints(blend(corrected, agent, t), illuminant).L, targetL);
+        const mix = blend(corrected, agent, share);
+        const lab = mixPaints(mix, illuminant);
+        return { mix, reached, drift: colorDifference(idealStep(lab, targetL, baseHue, isChromatic), lab, deltaEOptions) };
+      };
+
+      let best = solve(baseComponents);
+
+      // Hold hue with a touch of a corrector, keeping the base paint dominant
+      if (isChromatic && hueDifference(calculateHueAngle(mixPaints(best.mix, illuminant)), baseHue) > HUE_TOLERANCE) {
+        correctors.forEach(corrector => CORRECTOR_SHARES.forEach(share => {
+          const candidate = solve(blend(baseComponents, [{ paint: corrector, proportion: 1 }], share));
+          if (candidate.drift < best.drift) best = candidate;
+        }));
+      }
+
+      components = best.mix;
+      reachable = best.reached;
+    }
+
+    const lab = mixPaints(components, illuminant);
+    return {
+      value,
+      lab,
+      hex: rgbToHex(labToRgb(lab, illuminant)),
+      munsell: labToMunsell(lab),
+      paints: components,
+      driftDeltaE: isBase ? 0 : colorDifference(idealStep(lab, valueToLightness(value), baseHue, isChromatic), lab, deltaEOptions),
+      hueShift: isChromatic ? hueDifference(calculateHueAngle(lab), baseHue) : 0,
+      isBase,
+      reachable
+    };
+  };
+
+  return {
+    mode: options.mode,
+    agents: { lighten: white ? [white] : [], darken: darken ? darken.map(component => component.paint) : [] },
+    correctors,
+    steps: values.map((value, i) => makeStep(i === baseIndex ? baseValue : value, i === baseIndex))
+  };
+};
@@ -0,0 +1,7 @@
+/**
+ * Starts a recipe search worker. Kept apart from the client so the bundler
+ * can see the worker URL while tests, which have no import.meta, load the
+ * client without it
+ */
+export const createRecipeSearchWorker = (): Worker =>
+  new Worker(new URL('./recipeSearch.worker.ts', import.meta.url));
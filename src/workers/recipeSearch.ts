@@ -0,0 +1,152 @@
+import { MixingRecipe, Paint } from '../context/PaintContext';
+import { IlluminantId } from '../data/illuminants';
+import { DeltaEOptions } from '../utils/colorDifference';
+import { assessMetamerism } from '../utils/metamerism';
+import {
+  MixingDiagnostics,
+  MixingEngineId,
+  MixingProgress,
+  MixingRequest,
+  MixingResult,
+  runMixingEngine
+} from '../utils/mixingEngine';
+import { buildGreyScale, findNeutralMixes, GreyScale, NeutralBias, NeutralMix } from '../utils/neutralMixing';
+import { LadderStepCount } from '../utils/valueLadder';
+
+// Everything in a mixing request that survives structured cloning
+export type RecipeSearchRequest = Omit<MixingRequest, 'onProgress'>;
+
+// Cancelling sets to balance to a grey at a Munsell value
+export interface NeutralSearchRequest {
+  paints: Paint[];
+  bias: NeutralBias;
+  value: number;
+  illuminant: IlluminantId;
+  deltaE: DeltaEOptions;
+}
+
+// A grey scale rebalanced from one cancelling set
+export interface GreyScaleRequest {
+  set: Paint[];
+  paints: Paint[];
+  bias: NeutralBias;
+  steps: LadderStepCount;
+  illuminant: IlluminantId;
+  deltaE: DeltaEOptions;
+}
+
+// Main thread -> worker
+export interface RecipeSearchStartMessage {
+  type: 'search';
+  requestId: number;
+  engine: MixingEngineId;
+  request: RecipeSearchRequest;
+}
+
+export interface NeutralSearchStartMessage {
+  type: 'neutrals';
+  requestId: number;
+  request: NeutralSearchRequest;
+}
+
+export interface GreyScaleStartMessage {
+  type: 'grey-scale';
+  requestId: number;
+  request: GreyScaleRequest;
+}
+
+export type SearchStartMessage = RecipeSearchStartMessage | NeutralSearchStartMessage | GreyScaleStartMessage;
+
+// Worker -> main thread
+export interface RecipeSearchProgressMessage {
+  type: 'progress';
+  requestId: number;
+  fraction: number;
+  recipes: MixingRecipe[];
+}
+
+export interface RecipeSearchResultMessage {
+  type: 'result';
+  requestId: number;
+  recipes: MixingRecipe[];
+  diagnostics: MixingDiagnostics;
+}
+
+export interface NeutralSearchResultMessage {
+  type: 'neutrals';
+  requestId: number;
+  mixes: NeutralMix[];
+}
+
+export interface GreyScaleResultMessage {
+  type: 'grey-scale';
+  requestId: number;
+  scale: GreyScale;
+}
+
+export interface RecipeSearchErrorMessage {
+  type: 'error';
+  requestId: number;
+  message: string;
+}
+
+export type RecipeSearchResponse =
+  | RecipeSearchProgressMessage
+  | RecipeSearchResultMessage
+  | NeutralSearchResultMessage
+  | GreyScaleResultMessage
+  | RecipeSearchErrorMessage;
+
+/**
+ * Runs a recipe search and checks the final recipes for metamerism; shared
+ * by the worker and the main-thread fallback
+ */
+export const runRecipeSearch = (
+  engine: MixingEngineId,
+  request: RecipeSearchRequest,
+  onProgress?: (progress: MixingProgress) => void
+): MixingResult => {
+  const { recipes, diagnostics } = runMixingEngine(engine, { ...request, onProgress });
+
+  return {
+    recipes: recipes.map(recipe => ({
+      ...recipe,
+      metamerism: assessMetamerism(recipe.paints, request.target, request.illuminant, request.deltaE)
+    })),
+    diagnostics
+  };
+};
+
+export const runNeutralSearch = ({ paints, ...options }: NeutralSearchRequest): NeutralMix[] =>
+  findNeutralMixes(paints, options);
+
+export const runGreyScale = ({ set, paints, ...options }: GreyScaleRequest): GreyScale =>
+  buildGreyScale(set, paints, options);
+
+/**
+ * Runs the search a message asks for and posts its progress and result;
+ * the worker's whole message handler
+ */
+export const respondToSearch = (message: SearchStartMessage, post: (response: RecipeSearchResponse) => void) => {
+  const { requestId } = message;
+
+  try {
+    switch (message.type) {
+      case 'search': {
+        const { recipes, diagnostics } = runRecipeSearch(message.engine, message.request, progress => {
+          post({ type: 'progress', requestId, ...progress });
+        });
+        post({ type: 'result', requestId, recipes, diagnostics });
+        break;
+      }
+      case 'neutrals':
+        post({ type: 'neutrals', requestId, mixes: runNeutralSearch(message.request) });
+        break;
+      case 'grey-scale':
+        post({ type: 'grey-scale', requestId, scale: runGreyScale(message.request) });
+        break;
+    }
+  } catch (error) {
+    post({ type: 'error', requestId, message: (error as Error).message || 'Search failed' });
+  }
+};
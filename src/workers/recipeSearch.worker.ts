@@ -0,0 +1,10 @@
+import { RecipeSearchResponse, respondToSearch, SearchStartMessage } from './recipeSearch';
+
+// The worker global, typed to the search protocol
+const worker = globalThis as unknown as {
+  onmessage: ((event: MessageEvent<SearchStartMessage>) => void) | null;
+  postMessage: (message: RecipeSearchResponse) => void;
+};
+
+// Searches run to completion; stale ones are cancelled by terminating the worker
+worker.onmessage = event => respondToSearch(event.data, response => worker.postMessage(response));
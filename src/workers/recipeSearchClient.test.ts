@@ -0,0 +1,73 @@
+import { getAllPaints } from '../data/paintDatabase';
+import { DEFAULT_DELTA_E_OPTIONS } from '../utils/colorDifference';
+import { paint } from '../testing/paints';
+import { installMockSearchWorker, MockSearchWorker } from '../testing/searchWorker';
+import { NeutralSearchRequest, RecipeSearchRequest } from './recipeSearch';
+import { createRecipeSearchClient } from './recipeSearchClient';
+
+jest.mock('./createRecipeSearchWorker', () => require('../testing/searchWorker'));
+
+const request: RecipeSearchRequest = {
+  target: { L: 55, a: -20, b: 25 },
+  paints: getAllPaints().filter(paint => ['wn-titanium-white', 'wn-cadmium-yellow-pale', 'wn-french-ultramarine', 'wn-phthalo-blue'].includes(paint.id)),
+  constraints: { maxComponents: 3, maxRecipes: 3 },
+  illuminant: 'D65',
+  deltaE: DEFAULT_DELTA_E_OPTIONS
+};
+
+const neutralRequest: NeutralSearchRequest = {
+  paints: ['wn-titanium-white', 'wn-french-ultramarine', 'wn-burnt-sienna'].map(paint),
+  bias: 'cool',
+  value: 5,
+  illuminant: 'D65',
+  deltaE: DEFAULT_DELTA_E_OPTIONS
+};
+
+describe('createRecipeSearchClient', () => {
+  installMockSearchWorker();
+
+  it('points every paint in returned recipes at a single rendered paint', async () => {
+    const client = createRecipeSearchClient();
+    const result = await client.search('exhaustive', request);
+    client.dispose();
+
+    const mixed = result!.recipes.find(recipe => recipe.paints.length > 1)!;
+    const robustness = mixed.robustness!;
+    robustness.componentDeltaE.forEach((component, i) => {
+      expect(component.paint).toBe(mixed.paints[i].paint);
+    });
+    expect(mixed.paints.map(component => component.paint)).toContain(robustness.mostSensitive);
+  });
+
+  it('resolves a superseded search with null', async () => {
+    const client = createRecipeSearchClient();
+    const first = client.search('heuristic', request);
+    const second = client.search('heuristic', { ...request, target: { L: 40, a: 10, b: 10 } });
+
+    await expect(first).resolves.toBeNull();
+    await expect(second).resolves.not.toBeNull();
+    client.dispose();
+  });
+
+  it('finds neutral mixes and builds their grey scale in the worker', async () => {
+    const client = createRecipeSearchClient();
+    const mixes = await client.findNeutralMixes(neutralRequest);
+    const scale = await client.buildGreyScale({ ...neutralRequest, set: mixes![0].paints, steps: 7 });
+    client.dispose();
+
+    expect(MockSearchWorker.searches.map(search => search.type)).toEqual(['neutrals', 'grey-scale']);
+    expect(mixes![0].paints.map(candidate => candidate.id).sort()).toEqual(['wn-burnt-sienna', 'wn-french-ultramarine']);
+    expect(scale!.steps).toHaveLength(7);
+    expect(scale!.white!.id).toBe('wn-titanium-white');
+  });
+
+  it('lets a recipe search supersede a neutral one', async () => {
+    const client = createRecipeSearchClient();
+    const neutrals = client.findNeutralMixes(neutralRequest);
+    const recipes = client.search('heuristic', request);
+
+    await expect(neutrals).resolves.toBeNull();
+    await expect(recipes).resolves.not.toBeNull();
+    client.dispose();
+  });
+});
@@ -0,0 +1,197 @@
+import { MixingRecipe, Paint } from '../context/PaintContext';
+import { IlluminantId } from '../data/illuminants';
+import { MixingEngineId, MixingProgress, MixingResult } from '../utils/mixingEngine';
+import { GreyScale, NeutralMix } from '../utils/neutralMixing';
+import { renderPaint } from '../utils/spectral';
+import { createRecipeSearchWorker } from './createRecipeSearchWorker';
+import {
+  GreyScaleRequest,
+  NeutralSearchRequest,
+  RecipeSearchRequest,
+  RecipeSearchResponse,
+  runGreyScale,
+  runNeutralSearch,
+  runRecipeSearch,
+  SearchStartMessage
+} from './recipeSearch';
+
+export interface RecipeSearchClient {
+  // Resolves with null when the search is superseded or cancelled
+  search: (
+    engine: MixingEngineId,
+    request: RecipeSearchRequest,
+    onProgress?: (progress: MixingProgress) => void
+  ) => Promise<MixingResult | null>;
+  findNeutralMixes: (request: NeutralSearchRequest) => Promise<NeutralMix[] | null>;
+  buildGreyScale: (request: GreyScaleRequest) => Promise<GreyScale | null>;
+  cancel: () => void;
+  dispose: () => void;
+}
+
+interface PendingSearch {
+  requestId: number;
+  key: string;
+  promise: Promise<unknown>;
+  receive: (message: RecipeSearchResponse) => void; // Progress and result messages
+  resolveNull: () => void;
+  reject: (error: Error) => void;
+}
+
+// Identifies a search, so repeated requests for the same one share its result
+const searchKey = <R extends { paints: Paint[] }>(type: SearchStartMessage['type'], request: R): string =>
+  JSON.stringify({ type, ...request, paints: request.paints.map(paint => paint.id) });
+
+/**
+ * Runs recipe and neutral searches in a Web Worker, one at a time. Starting a
+ * new search cancels the one in flight by terminating its worker, since a
+ * running search never yields to read messages. Falls back to the main thread
+ * where workers are unavailable.
+ */
+export const createRecipeSearchClient = (): RecipeSearchClient => {
+  let worker: Worker | null = null;
+  let pending: PendingSearch | null = null;
+  let nextRequestId = 1;
+
+  // Recipes come back as clones; point every paint they mention, including
+  // those in the robustness report, at this thread's rendered paints
+  const rehydrate = (recipes: MixingRecipe[], paints: Map<string, Paint>, illuminant: IlluminantId): MixingRecipe[] => {
+    const rendered = new Map<string, Paint>();
+    const toPaint = (clone: Paint): Paint => {
+      const source = paints.get(clone.id);
+      if (!source) return clone;
+      if (!rendered.has(clone.id)) rendered.set(clone.id, renderPaint(source, illuminant));
+      return rendered.get(clone.id)!;
+    };
+
+    return recipes.map(recipe => ({
+      ...recipe,
+      paints: recipe.paints.map(component => ({ ...component, paint: toPaint(component.paint) })),
+      robustness: recipe.robustness && {
+        ...recipe.robustness,
+        componentDeltaE: recipe.robustness.componentDeltaE.map(component => ({ ...component, paint: toPaint(component.paint) })),
+        mostSensitive: recipe.robustness.mostSensitive && toPaint(recipe.robustness.mostSensitive)
+      }
+    }));
+  };
+
+  const handleMessage = (event: MessageEvent<RecipeSearchResponse>) => {
+    const message = event.data;
+    const search = pending;
+    if (!search || message.requestId !== search.requestId) return; // Stale
+
+    if (message.type !== 'progress') pending = null;
+    if (message.type === 'error') {
+      search.reject(new Error(message.message));
+    } else {
+      search.receive(message);
+    }
+  };
+
+  const getWorker = (): Worker => {
+    if (!worker) {
+      worker = createRecipeSearchWorker();
+      worker.onmessage = handleMessage;
+      worker.onerror = event => {
+        const search = pending;
+        pending = null;
+        worker?.terminate();
+        worker = null;
+        search?.reject(new Error(event.message || 'Recipe search worker failed'));
+      };
+    }
+    return worker;
+  };
+
+  const cancel = () => {
+    if (!pending) return;
+    const search = pending;
+    pending = null;
+    worker?.terminate();
+    worker = null;
+    search.resolveNull();
+  };
+
+  // Starts a search in the worker, or on this thread without one; receive
+  // settles it from the worker's messages
+  const start = <T>(
+    key: string,
+    message: (requestId: number) => SearchStartMessage,
+    runHere: () => T,
+    receive: (message: RecipeSearchResponse, resolve: (result: T) => void) => void
+  ): Promise<T | null> => {
+    if (pending && pending.key === key) {
+      return pending.promise as Promise<T | null>;
+    }
+    cancel();
+
+    if (typeof Worker === 'undefined') {
+      try {
+        return Promise.resolve(runHere());
+      } catch (error) {
+        return Promise.reject(error);
+      }
+    }
+
+    const requestId = nextRequestId++;
+    let resolve: (result: T | null) => void = () => undefined;
+    let reject: PendingSearch['reject'] = () => undefined;
+    const promise = new Promise<T | null>((res, rej) => {
+      resolve = res;
+      reject = rej;
+    });
+
+    pending = {
+      requestId,
+      key,
+      promise,
+      receive: response => receive(response, resolve),
+      resolveNull: () => resolve(null),
+      reject
+    };
+    getWorker().postMessage(message(requestId));
+
+    return promise;
+  };
+
+  const search: RecipeSearchClient['search'] = (engine, request, onProgress) => {
+    const paints = new Map(request.paints.map(paint => [paint.id, paint])); // For rehydrating recipes
+    return start(
+      searchKey('search', { engine, ...request }),
+      requestId => ({ type: 'search', requestId, engine, request }),
+      () => runRecipeSearch(engine, request, onProgress),
+      (message, resolve) => {
+        if (message.type === 'progress') {
+          onProgress?.({ fraction: message.fraction, recipes: rehydrate(message.recipes, paints, request.illuminant) });
+        } else if (message.type === 'result') {
+          resolve({ recipes: rehydrate(message.recipes, paints, request.illuminant), diagnostics: message.diagnostics });
+        }
+      }
+    );
+  };
+
+  const findNeutralMixes: RecipeSearchClient['findNeutralMixes'] = request => start(
+    searchKey('neutrals', request),
+    requestId => ({ type: 'neutrals', requestId, request }),
+    () => runNeutralSearch(request),
+    (message, resolve) => {
+      if (message.type === 'neutrals') resolve(message.mixes);
+    }
+  );
+
+  const buildGreyScale: RecipeSearchClient['buildGreyScale'] = request => start(
+    searchKey('grey-scale', { ...request, set: request.set.map(paint => paint.id) }),
+    requestId => ({ type: 'grey-scale', requestId, request }),
+    () => runGreyScale(request),
+    (message, resolve) => {
+      if (message.type === 'grey-scale') resolve(message.scale);
+    }
+  );
+
+  const dispose = () => {
+    cancel();
+    worker?.terminate();
+    worker = null;
+  };
+
+  return { search, findNeutralMixes, buildGreyScale, cancel, dispose };
+};